@@ -3,7 +3,7 @@ import { HamiltonianPlayer, TrackPair } from './player/HamiltonianPlayer';
 import type { PlayerState } from './player/HamiltonianPlayer';
 import { songs } from '../src';
 import type { Key, Tempo } from '../src';
-import { ALL_TEMPOS } from '../src';
+import { ALL_TEMPOS, ALL_KEYS } from '../src';
 import { SettingsModal } from './components/SettingsModal';
 
 const KEY_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
@@ -342,11 +342,11 @@ function App(): React.ReactElement {
       <div className="strip">
         <div className="strip-label">KEY</div>
         <div className="strip-buttons">
-          {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((key) => (
+          {ALL_KEYS.map((key) => (
             <button
               key={key}
               className={`strip-btn ${playerState.key === key ? 'active' : ''}`}
-              onClick={() => handleKeyChange(key as Key)}
+              onClick={() => handleKeyChange(key)}
             >
               {KEY_NAMES[key - 1]}
             </button>
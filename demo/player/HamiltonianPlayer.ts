@@ -4,27 +4,68 @@
  * Manages playback of song pairs (2 songs playing simultaneously) using Kwyjibo's progression:
  * - Each pair = 2 songs at same tempo playing intro+main simultaneously
  * - Start at random tempo (84, 94, or 102)
- * - Play 10 pairs, one per key (Key 1→2→3...→10) at current tempo
- * - After 10 keys, switch to next tempo up (84→94→102→84→...)
+ * - Play a block of pairs at the current tempo, stepping chromatically through
+ *   all 12 keys with a weighted key cycle (keys with more songs at the tempo get
+ *   more pairs, keys without songs are skipped)
+ * - Blocks are fair shares of a 45-pair cycle (more songs at a tempo = longer
+ *   block); after each block, switch to next tempo up (84→94→102→84→...)
+ *   and pick up that tempo's key cycle where its last block stopped
  * - Uses single Hamiltonian path through all 273 songs
  * - Repeat forever with auto-reshuffle
  *
  * Ensures perfect timing and seamless transitions using Web Audio API.
  */
 
-import type { Song, Key, Tempo, TrackType } from '@/music/types';
-import { BEAT_COUNTS, ALL_TEMPOS } from '@/music/types';
+import type { Song, Key, Tempo, Layer, LayerRole, LayeredSet } from '@/music/types';
+import { ALL_TEMPOS, ALL_KEYS } from '@/music/types';
+import { getBuiltInStrategy } from '@/music/HarmonicScoring';
+import type { HarmonicScoringStrategy } from '@/music/HarmonicScoring';
+import { musicalKey, transposeKey } from '@/music/MusicalKey';
+import { PAIR_WITH_HIDDEN_LAYOUT, getLayerKey } from '@/music/LayeredSet';
+import { createDefaultScoringPipeline, RandomVarianceScorer, getPairId } from '@/music/SongScoring';
+import type { ScoringContext, ScoringPipeline } from '@/music/SongScoring';
+import type { PairRules } from '@/music/PairRules';
 import { MUSIC_BASE_URL } from '../config';
-import { EnhancedRandom } from '@/random/EnhancedRandom';
+import { getQuantumRandom } from '@/random/QuantumRandom';
+import type { RandomSource } from '@/random/types';
 import { encodeWAV } from '@/utils/wavEncoder';
+import { getFairShares } from '@/music/TempoManager';
+import { MixOptimizer } from '@/music/MixOptimizer';
+import { ProgressionRunner } from '@/music/ProgressionScript';
+import type { ProgressionScript } from '@/music/ProgressionScript';
+import type { MixOptimizerOptions, MixOptimizationResult } from '@/music/MixOptimizer';
+import { getTrackDuration } from '@/music/TimedSet';
 
 /**
- * Calculate the duration in seconds for a track at a given tempo.
+ * Keys of hidden tracks 3 and 4: a perfect fifth and a perfect fourth
+ * above the pair key (the hidden layers of PAIR_WITH_HIDDEN_LAYOUT).
  */
-function calculateTrackDuration(tempo: Tempo, type: TrackType): number {
-  const secondsPerBeat = 60 / tempo;
-  const beats = BEAT_COUNTS[type];
-  return beats * secondsPerBeat;
+function getHiddenTrackKeys(key: Key): [Key, Key] {
+  const [key3, key4] = PAIR_WITH_HIDDEN_LAYOUT.filter((spec) => spec.role === 'hidden').map(
+    (spec) => getLayerKey(musicalKey(key), spec).key
+  );
+  return [key3!, key4!];
+}
+
+/**
+ * Chromatic key cycle (1 → 12) for one tempo, weighted by song count:
+ * each key with songs at the tempo appears once per average share of songs
+ * (at least once), keys without songs are left out.
+ *
+ * Example:
+ *   // 24 songs at 94 BPM, key 1 has 4 of them, key 2 has 2, key 3 has none...
+ *   buildKeyCycle(songs, 94); // [1, 1, 2, 4, 5, ...]
+ */
+function buildKeyCycle(songs: readonly Song[], tempo: Tempo): Key[] {
+  const counts = ALL_KEYS.map((key) => songs.filter((s) => s.bpm === tempo && s.key === key).length);
+  const keysWithSongs = counts.filter((count) => count > 0).length;
+  if (keysWithSongs === 0) return [...ALL_KEYS];
+
+  const average = counts.reduce((sum, count) => sum + count, 0) / keysWithSongs;
+  return ALL_KEYS.flatMap((key, i) => {
+    const count = counts[i]!;
+    return count === 0 ? [] : Array<Key>(Math.max(1, Math.round(count / average))).fill(key);
+  });
 }
 
 /**
@@ -55,6 +96,21 @@ export interface TrackPair {
   probability?: string; // Human-readable probability (e.g., "1 in 1.8M")
 }
 
+/**
+ * Describe a pair with the core library's layered set model
+ * (tracks 1 and 2 are main and partner, tracks 3 and 4 are hidden layers).
+ */
+export function toLayeredSet(pair: TrackPair): LayeredSet {
+  const layer = (track: Track, role: LayerRole): Layer => ({ song: track.song, role, key: musicalKey(track.key) });
+  const hidden = [pair.track3, pair.track4].filter((track): track is Track => track !== undefined);
+
+  return {
+    layers: [layer(pair.track1, 'main'), layer(pair.track2, 'partner'), ...hidden.map((track) => layer(track, 'hidden'))],
+    key: musicalKey(pair.key),
+    tempo: pair.tempo,
+  };
+}
+
 /**
  * Player state.
  */
@@ -90,6 +146,37 @@ export interface PlayerEvents {
 
 type EventListener<T> = (data: T) => void;
 
+/**
+ * Pairs in one cycle through every tempo. Keeps the block lengths of the
+ * original heuristic (10 pairs at the tempo with the fewest songs, the others
+ * in proportion): 21/10/14 pairs at 84/94/102 BPM on the full library.
+ */
+const TEMPO_CYCLE_PAIRS = 45;
+
+/**
+ * Harmonic approaches picked at random per candidate (circle of fifths,
+ * pentatonic, modal, tritone, extended, chromatic).
+ */
+const HARMONIC_APPROACHES: readonly HarmonicScoringStrategy[] = [
+  getBuiltInStrategy('circle-of-fifths'),
+  getBuiltInStrategy('pentatonic'),
+  getBuiltInStrategy('modal'),
+  getBuiltInStrategy('tritone'),
+  getBuiltInStrategy('extended'),
+  getBuiltInStrategy('chromatic'),
+];
+
+/**
+ * Like Chordant: score each candidate with a randomly picked harmonic approach.
+ */
+function createRandomApproach(random: RandomSource): HarmonicScoringStrategy {
+  return {
+    name: 'random-approach',
+    score: (from, to) =>
+      HARMONIC_APPROACHES[Math.floor(random.nextFloat('harmonic-approach') * HARMONIC_APPROACHES.length)]!.score(from, to),
+  };
+}
+
 interface ProgressionEntry {
   key: Key;
   tempo: Tempo;
@@ -125,12 +212,16 @@ export class HamiltonianPlayer {
   private hiddenTrackSwitchTimeout: number | null = null; // Timeout that sets up the interval
   private playedSongIds: Set<number> = new Set(); // Track which songs have been played
   private playedPairs: Set<string> = new Set(); // Track which pairs have been played (never repeat)
+  private pairRules: PairRules | null = null; // Songs and artists that must never be paired
+  private tempoBlock: { tempo: Tempo; songs: Song[] } | null = null; // Songs picked since the tempo last changed
   private pendingLoads: Map<string, Promise<AudioBuffer>> = new Map(); // Track in-progress loads to prevent duplicates
   private recentArtists: string[] = []; // Track recent artists for diversity
   private recentSongs: Song[] = []; // Track recently played songs
   private scheduledPairsCount: number = 0; // Track how many pairs are scheduled ahead
   private readonly MAX_SCHEDULED_PAIRS = 1; // Limit scheduling to prevent memory issues on iOS
-  private qrng: EnhancedRandom; // Enhanced random number generator with chaotic behavior
+  private qrng: RandomSource; // Every random decision goes through this (seed it to replay a mix)
+  private randomApproach: HarmonicScoringStrategy; // Harmonic approach picked per candidate
+  private songScoring: ScoringPipeline; // Standard factors plus heavy random variance (chaos within constraints)
   private tempoPairCounts: Map<Tempo, number> = new Map(); // Weighted pair counts per tempo for equal distribution
 
   // Combination space per tempo (for rarity calculation)
@@ -164,9 +255,11 @@ export class HamiltonianPlayer {
   private precomputedPlaylist: TrackPair[] | null = null;
   private precomputedIndex: number = 0;
 
-  constructor(songs: Song[], initialKey?: Key, initialTempo?: Tempo) {
+  constructor(songs: Song[], initialKey?: Key, initialTempo?: Tempo, random: RandomSource = getQuantumRandom()) {
     this.songs = songs;
-    this.qrng = new EnhancedRandom();
+    this.qrng = random;
+    this.randomApproach = createRandomApproach(random);
+    this.songScoring = createDefaultScoringPipeline().add(new RandomVarianceScorer(80, () => random.nextFloat('random-variance')));
     this.hamiltonianPath = [...songs]; // Will be shuffled in init()
 
     // Initialize path indexes for each tempo
@@ -174,24 +267,9 @@ export class HamiltonianPlayer {
       this.pathIndexesByTempo.set(tempo, 0);
     }
 
-    // Calculate weighted pair counts for each tempo to ensure equal song distribution
+    // Weighted pair counts per tempo for equal song distribution
     // More songs at a tempo = more pairs played at that tempo
-    const songCountsByTempo = new Map<Tempo, number>();
-    for (const tempo of ALL_TEMPOS) {
-      const count = songs.filter(s => s.bpm === tempo).length;
-      songCountsByTempo.set(tempo, count);
-    }
-
-    // Find minimum song count to use as base
-    const minSongCount = Math.min(...Array.from(songCountsByTempo.values()));
-    const basePairCount = 10; // Base number of pairs for tempo with fewest songs
-
-    // Calculate proportional pair counts
-    for (const tempo of ALL_TEMPOS) {
-      const songCount = songCountsByTempo.get(tempo) || 1;
-      const pairCount = Math.round(basePairCount * (songCount / minSongCount));
-      this.tempoPairCounts.set(tempo, pairCount);
-    }
+    this.tempoPairCounts = getFairShares(songs, TEMPO_CYCLE_PAIRS);
 
     // Store initial key/tempo for use in init
     const startKey = initialKey ?? 1 as Key;
@@ -234,10 +312,9 @@ export class HamiltonianPlayer {
     // Shuffle the Hamiltonian path with true randomness
     this.hamiltonianPath = await this.shuffleSongs([...this.songs]);
 
-    // Select random starting key (1-10) and tempo using quantum randomness
-    const VALID_KEYS: Key[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
-    const randomKey = await this.qrng.getChoice(VALID_KEYS);
-    const randomTempo = await this.qrng.getChoice(ALL_TEMPOS);
+    // Select random starting key (any of the 12) and tempo using quantum randomness
+    const randomKey = await this.qrng.getChoice(ALL_KEYS, 'start-key');
+    const randomTempo = await this.qrng.getChoice(ALL_TEMPOS, 'start-tempo');
 
     // Regenerate progression from random starting point
     this.progression = this.generateProgressionFromPoint(randomKey, randomTempo);
@@ -274,6 +351,7 @@ export class HamiltonianPlayer {
     // Reset state
     this.playedSongIds.clear();
     this.playedPairs.clear();
+    this.tempoBlock = null;
     this.recentArtists = [];
     this.recentSongs = [];
 
@@ -285,163 +363,61 @@ export class HamiltonianPlayer {
    * Shuffle songs using quantum randomness for true unpredictability.
    */
   private async shuffleSongs(songs: Song[]): Promise<Song[]> {
-    return await this.qrng.shuffle(songs);
+    return await this.qrng.shuffle(songs, 'song-order');
   }
 
   /**
-   * Check if two artists match (including substring matching).
-   * E.g., "Jay-Z" matches "Jay-Z feat. Beyoncé"
+   * Mark a pair as played.
    */
-  private artistsMatch(artist1: string, artist2: string): boolean {
-    const a1 = artist1.toLowerCase();
-    const a2 = artist2.toLowerCase();
-    return a1.includes(a2) || a2.includes(a1);
+  private markPairPlayed(song1: Song, song2: Song): void {
+    this.playedPairs.add(getPairId(song1, song2));
   }
 
   /**
-   * Create a unique pair ID for tracking.
+   * Add picked songs to the tempo block, starting a new block if the tempo changed.
    */
-  private getPairId(song1: Song, song2: Song): string {
-    const [id1, id2] = [song1.id, song2.id].sort((a, b) => a - b);
-    return `${id1}-${id2}`;
+  private addToTempoBlock(tempo: Tempo, songs: Song[]): void {
+    if (this.tempoBlock?.tempo !== tempo) {
+      this.tempoBlock = { tempo, songs: [] };
+    }
+    this.tempoBlock.songs.push(...songs);
   }
 
   /**
-   * Check if a pair has been played before.
+   * Songs picked so far in the tempo block, if it is at this tempo.
    */
-  private isPairPlayed(song1: Song, song2: Song): boolean {
-    return this.playedPairs.has(this.getPairId(song1, song2));
+  private getTempoBlock(tempo: Tempo): Song[] {
+    return this.tempoBlock?.tempo === tempo ? this.tempoBlock.songs : [];
   }
 
   /**
-   * Mark a pair as played.
+   * Whether the pair rules let a song play at a tempo together with other songs.
    */
-  private markPairPlayed(song1: Song, song2: Song): void {
-    this.playedPairs.add(this.getPairId(song1, song2));
+  private allowedByPairRules(song: Song, tempo: Tempo, together: Song[]): boolean {
+    const rules = this.pairRules;
+    if (!rules) return true;
+
+    return together.every(other => rules.canPair(song, other))
+      && this.getTempoBlock(tempo).every(other => rules.canShareTempoBlock(song, other));
   }
 
   /**
-   * Score a candidate song based on multiple factors.
-   * Higher score = better choice.
+   * Build the scoring context for a candidate search.
    */
-  private scoreSong(song: Song, tempo: Tempo, key: Key, partnerSong: Song | null, avoidArtists: string[]): number {
-    let score = 100;
-
-    // Tempo compatibility (preference for matching, but allow stretches for variety)
-    if (song.bpm === tempo) {
-      score += 60; // Strong bonus for exact tempo match
-    } else {
-      // Allow different tempos but with penalties based on distance
-      const tempoDiff = Math.abs(song.bpm - tempo);
-      if (tempoDiff <= 6) {
-        score += 20; // Close tempo (within ~6 BPM)
-      } else if (tempoDiff <= 12) {
-        score -= 10; // Moderate stretch
-      } else if (tempoDiff <= 18) {
-        score -= 30; // Bigger stretch
-      } else {
-        score -= 50; // Very distant tempo (still allowed for variety)
-      }
-    }
-
-    // Key compatibility with multiple "chord hitting" approaches for maximum diversity
-    // Like Chordant: randomly use different harmonic relationships
-    const harmonicApproach = Math.floor(Math.random() * 6); // 6 different approaches
-    const keyDiff = Math.abs(song.key - key);
-    const circularDiff = Math.min(keyDiff, 12 - keyDiff);
-
-    if (song.key === key) {
-      score += 50; // Perfect key match (always valid)
-    } else {
-      switch (harmonicApproach) {
-        case 0: // Traditional: circle of fifths
-          if (circularDiff === 5 || circularDiff === 7) score += 30; // Perfect fifth/fourth
-          else if (circularDiff === 3 || circularDiff === 4) score += 20; // Relative minor/major
-          else if (circularDiff === 2) score += 10; // Whole step
-          else score -= circularDiff * 3;
-          break;
-
-        case 1: // Pentatonic: focus on 2nd, 5th, 9th (whole tone relationships)
-          if (circularDiff === 2 || circularDiff === 5 || circularDiff === 9) score += 35; // Pentatonic intervals
-          else if (circularDiff === 7) score += 25; // Fifth
-          else score -= circularDiff * 4;
-          break;
-
-        case 2: // Modal: emphasize 2nd, 4th, 6th (modal interchange)
-          if (circularDiff === 2 || circularDiff === 4 || circularDiff === 6) score += 30; // Modal shifts
-          else if (circularDiff === 3 || circularDiff === 5) score += 20;
-          else score -= circularDiff * 3;
-          break;
-
-        case 3: // Parallel/Modal: same root different mode (tritone)
-          if (circularDiff === 6) score += 35; // Tritone substitution (jazz harmony)
-          else if (circularDiff === 3 || circularDiff === 9) score += 25; // Minor third / major sixth
-          else score -= circularDiff * 4;
-          break;
-
-        case 4: // Extended harmony: 6ths, 9ths, 11ths
-          if (circularDiff === 8 || circularDiff === 9) score += 30; // Major 6th / Major 9th
-          else if (circularDiff === 2 || circularDiff === 11) score += 25; // 2nd / 11th
-          else score -= circularDiff * 3;
-          break;
-
-        case 5: // Chromatic/Adjacent: stepwise motion
-          if (circularDiff === 1) score += 35; // Semitone (chromatic approach)
-          else if (circularDiff === 2) score += 30; // Whole tone
-          else if (circularDiff === 5 || circularDiff === 7) score += 20; // Falls back to fifths
-          else score -= circularDiff * 3;
-          break;
-      }
-    }
-
-    // Artist diversity - penalize if artist matches any in avoid list
-    for (const avoidArtist of avoidArtists) {
-      if (this.artistsMatch(song.artist, avoidArtist)) {
-        score -= 80; // Heavy penalty for artist repetition
-      }
-    }
-
-    // Partner song checks (if selecting song2)
-    if (partnerSong) {
-      // Never pair with same artist
-      if (this.artistsMatch(song.artist, partnerSong.artist)) {
-        return -1000; // Invalid
-      }
-
-      // Never repeat a pair
-      if (this.isPairPlayed(song, partnerSong)) {
-        return -1000; // Invalid
-      }
-
-      // Prefer different artists (bonus for diversity)
-      score += 30;
-    }
-
-    // Recency penalty - prefer songs not played recently
-    const recentIndex = this.recentSongs.findIndex(s => s.id === song.id);
-    if (recentIndex !== -1) {
-      // More recent = bigger penalty
-      const recencyPenalty = Math.max(0, 50 - recentIndex * 2);
-      score -= recencyPenalty;
-    }
-
-    // MASSIVE bonus for songs not played yet (ensures Hamiltonian path behavior)
-    // This bonus is large enough to overcome tempo/key mismatches and random variance
-    // Only played songs should be selected when no unplayed songs meet the constraints
-    if (!this.playedSongIds.has(song.id)) {
-      score += 200;
-    }
-
-    // Add variety factors to break ties and create more interesting selections:
-    // Brian Eno style: chaos within constraints
-
-    // INCREASED random variance for maximum chaos and unpredictability (0-80 points)
-    // Creates significant differentiation even among "identical" candidates
-    // High variance ensures songs aren't predictably chosen based on ID or other biases
-    const randomVariance = Math.random() * 80;
-    score += randomVariance;
-
-    return score;
+  private getScoringContext(tempo: Tempo, key: Key, partnerSong: Song | null, avoidArtists: string[], layeredWith: Song[] = []): ScoringContext {
+    return {
+      key: musicalKey(key),
+      tempo,
+      scoreKey: (from, to) => this.randomApproach.score(from, to),
+      partner: partnerSong,
+      layeredWith,
+      tempoBlock: this.getTempoBlock(tempo),
+      avoidArtists,
+      recentSongs: this.recentSongs,
+      isPlayed: (songId) => this.playedSongIds.has(songId),
+      isPairPlayed: (a, b) => this.playedPairs.has(getPairId(a, b)),
+      pairRules: this.pairRules ?? undefined,
+    };
   }
 
   /**
@@ -451,58 +427,51 @@ export class HamiltonianPlayer {
    * - No repeated pairs
    * - Artist diversity
    * - Recency
+   * - Pair rules (with the partner, the other layers and the tempo block)
    * Uses quantum randomness for final selection from top candidates.
    */
-  private async getNextSongSmart(tempo: Tempo, key: Key, partnerSong: Song | null = null, avoidArtists: string[] = [], avoidSongIds: number[] = []): Promise<Song> {
+  private async getNextSongSmart(tempo: Tempo, key: Key, partnerSong: Song | null = null, avoidArtists: string[] = [], avoidSongIds: number[] = [], layeredWith: Song[] = []): Promise<Song> {
     // HAMILTONIAN PATH: Prioritize unplayed songs to ensure we cycle through all songs
     const unplayedSongs = this.songs.filter(song => !this.playedSongIds.has(song.id) && !avoidSongIds.includes(song.id));
     const shouldResetPlayedSongs = unplayedSongs.length < 20;
 
+    // PAIR RULES: Never consider songs a rule keeps away from the songs playing with them
+    const together = partnerSong ? [partnerSong, ...layeredWith] : layeredWith;
+    const allowed = (songs: Song[]): Song[] => songs.filter(song => this.allowedByPairRules(song, tempo, together));
+
     // STRICT TEMPO MATCHING: Only consider songs at the exact target tempo
     // This prevents tempo mismatches (e.g., 84 BPM song with 94 BPM songs)
-    const unplayedAtTempo = unplayedSongs.filter(song => song.bpm === tempo);
-    const allSongsAtTempo = this.songs.filter(song => song.bpm === tempo && !avoidSongIds.includes(song.id));
+    const unplayedAtTempo = allowed(unplayedSongs.filter(song => song.bpm === tempo));
+    let allSongsAtTempo = allowed(this.songs.filter(song => song.bpm === tempo && !avoidSongIds.includes(song.id)));
+
+    // Every song at this tempo breaks a pair rule: set the rules aside rather than stop the mix
+    if (allSongsAtTempo.length === 0) {
+      allSongsAtTempo = this.songs.filter(song => song.bpm === tempo && !avoidSongIds.includes(song.id));
+    }
 
     // Try unplayed songs at correct tempo first (proper Hamiltonian behavior)
     let candidates = unplayedAtTempo.length > 0 ? unplayedAtTempo : allSongsAtTempo;
 
-    // Score all candidates
-    const scored = candidates
-      .map(song => ({
-        song,
-        score: this.scoreSong(song, tempo, key, partnerSong, avoidArtists)
-      }))
-      .filter(item => item.score > -1000) // Remove invalid candidates
-      .sort((a, b) => b.score - a.score); // Highest score first
+    // Score all candidates (rejected partners are dropped)
+    const context = this.getScoringContext(tempo, key, partnerSong, avoidArtists, layeredWith);
+    const scored = this.songScoring.rank(candidates, context);
 
     if (scored.length === 0) {
       // No valid candidates - try fallback strategies
       // If we were only considering unplayed songs at tempo, expand to ALL songs at tempo
       if (candidates === unplayedAtTempo && unplayedAtTempo.length > 0) {
         candidates = allSongsAtTempo;
-        const allScored = candidates
-          .map(song => ({
-            song,
-            score: this.scoreSong(song, tempo, key, partnerSong, avoidArtists)
-          }))
-          .filter(item => item.score > -1000)
-          .sort((a, b) => b.score - a.score);
+        const allScored = this.songScoring.rank(candidates, context);
 
         if (allScored.length > 0) {
           const topCandidates = allScored.slice(0, Math.min(20, allScored.length));
-          const selected = await this.qrng.getChoice(topCandidates);
+          const selected = await this.qrng.getChoice(topCandidates, 'top-candidates');
           return selected.song;
         }
       }
 
       // Try without artist avoidance
-      const relaxed = candidates
-        .map(song => ({
-          song,
-          score: this.scoreSong(song, tempo, key, partnerSong, []) // Remove artist avoidance
-        }))
-        .filter(item => item.score > -1000)
-        .sort((a, b) => b.score - a.score);
+      const relaxed = this.songScoring.rank(candidates, { ...context, avoidArtists: [] }); // Remove artist avoidance
 
       if (relaxed.length === 0) {
         // Last resort: just pick any song
@@ -511,13 +480,13 @@ export class HamiltonianPlayer {
 
       // Pick from top 20 relaxed candidates for more variety
       const topRelaxed = relaxed.slice(0, Math.min(20, relaxed.length));
-      const selected = await this.qrng.getChoice(topRelaxed);
+      const selected = await this.qrng.getChoice(topRelaxed, 'relaxed-candidates');
       return selected.song;
     }
 
     // Select from top 20 candidates using quantum randomness for maximum variety
     const topCandidates = scored.slice(0, Math.min(20, scored.length));
-    const selected = await this.qrng.getChoice(topCandidates);
+    const selected = await this.qrng.getChoice(topCandidates, 'top-candidates');
 
     // Auto-reset played songs if we're running low on unplayed songs
     // This ensures continuous Hamiltonian cycling through all songs
@@ -644,8 +613,8 @@ export class HamiltonianPlayer {
       tempo,
       introUrl: `${MUSIC_BASE_URL}${songId}-lead.${extension}`,
       mainUrl: `${MUSIC_BASE_URL}${songId}-body.${extension}`,
-      introDuration: calculateTrackDuration(tempo, 'lead'),
-      mainDuration: calculateTrackDuration(tempo, 'body'),
+      introDuration: getTrackDuration(tempo, 'lead'),
+      mainDuration: getTrackDuration(tempo, 'body'),
     };
   }
 
@@ -903,6 +872,45 @@ export class HamiltonianPlayer {
     scheduleNextSwitch(firstSwitchTime);
   }
 
+  /**
+   * Pick the next pair for a progression entry with smart selection (key, tempo,
+   * played pairs, pair rules), hidden tracks included, and mark its songs played.
+   */
+  private async pickPair(entry: ProgressionEntry, avoidArtists: string[]): Promise<TrackPair> {
+    const song1 = await this.getNextSongSmart(entry.tempo, entry.key, null, avoidArtists);
+    const song2 = await this.getNextSongSmart(entry.tempo, entry.key, song1, [...avoidArtists, song1.artist]);
+
+    // Mark pair as played and track songs
+    this.markPairPlayed(song1, song2);
+    this.playedSongIds.add(song1.id);
+    this.playedSongIds.add(song2.id);
+    this.addToTempoBlock(entry.tempo, [song1, song2]);
+    this.recentSongs.unshift(song1, song2);
+    if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
+    this.recentArtists.unshift(song1.artist, song2.artist);
+    if (this.recentArtists.length > 30) this.recentArtists = this.recentArtists.slice(0, 30);
+
+    const pair = this.createTrackPair(song1, song2, entry.key, entry.tempo);
+
+    // Add hidden tracks
+    const relatedKey3 = await this.getMusicallyRelatedKey(entry.key);
+    const relatedKey4 = await this.getMusicallyRelatedKey(entry.key);
+    const song3 = await this.getNextSongSmart(entry.tempo, relatedKey3, null, [song1.artist, song2.artist], [song1.id, song2.id], [song1, song2]);
+    const song4 = await this.getNextSongSmart(entry.tempo, relatedKey4, null, [song1.artist, song2.artist, song3.artist], [song1.id, song2.id, song3.id], [song1, song2, song3]);
+    this.playedSongIds.add(song3.id);
+    this.playedSongIds.add(song4.id);
+    this.addToTempoBlock(entry.tempo, [song3, song4]);
+    // Track MF tracks for recency
+    this.recentSongs.unshift(song3, song4);
+    if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
+    this.recentArtists.unshift(song3.artist, song4.artist);
+    if (this.recentArtists.length > 30) this.recentArtists = this.recentArtists.slice(0, 30);
+    pair.track3 = this.createTrack(song3, relatedKey3, entry.tempo);
+    pair.track4 = this.createTrack(song4, relatedKey4, entry.tempo);
+
+    return pair;
+  }
+
   /**
    * Get a musically related key using various harmonic relationships.
    * Uses circle of fifths, parallel modes, relative keys, and other theory.
@@ -923,14 +931,10 @@ export class HamiltonianPlayer {
     ];
 
     // Pick a random relationship using quantum randomness
-    const relationship = await this.qrng.getChoice(relationships);
-
-    // Calculate new key (mod 12 for octave wrap, +1 because keys are 1-indexed)
-    let newKey = ((baseKey - 1 + relationship) % 12);
-    if (newKey < 0) newKey += 12;
+    const relationship = await this.qrng.getChoice(relationships, 'key-relationship');
 
-    // Ensure we stay within the valid key range (1-10)
-    return (Math.max(1, Math.min(10, newKey + 1))) as Key;
+    // Move by the interval, wrapping around the octave
+    return transposeKey(baseKey, relationship);
   }
 
   /**
@@ -1579,34 +1583,21 @@ export class HamiltonianPlayer {
     this.markPairPlayed(song1a, song1b);
     this.playedSongIds.add(song1a.id);
     this.playedSongIds.add(song1b.id);
+    this.addToTempoBlock(entry1.tempo, [song1a, song1b]);
     this.recentSongs.unshift(song1a, song1b);
     if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
     this.recentArtists.unshift(song1a.artist, song1b.artist);
     if (this.recentArtists.length > 30) this.recentArtists = this.recentArtists.slice(0, 30);
 
-    // Pair 2: avoid same artist within pair and artists from pair 1
-    const song2a = await this.getNextSongSmart(entry2.tempo, entry2.key, null, [...this.recentArtists.slice(0, 10), song1a.artist, song1b.artist]);
-    const song2b = await this.getNextSongSmart(entry2.tempo, entry2.key, song2a, [...this.recentArtists.slice(0, 10), song2a.artist, song1a.artist, song1b.artist]);
-
-    // Mark pair as played and track songs
-    this.markPairPlayed(song2a, song2b);
-    this.playedSongIds.add(song2a.id);
-    this.playedSongIds.add(song2b.id);
-    this.recentSongs.unshift(song2a, song2b);
-    if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
-    this.recentArtists.unshift(song2a.artist, song2b.artist);
-    if (this.recentArtists.length > 30) this.recentArtists = this.recentArtists.slice(0, 30);
-
+    // Add hidden tracks to currentPair (first pair), before pair 2 so the tempo block is in play order
     const currentPair = this.createTrackPair(song1a, song1b, entry1.key, entry1.tempo);
-    const nextPair = this.createTrackPair(song2a, song2b, entry2.key, entry2.tempo);
-
-    // Add hidden tracks to currentPair (first pair)
     const currentRelatedKey3 = await this.getMusicallyRelatedKey(entry1.key);
     const currentRelatedKey4 = await this.getMusicallyRelatedKey(entry1.key);
-    const currentSong3 = await this.getNextSongSmart(entry1.tempo, currentRelatedKey3, null, [song1a.artist, song1b.artist], [song1a.id, song1b.id]);
-    const currentSong4 = await this.getNextSongSmart(entry1.tempo, currentRelatedKey4, null, [song1a.artist, song1b.artist, currentSong3.artist], [song1a.id, song1b.id, currentSong3.id]);
+    const currentSong3 = await this.getNextSongSmart(entry1.tempo, currentRelatedKey3, null, [song1a.artist, song1b.artist], [song1a.id, song1b.id], [song1a, song1b]);
+    const currentSong4 = await this.getNextSongSmart(entry1.tempo, currentRelatedKey4, null, [song1a.artist, song1b.artist, currentSong3.artist], [song1a.id, song1b.id, currentSong3.id], [song1a, song1b, currentSong3]);
     this.playedSongIds.add(currentSong3.id);
     this.playedSongIds.add(currentSong4.id);
+    this.addToTempoBlock(entry1.tempo, [currentSong3, currentSong4]);
     // Track MF tracks for recency too (they count as played!)
     this.recentSongs.unshift(currentSong3, currentSong4);
     if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
@@ -1621,13 +1612,30 @@ export class HamiltonianPlayer {
     currentPair.rarity = currentRarity.rarity;
     currentPair.probability = currentRarity.probability;
 
+    // Pair 2: avoid same artist within pair and artists from pair 1
+    const song2a = await this.getNextSongSmart(entry2.tempo, entry2.key, null, [...this.recentArtists.slice(0, 10), song1a.artist, song1b.artist]);
+    const song2b = await this.getNextSongSmart(entry2.tempo, entry2.key, song2a, [...this.recentArtists.slice(0, 10), song2a.artist, song1a.artist, song1b.artist]);
+
+    // Mark pair as played and track songs
+    this.markPairPlayed(song2a, song2b);
+    this.playedSongIds.add(song2a.id);
+    this.playedSongIds.add(song2b.id);
+    this.addToTempoBlock(entry2.tempo, [song2a, song2b]);
+    this.recentSongs.unshift(song2a, song2b);
+    if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
+    this.recentArtists.unshift(song2a.artist, song2b.artist);
+    if (this.recentArtists.length > 30) this.recentArtists = this.recentArtists.slice(0, 30);
+
+    const nextPair = this.createTrackPair(song2a, song2b, entry2.key, entry2.tempo);
+
     // Add hidden tracks to nextPair
     const relatedKey3 = await this.getMusicallyRelatedKey(entry2.key);
     const relatedKey4 = await this.getMusicallyRelatedKey(entry2.key);
-    const song3 = await this.getNextSongSmart(entry2.tempo, relatedKey3, null, [song2a.artist, song2b.artist], [song2a.id, song2b.id]);
-    const song4 = await this.getNextSongSmart(entry2.tempo, relatedKey4, null, [song2a.artist, song2b.artist, song3.artist], [song2a.id, song2b.id, song3.id]);
+    const song3 = await this.getNextSongSmart(entry2.tempo, relatedKey3, null, [song2a.artist, song2b.artist], [song2a.id, song2b.id], [song2a, song2b]);
+    const song4 = await this.getNextSongSmart(entry2.tempo, relatedKey4, null, [song2a.artist, song2b.artist, song3.artist], [song2a.id, song2b.id, song3.id], [song2a, song2b, song3]);
     this.playedSongIds.add(song3.id);
     this.playedSongIds.add(song4.id);
+    this.addToTempoBlock(entry2.tempo, [song3, song4]);
     // Track MF tracks for recency too
     this.recentSongs.unshift(song3, song4);
     if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
@@ -1957,34 +1965,7 @@ export class HamiltonianPlayer {
           pairToSchedule.track1.song.artist,
           pairToSchedule.track2.song.artist
         ];
-        const song1 = await this.getNextSongSmart(nextEntry.tempo, nextEntry.key, null, avoidArtists);
-        const song2 = await this.getNextSongSmart(nextEntry.tempo, nextEntry.key, song1, [...avoidArtists, song1.artist]);
-
-        // Mark pair as played and track songs
-        this.markPairPlayed(song1, song2);
-        this.playedSongIds.add(song1.id);
-        this.playedSongIds.add(song2.id);
-        this.recentSongs.unshift(song1, song2);
-        if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
-        this.recentArtists.unshift(song1.artist, song2.artist);
-        if (this.recentArtists.length > 30) this.recentArtists = this.recentArtists.slice(0, 30);
-
-        newNextPair = this.createTrackPair(song1, song2, nextEntry.key, nextEntry.tempo);
-
-        // Add hidden tracks to the new next pair
-        const relatedKey3 = await this.getMusicallyRelatedKey(nextEntry.key);
-        const relatedKey4 = await this.getMusicallyRelatedKey(nextEntry.key);
-        const song3 = await this.getNextSongSmart(nextEntry.tempo, relatedKey3, null, [song1.artist, song2.artist], [song1.id, song2.id]);
-        const song4 = await this.getNextSongSmart(nextEntry.tempo, relatedKey4, null, [song1.artist, song2.artist, song3.artist], [song1.id, song2.id, song3.id]);
-        this.playedSongIds.add(song3.id);
-        this.playedSongIds.add(song4.id);
-        // Track MF tracks for recency
-        this.recentSongs.unshift(song3, song4);
-        if (this.recentSongs.length > 50) this.recentSongs = this.recentSongs.slice(0, 50);
-        this.recentArtists.unshift(song3.artist, song4.artist);
-        if (this.recentArtists.length > 30) this.recentArtists = this.recentArtists.slice(0, 30);
-        newNextPair.track3 = this.createTrack(song3, relatedKey3, nextEntry.tempo);
-        newNextPair.track4 = this.createTrack(song4, relatedKey4, nextEntry.tempo);
+        newNextPair = await this.pickPair(nextEntry, avoidArtists);
       }
 
       // Update state.nextPair immediately (synchronously) so recursive scheduling works
@@ -2345,7 +2326,8 @@ export class HamiltonianPlayer {
     }
 
     // Regenerate progression starting from the user's chosen key/tempo
-    // This ensures the formula continues properly: 10 keys at tempo, then switch
+    // This ensures the formula continues properly: a fair-share block of pairs
+    // per tempo, each walking that tempo's weighted key cycle, then switch
     this.progression = this.generateProgressionFromPoint(startKey, startTempo);
     this.progressIndex = 0; // Start from beginning of new progression
   }
@@ -2354,30 +2336,37 @@ export class HamiltonianPlayer {
    * Generate progression starting from a specific key and tempo.
    * Uses WEIGHTED pair counts per tempo for equal song distribution.
    * More songs at a tempo = more pairs played at that tempo.
-   * Key order: startKey → startKey+1 → ... → 10 → 1 → ... (cycles through)
+   * Key order: chromatic through all 12 keys from startKey, using each tempo's
+   * weighted key cycle (keys with more songs get more pairs, keys with none are skipped).
+   * Each tempo picks up its key cycle where its previous block stopped.
    * Tempo order: startTempo → next tempo → next tempo → back to startTempo
    */
   private generateProgressionFromPoint(startKey: Key, startTempo: Tempo): ProgressionEntry[] {
     const progression: ProgressionEntry[] = [];
-    const KEYS_TO_USE = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] as Key[];
-
-    // Find starting positions
-    const startKeyIndex = KEYS_TO_USE.indexOf(startKey);
     const startTempoIndex = ALL_TEMPOS.indexOf(startTempo);
 
+    // Per tempo: weighted key cycle, starting at the first key at or after startKey
+    const keyCycles = new Map<Tempo, { keys: Key[]; position: number }>();
+    for (const tempo of ALL_TEMPOS) {
+      const keys = buildKeyCycle(this.songs, tempo);
+      const stepsFromStart = keys.map((key) => (key - startKey + 12) % 12);
+      keyCycles.set(tempo, { keys, position: stepsFromStart.indexOf(Math.min(...stepsFromStart)) });
+    }
+
     // Generate enough entries for continuous playback (10 tempo cycles)
     for (let cycle = 0; cycle < 10; cycle++) {
       // Cycle through tempos starting from startTempo
       for (let tempoOffset = 0; tempoOffset < ALL_TEMPOS.length; tempoOffset++) {
         const tempo = ALL_TEMPOS[(startTempoIndex + tempoOffset) % ALL_TEMPOS.length]!;
+        const keyCycle = keyCycles.get(tempo)!;
 
         // Get WEIGHTED pair count for this tempo (based on song availability)
         const pairCount = this.tempoPairCounts.get(tempo) || 10;
 
         // Generate the weighted number of pairs for this tempo
-        // Cycles through all 10 keys as many times as needed
         for (let pairIndex = 0; pairIndex < pairCount; pairIndex++) {
-          const key = KEYS_TO_USE[(startKeyIndex + pairIndex) % KEYS_TO_USE.length]!;
+          const key = keyCycle.keys[keyCycle.position % keyCycle.keys.length]!;
+          keyCycle.position++;
           progression.push({ key, tempo });
         }
       }
@@ -2386,6 +2375,52 @@ export class HamiltonianPlayer {
     return progression;
   }
 
+  /**
+   * Play a progression script (e.g. '84: keys 1..6 forward; 94: fifths x8') instead of
+   * the generated progression. One pair per scripted track; the script loops.
+   * Magic number settings are ignored (the player has no magic number tracks).
+   * While playing, the script starts with the next pair.
+   *
+   * @throws ProgressionScriptError if script text does not parse
+   */
+  async loadProgressionScript(script: ProgressionScript | string): Promise<void> {
+    const runner = new ProgressionRunner(script, {
+      startKey: this.state.key,
+      random: () => this.qrng.nextFloat('script-walk'),
+    });
+    const loopLength = runner.getScript().blocks.reduce((sum, block) => sum + block.tracks, 0);
+    this.progression = runner.take(loopLength);
+
+    if (!this.state.isPlaying) {
+      this.progressIndex = 0;
+      const first = this.progression[0]!;
+      this.updateState({ key: first.key, tempo: first.tempo, progressIndex: 0 });
+      return;
+    }
+
+    // The entry after progressIndex is the script's first track
+    this.progressIndex = this.progression.length - 1;
+    const nextEntry = this.progression[0]!;
+    const avoidArtists = [
+      ...this.recentArtists.slice(0, 10),
+      ...(this.state.currentPair
+        ? [this.state.currentPair.track1.song.artist, this.state.currentPair.track2.song.artist]
+        : []),
+    ];
+    const newNext = await this.pickPair(nextEntry, avoidArtists);
+
+    this.updateState({ nextPair: newNext, progressIndex: this.progressIndex });
+    void this.preloadNextPair(newNext);
+  }
+
+  /**
+   * Never pair the songs and artists these rules forbid (see PairRules).
+   * Applies from the next pair that is picked; null removes the rules.
+   */
+  setPairRules(rules: PairRules | null): void {
+    this.pairRules = rules;
+  }
+
   /**
    * Change key (applies immediately - recalculates path with unplayed songs).
    */
@@ -2730,11 +2765,10 @@ export class HamiltonianPlayer {
         if (tempRecentArtists.length > 30) tempRecentArtists.splice(30);
 
         // Generate hidden tracks (tracks 3 and 4)
-        const relatedKey3 = ((entry.key + 4) % 10) + 1 as Key;
-        const relatedKey4 = ((entry.key + 7) % 10) + 1 as Key;
+        const [relatedKey3, relatedKey4] = getHiddenTrackKeys(entry.key);
 
-        const song3 = await this.getNextSongSmart(entry.tempo, relatedKey3, null, [...tempRecentArtists.slice(0, 10), song1.artist, song2.artist], Array.from(tempPlayedSongIds));
-        const song4 = await this.getNextSongSmart(entry.tempo, relatedKey4, song3, [...tempRecentArtists.slice(0, 10), song3.artist, song1.artist, song2.artist], Array.from(tempPlayedSongIds));
+        const song3 = await this.getNextSongSmart(entry.tempo, relatedKey3, null, [...tempRecentArtists.slice(0, 10), song1.artist, song2.artist], Array.from(tempPlayedSongIds), [song1, song2]);
+        const song4 = await this.getNextSongSmart(entry.tempo, relatedKey4, song3, [...tempRecentArtists.slice(0, 10), song3.artist, song1.artist, song2.artist], Array.from(tempPlayedSongIds), [song1, song2]);
 
         tempPlayedSongIds.add(song3.id);
         tempPlayedSongIds.add(song4.id);
@@ -2768,6 +2802,36 @@ export class HamiltonianPlayer {
     return completeMix;
   }
 
+  /**
+   * Improve a planned mix with simulated annealing (pair order, artist spacing,
+   * unique songs, tempo blocks). Replacement songs come from the full library;
+   * a song only replaces another in a pair at its own BPM and in a key it fits,
+   * since the audio files play at the song's own tempo and key. Moves that
+   * break the player's pair rules are rejected.
+   * Returns the optimized mix with the objective before and after.
+   */
+  async optimizeCompleteMix(
+    mix: TrackPair[],
+    options: Omit<
+      MixOptimizerOptions<TrackPair>,
+      'library' | 'replaceSong' | 'pairRules' | 'random'
+    > = {}
+  ): Promise<MixOptimizationResult<TrackPair>> {
+    const optimizer = new MixOptimizer<TrackPair>({
+      ...options,
+      library: this.songs,
+      pairRules: this.pairRules ?? undefined,
+      random: this.qrng,
+      replaceSong: (pair, slot, song) => {
+        const updated: TrackPair = { ...pair, [slot]: this.createTrack(song, pair[slot]!.key, pair.tempo) };
+        const rarity = this.calculateComboRarity(updated);
+        return { ...updated, ...rarity };
+      },
+    });
+
+    return optimizer.optimize(mix);
+  }
+
   /**
    * Export the complete planned mix as a text file.
    */
@@ -2961,8 +3025,7 @@ export class HamiltonianPlayer {
       const song4 = id4 && id4 !== 0 ? this.songs.find(s => s.id === id4) : undefined;
 
       // Calculate related keys for tracks 3 and 4
-      const relatedKey3 = ((key + 4) % 10) + 1 as Key;
-      const relatedKey4 = ((key + 7) % 10) + 1 as Key;
+      const [relatedKey3, relatedKey4] = getHiddenTrackKeys(key as Key);
 
       // Create the pair
       const pair: TrackPair = {
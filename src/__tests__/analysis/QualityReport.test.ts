@@ -0,0 +1,140 @@
+/**
+ * Tests for the quality report
+ *
+ * Tests random source analysis, selection fairness simulation,
+ * and the combined JSON report and summary.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { createQualityReport, formatQualitySummary } from '@/analysis/QualityReport';
+import { analyzeRandomSource } from '@/analysis/RandomQuality';
+import { analyzeSelectionFairness } from '@/analysis/SelectionFairness';
+import { SeededRandom } from '@/random/SeededRandom';
+import type { Song, Key } from '@/music/types';
+
+/**
+ * A random source that favours low floats.
+ */
+class SkewedRandom extends SeededRandom {
+  override nextFloat(): number {
+    return super.nextFloat() ** 2;
+  }
+}
+
+/**
+ * 24 songs: 2 per key, 6 artists with 4 songs each, all at 94 BPM.
+ */
+function createLibrary(): Song[] {
+  const artists = ['Nas', 'Outkast', 'Mobb Deep', 'De La Soul', 'Gang Starr', 'Pete Rock'];
+  return Array.from({ length: 24 }, (_, i) => ({
+    id: i + 1,
+    artist: artists[i % artists.length]!,
+    title: `Song ${i + 1}`,
+    key: ((i % 12) + 1) as Key,
+    bpm: 94,
+  }));
+}
+
+describe('QualityReport', () => {
+  describe('analyzeRandomSource', () => {
+    test('passes a good source', async () => {
+      const report = await analyzeRandomSource(new SeededRandom('good'), { sampleSize: 4000 });
+
+      expect(report.source).toBe('SeededRandom');
+      expect(report.tests.map((t) => t.name)).toEqual([
+        'float-uniformity',
+        'integer-uniformity',
+        'runs',
+        'serial-correlation',
+      ]);
+      expect(report.passed).toBe(true);
+    });
+
+    test('fails a skewed source', async () => {
+      const report = await analyzeRandomSource(new SkewedRandom('skewed'), {
+        sampleSize: 4000,
+        name: 'skewed',
+      });
+
+      expect(report.source).toBe('skewed');
+      expect(report.passed).toBe(false);
+      expect(report.tests.find((t) => t.name === 'float-uniformity')?.passed).toBe(false);
+    });
+
+    test('requires enough draws per bin', async () => {
+      await expect(analyzeRandomSource(new SeededRandom(1), { sampleSize: 20 })).rejects.toThrow(
+        'sampleSize'
+      );
+    });
+  });
+
+  describe('analyzeSelectionFairness', () => {
+    test('reports frequencies against expected values', async () => {
+      const report = await analyzeSelectionFairness({
+        songs: createLibrary(),
+        random: new SeededRandom('fair'),
+        tracks: 240,
+      });
+
+      expect(report.songs.entries).toHaveLength(24);
+      expect(report.artists.entries).toHaveLength(6);
+      expect(report.keys.entries).toHaveLength(12);
+      expect(report.artists.entries[0]).toEqual({
+        name: 'Nas',
+        observed: expect.any(Number),
+        expected: 40,
+        deviation: expect.any(Number),
+      });
+
+      const total = report.songs.entries.reduce((sum, e) => sum + e.observed, 0);
+      expect(total).toBe(240);
+      expect(report.passed).toBe(true);
+    });
+
+    test('validates input', async () => {
+      const random = new SeededRandom(1);
+
+      await expect(analyzeSelectionFairness({ songs: [], random })).rejects.toThrow('must not be empty');
+      await expect(
+        analyzeSelectionFairness({ songs: createLibrary(), random, tracks: 0 })
+      ).rejects.toThrow('positive integer');
+    });
+  });
+
+  describe('createQualityReport', () => {
+    test('combines both analyses into a JSON report', async () => {
+      const report = await createQualityReport({
+        random: new SeededRandom('report'),
+        songs: createLibrary(),
+        randomOptions: { sampleSize: 2000 },
+        selectionOptions: { tracks: 120 },
+      });
+
+      expect(report.passed).toBe(true);
+      expect(report.selection?.tracks).toBe(120);
+      expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+    });
+
+    test('skips the simulation without songs', async () => {
+      const report = await createQualityReport({
+        random: new SeededRandom('no-songs'),
+        randomOptions: { sampleSize: 2000 },
+      });
+
+      expect(report.selection).toBeNull();
+    });
+
+    test('summarizes passes and failures', async () => {
+      const report = await createQualityReport({
+        random: new SkewedRandom('summary'),
+        randomOptions: { sampleSize: 2000, name: 'skewed' },
+      });
+
+      const summary = formatQualitySummary(report);
+
+      expect(summary).toContain('FAIL random source skewed');
+      expect(summary).toContain('float-uniformity: p = ');
+      expect(summary.split('\n').pop()).toBe('FAIL overall');
+    });
+  });
+});
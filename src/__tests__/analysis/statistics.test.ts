@@ -0,0 +1,97 @@
+/**
+ * Tests for statistics
+ *
+ * Tests the chi-square, runs and serial correlation tests against
+ * known values and obviously non-random data.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  chiSquareTest,
+  runsTest,
+  serialCorrelationTest,
+  normalCdf,
+} from '@/analysis/statistics';
+import { SeededRandom } from '@/random/SeededRandom';
+
+function seededFloats(seed: string, count: number): number[] {
+  const random = new SeededRandom(seed);
+  return Array.from({ length: count }, () => random.nextFloat());
+}
+
+describe('statistics', () => {
+  test('normalCdf matches standard values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+  });
+
+  describe('chiSquareTest', () => {
+    test('computes the statistic and p-value', () => {
+      const result = chiSquareTest([10, 30], [20, 20]);
+
+      expect(result.statistic).toBe(10);
+      expect(result.degreesOfFreedom).toBe(1);
+      expect(result.pValue).toBeCloseTo(0.001565, 5);
+      expect(result.passed).toBe(false);
+    });
+
+    test('matches chi-square tables', () => {
+      // 5% critical values: df 2 → 5.991, df 10 → 18.307
+      expect(chiSquareTest([0, 0, 0], [1, 1, 1]).pValue).toBeCloseTo(Math.exp(-1.5), 6);
+      const tenDf = Array.from({ length: 11 }, () => 1);
+      expect(
+        chiSquareTest(
+          tenDf.map((_, i) => (i === 0 ? 1 + Math.sqrt(18.307) : 1)),
+          tenDf
+        ).pValue
+      ).toBeCloseTo(0.05, 3);
+    });
+
+    test('passes a fair sample', () => {
+      expect(chiSquareTest([98, 103, 99, 100], [100, 100, 100, 100]).passed).toBe(true);
+    });
+
+    test('skips bins with no expected count and validates input', () => {
+      expect(chiSquareTest([5, 5, 0], [5, 5, 0]).degreesOfFreedom).toBe(1);
+      expect(() => chiSquareTest([1, 2], [1])).toThrow('same length');
+      expect(() => chiSquareTest([1], [1])).toThrow('at least 2 bins');
+    });
+  });
+
+  describe('runsTest', () => {
+    test('passes random data', () => {
+      expect(runsTest(seededFloats('runs', 2000)).passed).toBe(true);
+    });
+
+    test('fails clustered and alternating data', () => {
+      const sorted = seededFloats('sorted', 200).sort((a, b) => a - b);
+      const alternating = Array.from({ length: 200 }, (_, i) => i % 2);
+
+      expect(runsTest(sorted).passed).toBe(false);
+      expect(runsTest(alternating).passed).toBe(false);
+    });
+
+    test('needs values on both sides of the median', () => {
+      expect(() => runsTest([1, 1, 1, 1])).toThrow('each side of the median');
+    });
+  });
+
+  describe('serialCorrelationTest', () => {
+    test('passes random data', () => {
+      expect(serialCorrelationTest(seededFloats('serial', 2000)).passed).toBe(true);
+    });
+
+    test('fails data where each value predicts the next', () => {
+      const ramp = Array.from({ length: 500 }, (_, i) => (i % 50) / 50);
+
+      expect(serialCorrelationTest(ramp).passed).toBe(false);
+    });
+
+    test('validates input', () => {
+      expect(() => serialCorrelationTest([1, 2, 3], 0)).toThrow('positive integer');
+      expect(() => serialCorrelationTest([1, 2], 1)).toThrow('at least 3 values');
+      expect(() => serialCorrelationTest([2, 2, 2, 2])).toThrow('vary');
+    });
+  });
+});
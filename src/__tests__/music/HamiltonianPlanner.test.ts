@@ -0,0 +1,135 @@
+/**
+ * Tests for HamiltonianPlanner
+ *
+ * Tests full coverage, tempo blocks, transition scoring,
+ * path quality against brute force and shuffles, and validation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { HamiltonianPlanner } from '../../music/HamiltonianPlanner.js';
+import { SeededRandom } from '../../random/SeededRandom.js';
+import type { Song, Key, Tempo } from '../../music/types.js';
+
+const ARTISTS = ['Nas', 'Outkast', 'Mobb Deep', 'De La Soul', 'Gang Starr', 'Pete Rock', 'Slick Rick'];
+
+function createSong(id: number, key: Key, bpm: Tempo = 94, artist: string = ARTISTS[id % ARTISTS.length]!): Song {
+  return { id, artist, title: `Song ${id}`, key, bpm };
+}
+
+/**
+ * Songs with spread-out keys and artists across all three tempos.
+ */
+function createLibrary(count: number): Song[] {
+  const tempos: Tempo[] = [84, 94, 102];
+  return Array.from({ length: count }, (_, i) =>
+    createSong(i + 1, (((i * 5) % 12) + 1) as Key, tempos[i % 3])
+  );
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+  );
+}
+
+describe('HamiltonianPlanner', () => {
+  test('visits every song exactly once', () => {
+    const songs = createLibrary(30);
+
+    const plan = new HamiltonianPlanner().plan(songs);
+
+    expect(plan.path).toHaveLength(30);
+    expect(new Set(plan.path.map((s) => s.id)).size).toBe(30);
+    expect(plan.transitions).toHaveLength(29);
+  });
+
+  test('total score is the sum of the transitions', () => {
+    const plan = new HamiltonianPlanner().plan(createLibrary(12));
+
+    const sum = plan.transitions.reduce((total, t) => total + t.score, 0);
+    expect(plan.totalScore).toBe(sum);
+    plan.transitions.forEach((t, i) => {
+      expect(t.from).toBe(plan.path[i]);
+      expect(t.to).toBe(plan.path[i + 1]);
+    });
+  });
+
+  test('plays each tempo as one block in tempo order', () => {
+    const plan = new HamiltonianPlanner({ tempoOrder: [102, 84, 94] }).plan(createLibrary(21));
+
+    expect(plan.blocks.map((b) => b.tempo)).toEqual([102, 84, 94]);
+    expect(plan.blocks.map((b) => b.songs.length)).toEqual([7, 7, 7]);
+  });
+
+  test('scores transitions by key, tempo and artist', () => {
+    const planner = new HamiltonianPlanner();
+    const from = createSong(1, 1, 94, 'Nas');
+
+    // Same key, same tempo, different artist: 6 × 10 + 60 + 0
+    expect(planner.scoreTransition(from, createSong(2, 1, 94, 'Outkast'))).toBe(120);
+    // Same artist costs 80
+    expect(planner.scoreTransition(from, createSong(3, 1, 94, 'Nas'))).toBe(40);
+    // Tritone and far tempo score much lower
+    expect(planner.scoreTransition(from, createSong(4, 7, 102, 'Outkast'))).toBeLessThan(50);
+  });
+
+  test('matches brute force on a small block', () => {
+    const planner = new HamiltonianPlanner();
+    const songs = [
+      createSong(1, 1),
+      createSong(2, 6),
+      createSong(3, 8),
+      createSong(4, 3),
+      createSong(5, 11),
+      createSong(6, 4),
+      createSong(7, 9, 94, 'Nas'),
+    ];
+
+    const best = Math.max(...permutations(songs).map((order) => planner.scorePath(order).totalScore));
+
+    expect(planner.plan(songs).totalScore).toBe(best);
+  });
+
+  test('beats random shuffles', async () => {
+    const planner = new HamiltonianPlanner();
+    const songs = createLibrary(45);
+    const plan = planner.plan(songs);
+    const random = new SeededRandom('shuffles');
+
+    for (let i = 0; i < 20; i++) {
+      const shuffled = await random.shuffle(songs);
+      const blocked = [84, 94, 102].flatMap((tempo) => shuffled.filter((s) => s.bpm === tempo));
+      expect(plan.totalScore).toBeGreaterThan(planner.scorePath(blocked).totalScore);
+    }
+  });
+
+  test('avoids the same artist twice in a row when possible', () => {
+    const songs = Array.from({ length: 10 }, (_, i) => createSong(i + 1, 1, 94, i < 5 ? 'Nas' : 'Outkast'));
+
+    const plan = new HamiltonianPlanner().plan(songs);
+
+    plan.transitions.forEach((t) => expect(t.from.artist).not.toBe(t.to.artist));
+  });
+
+  test('starts with the requested song', () => {
+    const plan = new HamiltonianPlanner({ startSongId: 7 }).plan(createLibrary(12));
+
+    expect(plan.path[0]!.id).toBe(7);
+  });
+
+  test('handles empty and single-song libraries', () => {
+    const planner = new HamiltonianPlanner();
+
+    expect(planner.plan([])).toEqual({ path: [], transitions: [], totalScore: 0, blocks: [] });
+    expect(planner.plan([createSong(1, 1)]).path).toHaveLength(1);
+  });
+
+  test('validates input', () => {
+    const songs = createLibrary(6);
+
+    expect(() => new HamiltonianPlanner().plan([...songs, songs[0]!])).toThrow('Duplicate song id');
+    expect(() => new HamiltonianPlanner({ tempoOrder: [84, 94] }).plan(songs)).toThrow('missing tempos: 102');
+    expect(() => new HamiltonianPlanner({ startSongId: 2 }).plan(songs)).toThrow('not in the first tempo block');
+  });
+});
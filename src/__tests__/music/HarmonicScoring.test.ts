@@ -0,0 +1,206 @@
+/**
+ * Tests for HarmonicScoring
+ *
+ * Tests the built-in strategies, custom matrices, weighted mixtures,
+ * config loading, and KeyManager integration.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  ClassicHarmonicStrategy,
+  IntervalHarmonicStrategy,
+  MatrixHarmonicStrategy,
+  WeightedMixtureStrategy,
+  BUILT_IN_STRATEGY_NAMES,
+  getBuiltInStrategy,
+  createHarmonicStrategy,
+} from '../../music/HarmonicScoring.js';
+import { KeyManager } from '../../music/KeyManager.js';
+import { musicalKey } from '../../music/MusicalKey.js';
+import { ALL_KEYS } from '../../music/types.js';
+import type { HarmonicStrategyConfig } from '../../music/HarmonicScoring.js';
+
+/**
+ * Build a 12×12 matrix where every entry is the given value,
+ * except the diagonal which is 10.
+ */
+function createMatrix(value: number): number[][] {
+  return ALL_KEYS.map((_, i) => ALL_KEYS.map((__, j) => (i === j ? 10 : value)));
+}
+
+describe('HarmonicScoring', () => {
+  describe('built-in strategies', () => {
+    test('all built-ins score the same key as 10', () => {
+      for (const name of BUILT_IN_STRATEGY_NAMES) {
+        const strategy = getBuiltInStrategy(name);
+        for (const key of ALL_KEYS) {
+          expect(strategy.score(musicalKey(key), musicalKey(key))).toBe(10);
+        }
+      }
+    });
+
+    test('all built-ins return scores between 1 and 10', () => {
+      for (const name of BUILT_IN_STRATEGY_NAMES) {
+        const strategy = getBuiltInStrategy(name);
+        for (const from of ALL_KEYS) {
+          for (const to of ALL_KEYS) {
+            const score = strategy.score(musicalKey(from), musicalKey(to));
+            expect(score).toBeGreaterThanOrEqual(1);
+            expect(score).toBeLessThanOrEqual(10);
+          }
+        }
+      }
+    });
+
+    test('strategies are named after their approach', () => {
+      expect(getBuiltInStrategy('tritone').name).toBe('tritone');
+      expect(getBuiltInStrategy('classic').name).toBe('classic');
+    });
+
+    test('circle-of-fifths favours fifths over tritones', () => {
+      const strategy = getBuiltInStrategy('circle-of-fifths');
+
+      expect(strategy.score(musicalKey(1), musicalKey(8))).toBe(9); // C → G
+      expect(strategy.score(musicalKey(1), musicalKey(7))).toBe(1); // C → F#
+    });
+
+    test('tritone favours the tritone substitution', () => {
+      const strategy = getBuiltInStrategy('tritone');
+
+      expect(strategy.score(musicalKey(1), musicalKey(7))).toBe(9);
+    });
+
+    test('chromatic favours stepwise motion', () => {
+      const strategy = getBuiltInStrategy('chromatic');
+
+      expect(strategy.score(musicalKey(1), musicalKey(2))).toBe(9);
+      expect(strategy.score(musicalKey(1), musicalKey(12))).toBe(9);
+    });
+
+    test('classic matches the original table for plain keys', () => {
+      const strategy = new ClassicHarmonicStrategy();
+
+      expect(strategy.score(musicalKey(1), musicalKey(8))).toBe(9);
+      expect(strategy.score(musicalKey(1), musicalKey(6))).toBe(1);
+    });
+
+    test('rejects unknown names', () => {
+      expect(() => getBuiltInStrategy('bebop' as never)).toThrow('Unknown harmonic strategy');
+    });
+  });
+
+  describe('IntervalHarmonicStrategy', () => {
+    test('requires 7 entries', () => {
+      expect(() => new IntervalHarmonicStrategy('bad', [10, 1])).toThrow('7 finite scores');
+    });
+  });
+
+  describe('MatrixHarmonicStrategy', () => {
+    test('scores from the matrix', () => {
+      const matrix = createMatrix(2);
+      matrix[0]![4] = 7; // C → E
+
+      const strategy = new MatrixHarmonicStrategy(matrix, 'thirds');
+
+      expect(strategy.name).toBe('thirds');
+      expect(strategy.score(musicalKey(1), musicalKey(5))).toBe(7);
+      expect(strategy.score(musicalKey(5), musicalKey(1))).toBe(2);
+    });
+
+    test('is not affected by later changes to the source matrix', () => {
+      const matrix = createMatrix(2);
+      const strategy = new MatrixHarmonicStrategy(matrix);
+
+      matrix[0]![1] = 9;
+
+      expect(strategy.score(musicalKey(1), musicalKey(2))).toBe(2);
+    });
+
+    test('validates shape and values', () => {
+      expect(() => new MatrixHarmonicStrategy([])).toThrow('12 rows');
+
+      const shortRow = createMatrix(1);
+      shortRow[3] = [1, 2, 3];
+      expect(() => new MatrixHarmonicStrategy(shortRow)).toThrow('row 4 must have 12 scores');
+
+      const nan = createMatrix(1);
+      nan[0]![0] = NaN;
+      expect(() => new MatrixHarmonicStrategy(nan)).toThrow('[1][1] must be a finite number');
+    });
+  });
+
+  describe('WeightedMixtureStrategy', () => {
+    test('averages component scores by weight', () => {
+      const low = new MatrixHarmonicStrategy(createMatrix(2));
+      const high = new MatrixHarmonicStrategy(createMatrix(8));
+      const mixture = new WeightedMixtureStrategy([
+        { strategy: low, weight: 3 },
+        { strategy: high, weight: 1 },
+      ]);
+
+      expect(mixture.score(musicalKey(1), musicalKey(2))).toBe(3.5);
+      expect(mixture.score(musicalKey(1), musicalKey(1))).toBe(10);
+    });
+
+    test('validates weights', () => {
+      const strategy = getBuiltInStrategy('classic');
+
+      expect(() => new WeightedMixtureStrategy([])).toThrow('at least one component');
+      expect(() => new WeightedMixtureStrategy([{ strategy, weight: -1 }])).toThrow('non-negative');
+      expect(() => new WeightedMixtureStrategy([{ strategy, weight: 0 }])).toThrow('more than 0');
+    });
+  });
+
+  describe('createHarmonicStrategy', () => {
+    test('builds nested configs', () => {
+      const config: HarmonicStrategyConfig = {
+        type: 'mixture',
+        name: 'house-style',
+        components: [
+          { weight: 1, strategy: { type: 'builtin', name: 'classic' } },
+          { weight: 1, strategy: { type: 'matrix', matrix: createMatrix(1) } },
+        ],
+      };
+
+      const strategy = createHarmonicStrategy(config);
+
+      expect(strategy.name).toBe('house-style');
+      // (9 + 1) / 2
+      expect(strategy.score(musicalKey(1), musicalKey(8))).toBe(5);
+    });
+
+    test('accepts configs parsed from JSON', () => {
+      const json = JSON.stringify({ type: 'matrix', matrix: createMatrix(4) });
+      const strategy = createHarmonicStrategy(JSON.parse(json) as HarmonicStrategyConfig);
+
+      expect(strategy.score(musicalKey(2), musicalKey(3))).toBe(4);
+    });
+
+    test('rejects unknown config types', () => {
+      expect(() => createHarmonicStrategy({ type: 'magic' } as never)).toThrow('config type');
+    });
+  });
+
+  describe('KeyManager integration', () => {
+    test('uses the classic strategy by default', () => {
+      const km = new KeyManager();
+
+      expect(km.getStrategy().name).toBe('classic');
+    });
+
+    test('scores with a custom strategy', () => {
+      const km = new KeyManager(1, 'forward', { strategy: getBuiltInStrategy('tritone') });
+
+      expect(km.scoreCompatibility(1, 7)).toBe(9);
+      expect(km.getCompatibleKeys(1)[1]).toBe(7);
+    });
+
+    test('strategy can be swapped at runtime', () => {
+      const km = new KeyManager();
+
+      km.setStrategy(getBuiltInStrategy('chromatic'));
+
+      expect(km.scoreCompatibility(1, 2)).toBe(9);
+    });
+  });
+});
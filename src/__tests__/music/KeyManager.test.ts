@@ -222,6 +222,69 @@ describe('KeyManager', () => {
     });
   });
 
+  describe('mode-aware scoring', () => {
+    test('recognises relative major/minor keys', () => {
+      const km = new KeyManager();
+
+      // C major ↔ A minor (8B ↔ 8A)
+      expect(km.scoreCompatibility({ key: 1, mode: 'major' }, { key: 10, mode: 'minor' })).toBe(9);
+    });
+
+    test('distinguishes A minor from C major on the same root', () => {
+      const km = new KeyManager();
+
+      // C major vs C minor are three steps apart on the wheel
+      expect(km.scoreCompatibility({ key: 1, mode: 'major' }, { key: 1, mode: 'major' })).toBe(10);
+      expect(km.scoreCompatibility({ key: 1, mode: 'major' }, { key: 1, mode: 'minor' })).toBe(3);
+    });
+
+    test('scores Camelot neighbours highly', () => {
+      const km = new KeyManager();
+
+      // C (8B) → G (9B) and F (7B)
+      expect(km.scoreCompatibility({ key: 1, mode: 'major' }, { key: 8, mode: 'major' })).toBe(8);
+      expect(km.scoreCompatibility({ key: 1, mode: 'major' }, { key: 6, mode: 'major' })).toBe(8);
+    });
+
+    test('falls back to chromatic table when either mode is unknown', () => {
+      const km = new KeyManager();
+
+      expect(km.scoreCompatibility({ key: 1, mode: 'major' }, { key: 8, mode: 'unknown' })).toBe(
+        km.scoreCompatibility(1, 8)
+      );
+      expect(km.scoreCompatibility({ key: 1, mode: 'unknown' }, 6)).toBe(1);
+    });
+
+    test('tracks the current mode', () => {
+      const km = new KeyManager(1, 'forward', { mode: 'major' });
+
+      expect(km.getCurrentMusicalKey()).toEqual({ key: 1, mode: 'major' });
+      expect(km.scoreFromCurrent({ key: 10, mode: 'minor' })).toBe(9);
+
+      km.setKey(10, 'minor');
+      expect(km.getCurrentMode()).toBe('minor');
+
+      km.reset();
+      expect(km.getCurrentMusicalKey()).toEqual({ key: 1, mode: 'major' });
+    });
+
+    test('lists all 24 musical keys when mode is known', () => {
+      const km = new KeyManager();
+      const compatible = km.getCompatibleMusicalKeys({ key: 1, mode: 'major' });
+
+      expect(compatible).toHaveLength(24);
+      expect(compatible[0]).toEqual({ key: 1, mode: 'major' });
+      expect(compatible[1]).toEqual({ key: 10, mode: 'minor' });
+    });
+
+    test('lists 12 keys when mode is unknown', () => {
+      const km = new KeyManager();
+      const compatible = km.getCompatibleMusicalKeys({ key: 1, mode: 'unknown' });
+
+      expect(compatible.map((k) => k.key)).toEqual(km.getCompatibleKeys(1));
+    });
+  });
+
   describe('scoreFromCurrent', () => {
     test('scores from current key', () => {
       const km = new KeyManager(1);
@@ -374,6 +437,30 @@ describe('KeyManager', () => {
     });
   });
 
+  describe('clone', () => {
+    test('copies key, direction and progression phase', () => {
+      const km = new KeyManager(3, 'reverse', { progression: { type: 'fifths' } });
+      km.next();
+
+      const copy = km.clone();
+
+      expect(copy.getCurrentKey()).toBe(km.getCurrentKey());
+      expect(copy.getDirection()).toBe('reverse');
+      expect(copy.peekNext()).toBe(km.peekNext());
+    });
+
+    test('moving the copy leaves the original in place', () => {
+      const km = new KeyManager(1, 'forward');
+      const copy = km.clone();
+
+      copy.next();
+      copy.next();
+
+      expect(copy.getCurrentKey()).toBe(3);
+      expect(km.getCurrentKey()).toBe(1);
+    });
+  });
+
   describe('getDistance', () => {
     let km: KeyManager;
 
@@ -419,6 +506,145 @@ describe('KeyManager', () => {
     });
   });
 
+  describe('progression modes', () => {
+    test('defaults to chromatic', () => {
+      expect(new KeyManager().getProgressionMode()).toEqual({ type: 'chromatic' });
+    });
+
+    test('fifths walks the circle of fifths', () => {
+      const km = new KeyManager(1, 'forward', { progression: { type: 'fifths' } });
+
+      expect(km.peekNext()).toBe(8); // C → G
+      expect(km.next()).toBe(8);
+      expect(km.next()).toBe(3); // G → D
+
+      km.setDirection('reverse');
+      expect(km.next()).toBe(8); // D → G
+    });
+
+    test('fifths visits all 12 keys before repeating', () => {
+      const km = new KeyManager(1, 'forward', { progression: { type: 'fifths' } });
+      const visited = new Set<number>([1]);
+
+      for (let i = 0; i < 11; i++) {
+        visited.add(km.next());
+      }
+
+      expect(visited.size).toBe(12);
+      expect(km.next()).toBe(1);
+    });
+
+    test('energy-boost moves up two semitones', () => {
+      const km = new KeyManager(11, 'forward', { progression: { type: 'energy-boost' } });
+
+      expect(km.next()).toBe(1); // 11 → 1 (wraps)
+      expect(km.next()).toBe(3);
+    });
+
+    test('relative alternates relative hops and semitone steps', () => {
+      const km = new KeyManager(1, 'forward', { mode: 'major', progression: { type: 'relative' } });
+
+      expect(km.next()).toBe(10); // C → Am
+      expect(km.getCurrentMode()).toBe('minor');
+      expect(km.next()).toBe(11); // Am → A#m
+      expect(km.next()).toBe(2); // A#m → C#
+      expect(km.getCurrentMode()).toBe('major');
+    });
+
+    test('relative treats unknown mode as major', () => {
+      const km = new KeyManager(1, 'forward', { progression: { type: 'relative' } });
+
+      expect(km.next()).toBe(10);
+      expect(km.getCurrentMode()).toBe('minor');
+    });
+
+    test('sequence cycles through the given steps', () => {
+      const km = new KeyManager(1, 'forward', { progression: { type: 'sequence', steps: [7, -3] } });
+
+      expect(km.next()).toBe(8);
+      expect(km.next()).toBe(5);
+      expect(km.next()).toBe(12);
+    });
+
+    test('sequence steps are negated in reverse', () => {
+      const km = new KeyManager(1, 'reverse', { progression: { type: 'sequence', steps: [2] } });
+
+      expect(km.next()).toBe(11);
+    });
+
+    test('rejects invalid sequences', () => {
+      const km = new KeyManager();
+
+      expect(() => km.setProgressionMode({ type: 'sequence', steps: [] })).toThrow('at least one step');
+      expect(() => km.setProgressionMode({ type: 'sequence', steps: [1.5] })).toThrow('whole semitones');
+    });
+
+    test('random-compatible only picks keys above the score threshold', () => {
+      const km = new KeyManager(1, 'forward', {
+        progression: { type: 'random-compatible', minScore: 9 },
+        random: (): number => 0.99,
+      });
+
+      for (let i = 0; i < 20; i++) {
+        const previous = km.getCurrentKey();
+        const next = km.next();
+
+        expect(next).not.toBe(previous);
+        expect(km.scoreCompatibility(previous, next)).toBeGreaterThanOrEqual(9);
+      }
+    });
+
+    test('random-compatible peekNext matches next', () => {
+      let calls = 0;
+      const km = new KeyManager(1, 'forward', {
+        progression: { type: 'random-compatible' },
+        random: (): number => (calls++ % 3) / 3,
+      });
+
+      for (let i = 0; i < 10; i++) {
+        const peeked = km.peekNext();
+        expect(km.peekNext()).toBe(peeked);
+        expect(km.next()).toBe(peeked);
+      }
+    });
+
+    test('random-compatible falls back to chromatic when nothing qualifies', () => {
+      const km = new KeyManager(1, 'forward', {
+        progression: { type: 'random-compatible', minScore: 11 },
+      });
+
+      expect(km.next()).toBe(2);
+    });
+
+    test('getDistance follows the active mode', () => {
+      const km = new KeyManager(1, 'forward', { progression: { type: 'fifths' } });
+
+      expect(km.getDistance(1, 3)).toBe(2); // C → G → D
+      expect(km.getDistance(1, 6)).toBe(11); // C → ... → F
+      expect(km.getDistance(1, 6, 'reverse')).toBe(1); // C → F
+    });
+
+    test('getDistance returns -1 for unreachable keys', () => {
+      const km = new KeyManager(1, 'forward', { progression: { type: 'energy-boost' } });
+
+      expect(km.getDistance(1, 5)).toBe(2);
+      expect(km.getDistance(1, 2)).toBe(-1); // whole-tone steps never reach odd semitones
+    });
+
+    test('setProgressionMode and reset restart the phase', () => {
+      const km = new KeyManager(1, 'forward', { mode: 'major', progression: { type: 'relative' } });
+
+      km.next(); // C → Am
+      km.reset(1, 'forward', 'major');
+
+      expect(km.peekNext()).toBe(10);
+
+      km.next();
+      km.setProgressionMode({ type: 'relative' });
+      expect(km.peekNext()).toBe(1); // Am → C
+    });
+  });
+
   describe('integration - realistic usage', () => {
     test('simulates kwyjibo mixing session', () => {
       const km = new KeyManager(1, 'forward');
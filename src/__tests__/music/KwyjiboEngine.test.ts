@@ -7,6 +7,12 @@
 
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { KwyjiboEngine } from '../../music/KwyjiboEngine.js';
+import { SeededRandom } from '../../random/SeededRandom.js';
+import { RandomReplayError } from '../../random/errors.js';
+import { ProgressionScriptError } from '../../music/errors.js';
+import { MemorySnapshotStorage } from '../../music/SnapshotStorage.js';
+import { PairRules } from '../../music/PairRules.js';
+import type { SnapshotStorage } from '../../music/SnapshotStorage.js';
 import type { Song, TrackRequest } from '../../music/types.js';
 import type { IAudioBufferLoader, LoadRequest, LoadResult } from '../../audio/types.js';
 
@@ -166,6 +172,16 @@ describe('KwyjiboEngine', () => {
       expect(handler.mock.calls[0]?.[0]).toHaveProperty('track');
       expect(handler.mock.calls[0]?.[0]).toHaveProperty('wasMagicNumber');
     });
+
+    test('trackSelected explains the selection', async () => {
+      const handler = jest.fn();
+      engine.on('trackSelected', handler);
+
+      await engine.start();
+
+      expect(handler.mock.calls[0]?.[0]).toHaveProperty('explanation.source', 'current-key');
+      expect(handler.mock.calls[0]?.[0]).toHaveProperty('explanation.breakdown.harmonic');
+    });
   });
 
   describe('next', () => {
@@ -399,6 +415,105 @@ describe('KwyjiboEngine', () => {
 
       expect(handler).not.toHaveBeenCalled();
     });
+
+    test('follows a tempo schedule and emits tempoChange', async () => {
+      const scheduled = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        seed: 'tempo',
+        tempoSchedule: { type: 'scripted', steps: [{ tempo: 84, tracks: 2 }, { tempo: 102, tracks: 1 }] },
+      });
+      const handler = jest.fn();
+      scheduled.on('tempoChange', handler);
+
+      const tempos = [(await scheduled.start()).track.tempo];
+      for (let i = 0; i < 3; i++) {
+        tempos.push((await scheduled.next()).track.tempo);
+      }
+
+      expect(tempos).toEqual([84, 84, 102, 84]);
+      expect(handler).toHaveBeenCalledWith({ tempo: 102, previousTempo: 84 });
+      expect(handler).toHaveBeenCalledWith({ tempo: 84, previousTempo: 102 });
+    });
+
+    test('a magic tempo jump moves the session tempo', async () => {
+      const jumping = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        seed: 'jump',
+        selectorOptions: {
+          magicPolicy: { interval: { type: 'fixed', every: 2 }, behavior: 'tempo-jump' },
+        },
+      });
+      const handler = jest.fn();
+      jumping.on('tempoChange', handler);
+
+      await jumping.start();
+      const jump = await jumping.next();
+      const after = await jumping.next();
+
+      expect(jump.magic?.behavior).toBe('tempo-jump');
+      expect(handler).toHaveBeenCalledWith({ tempo: jump.track.tempo, previousTempo: 94 });
+      expect(after.track.tempo).toBe(jump.track.tempo);
+    });
+
+    test('swaps the tempo schedule at runtime', () => {
+      engine.setTempoSchedule({ type: 'timed', secondsPerTempo: 300 });
+
+      expect(engine.getTempoSchedule()).toEqual({ type: 'timed', secondsPerTempo: 300 });
+    });
+  });
+
+  describe('progression scripts', () => {
+    test('a script sets the tempo and key of each track', async () => {
+      const scripted = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        seed: 'script',
+        script: '84: keys 3, 4\n102: keys 8\nmagic off',
+      });
+      const handler = jest.fn();
+      scripted.on('tempoChange', handler);
+
+      const tracks = [(await scripted.start()).track];
+      for (let i = 0; i < 3; i++) {
+        tracks.push((await scripted.next()).track);
+      }
+
+      expect(tracks.map((track) => [track.tempo, track.song.key])).toEqual([
+        [84, 3],
+        [84, 4],
+        [102, 8],
+        [84, 3],
+      ]);
+      expect(handler).toHaveBeenCalledWith({ tempo: 102, previousTempo: 84 });
+    });
+
+    test('applies the script magic interval', async () => {
+      engine.setScript('94: chromatic x8; magic every 2');
+
+      const magic = [(await engine.start()).wasMagicNumber];
+      for (let i = 0; i < 3; i++) {
+        magic.push((await engine.next()).wasMagicNumber);
+      }
+
+      expect(magic).toEqual([false, true, false, true]);
+    });
+
+    test('clearing the script hands back to the tempo schedule', async () => {
+      engine.setScript('102: keys 1 x4');
+      expect(engine.getScript()?.blocks[0]?.tempo).toBe(102);
+
+      await engine.start();
+      engine.setScript(null);
+
+      expect(engine.getScript()).toBeNull();
+      expect((await engine.next()).track.tempo).toBe(102);
+    });
+
+    test('rejects an invalid script', () => {
+      expect(() => engine.setScript('94: keys 13')).toThrow(ProgressionScriptError);
+    });
   });
 
   describe('key and direction management', () => {
@@ -436,6 +551,559 @@ describe('KwyjiboEngine', () => {
     });
   });
 
+  describe('harmonic strategy', () => {
+    test('uses classic scoring by default', () => {
+      expect(engine.getHarmonicStrategyName()).toBe('classic');
+    });
+
+    test('accepts a strategy config', () => {
+      const custom = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        harmonicStrategy: { type: 'builtin', name: 'circle-of-fifths' },
+      });
+
+      expect(custom.getHarmonicStrategyName()).toBe('circle-of-fifths');
+    });
+
+    test('swaps strategy at runtime', () => {
+      engine.setHarmonicStrategy({ type: 'builtin', name: 'modal' });
+
+      expect(engine.getHarmonicStrategyName()).toBe('modal');
+    });
+  });
+
+  describe('progression mode', () => {
+    test('defaults to chromatic', () => {
+      expect(engine.getProgressionMode()).toEqual({ type: 'chromatic' });
+    });
+
+    test('accepts a progression mode option', () => {
+      const custom = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        progressionMode: { type: 'fifths' },
+      });
+
+      expect(custom.getProgressionMode()).toEqual({ type: 'fifths' });
+    });
+
+    test('swaps progression mode at runtime', () => {
+      engine.setProgressionMode({ type: 'energy-boost' });
+
+      expect(engine.getProgressionMode()).toEqual({ type: 'energy-boost' });
+    });
+  });
+
+  describe('set planning', () => {
+    test('plays a loaded plan through next()', async () => {
+      const seeded = new KwyjiboEngine({ songs: createTestSongs(), audioLoader, seed: 'set' });
+      const plan = await seeded.planSet(4);
+      seeded.loadPlan(plan);
+
+      const played = [(await seeded.start()).track.song.id];
+      for (let i = 1; i < 4; i++) {
+        played.push((await seeded.next()).track.song.id);
+      }
+
+      expect(played).toEqual(plan.tracks.map((t) => t.song.id));
+    });
+
+    test('clearPlan returns to live selection', async () => {
+      engine.loadPlan(await engine.planSet(3));
+      engine.clearPlan();
+
+      const result = await engine.start();
+
+      expect(result.explanation.source).not.toBe('planned');
+    });
+
+    test('plans and plays a timed set, moving through the tempos', async () => {
+      const handler = jest.fn();
+      engine.on('tempoChange', handler);
+
+      const plan = await engine.planTimedSet({ duration: 5 * 60, endTempo: 102 });
+      engine.loadPlan(plan);
+      await engine.start();
+      for (let i = 1; i < plan.tracks.length; i++) {
+        await engine.next();
+      }
+
+      expect(engine.getStatistics().currentTempo).toBe(102);
+      expect(handler).toHaveBeenCalledWith({ tempo: 102, previousTempo: 94 });
+    });
+  });
+
+  describe('seeded randomness', () => {
+    /**
+     * Play a session and return the song ids and track types.
+     */
+    async function playSession(seedEngine: KwyjiboEngine, count: number): Promise<string[]> {
+      const played: string[] = [];
+      played.push(describeTrack((await seedEngine.start()).track));
+      for (let i = 1; i < count; i++) {
+        played.push(describeTrack((await seedEngine.next()).track));
+      }
+      return played;
+    }
+
+    function describeTrack(track: TrackRequest): string {
+      return `${track.song.id}:${track.type}`;
+    }
+
+    test('same seed produces the same track sequence', async () => {
+      const options = {
+        audioLoader,
+        seed: 'reproducible',
+        progressionMode: { type: 'random-compatible' as const },
+      };
+      const first = await playSession(new KwyjiboEngine({ songs: createTestSongs(), ...options }), 20);
+      const second = await playSession(new KwyjiboEngine({ songs: createTestSongs(), ...options }), 20);
+
+      expect(second).toEqual(first);
+    });
+
+    test('different seeds produce different sequences', async () => {
+      const first = await playSession(new KwyjiboEngine({ songs: createTestSongs(), audioLoader, seed: 1 }), 20);
+      const second = await playSession(new KwyjiboEngine({ songs: createTestSongs(), audioLoader, seed: 2 }), 20);
+
+      expect(second).not.toEqual(first);
+    });
+
+    test('reset replays a seeded mix', async () => {
+      const seeded = new KwyjiboEngine({ songs: createTestSongs(), audioLoader, seed: 99 });
+      const first = await playSession(seeded, 10);
+
+      seeded.reset();
+
+      expect(await playSession(seeded, 10)).toEqual(first);
+    });
+
+    test('reports the seed', () => {
+      expect(new KwyjiboEngine({ songs: createTestSongs(), audioLoader, seed: 'abc' }).getSeed()).toBe('abc');
+      expect(engine.getSeed()).toBeNull();
+    });
+
+    test('accepts a custom random source', async () => {
+      const fromSource = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        random: new SeededRandom(7),
+      });
+      const fromSeed = new KwyjiboEngine({ songs: createTestSongs(), audioLoader, seed: 7 });
+
+      expect(await playSession(fromSource, 10)).toEqual(await playSession(fromSeed, 10));
+    });
+
+    test('replays a recorded session', async () => {
+      const recorded = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        record: true,
+        quantumOptions: { useLocalStorage: false },
+      });
+      const live = await playSession(recorded, 15);
+      const log = recorded.getRandomLog();
+
+      expect(log?.draws.length).toBeGreaterThan(0);
+
+      const replayed = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        replay: JSON.stringify(log),
+      });
+
+      expect(await playSession(replayed, 15)).toEqual(live);
+    });
+
+    test('replay fails loudly when the session diverges', async () => {
+      const recorded = new KwyjiboEngine({ songs: createTestSongs(), audioLoader, seed: 5, record: true });
+      await playSession(recorded, 10);
+
+      // Key 1 songs are missing, so the first selection draws from a different pool
+      const diverged = new KwyjiboEngine({
+        songs: createTestSongs().slice(3),
+        audioLoader,
+        replay: recorded.getRandomLog()!,
+      });
+      const errorHandler = jest.fn();
+      diverged.on('error', errorHandler);
+
+      await expect(playSession(diverged, 10)).rejects.toThrow('Replay diverged');
+      await expect(diverged.next()).rejects.toThrow(RandomReplayError);
+      expect(errorHandler).toHaveBeenCalled();
+    });
+
+    test('getRandomLog is null when not recording', () => {
+      expect(engine.getRandomLog()).toBeNull();
+    });
+  });
+
+  describe('session snapshots', () => {
+    async function playTracks(session: KwyjiboEngine, count: number): Promise<string[]> {
+      const played: string[] = [];
+      if (session.getState() !== 'running') {
+        const { track } = await session.start();
+        played.push(`${track.song.id}:${track.type}`);
+      }
+      while (played.length < count) {
+        const { track } = await session.next();
+        played.push(`${track.song.id}:${track.type}`);
+      }
+      return played;
+    }
+
+    test('a restored seeded engine carries on exactly where it left off', async () => {
+      const options = {
+        audioLoader,
+        seed: 'resume',
+        progressionMode: { type: 'random-compatible' as const },
+        tempoSchedule: {
+          type: 'scripted' as const,
+          steps: [
+            { tempo: 84 as const, tracks: 4 },
+            { tempo: 102 as const, tracks: 3 },
+          ],
+        },
+      };
+      const uninterrupted = new KwyjiboEngine({ songs: createTestSongs(), ...options });
+      const interrupted = new KwyjiboEngine({ songs: createTestSongs(), ...options });
+      const expected = await playTracks(uninterrupted, 20);
+      await playTracks(interrupted, 10);
+
+      const snapshot = JSON.stringify(interrupted.serialize());
+      const restored = KwyjiboEngine.restore(snapshot, { songs: createTestSongs(), audioLoader });
+
+      expect(restored.getState()).toBe('idle');
+      expect(restored.getSeed()).toBe('resume');
+      expect(await playTracks(restored, 10)).toEqual(expected.slice(10));
+    });
+
+    test('a restored engine does not repeat played songs', async () => {
+      const options = { audioLoader, quantumOptions: { useLocalStorage: false } };
+      const session = new KwyjiboEngine({ songs: createTestSongs(), ...options });
+      const before = await playTracks(session, 20);
+
+      const restored = KwyjiboEngine.restore(session.serialize(), {
+        songs: createTestSongs(),
+        ...options,
+      });
+      const after = await playTracks(restored, 10);
+      const playedIds = new Set(before.map((track) => track.split(':')[0]));
+
+      expect(restored.getStatistics().tracksPlayed).toBe(30);
+      expect(after.filter((track) => playedIds.has(track.split(':')[0]))).toEqual([]);
+    });
+
+    test('restores the current track, key, tempo and script position', async () => {
+      const scripted = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        seed: 3,
+        script: '84: keys 1..3; 102: keys 8, 9',
+      });
+      await playTracks(scripted, 4);
+
+      const restored = KwyjiboEngine.restore(scripted.serialize(), {
+        songs: createTestSongs(),
+        audioLoader,
+      });
+
+      expect(restored.getCurrentTrack()).toEqual(scripted.getCurrentTrack());
+      expect(restored.getStatistics()).toMatchObject({
+        currentKey: scripted.getStatistics().currentKey,
+        currentTempo: 102,
+        tracksPlayed: 4,
+      });
+      expect(restored.getScript()).toEqual(scripted.getScript());
+
+      // The script resumes at its fifth step (key 9 at 102)
+      const { track } = await restored.start();
+      expect(track).toEqual((await scripted.next()).track);
+      expect(track.tempo).toBe(102);
+    });
+
+    test('saves and loads sessions through storage', async () => {
+      const storage = new MemorySnapshotStorage();
+      await playTracks(engine, 3);
+      await engine.saveSession(storage, 'friday');
+
+      const restored = await KwyjiboEngine.loadSession(
+        storage,
+        { songs: createTestSongs(), audioLoader },
+        'friday'
+      );
+
+      expect(restored?.getStatistics().songsPlayed).toBe(3);
+      expect(
+        await KwyjiboEngine.loadSession(storage, { songs: createTestSongs(), audioLoader })
+      ).toBeNull();
+    });
+
+    test('auto-save keeps the latest snapshot in storage', async () => {
+      const storage = new MemorySnapshotStorage();
+      const saving = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        seed: 8,
+        autoSave: { storage, key: 'auto' },
+      });
+      await playTracks(saving, 5);
+      await saving.flushAutoSave();
+
+      const saved = await storage.load('auto');
+      expect(saved).not.toBeNull();
+      expect(JSON.parse(saved!)).toMatchObject({
+        playedIds: saving.serialize().playedIds,
+        selector: { trackCount: 5 },
+      });
+    });
+
+    test('auto-save failures are reported as errors', async () => {
+      const failing: SnapshotStorage = {
+        load: () => Promise.resolve(null),
+        save: () => Promise.reject(new Error('disk full')),
+        remove: () => Promise.resolve(),
+      };
+      const saving = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        autoSave: { storage: failing, events: ['trackSelected'] },
+      });
+      const errorHandler = jest.fn();
+      saving.on('error', errorHandler);
+
+      await playTracks(saving, 2);
+      await saving.flushAutoSave();
+
+      expect(errorHandler).toHaveBeenCalledWith({
+        error: new Error('disk full'),
+        context: 'autoSave',
+      });
+    });
+
+    test('rejects snapshots from an unknown version', () => {
+      const snapshot = { ...engine.serialize(), version: 2 };
+
+      expect(() =>
+        KwyjiboEngine.restore(JSON.stringify(snapshot), { songs: createTestSongs(), audioLoader })
+      ).toThrow('Unsupported engine snapshot version: 2');
+    });
+  });
+
+  describe('song requests', () => {
+    test('emits scheduled, played and dropped events', async () => {
+      const scheduled = jest.fn();
+      const played = jest.fn();
+      const dropped = jest.fn();
+      engine.on('requestScheduled', scheduled);
+      engine.on('requestPlayed', played);
+      engine.on('requestDropped', dropped);
+
+      const request = engine.request(702, { deadlineTracks: 2 });
+      expect(engine.request(9999)).toBeNull();
+      expect(engine.getRequests()).toEqual([request]);
+
+      await engine.start();
+      const selection = await engine.next();
+
+      expect(scheduled).toHaveBeenCalledWith({ request });
+      expect(dropped).toHaveBeenCalledWith({
+        request: { songId: 9999, priority: 0, deadline: 5 },
+        reason: 'unknown-song',
+      });
+      expect(played).toHaveBeenCalledWith({ request, selection });
+      expect(selection.track.song.id).toBe(702);
+      expect(engine.getRequests()).toEqual([]);
+    });
+
+    test('cancelRequest withdraws a request', () => {
+      engine.request(702);
+
+      expect(engine.cancelRequest(702)).toBe(true);
+      expect(engine.cancelRequest(702)).toBe(false);
+      expect(engine.getRequests()).toEqual([]);
+    });
+  });
+
+  describe('pair rules', () => {
+    test('setPairRules reports rules naming unknown songs', () => {
+      const rules = new PairRules([
+        { type: 'never-same-tempo-block', songIds: [102, 202] },
+        { type: 'never-pair-songs', songIds: [101, 9999] },
+      ]);
+
+      const issues = engine.setPairRules(rules);
+
+      expect(issues.map(({ index, unknownSongIds }) => ({ index, unknownSongIds }))).toEqual([
+        { index: 1, unknownSongIds: [9999] },
+      ]);
+      expect(engine.getPairRules()).toBe(rules);
+
+      expect(engine.setPairRules(null)).toEqual([]);
+      expect(engine.getPairRules()).toBeNull();
+    });
+  });
+
+  describe('song attributes', () => {
+    test('changes apply to the running engine', async () => {
+      await engine.start();
+      engine.setSongAttributes(202, { banned: true });
+      engine.setSongAttributes(302, { favorite: true });
+
+      const played: number[] = [];
+      for (let i = 0; i < 10; i++) {
+        played.push((await engine.next()).track.song.id);
+      }
+
+      expect(played).not.toContain(202);
+      expect(engine.getSongAttributes(302)).toEqual({ favorite: true });
+    });
+
+    test('saves changes to storage and loads them into another engine', async () => {
+      const storage = new MemorySnapshotStorage();
+      const saving = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        songAttributes: { storage },
+      });
+
+      saving.setSongAttributes(101, { weight: 2, favorite: true });
+      saving.setSongAttributes(102, { bannedUntil: 5000 });
+      saving.clearSongAttributes(102);
+      await saving.flushAutoSave();
+
+      expect(await storage.load('kwyjibo-song-attributes')).toBe(
+        '{"101":{"weight":2,"favorite":true}}'
+      );
+
+      const loading = new KwyjiboEngine({ songs: createTestSongs(), audioLoader });
+      expect(await loading.loadSongAttributes(storage)).toBe(true);
+      expect(loading.getSongAttributes(101)).toEqual({ weight: 2, favorite: true });
+      expect(await loading.loadSongAttributes(storage, 'missing')).toBe(false);
+    });
+
+    test('needs storage to load or save', async () => {
+      await expect(engine.loadSongAttributes()).rejects.toThrow('No song attribute storage');
+      expect(() => engine.setSongAttributes(9999, { banned: true })).toThrow('Unknown song');
+    });
+
+    test('save failures are reported as errors', async () => {
+      const failing: SnapshotStorage = {
+        load: () => Promise.resolve(null),
+        save: () => Promise.reject(new Error('disk full')),
+        remove: () => Promise.resolve(),
+      };
+      const saving = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        songAttributes: { storage: failing },
+      });
+      const errorHandler = jest.fn();
+      saving.on('error', errorHandler);
+
+      saving.setSongAttributes(101, { banned: true });
+      await saving.flushAutoSave();
+
+      expect(errorHandler).toHaveBeenCalledWith({
+        error: new Error('disk full'),
+        context: 'songAttributes',
+      });
+    });
+  });
+
+  describe('history', () => {
+    test('previous() returns to the earlier track and its state', async () => {
+      const first = await engine.start();
+      const statsAfterFirst = engine.getStatistics();
+      await engine.next();
+      await engine.next();
+      engine.previous();
+      const back = engine.previous();
+
+      expect(back).toBe(first);
+      expect(engine.getCurrentTrack()).toBe(first.track);
+      expect(engine.getStatistics()).toMatchObject({
+        tracksPlayed: 1,
+        songsPlayed: 1,
+        currentKey: statsAfterFirst.currentKey,
+        currentTempo: statsAfterFirst.currentTempo,
+      });
+      expect(engine.canGoBack()).toBe(false);
+      expect(engine.getHistory()).toEqual([first]);
+    });
+
+    test('next() after previous() keeps the key progression and played songs', async () => {
+      const selections = [await engine.start(), await engine.next(), await engine.next()];
+      const keyAfterThird = engine.getStatistics().currentKey;
+
+      engine.previous();
+      const replacement = await engine.next();
+      const playedIds = engine.getHistory().map((selection) => selection.track.song.id);
+
+      expect(engine.getStatistics().tracksPlayed).toBe(3);
+      expect(engine.getStatistics().songsPlayed).toBe(3);
+      expect(new Set(playedIds).size).toBe(3);
+      expect(playedIds.slice(0, 2)).toEqual(
+        selections.slice(0, 2).map((selection) => selection.track.song.id)
+      );
+      expect(replacement.track.song.id).not.toBe(selections[1]!.track.song.id);
+      expect(engine.getStatistics().currentKey).toBe(keyAfterThird);
+    });
+
+    test('emits trackSelected, keyChange and tempoChange when going back', async () => {
+      const scripted = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        script: '84: keys 1, 2; 102: keys 8',
+      });
+      const first = await scripted.start();
+      await scripted.next();
+      await scripted.next();
+      scripted.previous();
+      const selected = jest.fn();
+      const keyChange = jest.fn();
+      const tempoChange = jest.fn();
+      scripted.on('trackSelected', selected);
+      scripted.on('keyChange', keyChange);
+      scripted.on('tempoChange', tempoChange);
+
+      scripted.previous();
+
+      expect(selected).toHaveBeenCalledWith(first);
+      expect(keyChange).toHaveBeenCalled();
+      expect(tempoChange).not.toHaveBeenCalled();
+      expect(scripted.getStatistics().currentTempo).toBe(84);
+    });
+
+    test('keeps at most historyLimit tracks', async () => {
+      const limited = new KwyjiboEngine({ songs: createTestSongs(), audioLoader, historyLimit: 3 });
+      await limited.start();
+      for (let i = 0; i < 5; i++) {
+        await limited.next();
+      }
+
+      expect(limited.getHistory()).toHaveLength(3);
+      limited.previous();
+      limited.previous();
+      expect(() => limited.previous()).toThrow('No earlier track');
+      expect(
+        () => new KwyjiboEngine({ songs: createTestSongs(), audioLoader, historyLimit: 0 })
+      ).toThrow('historyLimit must be a positive integer');
+    });
+
+    test('previous() needs a running engine, and reset clears the history', async () => {
+      expect(() => engine.previous()).toThrow('Cannot go back in state: idle');
+
+      await engine.start();
+      await engine.next();
+      engine.reset();
+
+      expect(engine.getHistory()).toEqual([]);
+      expect(engine.canGoBack()).toBe(false);
+    });
+  });
+
   describe('statistics', () => {
     test('provides comprehensive statistics', async () => {
       await engine.start();
@@ -474,6 +1142,22 @@ describe('KwyjiboEngine', () => {
 
       expect(handler).toHaveBeenCalled();
     });
+
+    test('reports beats played by track type', async () => {
+      const structured = new KwyjiboEngine({
+        songs: createTestSongs(),
+        audioLoader,
+        seed: 'beats',
+        selectorOptions: {
+          structureTemplates: [{ name: 'lead-body', types: ['lead', 'body'], weight: 1 }],
+        },
+      });
+
+      await structured.start();
+      await structured.next();
+
+      expect(structured.getStatistics().beatsPlayed).toEqual({ lead: 16, body: 64 });
+    });
   });
 
   describe('event system', () => {
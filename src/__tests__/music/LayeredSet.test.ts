@@ -0,0 +1,55 @@
+/**
+ * Tests for LayeredSet helpers
+ *
+ * Tests layer keys, role lookup and layout validation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  PAIR_WITH_HIDDEN_LAYOUT,
+  getLayerKey,
+  getLayers,
+  getSetSongs,
+  validateLayout,
+} from '../../music/LayeredSet.js';
+import type { LayeredSet, Song } from '../../music/types.js';
+
+function createSong(id: number): Song {
+  return { id, artist: `Artist ${id}`, title: `Song ${id}`, key: 1, bpm: 94 };
+}
+
+describe('LayeredSet', () => {
+  test('getLayerKey transposes by the key offset and keeps the mode', () => {
+    expect(getLayerKey({ key: 1, mode: 'major' }, { role: 'main' })).toEqual({
+      key: 1,
+      mode: 'major',
+    });
+    expect(getLayerKey({ key: 10, mode: 'minor' }, { role: 'hidden', keyOffset: 7 })).toEqual({
+      key: 5,
+      mode: 'minor',
+    });
+  });
+
+  test('getLayers and getSetSongs follow layout order', () => {
+    const key = { key: 1, mode: 'unknown' } as const;
+    const set: LayeredSet = {
+      key,
+      tempo: 94,
+      layers: [
+        { song: createSong(1), role: 'main', key },
+        { song: createSong(2), role: 'partner', key },
+        { song: createSong(3), role: 'hidden', key },
+        { song: createSong(4), role: 'hidden', key },
+      ],
+    };
+
+    expect(getLayers(set, 'hidden').map((layer) => layer.song.id)).toEqual([3, 4]);
+    expect(getSetSongs(set).map((song) => song.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('validateLayout accepts the built-in layouts and rejects bad ones', () => {
+    expect(() => validateLayout(PAIR_WITH_HIDDEN_LAYOUT)).not.toThrow();
+    expect(() => validateLayout([])).toThrow('at least one layer');
+    expect(() => validateLayout([{ role: 'hidden', keyOffset: 1.5 }])).toThrow('integer');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for MagicPolicy
+ *
+ * Tests the fixed, range and probability intervals, behavior lists and
+ * policy validation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  isMagicTrack,
+  validateMagicPolicy,
+  getMagicBehaviors,
+  DEFAULT_MAGIC_POLICY,
+} from '../../music/MagicPolicy.js';
+import type { MagicInterval } from '../../music/MagicPolicy.js';
+import { SeededRandom } from '../../random/SeededRandom.js';
+
+/**
+ * Play `tracks` tracks under an interval and return the magic track numbers.
+ */
+async function magicTracks(
+  interval: MagicInterval,
+  tracks: number,
+  seed: string
+): Promise<number[]> {
+  const random = new SeededRandom(seed);
+  const magic: number[] = [];
+  let last = 0;
+
+  for (let track = 1; track <= tracks; track++) {
+    if (await isMagicTrack(interval, track, last, random)) {
+      magic.push(track);
+      last = track;
+    }
+  }
+  return magic;
+}
+
+describe('MagicPolicy', () => {
+  describe('isMagicTrack', () => {
+    test('fixed intervals hit every Nth track', async () => {
+      expect(await magicTracks({ type: 'fixed', every: 5 }, 20, 'x')).toEqual([5, 10, 15, 20]);
+    });
+
+    test('range intervals keep every gap within min and max', async () => {
+      const magic = await magicTracks({ type: 'range', min: 3, max: 6 }, 200, 'range');
+      const gaps = magic.map((track, i) => track - (magic[i - 1] ?? 0));
+
+      expect(Math.min(...gaps)).toBe(3);
+      expect(Math.max(...gaps)).toBe(6);
+    });
+
+    test('range gaps are spread across the range', async () => {
+      const magic = await magicTracks({ type: 'range', min: 2, max: 5 }, 4000, 'spread');
+      const gaps = magic.map((track, i) => track - (magic[i - 1] ?? 0));
+      const counts = [2, 3, 4, 5].map((gap) => gaps.filter((g) => g === gap).length / gaps.length);
+
+      for (const share of counts) {
+        expect(share).toBeGreaterThan(0.18);
+        expect(share).toBeLessThan(0.32);
+      }
+    });
+
+    test('probability intervals hit about the given share of tracks', async () => {
+      const magic = await magicTracks({ type: 'probability', chance: 0.25 }, 2000, 'chance');
+
+      expect(magic.length / 2000).toBeGreaterThan(0.2);
+      expect(magic.length / 2000).toBeLessThan(0.3);
+      expect(await magicTracks({ type: 'probability', chance: 0 }, 50, 'never')).toEqual([]);
+    });
+  });
+
+  describe('validateMagicPolicy', () => {
+    test('fills in defaults', () => {
+      expect(validateMagicPolicy({})).toEqual({
+        ...DEFAULT_MAGIC_POLICY,
+        interval: { type: 'fixed', every: 5 },
+      });
+      expect(getMagicBehaviors({ behavior: ['random-song', 'tempo-jump'] })).toEqual([
+        'random-song',
+        'tempo-jump',
+      ]);
+    });
+
+    test('rejects invalid intervals', () => {
+      expect(() => validateMagicPolicy({ interval: { type: 'fixed', every: 2.5 } })).toThrow(
+        'positive integer'
+      );
+      expect(() => validateMagicPolicy({ interval: { type: 'range', min: 6, max: 3 } })).toThrow(
+        'at least min'
+      );
+      expect(() => validateMagicPolicy({ interval: { type: 'probability', chance: 1.5 } })).toThrow(
+        'between 0 and 1'
+      );
+    });
+
+    test('rejects empty behavior lists and interludes without samples', () => {
+      expect(() => validateMagicPolicy({ behavior: [] })).toThrow('at least one behavior');
+      expect(() => validateMagicPolicy({ behavior: 'sample-interlude' })).toThrow('needs samples');
+    });
+  });
+});
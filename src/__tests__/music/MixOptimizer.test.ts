@@ -0,0 +1,301 @@
+/**
+ * Tests for MixOptimizer
+ *
+ * Tests each objective component, weights, improvement over a poor mix,
+ * song replacement (only with songs that fit the pair), pair rules,
+ * determinism with a seeded source, and validation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { MixOptimizer } from '../../music/MixOptimizer.js';
+import type { MixPair, MixSlot } from '../../music/MixOptimizer.js';
+import { PairRules } from '../../music/PairRules.js';
+import { SeededRandom } from '../../random/SeededRandom.js';
+import type { Song, Key, Tempo } from '../../music/types.js';
+
+function createSong(
+  id: number,
+  artist: string = `Artist ${id}`,
+  key: Key = 1,
+  bpm: Tempo = 94
+): Song {
+  return { id, artist, title: `Song ${id}`, key, bpm };
+}
+
+function createPair(songs: Song[], key: Key, tempo: Tempo = 94): MixPair {
+  const [a, b, c, d] = songs.map((song) => ({ song, key, tempo }));
+  return { track1: a!, track2: b!, track3: c, track4: d, key, tempo };
+}
+
+function replaceSong(pair: MixPair, slot: MixSlot, song: Song): MixPair {
+  return { ...pair, [slot]: { ...pair[slot]!, song } };
+}
+
+function songIds(mix: readonly MixPair[]): number[] {
+  return mix
+    .flatMap((pair) => [pair.track1, pair.track2, pair.track3, pair.track4])
+    .filter((track) => track !== undefined)
+    .map((track) => track.song.id);
+}
+
+describe('MixOptimizer', () => {
+  describe('evaluate', () => {
+    test('scores a smooth, varied, balanced mix highly', () => {
+      const mix = [
+        createPair([createSong(1), createSong(2)], 1, 84),
+        createPair([createSong(3), createSong(4)], 1, 94),
+        createPair([createSong(5), createSong(6)], 1, 102),
+      ];
+
+      const objective = new MixOptimizer({ random: new SeededRandom('x') }).evaluate(mix);
+
+      expect(objective).toEqual({
+        harmonic: 1,
+        artistSpacing: 1,
+        coverage: 1,
+        tempoBalance: 1,
+        total: 1,
+      });
+    });
+
+    test('penalizes clashing key changes', () => {
+      const optimizer = new MixOptimizer({ random: new SeededRandom('x') });
+      const smooth = [
+        createPair([createSong(1), createSong(2)], 1),
+        createPair([createSong(3), createSong(4)], 8),
+      ];
+      const clash = [
+        createPair([createSong(1), createSong(2)], 1),
+        createPair([createSong(3), createSong(4)], 7),
+      ];
+
+      expect(optimizer.evaluate(clash).harmonic).toBeLessThan(optimizer.evaluate(smooth).harmonic);
+    });
+
+    test("scores each track by its song's own key, not the slot key", () => {
+      const optimizer = new MixOptimizer({ random: new SeededRandom('x') });
+      const mix = [createPair([createSong(1), createSong(2, 'Nas', 7)], 1)];
+
+      // Key 1 → key 1 scores 10, key 1 → key 7 scores 2
+      expect(optimizer.evaluate(mix).harmonic).toBeCloseTo(0.6);
+    });
+
+    test('penalizes artists repeated within the spacing window', () => {
+      const optimizer = new MixOptimizer({ artistSpacing: 2, random: new SeededRandom('x') });
+      const mix = [
+        createPair([createSong(1, 'Nas'), createSong(2, 'Nas'), createSong(3), createSong(4)], 1),
+      ];
+
+      expect(optimizer.evaluate(mix).artistSpacing).toBe(0.75);
+    });
+
+    test('measures coverage against the library', () => {
+      const library = Array.from({ length: 8 }, (_, i) => createSong(i + 1));
+      const optimizer = new MixOptimizer({ library, random: new SeededRandom('x') });
+      const mix = [
+        createPair([library[0]!, library[1]!], 1),
+        createPair([library[0]!, library[2]!], 1),
+      ];
+
+      expect(optimizer.evaluate(mix).coverage).toBe(0.75);
+    });
+
+    test('rewards tempo blocks of the target length', () => {
+      const optimizer = new MixOptimizer({ random: new SeededRandom('x') });
+      const pairs = (tempos: Tempo[]): MixPair[] =>
+        tempos.map((tempo, i) =>
+          createPair([createSong(i * 2 + 1), createSong(i * 2 + 2)], 1, tempo)
+        );
+
+      expect(optimizer.evaluate(pairs([84, 84, 94, 94])).tempoBalance).toBe(1);
+      expect(optimizer.evaluate(pairs([84, 94, 84, 94])).tempoBalance).toBe(0.5);
+    });
+
+    test('weights decide the total', () => {
+      const mix = [createPair([createSong(1, 'Nas'), createSong(2, 'Nas')], 1)];
+      const spacingOnly = new MixOptimizer({
+        weights: { harmonic: 0, coverage: 0, tempoBalance: 0 },
+        random: new SeededRandom('x'),
+      });
+
+      expect(spacingOnly.evaluate(mix).total).toBe(0.5);
+    });
+  });
+
+  describe('optimize', () => {
+    test('reorders pairs into smoother key changes and reports before and after', async () => {
+      const keys: Key[] = [1, 7, 2, 8, 3, 9, 4, 10];
+      const mix = keys.map((key, i) =>
+        createPair([createSong(i * 2 + 1), createSong(i * 2 + 2)], key)
+      );
+      const optimizer = new MixOptimizer({ iterations: 2000, random: new SeededRandom('order') });
+
+      const result = await optimizer.optimize(mix);
+
+      expect(result.after.total).toBeGreaterThan(result.before.total);
+      expect(result.after).toEqual(optimizer.evaluate(result.mix));
+      expect(result.before).toEqual(optimizer.evaluate(mix));
+      expect([...songIds(result.mix)].sort((a, b) => a - b)).toEqual(
+        [...songIds(mix)].sort((a, b) => a - b)
+      );
+      expect(result.iterations).toBe(2000);
+    });
+
+    test('replaces duplicates with unused library songs', async () => {
+      const library = Array.from({ length: 8 }, (_, i) => createSong(i + 1));
+      const mix = [
+        createPair([library[0]!, library[1]!], 1),
+        createPair([library[0]!, library[1]!], 1),
+      ];
+      const optimizer = new MixOptimizer({
+        library,
+        replaceSong,
+        iterations: 1000,
+        random: new SeededRandom('cover'),
+      });
+
+      const result = await optimizer.optimize(mix);
+
+      expect(result.before.coverage).toBe(0.5);
+      expect(result.after.coverage).toBe(1);
+      expect(new Set(songIds(result.mix)).size).toBe(4);
+    });
+
+    test('only moves songs into pairs whose tempo and key they fit', async () => {
+      const library = [
+        ...[1, 2, 3, 4].map((id) => createSong(id)),
+        ...[5, 6, 7, 8].map((id) => createSong(id, `Artist ${id}`, 1, 84)),
+        ...[9, 10, 11, 12].map((id) => createSong(id, `Artist ${id}`, 7, 94)),
+      ];
+      const mix = [
+        createPair([library[0]!, library[1]!], 1),
+        createPair([library[0]!, library[1]!], 1),
+      ];
+      const optimizer = new MixOptimizer({
+        library,
+        replaceSong,
+        iterations: 1000,
+        random: new SeededRandom('fit'),
+      });
+
+      const result = await optimizer.optimize(mix);
+      const tracks = result.mix.flatMap((pair) =>
+        [pair.track1, pair.track2].map((track) => ({ song: track.song, pair }))
+      );
+
+      expect(tracks.every(({ song, pair }) => song.bpm === pair.tempo)).toBe(true);
+      expect(tracks.every(({ song }) => song.key === 1)).toBe(true);
+      expect([...songIds(result.mix)].sort((a, b) => a - b)).toEqual([1, 2, 3, 4]);
+    });
+
+    test('never puts songs that may not pair into one pair', async () => {
+      const library = Array.from({ length: 4 }, (_, i) => createSong(i + 1));
+      const mix = [
+        createPair([library[0]!, library[1]!], 1),
+        createPair([library[0]!, library[1]!], 1),
+      ];
+      const pairRules = new PairRules([
+        { type: 'never-pair-songs', songIds: [1, 3] },
+        { type: 'never-pair-songs', songIds: [2, 3] },
+      ]);
+      const optimizer = new MixOptimizer({
+        library,
+        replaceSong,
+        pairRules,
+        iterations: 1000,
+        random: new SeededRandom('rules'),
+      });
+
+      const result = await optimizer.optimize(mix);
+
+      expect(result.after.coverage).toBe(1);
+      expect(result.mix.every((pair) => pairRules.canPair(pair.track1.song, pair.track2.song))).toBe(
+        true
+      );
+    });
+
+    test('keeps songs apart that may not share a tempo block', async () => {
+      const mix = [
+        createPair([createSong(1), createSong(2)], 1, 84),
+        createPair([createSong(3), createSong(4)], 1, 94),
+        createPair([createSong(5), createSong(6)], 1, 84),
+      ];
+      const optimize = async (pairRules?: PairRules): Promise<Tempo[]> =>
+        (
+          await new MixOptimizer({
+            pairRules,
+            weights: { harmonic: 0, artistSpacing: 0, coverage: 0 },
+            iterations: 500,
+            random: new SeededRandom('blocks'),
+          }).optimize(mix)
+        ).mix.map((pair) => pair.tempo);
+
+      expect(await optimize()).not.toEqual([84, 94, 84]);
+      expect(
+        await optimize(new PairRules([{ type: 'never-same-tempo-block', songIds: [1, 5] }]))
+      ).toEqual([84, 94, 84]);
+    });
+
+    test('never returns a worse mix and leaves the input alone', async () => {
+      const mix = [
+        createPair([createSong(1), createSong(2)], 1, 84),
+        createPair([createSong(3), createSong(4)], 1, 94),
+      ];
+      const snapshot = JSON.stringify(mix);
+
+      const result = await new MixOptimizer({
+        iterations: 200,
+        random: new SeededRandom('keep'),
+      }).optimize(mix);
+
+      expect(result.after.total).toBeGreaterThanOrEqual(result.before.total);
+      expect(JSON.stringify(mix)).toBe(snapshot);
+    });
+
+    test('seeded runs are reproducible', async () => {
+      const keys: Key[] = [5, 11, 6, 12, 1, 7];
+      const mix = keys.map((key, i) =>
+        createPair([createSong(i * 2 + 1), createSong(i * 2 + 2)], key)
+      );
+      const run = async (): Promise<number[]> =>
+        songIds(
+          (
+            await new MixOptimizer({ iterations: 300, random: new SeededRandom('same') }).optimize(
+              mix
+            )
+          ).mix
+        );
+
+      expect(await run()).toEqual(await run());
+    });
+
+    test('handles an empty mix', async () => {
+      const result = await new MixOptimizer({ random: new SeededRandom('x') }).optimize([]);
+
+      expect(result.mix).toEqual([]);
+      expect(result.iterations).toBe(0);
+    });
+  });
+
+  describe('validation', () => {
+    test('rejects invalid weights and options', () => {
+      const random = new SeededRandom('x');
+
+      expect(() => new MixOptimizer({ weights: { harmonic: -1 }, random })).toThrow('non-negative');
+      expect(
+        () =>
+          new MixOptimizer({
+            weights: { harmonic: 0, artistSpacing: 0, coverage: 0, tempoBalance: 0 },
+            random,
+          })
+      ).toThrow('positive');
+      expect(() => new MixOptimizer({ iterations: 1.5, random })).toThrow('iterations');
+      expect(() => new MixOptimizer({ minCompatibilityScore: -1, random })).toThrow(
+        'minCompatibilityScore'
+      );
+      expect(
+        () => new MixOptimizer({ initialTemperature: 0.001, finalTemperature: 0.01, random })
+      ).toThrow('finalTemperature');
+    });
+  });
+});
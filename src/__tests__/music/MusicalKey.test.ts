@@ -0,0 +1,126 @@
+/**
+ * Tests for MusicalKey utilities
+ *
+ * Tests Camelot / Open Key conversions, relative keys and transposition.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  musicalKey,
+  getSongMusicalKey,
+  transposeKey,
+  relativeKey,
+  toCamelot,
+  fromCamelot,
+  toOpenKey,
+  fromOpenKey,
+  formatMusicalKey,
+  isSameMusicalKey,
+} from '../../music/MusicalKey.js';
+import { ALL_KEYS, ALL_MODES } from '../../music/types.js';
+
+describe('MusicalKey', () => {
+  describe('transposeKey', () => {
+    test('moves up and wraps around', () => {
+      expect(transposeKey(1, 7)).toBe(8);
+      expect(transposeKey(12, 1)).toBe(1);
+    });
+
+    test('moves down and wraps around', () => {
+      expect(transposeKey(1, -3)).toBe(10);
+      expect(transposeKey(1, -13)).toBe(12);
+    });
+  });
+
+  describe('relativeKey', () => {
+    test('C major ↔ A minor', () => {
+      expect(relativeKey(musicalKey(1, 'major'))).toEqual({ key: 10, mode: 'minor' });
+      expect(relativeKey(musicalKey(10, 'minor'))).toEqual({ key: 1, mode: 'major' });
+    });
+
+    test('throws for unknown mode', () => {
+      expect(() => relativeKey(musicalKey(1))).toThrow('mode is unknown');
+    });
+  });
+
+  describe('Camelot', () => {
+    test('converts well-known keys', () => {
+      expect(toCamelot(musicalKey(1, 'major'))).toBe('8B');
+      expect(toCamelot(musicalKey(10, 'minor'))).toBe('8A');
+      expect(toCamelot(musicalKey(8, 'major'))).toBe('9B'); // G
+      expect(toCamelot(musicalKey(12, 'major'))).toBe('1B'); // B
+      expect(toCamelot(musicalKey(9, 'minor'))).toBe('1A'); // G#m
+    });
+
+    test('relative keys share a Camelot number', () => {
+      for (const key of ALL_KEYS) {
+        const major = musicalKey(key, 'major');
+        expect(toCamelot(relativeKey(major)).slice(0, -1)).toBe(toCamelot(major).slice(0, -1));
+      }
+    });
+
+    test('round-trips all 24 keys', () => {
+      for (const mode of ALL_MODES) {
+        for (const key of ALL_KEYS) {
+          const value = musicalKey(key, mode);
+          expect(fromCamelot(toCamelot(value))).toEqual(value);
+        }
+      }
+    });
+
+    test('parses lowercase letters', () => {
+      expect(fromCamelot('8b')).toEqual({ key: 1, mode: 'major' });
+    });
+
+    test('rejects invalid codes', () => {
+      expect(() => fromCamelot('13A')).toThrow('Invalid Camelot code');
+      expect(() => fromCamelot('8C')).toThrow('Invalid Camelot code');
+    });
+
+    test('throws for unknown mode', () => {
+      expect(() => toCamelot(musicalKey(1))).toThrow('mode is unknown');
+    });
+  });
+
+  describe('Open Key', () => {
+    test('converts well-known keys', () => {
+      expect(toOpenKey(musicalKey(1, 'major'))).toBe('1d');
+      expect(toOpenKey(musicalKey(10, 'minor'))).toBe('1m');
+      expect(toOpenKey(musicalKey(8, 'major'))).toBe('2d');
+    });
+
+    test('round-trips all 24 keys', () => {
+      for (const mode of ALL_MODES) {
+        for (const key of ALL_KEYS) {
+          const value = musicalKey(key, mode);
+          expect(fromOpenKey(toOpenKey(value))).toEqual(value);
+        }
+      }
+    });
+
+    test('rejects invalid codes', () => {
+      expect(() => fromOpenKey('1x')).toThrow('Invalid Open Key code');
+    });
+  });
+
+  describe('helpers', () => {
+    test('formats key names', () => {
+      expect(formatMusicalKey(musicalKey(1, 'major'))).toBe('C');
+      expect(formatMusicalKey(musicalKey(10, 'minor'))).toBe('Am');
+      expect(formatMusicalKey(musicalKey(2))).toBe('C#');
+    });
+
+    test('songs without a mode have unknown mode', () => {
+      const song = { id: 1, artist: 'A', title: 'T', key: 3 as const, bpm: 94 as const };
+
+      expect(getSongMusicalKey(song)).toEqual({ key: 3, mode: 'unknown' });
+      expect(getSongMusicalKey({ ...song, mode: 'minor' })).toEqual({ key: 3, mode: 'minor' });
+    });
+
+    test('unknown mode matches either mode', () => {
+      expect(isSameMusicalKey(musicalKey(1), musicalKey(1, 'minor'))).toBe(true);
+      expect(isSameMusicalKey(musicalKey(1, 'major'), musicalKey(1, 'minor'))).toBe(false);
+      expect(isSameMusicalKey(musicalKey(1, 'major'), musicalKey(2, 'major'))).toBe(false);
+    });
+  });
+});
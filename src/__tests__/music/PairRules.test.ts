@@ -0,0 +1,117 @@
+/**
+ * Tests for PairRules
+ *
+ * Tests song, artist and tempo-block rules, JSON import/export, and
+ * validation against a song list.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { PairRules } from '../../music/PairRules.js';
+import type { PairRule } from '../../music/PairRules.js';
+import type { Song } from '../../music/types.js';
+
+function createSong(id: number, artist: string): Song {
+  return { id, artist, title: `Song ${id}`, key: 1, bpm: 94 };
+}
+
+describe('PairRules', () => {
+  const nas = createSong(1, 'Nas');
+  const mobbDeep = createSong(2, 'Mobb Deep feat. Nas');
+  const outkast = createSong(3, 'Outkast');
+  const ghostface = createSong(4, 'Ghostface Killah');
+
+  test('song pair rules work in either order', () => {
+    const rules = new PairRules([{ type: 'never-pair-songs', songIds: [3, 1] }]);
+
+    expect(rules.canPair(nas, outkast)).toBe(false);
+    expect(rules.canPair(outkast, nas)).toBe(false);
+    expect(rules.canPair(nas, ghostface)).toBe(true);
+    expect(rules.canShareTempoBlock(nas, outkast)).toBe(true);
+  });
+
+  test('artist pair rules match artist credits', () => {
+    const rules = new PairRules([
+      { type: 'never-pair-artists', artists: ['Outkast', 'Mobb Deep'] },
+    ]);
+
+    expect(rules.canPair(mobbDeep, outkast)).toBe(false);
+    expect(rules.canPair(outkast, mobbDeep)).toBe(false);
+    expect(rules.canPair(nas, outkast)).toBe(true);
+  });
+
+  test('tempo block rules also forbid pairing', () => {
+    const rules = new PairRules([{ type: 'never-same-tempo-block', songIds: [1, 4] }]);
+
+    expect(rules.canShareTempoBlock(ghostface, nas)).toBe(false);
+    expect(rules.canPair(ghostface, nas)).toBe(false);
+  });
+
+  test('adds each rule once and removes it by pair', () => {
+    const rules = new PairRules()
+      .add({ type: 'never-pair-songs', songIds: [1, 3] })
+      .add({ type: 'never-pair-songs', songIds: [3, 1] })
+      .add({ type: 'never-pair-artists', artists: ['Nas', 'Outkast'] });
+
+    expect(rules.getRules()).toHaveLength(2);
+    expect(rules.remove({ type: 'never-pair-artists', artists: ['outkast', 'NAS'] })).toBe(true);
+    expect(rules.remove({ type: 'never-same-tempo-block', songIds: [1, 3] })).toBe(false);
+    expect(rules.remove({ type: 'never-pair-songs', songIds: [3, 1] })).toBe(true);
+    expect(rules.canPair(nas, outkast)).toBe(true);
+  });
+
+  test('rejects malformed rules', () => {
+    expect(() => new PairRules([{ type: 'never-pair-songs', songIds: [1, 1] }])).toThrow(
+      'pairs song 1 with itself'
+    );
+    expect(
+      () => new PairRules([{ type: 'never-pair-songs', songIds: [1] } as unknown as PairRule])
+    ).toThrow('Pair rule 0 songIds must be two song IDs');
+    expect(() => new PairRules([{ type: 'never-pair-artists', artists: ['Nas', ''] }])).toThrow(
+      'two artist names'
+    );
+    expect(() => new PairRules([{ type: 'sometimes' } as unknown as PairRule])).toThrow(
+      'unknown type: sometimes'
+    );
+  });
+
+  test('round-trips through JSON', () => {
+    const rules = new PairRules([
+      { type: 'never-pair-songs', songIds: [1, 3], note: 'both sample the same break' },
+      { type: 'never-pair-artists', artists: ['Nas', 'Outkast'] },
+      { type: 'never-same-tempo-block', songIds: [2, 4] },
+    ]);
+
+    const restored = PairRules.fromJSON(JSON.stringify(rules.toJSON()));
+
+    expect(restored.getRules()).toEqual(rules.getRules());
+    expect(restored.canShareTempoBlock(mobbDeep, ghostface)).toBe(false);
+  });
+
+  test('fromJSON rejects unknown versions and missing rules', () => {
+    expect(() => PairRules.fromJSON('[]')).toThrow('Unsupported pair rules version');
+    expect(() => PairRules.fromJSON('{"version":2,"rules":[]}')).toThrow(
+      'Unsupported pair rules version: 2'
+    );
+    expect(() => PairRules.fromJSON('{"version":1}')).toThrow('rules array');
+  });
+
+  test('validate reports rules with unknown song IDs', () => {
+    const rules = new PairRules([
+      { type: 'never-pair-songs', songIds: [1, 3] },
+      { type: 'never-pair-artists', artists: ['Nas', 'Unknown Artist'] },
+      { type: 'never-same-tempo-block', songIds: [98, 99] },
+    ]);
+
+    expect(rules.validate([nas, mobbDeep, outkast, ghostface]).map((issue) => issue.index)).toEqual(
+      [2]
+    );
+    expect(rules.validate([nas, ghostface])).toEqual([
+      { index: 0, rule: { type: 'never-pair-songs', songIds: [1, 3] }, unknownSongIds: [3] },
+      {
+        index: 2,
+        rule: { type: 'never-same-tempo-block', songIds: [98, 99] },
+        unknownSongIds: [98, 99],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for ProgressionScript
+ *
+ * Tests parsing of key lists, ranges and walks, magic settings, error
+ * positions, the runner's key and tempo sequence, and the bundled templates.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseProgressionScript,
+  validateProgressionScript,
+  getProgressionTemplate,
+  ProgressionRunner,
+  PROGRESSION_TEMPLATES,
+} from '../../music/ProgressionScript.js';
+import type { ProgressionTemplateName } from '../../music/ProgressionScript.js';
+import { ProgressionScriptError } from '../../music/errors.js';
+
+function keys(runner: ProgressionRunner, count: number): number[] {
+  return runner.take(count).map((step) => step.key);
+}
+
+describe('ProgressionScript', () => {
+  describe('parseProgressionScript', () => {
+    test('parses the example script', () => {
+      const script = parseProgressionScript('84: keys 1..6 forward; 94: fifths x8; magic every 4');
+
+      expect(script).toEqual({
+        blocks: [
+          {
+            tempo: 84,
+            keys: { type: 'list', keys: [1, 2, 3, 4, 5, 6] },
+            tracks: 6,
+            line: 1,
+            column: 1,
+          },
+          {
+            tempo: 94,
+            keys: { type: 'walk', progression: { type: 'fifths' }, direction: 'forward', from: null },
+            tracks: 8,
+            line: 1,
+            column: 24,
+          },
+        ],
+        magicEvery: 4,
+      });
+    });
+
+    test('ranges wrap round the octave in either direction', () => {
+      const script = parseProgressionScript('94: keys 11..2\n94: keys 2..11 reverse');
+
+      expect(script.blocks.map((block) => block.keys)).toEqual([
+        { type: 'list', keys: [11, 12, 1, 2] },
+        { type: 'list', keys: [2, 1, 12, 11] },
+      ]);
+    });
+
+    test('key lists default to one track per key', () => {
+      const script = parseProgressionScript('102: keys 1, 8, 3\n102: keys 5, 10 x6');
+
+      expect(script.blocks.map((block) => block.tracks)).toEqual([3, 6]);
+    });
+
+    test('walks take a direction, start key and minimum score', () => {
+      const [block] = parseProgressionScript(
+        '84: random-compatible x4 reverse from 7 min 8'
+      ).blocks;
+
+      expect(block!.keys).toEqual({
+        type: 'walk',
+        progression: { type: 'random-compatible', minScore: 8 },
+        direction: 'reverse',
+        from: 7,
+      });
+    });
+
+    test('magic off and a missing magic statement', () => {
+      expect(parseProgressionScript('94: chromatic x2\nmagic off').magicEvery).toBeNull();
+      expect(parseProgressionScript('94: chromatic x2').magicEvery).toBeUndefined();
+    });
+
+    test('ignores comments and blank lines', () => {
+      const script = parseProgressionScript('# opener\n\n84: keys 1, 2 # two keys\n;\n');
+
+      expect(script.blocks).toHaveLength(1);
+      expect(script.blocks[0]!.line).toBe(3);
+    });
+  });
+
+  describe('errors', () => {
+    test('reports the line and column of each problem', () => {
+      const issues = validateProgressionScript('85: chromatic x4\n94: keys 1..13\n94: sideways x2');
+
+      expect(issues).toEqual([
+        { message: 'Tempo must be 84, 94 or 102, got 85', line: 1, column: 1 },
+        { message: 'Key must be 1-12, got 13', line: 2, column: 13 },
+        { message: "Unknown key pattern 'sideways'", line: 3, column: 5 },
+      ]);
+    });
+
+    test('walks need a track count', () => {
+      expect(validateProgressionScript('94: fifths')).toEqual([
+        { message: "'fifths' needs a track count, e.g. 'fifths x8'", line: 1, column: 5 },
+      ]);
+    });
+
+    test('points past the end of an unfinished statement', () => {
+      expect(validateProgressionScript('94:')).toEqual([
+        {
+          message:
+            "Expected 'keys' or a walk (chromatic, fifths, energy-boost, relative, random-compatible)",
+          line: 1,
+          column: 4,
+        },
+      ]);
+    });
+
+    test('rejects repeated magic settings, bad modifiers and stray characters', () => {
+      const issues = validateProgressionScript(
+        '94: keys 1, 2 from 3\nmagic every 4\nmagic off\n94: chromatic x2 @'
+      );
+
+      expect(issues.map((issue) => [issue.line, issue.column])).toEqual([
+        [4, 18],
+        [1, 15],
+        [3, 1],
+      ]);
+    });
+
+    test('rejects an empty script', () => {
+      expect(validateProgressionScript('# nothing here')).toEqual([
+        { message: 'Script needs at least one tempo block', line: 1, column: 1 },
+      ]);
+    });
+
+    test('parse throws every issue at once', () => {
+      let thrown: unknown = null;
+      try {
+        parseProgressionScript('85: keys 1\n94: keys 0');
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(ProgressionScriptError);
+      expect((thrown as ProgressionScriptError).issues).toHaveLength(2);
+      expect((thrown as ProgressionScriptError).message).toBe(
+        '1:1 Tempo must be 84, 94 or 102, got 85\n2:10 Key must be 1-12, got 0'
+      );
+    });
+  });
+
+  describe('ProgressionRunner', () => {
+    test('plays blocks in order and loops', () => {
+      const runner = new ProgressionRunner('84: keys 1..3; 102: keys 8 x2');
+
+      expect(runner.take(6)).toEqual([
+        { tempo: 84, key: 1, block: 0 },
+        { tempo: 84, key: 2, block: 0 },
+        { tempo: 84, key: 3, block: 0 },
+        { tempo: 102, key: 8, block: 1 },
+        { tempo: 102, key: 8, block: 1 },
+        { tempo: 84, key: 1, block: 0 },
+      ]);
+    });
+
+    test('cycles key lists for the track count', () => {
+      expect(keys(new ProgressionRunner('94: keys 1, 8 x5'), 5)).toEqual([1, 8, 1, 8, 1]);
+    });
+
+    test('walks carry on from the previous key', () => {
+      const runner = new ProgressionRunner('84: keys 3, 4; 94: fifths x3');
+
+      expect(keys(runner, 5)).toEqual([3, 4, 11, 6, 1]);
+    });
+
+    test('walks start at from or the start key', () => {
+      expect(keys(new ProgressionRunner('94: chromatic x3 reverse from 2'), 3)).toEqual([2, 1, 12]);
+      expect(keys(new ProgressionRunner('94: chromatic x3', { startKey: 10 }), 3)).toEqual([
+        10, 11, 12,
+      ]);
+    });
+
+    test('restoreState picks up mid-walk', () => {
+      const script = '84: keys 3; 94: random-compatible x6';
+      const runner = new ProgressionRunner(script, { random: (): number => 0.3 });
+      runner.take(3);
+      const state = runner.getState();
+      const expected = keys(runner, 5);
+
+      const restored = new ProgressionRunner(script, { random: (): number => 0.3 });
+      restored.restoreState(JSON.parse(JSON.stringify(state)) as typeof state);
+
+      expect(keys(restored, 5)).toEqual(expected);
+      expect(() => restored.restoreState({ ...state, blockIndex: 2 })).toThrow('no block 2');
+    });
+
+    test('reset starts the script again', () => {
+      const runner = new ProgressionRunner('94: chromatic x4');
+      runner.take(3);
+      runner.reset();
+
+      expect(runner.next()).toEqual({ tempo: 94, key: 1, block: 0 });
+    });
+  });
+
+  describe('templates', () => {
+    test.each(Object.keys(PROGRESSION_TEMPLATES) as ProgressionTemplateName[])(
+      '%s parses',
+      (name) => {
+        expect(validateProgressionScript(PROGRESSION_TEMPLATES[name])).toEqual([]);
+        expect(getProgressionTemplate(name).blocks.length).toBeGreaterThan(0);
+      }
+    );
+
+    test('templates set the magic number', () => {
+      expect(getProgressionTemplate('warm-up').magicEvery).toBe(6);
+      expect(getProgressionTemplate('peak-time').magicEvery).toBe(4);
+      expect(getProgressionTemplate('cool-down').magicEvery).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for SnapshotStorage and EngineSnapshot parsing
+ *
+ * Tests the memory, localStorage and file adapters, and snapshot
+ * validation. IndexedDB needs a browser and is not covered here.
+ */
+
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MemorySnapshotStorage,
+  LocalSnapshotStorage,
+  FileSnapshotStorage,
+} from '../../music/SnapshotStorage.js';
+import type { SnapshotStorage } from '../../music/SnapshotStorage.js';
+import { parseEngineSnapshot } from '../../music/EngineSnapshot.js';
+
+/**
+ * Save, overwrite, load and remove one key.
+ */
+async function roundTrip(storage: SnapshotStorage): Promise<void> {
+  expect(await storage.load('session')).toBeNull();
+
+  await storage.save('session', '{"a":1}');
+  await storage.save('session', '{"a":2}');
+  expect(await storage.load('session')).toBe('{"a":2}');
+
+  await storage.remove('session');
+  await storage.remove('session');
+  expect(await storage.load('session')).toBeNull();
+}
+
+describe('SnapshotStorage', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test('MemorySnapshotStorage saves, loads and removes', async () => {
+    await roundTrip(new MemorySnapshotStorage());
+  });
+
+  test('LocalSnapshotStorage uses localStorage by default', async () => {
+    const storage = new LocalSnapshotStorage();
+    await roundTrip(storage);
+
+    await storage.save('kept', '{}');
+    expect(localStorage.getItem('kept')).toBe('{}');
+  });
+
+  test('LocalSnapshotStorage rejects when the store is full', async () => {
+    const storage = new LocalSnapshotStorage({
+      getItem: (): null => null,
+      setItem: (): never => {
+        throw new Error('QuotaExceededError');
+      },
+      removeItem: (): void => undefined,
+    });
+
+    await expect(storage.save('session', '{}')).rejects.toThrow('QuotaExceededError');
+  });
+
+  describe('FileSnapshotStorage', () => {
+    let directory: string;
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    test('keeps one file per key and creates the directory', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'kwyjibo-'));
+      const storage = new FileSnapshotStorage(join(directory, 'sessions/'));
+      await roundTrip(storage);
+
+      await storage.save('friday/night', '{}');
+      expect(await readdir(join(directory, 'sessions'))).toEqual(['friday%2Fnight.json']);
+      expect(await storage.load('friday/night')).toBe('{}');
+    });
+  });
+});
+
+describe('parseEngineSnapshot', () => {
+  const snapshot = {
+    version: 1,
+    savedAt: 0,
+    sessionDuration: 0,
+    playedIds: [101, 102],
+    currentTrack: null,
+    keyManager: {},
+    selector: {},
+    tempo: {},
+    script: null,
+    random: null,
+  };
+
+  test('accepts a snapshot or its JSON', () => {
+    expect(parseEngineSnapshot(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  test('rejects unknown versions and missing state', () => {
+    expect(() => parseEngineSnapshot('null')).toThrow('must be an object');
+    expect(() => parseEngineSnapshot(JSON.stringify({ ...snapshot, version: 0 }))).toThrow(
+      'Unsupported engine snapshot version: 0'
+    );
+    expect(() => parseEngineSnapshot(JSON.stringify({ ...snapshot, playedIds: ['a'] }))).toThrow(
+      'playedIds'
+    );
+    expect(() => parseEngineSnapshot(JSON.stringify({ ...snapshot, tempo: null }))).toThrow(
+      'missing tempo state'
+    );
+  });
+});
@@ -7,7 +7,7 @@
 
 import { describe, test, expect, beforeEach } from '@jest/globals';
 import { SongLibrary } from '../../music/SongLibrary.js';
-import type { Song } from '../../music/types.js';
+import type { Song, SongAttributes } from '../../music/types.js';
 
 /**
  * Create test songs for testing.
@@ -213,6 +213,35 @@ describe('SongLibrary', () => {
     });
   });
 
+  describe('mode filtering', () => {
+    const moded: Song[] = [
+      { id: 1, artist: 'A', title: 'C major', key: 1, mode: 'major', bpm: 94 },
+      { id: 2, artist: 'B', title: 'C minor', key: 1, mode: 'minor', bpm: 94 },
+      { id: 3, artist: 'C', title: 'C untagged', key: 1, bpm: 94 },
+      { id: 4, artist: 'D', title: 'A minor', key: 10, mode: 'minor', bpm: 94 },
+    ];
+
+    test('filters by mode, keeping songs with unknown mode', () => {
+      const library = new SongLibrary(moded);
+
+      expect(library.filter({ key: 1, mode: 'major' }).map((s) => s.id)).toEqual([1, 3]);
+      expect(library.filter({ mode: 'minor' }).map((s) => s.id)).toEqual([2, 3, 4]);
+    });
+
+    test('gets songs by musical key', () => {
+      const library = new SongLibrary(moded);
+
+      expect(library.getSongsByMusicalKey({ key: 10, mode: 'minor' }).map((s) => s.id)).toEqual([4]);
+      expect(library.getSongsByMusicalKey({ key: 1, mode: 'unknown' })).toHaveLength(3);
+    });
+
+    test('rejects invalid modes', () => {
+      const invalid = [{ id: 1, artist: 'A', title: 'T', key: 1, mode: 'dorian', bpm: 94 }];
+
+      expect(() => new SongLibrary(invalid as unknown as Song[])).toThrow('invalid mode');
+    });
+  });
+
   describe('played song tracking', () => {
     let library: SongLibrary;
 
@@ -319,6 +348,70 @@ describe('SongLibrary', () => {
     });
   });
 
+  describe('song attributes', () => {
+    let library: SongLibrary;
+
+    beforeEach(() => {
+      library = new SongLibrary(createTestSongs());
+    });
+
+    test('merges attributes and clears undefined ones', () => {
+      expect(library.getAttributes(1)).toEqual({});
+      expect(library.getWeight(1)).toBe(1);
+
+      library.setAttributes(1, { weight: 2 });
+      expect(library.setAttributes(1, { favorite: true })).toEqual({ weight: 2, favorite: true });
+      expect(library.getWeight(1)).toBe(2);
+
+      library.setAttributes(1, { weight: undefined });
+      expect(library.getAttributes(1)).toEqual({ favorite: true });
+
+      library.clearAttributes(1);
+      expect(library.exportAttributes()).toEqual({});
+    });
+
+    test('validates attributes', () => {
+      expect(() => library.setAttributes(99, { favorite: true })).toThrow('Unknown song: 99');
+      expect(() => library.setAttributes(1, { weight: 0 })).toThrow('positive number');
+      expect(() => library.setAttributes(1, { bannedUntil: NaN })).toThrow('bannedUntil');
+      expect(library.getAttributes(1)).toEqual({});
+    });
+
+    test('bans songs permanently or until a time', () => {
+      library.setAttributes(1, { banned: true });
+      library.setAttributes(2, { bannedUntil: 1000 });
+
+      expect(library.isBanned(1)).toBe(true);
+      expect(library.isBanned(2, 999)).toBe(true);
+      expect(library.isBanned(2, 1000)).toBe(false);
+      expect(library.isBanned(3)).toBe(false);
+    });
+
+    test('getUnplayed leaves out banned songs unless asked not to', () => {
+      library.setAttributes(3, { banned: true });
+
+      expect(library.getUnplayed({ key: 1 }).map((s) => s.id)).toEqual([1, 6]);
+      expect(library.getUnplayed({ key: 1, excludeBanned: false })).toHaveLength(3);
+      expect(library.filter({ key: 1 })).toHaveLength(3);
+    });
+
+    test('exports and imports attributes, skipping unknown songs', () => {
+      library.setAttributes(4, { favorite: true, weight: 3 });
+      const exported = JSON.parse(JSON.stringify(library.exportAttributes())) as Record<
+        number,
+        SongAttributes
+      >;
+
+      const other = new SongLibrary(createTestSongs());
+      other.setAttributes(1, { banned: true });
+      other.importAttributes({ ...exported, 99: { favorite: true } });
+
+      expect(other.exportAttributes()).toEqual({ 4: { favorite: true, weight: 3 } });
+      expect(() => other.importAttributes({ 4: { weight: -1 } })).toThrow('positive number');
+      expect(other.getAttributes(4)).toEqual({ favorite: true, weight: 3 });
+    });
+  });
+
   describe('helper methods', () => {
     let library: SongLibrary;
 
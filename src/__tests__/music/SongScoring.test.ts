@@ -0,0 +1,262 @@
+/**
+ * Tests for SongScoring
+ *
+ * Tests the individual scorers, pipeline weighting and rejection,
+ * and the default pipeline.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  ScoringPipeline,
+  HarmonicScorer,
+  TempoScorer,
+  ArtistDiversityScorer,
+  PartnerScorer,
+  PairRuleScorer,
+  RecencyScorer,
+  UnplayedScorer,
+  PreferenceScorer,
+  WeightScorer,
+  RandomVarianceScorer,
+  REJECT,
+  artistsMatch,
+  getPairId,
+  createDefaultScoringPipeline,
+} from '../../music/SongScoring.js';
+import { getBuiltInStrategy } from '../../music/HarmonicScoring.js';
+import { PairRules } from '../../music/PairRules.js';
+import { musicalKey } from '../../music/MusicalKey.js';
+import type { ScoringContext, SongScorer } from '../../music/SongScoring.js';
+import type { Song, SongAttributes, Key, Tempo } from '../../music/types.js';
+
+function createSong(id: number, artist: string, key: Key = 1, bpm: Tempo = 94): Song {
+  return { id, artist, title: `Song ${id}`, key, bpm };
+}
+
+function createContext(overrides: Partial<ScoringContext> = {}): ScoringContext {
+  return {
+    key: musicalKey(1),
+    tempo: 94,
+    scoreKey: (from, to) => (from.key === to.key ? 10 : 5),
+    ...overrides,
+  };
+}
+
+describe('SongScoring', () => {
+  describe('helpers', () => {
+    test('artistsMatch is case-insensitive and matches features', () => {
+      expect(artistsMatch('Jay-Z', 'jay-z feat. Beyoncé')).toBe(true);
+      expect(artistsMatch('Nas', 'Outkast')).toBe(false);
+    });
+
+    test('getPairId ignores order', () => {
+      const a = createSong(3, 'A');
+      const b = createSong(12, 'B');
+
+      expect(getPairId(a, b)).toBe('3-12');
+      expect(getPairId(b, a)).toBe('3-12');
+    });
+  });
+
+  describe('scorers', () => {
+    test('HarmonicScorer uses the context key scoring', () => {
+      const scorer = new HarmonicScorer();
+
+      expect(scorer.score(createSong(1, 'A', 1), createContext())).toBe(10);
+      expect(scorer.score(createSong(2, 'A', 8), createContext())).toBe(5);
+    });
+
+    test('HarmonicScorer can use its own strategy', () => {
+      const scorer = new HarmonicScorer(getBuiltInStrategy('tritone'));
+
+      expect(scorer.score(createSong(1, 'A', 7), createContext())).toBe(9);
+    });
+
+    test('TempoScorer rewards exact matches and penalizes stretches', () => {
+      const scorer = new TempoScorer();
+
+      expect(scorer.score(createSong(1, 'A', 1, 94), createContext())).toBe(60);
+      expect(scorer.score(createSong(2, 'A', 1, 102), createContext())).toBe(-10); // 8 BPM
+      expect(scorer.score(createSong(3, 'A', 1, 84), createContext())).toBe(-10); // 10 BPM
+      expect(scorer.score(createSong(4, 'A', 1, 84), createContext({ tempo: 102 }))).toBe(-30); // 18 BPM
+    });
+
+    test('TempoScorer accepts custom bands', () => {
+      const scorer = new TempoScorer([{ maxDiff: 10, points: 5 }], -5);
+
+      expect(scorer.score(createSong(1, 'A', 1, 84), createContext())).toBe(5);
+      expect(scorer.score(createSong(2, 'A', 1, 84), createContext({ tempo: 102 }))).toBe(-5);
+    });
+
+    test('ArtistDiversityScorer penalizes each avoided artist', () => {
+      const scorer = new ArtistDiversityScorer(80);
+      const song = createSong(1, 'Jay-Z feat. Beyoncé');
+
+      expect(scorer.score(song, createContext())).toBe(0);
+      expect(scorer.score(song, createContext({ avoidArtists: ['Jay-Z', 'Beyoncé', 'Nas'] }))).toBe(-160);
+    });
+
+    test('PartnerScorer rejects same artist and repeated pairs', () => {
+      const scorer = new PartnerScorer(30);
+      const partner = createSong(1, 'Nas');
+
+      expect(scorer.score(createSong(2, 'Outkast'), createContext())).toBe(0);
+      expect(scorer.score(createSong(2, 'Outkast'), createContext({ partner }))).toBe(30);
+      expect(scorer.score(createSong(3, 'Nas'), createContext({ partner }))).toBe(REJECT);
+      expect(
+        scorer.score(createSong(2, 'Outkast'), createContext({ partner, isPairPlayed: () => true }))
+      ).toBe(REJECT);
+    });
+
+    test('PairRuleScorer rejects forbidden partners, layers and tempo blocks', () => {
+      const scorer = new PairRuleScorer();
+      const pairRules = new PairRules([
+        { type: 'never-pair-songs', songIds: [1, 2] },
+        { type: 'never-same-tempo-block', songIds: [1, 3] },
+      ]);
+      const song = createSong(1, 'A');
+      const partner = createSong(2, 'B');
+      const played = createSong(3, 'C');
+
+      expect(scorer.score(song, createContext({ pairRules }))).toBe(0);
+      expect(scorer.score(song, createContext({ pairRules, partner }))).toBe(REJECT);
+      expect(scorer.score(song, createContext({ pairRules, layeredWith: [partner] }))).toBe(REJECT);
+      expect(scorer.score(song, createContext({ pairRules, tempoBlock: [played] }))).toBe(REJECT);
+      expect(scorer.score(song, createContext({ partner }))).toBe(0);
+    });
+
+    test('RecencyScorer penalizes recent songs more', () => {
+      const scorer = new RecencyScorer(50, 2);
+      const recentSongs = [createSong(1, 'A'), createSong(2, 'B')];
+
+      expect(scorer.score(createSong(1, 'A'), createContext({ recentSongs }))).toBe(-50);
+      expect(scorer.score(createSong(2, 'B'), createContext({ recentSongs }))).toBe(-48);
+      expect(scorer.score(createSong(3, 'C'), createContext({ recentSongs }))).toBe(0);
+    });
+
+    test('UnplayedScorer rewards unplayed songs', () => {
+      const scorer = new UnplayedScorer(200);
+      const context = createContext({ isPlayed: (id) => id === 1 });
+
+      expect(scorer.score(createSong(1, 'A'), context)).toBe(0);
+      expect(scorer.score(createSong(2, 'A'), context)).toBe(200);
+    });
+
+    test('PreferenceScorer rewards favorites and rejects banned songs', () => {
+      const scorer = new PreferenceScorer(50, () => 1000);
+      const attributes: Record<number, SongAttributes> = {
+        1: { favorite: true },
+        2: { banned: true, favorite: true },
+        3: { bannedUntil: 2000 },
+        4: { bannedUntil: 500 },
+      };
+      const context = createContext({ getAttributes: (id) => attributes[id] ?? {} });
+
+      expect(scorer.score(createSong(1, 'A'), context)).toBe(50);
+      expect(scorer.score(createSong(2, 'A'), context)).toBe(REJECT);
+      expect(scorer.score(createSong(3, 'A'), context)).toBe(REJECT);
+      expect(scorer.score(createSong(4, 'A'), context)).toBe(0);
+      expect(scorer.score(createSong(1, 'A'), createContext())).toBe(0);
+    });
+
+    test('WeightScorer adds points per doubling of the weight', () => {
+      const scorer = new WeightScorer(40);
+      const attributes: Record<number, SongAttributes> = { 1: { weight: 4 }, 2: { weight: 0.5 } };
+      const context = createContext({ getAttributes: (id) => attributes[id] ?? {} });
+
+      expect(scorer.score(createSong(1, 'A'), context)).toBe(80);
+      expect(scorer.score(createSong(2, 'A'), context)).toBe(-40);
+      expect(scorer.score(createSong(3, 'A'), context)).toBe(0);
+      expect(scorer.score(createSong(1, 'A'), createContext())).toBe(0);
+    });
+
+    test('RandomVarianceScorer scales the random source', () => {
+      const scorer = new RandomVarianceScorer(80, () => 0.5);
+
+      expect(scorer.score()).toBe(40);
+    });
+  });
+
+  describe('ScoringPipeline', () => {
+    test('sums weighted scores with a breakdown', () => {
+      const pipeline = new ScoringPipeline()
+        .add(new HarmonicScorer(), 2)
+        .add(new TempoScorer());
+
+      const result = pipeline.score(createSong(1, 'A', 1, 94), createContext());
+
+      expect(result).toEqual({
+        song: expect.objectContaining({ id: 1 }),
+        score: 80,
+        breakdown: { harmonic: 20, tempo: 60 },
+      });
+    });
+
+    test('rank sorts best first and drops rejected songs', () => {
+      const pipeline = new ScoringPipeline().add(new HarmonicScorer()).add(new PartnerScorer());
+      const partner = createSong(9, 'Nas');
+
+      const ranked = pipeline.rank(
+        [createSong(1, 'Outkast', 8), createSong(2, 'Mobb Deep', 1), createSong(3, 'Nas', 1)],
+        createContext({ partner })
+      );
+
+      expect(ranked.map((r) => r.song.id)).toEqual([2, 1]);
+    });
+
+    test('weights can be changed and scorers removed', () => {
+      const pipeline = new ScoringPipeline().add(new HarmonicScorer()).add(new TempoScorer());
+
+      pipeline.setWeight('tempo', 0);
+      expect(pipeline.score(createSong(1, 'A'), createContext())?.score).toBe(10);
+
+      expect(pipeline.remove('tempo')).toBe(true);
+      expect(pipeline.remove('tempo')).toBe(false);
+      expect(pipeline.getScorers().map((e) => e.scorer.name)).toEqual(['harmonic']);
+    });
+
+    test('accepts custom scorers', () => {
+      const evenIds: SongScorer = { name: 'even-ids', score: (song) => (song.id % 2 === 0 ? 1 : 0) };
+      const pipeline = new ScoringPipeline([{ scorer: evenIds, weight: 5 }]);
+
+      expect(pipeline.rank([createSong(1, 'A'), createSong(2, 'B')], createContext())[0]!.song.id).toBe(2);
+    });
+
+    test('validates names and weights', () => {
+      const pipeline = new ScoringPipeline().add(new TempoScorer());
+
+      expect(() => pipeline.add(new TempoScorer())).toThrow('already in pipeline');
+      expect(() => pipeline.setWeight('tempo', NaN)).toThrow('finite number');
+      expect(() => pipeline.setWeight('missing', 1)).toThrow('Unknown scorer');
+    });
+  });
+
+  describe('createDefaultScoringPipeline', () => {
+    test('includes the standard factors', () => {
+      const names = createDefaultScoringPipeline()
+        .getScorers()
+        .map((e) => e.scorer.name);
+
+      expect(names).toEqual([
+        'harmonic',
+        'tempo',
+        'artist-diversity',
+        'partner',
+        'pair-rules',
+        'recency',
+        'unplayed',
+        'preference',
+        'weight',
+      ]);
+    });
+
+    test('prefers unplayed songs over better key matches', () => {
+      const pipeline = createDefaultScoringPipeline();
+      const context = createContext({ isPlayed: (id) => id === 1 });
+
+      const ranked = pipeline.rank([createSong(1, 'A', 1), createSong(2, 'B', 8)], context);
+
+      expect(ranked[0]!.song.id).toBe(2);
+    });
+  });
+});
@@ -10,7 +10,13 @@ import { SongSelector } from '../../music/SongSelector.js';
 import { SongLibrary } from '../../music/SongLibrary.js';
 import { KeyManager } from '../../music/KeyManager.js';
 import { QuantumRandom } from '../../random/QuantumRandom.js';
-import type { Song } from '../../music/types.js';
+import { SeededRandom } from '../../random/SeededRandom.js';
+import { RecordingRandom } from '../../random/RecordingRandom.js';
+import { getBuiltInStrategy } from '../../music/HarmonicScoring.js';
+import { ScoringPipeline, REJECT } from '../../music/SongScoring.js';
+import { PAIR_WITH_HIDDEN_LAYOUT } from '../../music/LayeredSet.js';
+import { PairRules } from '../../music/PairRules.js';
+import type { Key, Song } from '../../music/types.js';
 
 /**
  * Create test songs with variety across keys and tempos.
@@ -144,6 +150,76 @@ describe('SongSelector', () => {
     });
   });
 
+  describe('structure templates', () => {
+    async function selectTypes(target: SongSelector, count: number): Promise<string[]> {
+      const types = [];
+      for (let i = 0; i < count; i++) {
+        types.push((await target.selectTrack()).track.type);
+      }
+      return types;
+    }
+
+    test('plays each drawn template through', async () => {
+      const structured = new SongSelector(library, keyManager, new SeededRandom('shape'), {
+        structureTemplates: [{ name: 'lead-body-body', types: ['lead', 'body', 'body'], weight: 1 }],
+      });
+
+      expect(await selectTypes(structured, 7)).toEqual([
+        'lead',
+        'body',
+        'body',
+        'lead',
+        'body',
+        'body',
+        'lead',
+      ]);
+    });
+
+    test('opens with a template that starts with a lead', async () => {
+      const structured = new SongSelector(library, keyManager, new SeededRandom('open'), {
+        structureTemplates: [
+          { name: 'body-run', types: ['body', 'body'], weight: 100 },
+          { name: 'lead-body', types: ['lead', 'body'], weight: 1 },
+        ],
+      });
+
+      expect((await structured.selectTrack()).track.type).toBe('lead');
+    });
+
+    test('a pinned template plays at its tempo and a tempo change starts a new run', async () => {
+      const structured = new SongSelector(library, keyManager, new SeededRandom('pin'), {
+        pinnedStructures: { 94: 'lead-body-body', 102: 'body-run' },
+      });
+
+      const at94 = await selectTypes(structured, 2);
+      structured.setTempo(102);
+      const at102 = await selectTypes(structured, 5);
+
+      expect(at94).toEqual(['lead', 'body']);
+      expect(at102).toEqual(['body', 'body', 'body', 'body', 'body']);
+    });
+
+    test('pins can be changed and unknown templates are rejected', () => {
+      expect(() => selector.setPinnedStructure(84, 'drum-solo')).toThrow('Unknown structure template');
+      expect(
+        () => new SongSelector(library, keyManager, qrng, { pinnedStructures: { 84: 'drum-solo' } })
+      ).toThrow('Unknown structure template');
+      expect(() => selector.setPinnedStructure(84, null)).not.toThrow();
+    });
+
+    test('counts beats by track type', async () => {
+      const structured = new SongSelector(library, keyManager, new SeededRandom('beats'), {
+        structureTemplates: [{ name: 'lead-body', types: ['lead', 'body'], weight: 1 }],
+      });
+
+      await selectTypes(structured, 3);
+
+      expect(structured.getStats().beatsPlayed).toEqual({ lead: 32, body: 64 });
+      structured.reset();
+      expect(structured.getStats().beatsPlayed).toEqual({ lead: 0, body: 0 });
+    });
+  });
+
   describe('magic number selection', () => {
     test('every 5th track is magic number', async () => {
       const results = [];
@@ -178,6 +254,100 @@ describe('SongSelector', () => {
       expect(results.every((r) => !r.wasMagicNumber)).toBe(true);
     });
 
+    test('magic policy sets how often the magic number comes around', async () => {
+      const everyThird = new SongSelector(library, keyManager, qrng, {
+        magicPolicy: { interval: { type: 'fixed', every: 3 } },
+      });
+
+      const magic = [];
+      for (let i = 0; i < 6; i++) {
+        magic.push((await everyThird.selectTrack()).wasMagicNumber);
+      }
+
+      expect(magic).toEqual([false, false, true, false, false, true]);
+    });
+
+    test('magic policy can be changed or turned off', async () => {
+      selector.setMagicPolicy({ interval: { type: 'fixed', every: 2 } });
+      await selector.selectTrack();
+      expect((await selector.selectTrack()).wasMagicNumber).toBe(true);
+
+      selector.setMagicPolicy(null);
+      await selector.selectTrack();
+      expect((await selector.selectTrack()).wasMagicNumber).toBe(false);
+      expect(selector.getMagicPolicy()).toBeNull();
+
+      expect(() => selector.setMagicPolicy({ interval: { type: 'fixed', every: 0 } })).toThrow(
+        'positive integer'
+      );
+    });
+
+    test('records the magic behavior in the result', async () => {
+      const results = [];
+      for (let i = 0; i < 5; i++) {
+        results.push(await selector.selectTrack());
+      }
+
+      expect(results[0]!.magic).toBeNull();
+      expect(results[4]!.magic).toEqual({ behavior: 'random-song', relaxed: false });
+    });
+
+    test('artist spotlight plays a song by the chosen artist', async () => {
+      const spotlight = new SongSelector(library, keyManager, new SeededRandom('spot'), {
+        magicPolicy: { interval: { type: 'fixed', every: 1 }, behavior: 'artist-spotlight' },
+      });
+
+      const result = await spotlight.selectTrack();
+
+      expect(result.magic?.behavior).toBe('artist-spotlight');
+      expect(result.track.song.artist).toBe(result.magic?.artist);
+    });
+
+    test('tempo jump moves the selector to another tempo', async () => {
+      const jumper = new SongSelector(library, keyManager, new SeededRandom('jump'), {
+        magicPolicy: { interval: { type: 'fixed', every: 1 }, behavior: 'tempo-jump' },
+      });
+
+      const result = await jumper.selectTrack();
+
+      expect(result.magic?.tempo).not.toBe(94);
+      expect(result.track.tempo).toBe(result.magic?.tempo);
+      expect(jumper.getTempo()).toBe(result.magic?.tempo);
+    });
+
+    test('sample interlude plays a sample as a lead without marking it played', async () => {
+      const sample: Song = { id: 9001, artist: 'DJ', title: 'Air Horn', key: 1, bpm: 94 };
+      const interludes = new SongSelector(library, keyManager, new SeededRandom('drop'), {
+        magicPolicy: {
+          interval: { type: 'fixed', every: 2 },
+          behavior: 'sample-interlude',
+          samples: [sample],
+        },
+      });
+
+      await interludes.selectTrack();
+      const result = await interludes.selectTrack();
+
+      expect(result.track.song).toBe(sample);
+      expect(result.track.type).toBe('lead');
+      expect(result.magic).toEqual({ behavior: 'sample-interlude', relaxed: false });
+      expect(library.getPlayedCount()).toBe(1);
+    });
+
+    test('constraints still apply on magic tracks, relaxed when nothing fits', async () => {
+      const strict = new SongSelector(library, keyManager, new SeededRandom('strict'), {
+        magicPolicy: { interval: { type: 'fixed', every: 1 }, constraints: { minCompatibilityScore: 10 } },
+      });
+
+      const first = await strict.selectTrack();
+      expect(first.track.song.key).toBe(1);
+      expect(first.magic?.relaxed).toBe(false);
+
+      library.markManyPlayed(library.filter({ key: 1 }).map((s) => s.id));
+      const second = await strict.selectTrack();
+      expect(second.magic?.relaxed).toBe(true);
+    });
+
     test('magic number ignores key constraints', async () => {
       // Set key to 5 and mark all key 5 songs as played
       keyManager.setKey(5);
@@ -528,4 +698,824 @@ describe('SongSelector', () => {
       expect(result.compatibilityScore).toBe(actualScore);
     });
   });
+
+  describe('selection explanation', () => {
+    test('explains the chosen song with per-factor scores', async () => {
+      const result = await selector.selectTrack();
+      const { explanation } = result;
+
+      expect(explanation.source).toBe('current-key');
+      expect(Object.keys(explanation.breakdown)).toContain('harmonic');
+      expect(explanation.score).toBe(
+        Object.values(explanation.breakdown).reduce((sum, points) => sum + points, 0)
+      );
+    });
+
+    test('lists runners-up best first, excluding the chosen song', async () => {
+      const result = await selector.selectTrack();
+      const { runnersUp } = result.explanation;
+
+      // Key 1 has 3 songs: the chosen one and 2 runners-up
+      expect(runnersUp).toHaveLength(2);
+      expect(runnersUp.map((r) => r.song.id)).not.toContain(result.track.song.id);
+      expect(runnersUp[0]!.score).toBeGreaterThanOrEqual(runnersUp[1]!.score);
+    });
+
+    test('limits runners-up to runnerUpCount', async () => {
+      const limited = new SongSelector(library, keyManager, qrng, { runnerUpCount: 1 });
+
+      const result = await limited.selectTrack();
+
+      expect(result.explanation.runnersUp).toHaveLength(1);
+    });
+
+    test('counts played songs and key fallback', async () => {
+      library.markManyPlayed([101, 102, 103]); // all of key 1
+
+      const result = await selector.selectTrack();
+      const { explanation } = result;
+
+      expect(explanation.source).toBe('compatible-keys');
+      expect(explanation.dropped.played).toBe(3);
+      expect(explanation.dropped.keyFallback).toBe(33 - result.candidatesConsidered);
+    });
+
+    test('counts library resets', async () => {
+      const resetLibrary = new SongLibrary([
+        { id: 1, artist: 'A', title: 'C', key: 1, bpm: 94 },
+        { id: 2, artist: 'B', title: 'F#', key: 7, bpm: 94 },
+      ]);
+      const resetSelector = new SongSelector(resetLibrary, new KeyManager(1), qrng, {
+        useMagicNumber: false,
+      });
+
+      resetLibrary.markPlayed(1);
+      const result = await resetSelector.selectTrack();
+
+      expect(result.explanation.source).toBe('library-reset');
+      expect(result.explanation.dropped.libraryReset).toBe(1);
+      expect(result.track.song.id).toBe(1);
+    });
+
+    test('counts candidates below the minimum score', async () => {
+      // Only keys far from C are available
+      const strictLibrary = new SongLibrary([
+        { id: 1, artist: 'A', title: 'F#', key: 7, bpm: 94 },
+        { id: 2, artist: 'B', title: 'F', key: 6, bpm: 94 },
+      ]);
+      const strict = new SongSelector(strictLibrary, new KeyManager(1), qrng, {
+        useMagicNumber: false,
+      });
+
+      const result = await strict.selectTrack();
+
+      expect(result.explanation.source).toBe('any-unplayed');
+      expect(result.explanation.dropped.minScore).toBe(2);
+      expect(result.explanation.score).toBeNull();
+    });
+
+    test('magic number selections are not scored', async () => {
+      for (let i = 0; i < 4; i++) {
+        await selector.selectTrack();
+      }
+
+      const result = await selector.selectTrack();
+
+      expect(result.wasMagicNumber).toBe(true);
+      expect(result.explanation).toMatchObject({
+        source: 'magic-number',
+        score: null,
+        breakdown: {},
+        runnersUp: [],
+      });
+      expect(result.explanation.dropped.played).toBe(4);
+    });
+  });
+
+  describe('mode-aware selection', () => {
+    test('prefers the relative minor when the current major key runs dry', async () => {
+      const modedLibrary = new SongLibrary([
+        { id: 1, artist: 'A', title: 'C major', key: 1, mode: 'major', bpm: 94 },
+        { id: 2, artist: 'B', title: 'A minor', key: 10, mode: 'minor', bpm: 94 },
+        { id: 3, artist: 'C', title: 'C minor', key: 1, mode: 'minor', bpm: 94 },
+        { id: 4, artist: 'D', title: 'F# major', key: 7, mode: 'major', bpm: 94 },
+      ]);
+      modedLibrary.markPlayed(1);
+      const modedKeys = new KeyManager(1, 'forward', { mode: 'major' });
+      const modedSelector = new SongSelector(modedLibrary, modedKeys, qrng, {
+        candidatePoolSize: 1,
+        useMagicNumber: false,
+      });
+
+      const result = await modedSelector.selectTrack();
+
+      expect(result.track.song.id).toBe(2);
+      expect(result.compatibilityScore).toBe(9);
+    });
+
+    test('does not treat C minor as C major', async () => {
+      const modedLibrary = new SongLibrary([
+        { id: 1, artist: 'A', title: 'C minor', key: 1, mode: 'minor', bpm: 94 },
+        { id: 2, artist: 'B', title: 'G major', key: 8, mode: 'major', bpm: 94 },
+      ]);
+      const modedKeys = new KeyManager(1, 'forward', { mode: 'major' });
+      const modedSelector = new SongSelector(modedLibrary, modedKeys, qrng, {
+        candidatePoolSize: 1,
+        useMagicNumber: false,
+      });
+
+      const result = await modedSelector.selectTrack();
+
+      expect(result.track.song.id).toBe(2);
+    });
+  });
+
+  describe('harmonic strategy option', () => {
+    test('scores candidates with the selector strategy', async () => {
+      // Only the tritone of C is available
+      const strategyLibrary = new SongLibrary([
+        { id: 1, artist: 'A', title: 'F#', key: 7, bpm: 94 },
+        { id: 2, artist: 'B', title: 'G', key: 8, bpm: 94 },
+      ]);
+      const strategySelector = new SongSelector(strategyLibrary, new KeyManager(1), qrng, {
+        candidatePoolSize: 1,
+        useMagicNumber: false,
+        harmonicStrategy: getBuiltInStrategy('tritone'),
+      });
+
+      const result = await strategySelector.selectTrack();
+
+      expect(result.track.song.id).toBe(1);
+      expect(result.compatibilityScore).toBe(9);
+    });
+  });
+
+  describe('scoring pipeline', () => {
+    test('prefers songs closest to the current tempo', async () => {
+      const pipelineSelector = new SongSelector(library, new KeyManager(1), qrng, {
+        candidatePoolSize: 1,
+        useMagicNumber: false,
+      });
+
+      const result = await pipelineSelector.selectTrack();
+
+      expect(result.track.song.bpm).toBe(94);
+    });
+
+    test('steers away from recently played artists', async () => {
+      const artistLibrary = new SongLibrary([
+        { id: 1, artist: 'Nas', title: 'One', key: 1, bpm: 94 },
+        { id: 2, artist: 'Nas', title: 'Two', key: 2, bpm: 94 },
+        { id: 3, artist: 'Outkast', title: 'Three', key: 2, bpm: 94 },
+      ]);
+      const artistSelector = new SongSelector(artistLibrary, new KeyManager(1), qrng, {
+        candidatePoolSize: 1,
+        useMagicNumber: false,
+      });
+
+      await artistSelector.selectTrack(); // Nas (key 1)
+      const second = await artistSelector.selectTrack(); // key 2: Nas or Outkast
+
+      expect(second.track.song.artist).toBe('Outkast');
+    });
+
+    test('uses a custom pipeline', async () => {
+      const custom = new ScoringPipeline().add({
+        name: 'slowest',
+        score: (song) => -song.bpm,
+      });
+      const customSelector = new SongSelector(library, new KeyManager(1), qrng, {
+        candidatePoolSize: 1,
+        useMagicNumber: false,
+        scoringPipeline: custom,
+      });
+
+      const result = await customSelector.selectTrack();
+
+      expect(result.track.song.bpm).toBe(84);
+    });
+  });
+
+  describe('random source', () => {
+    test('seeded selectors make identical choices', async () => {
+      const run = async (): Promise<string[]> => {
+        const seeded = new SongSelector(
+          new SongLibrary(createTestSongs()),
+          new KeyManager(1),
+          new SeededRandom('same-mix')
+        );
+        const picks: string[] = [];
+        for (let i = 0; i < 15; i++) {
+          const result = await seeded.selectTrack();
+          picks.push(`${result.track.song.id}:${result.track.type}`);
+        }
+        return picks;
+      };
+
+      expect(await run()).toEqual(await run());
+    });
+
+    test('picks top candidates in proportion to score by default', async () => {
+      const recorder = new RecordingRandom(new SeededRandom('weighted'));
+      const weighted = new SongSelector(new SongLibrary(createTestSongs()), new KeyManager(1), recorder, {
+        useMagicNumber: false,
+      });
+
+      await weighted.selectTrack();
+
+      const draws = recorder.getLog().draws.filter((d) => d.label === 'top-candidates');
+      expect(draws.map((d) => d.method)).toEqual(['getWeightedChoice']);
+    });
+
+    test('uniform weighting picks top candidates with equal odds', async () => {
+      const recorder = new RecordingRandom(new SeededRandom('uniform'));
+      const uniform = new SongSelector(new SongLibrary(createTestSongs()), new KeyManager(1), recorder, {
+        useMagicNumber: false,
+        candidateWeighting: 'uniform',
+      });
+
+      await uniform.selectTrack();
+
+      const draws = recorder.getLog().draws.filter((d) => d.label === 'top-candidates');
+      expect(draws.map((d) => d.method)).toEqual(['getChoice']);
+    });
+  });
+
+  describe('layered sets', () => {
+    test('fills a main and partner layer in the current key by default', async () => {
+      const { set, explanations } = await selector.selectSet();
+
+      expect(set.layers.map((layer) => layer.role)).toEqual(['main', 'partner']);
+      expect(set.key).toEqual({ key: 1, mode: 'unknown' });
+      expect(set.tempo).toBe(selector.getTempo());
+      for (const layer of set.layers) {
+        expect(layer.song.key).toBe(1);
+      }
+      expect(explanations.map((e) => e.source)).toEqual(['current-key', 'current-key']);
+    });
+
+    test('puts hidden layers in their own keys', async () => {
+      const { set } = await selector.selectSet(PAIR_WITH_HIDDEN_LAYOUT);
+
+      expect(set.layers.map((layer) => layer.key.key)).toEqual([1, 1, 8, 6]);
+      expect(set.layers[2]!.song.key).toBe(8);
+      expect(set.layers[3]!.song.key).toBe(6);
+    });
+
+    test('never repeats a song or artist within a set, and marks every layer played', async () => {
+      const songs: Song[] = [
+        { id: 1, artist: 'Nas', title: 'A', key: 1, bpm: 94 },
+        { id: 2, artist: 'Nas feat. AZ', title: 'B', key: 1, bpm: 94 },
+        { id: 3, artist: 'Outkast', title: 'C', key: 1, bpm: 94 },
+        { id: 4, artist: 'Mobb Deep', title: 'D', key: 8, bpm: 94 },
+      ];
+      const small = new SongLibrary(songs);
+      const layered = new SongSelector(small, new KeyManager(1), new SeededRandom('layers'));
+
+      const { set } = await layered.selectSet([{ role: 'main' }, { role: 'partner' }, { role: 'hidden' }]);
+
+      const artists = set.layers.map((layer) => layer.song.artist.split(' ')[0]);
+      expect(new Set(artists).size).toBe(3);
+      expect(small.getPlayedCount()).toBe(3);
+    });
+
+    test('counts as one track for the key walk', async () => {
+      await selector.selectSet();
+      await selector.selectSet();
+
+      expect(selector.getStats().trackCount).toBe(2);
+      expect(keyManager.getCurrentKey()).toBe(2);
+    });
+
+    test('rejects invalid layouts', async () => {
+      await expect(selector.selectSet([])).rejects.toThrow('at least one layer');
+      await expect(selector.selectSet([{ role: 'main' }, { role: 'main' }])).rejects.toThrow(
+        'more than one main'
+      );
+    });
+  });
+
+  describe('set planning', () => {
+    const createPlanner = (songs: Song[] = createTestSongs()): SongSelector =>
+      new SongSelector(new SongLibrary(songs), new KeyManager(1), new SeededRandom('plan'));
+
+    test('plans a complete set without repeats, off-key songs or close artists', async () => {
+      const planner = createPlanner();
+      const plan = await planner.planSet(20, { artistSpacing: 3 });
+
+      expect(plan.complete).toBe(true);
+      expect(plan.violations).toEqual([]);
+      expect(plan.tracks).toHaveLength(20);
+
+      const ids = plan.tracks.map((t) => t.song.id);
+      expect(new Set(ids).size).toBe(20);
+
+      const checker = new KeyManager(1);
+      for (const track of plan.tracks.filter((t) => !t.magic)) {
+        const score = checker.scoreCompatibility(track.key, { key: track.song.key, mode: 'unknown' });
+        expect(score).toBeGreaterThanOrEqual(5);
+      }
+
+      for (let i = 1; i < plan.tracks.length; i++) {
+        const previous = plan.tracks.slice(Math.max(0, i - 3), i).map((t) => t.song.artist);
+        expect(previous).not.toContain(plan.tracks[i]!.song.artist);
+      }
+    });
+
+    test('planning does not change the selector', async () => {
+      const keys = new KeyManager(1);
+      const planner = new SongSelector(new SongLibrary(createTestSongs()), keys, new SeededRandom('plan'));
+
+      await planner.planSet(10);
+
+      expect(keys.getCurrentKey()).toBe(1);
+      expect(planner.getStats()).toMatchObject({ trackCount: 0, songsPlayed: 0 });
+    });
+
+    test('planning leaves the live random sequence alone', async () => {
+      const playFive = async (seed: number, plan: boolean): Promise<number[]> => {
+        const random = new SeededRandom(seed);
+        const keys = new KeyManager(1, 'forward', {
+          progression: { type: 'random-compatible' },
+          random: (): number => random.nextFloat(),
+        });
+        const live = new SongSelector(new SongLibrary(createTestSongs()), keys, random, {
+          magicPolicy: { interval: { type: 'range', min: 2, max: 4 } },
+        });
+        if (plan) {
+          await live.planSet(5);
+        }
+
+        const ids: number[] = [];
+        for (let i = 0; i < 5; i++) {
+          ids.push((await live.selectTrack()).track.song.id);
+        }
+        return ids;
+      };
+
+      for (let seed = 0; seed < 10; seed++) {
+        expect(await playFive(seed, true)).toEqual(await playFive(seed, false));
+      }
+    });
+
+    test('seeded planners produce the same plan', async () => {
+      const ids = async (): Promise<number[]> =>
+        (await createPlanner().planSet(15)).tracks.map((t) => t.song.id);
+
+      expect(await ids()).toEqual(await ids());
+    });
+
+    test('returns the best partial plan with violations when no full plan exists', async () => {
+      const songs: Song[] = [1, 2, 3].map((id) => ({
+        id,
+        artist: 'Same Artist',
+        title: `Song ${id}`,
+        key: 1,
+        bpm: 94,
+      }));
+      const planner = createPlanner(songs);
+
+      const plan = await planner.planSet(3, { keyProgression: false, artistSpacing: 1 });
+
+      expect(plan.complete).toBe(false);
+      expect(plan.tracks).toHaveLength(3);
+      expect(plan.backtracks).toBeGreaterThan(0);
+      expect(plan.violations.map((v) => [v.position, v.constraint])).toEqual([
+        [1, 'artist-spacing'],
+        [2, 'artist-spacing'],
+      ]);
+    });
+
+    test('rejects invalid lengths and constraints', async () => {
+      const planner = createPlanner();
+
+      await expect(planner.planSet(0)).rejects.toThrow('positive integer');
+      await expect(planner.planSet(5, { artistSpacing: -1 })).rejects.toThrow('artistSpacing');
+    });
+
+    test('selectTrack plays a loaded plan, then resumes live selection', async () => {
+      const planner = createPlanner();
+      const plan = await planner.planSet(6);
+      planner.loadPlan(plan);
+
+      for (const planned of plan.tracks) {
+        const result = await planner.selectTrack();
+        expect(result.track.song.id).toBe(planned.song.id);
+        expect(result.wasMagicNumber).toBe(planned.magic);
+        expect(result.explanation.source).toBe('planned');
+      }
+
+      expect(planner.getPlannedTracks()).toHaveLength(0);
+      const live = await planner.selectTrack();
+      expect(live.explanation.source).not.toBe('planned');
+    });
+
+    test('loadPlan rejects songs outside the library', async () => {
+      const plan = await createPlanner().planSet(2);
+      const other = createPlanner([{ id: 1, artist: 'A', title: 'Only', key: 1, bpm: 84 }]);
+
+      expect(() => other.loadPlan(plan)).toThrow('not in the library');
+    });
+
+    test('clearPlan and reset drop the loaded plan', async () => {
+      const planner = createPlanner();
+      planner.loadPlan(await planner.planSet(4));
+
+      planner.clearPlan();
+      expect(planner.getPlannedTracks()).toHaveLength(0);
+
+      planner.loadPlan(await planner.planSet(4));
+      planner.reset();
+      expect(planner.getPlannedTracks()).toHaveLength(0);
+    });
+
+    test('plans a timed set with tempos and types fixed per track', async () => {
+      const plan = await selector.planTimedSet({ duration: 10 * 60, endTempo: 102 });
+
+      expect(plan.tracks).toHaveLength(plan.timeline.length);
+      expect(Math.abs(plan.duration - 600)).toBeLessThanOrEqual(plan.tolerance);
+      plan.tracks.forEach((track, i) => {
+        expect(track.tempo).toBe(plan.timeline[i]!.tempo);
+        expect(track.type).toBe(plan.timeline[i]!.type);
+      });
+      expect(plan.tracks[plan.tracks.length - 1]!.tempo).toBe(102);
+    });
+
+    test('a loaded timed plan plays at its tempos and types', async () => {
+      const plan = await selector.planTimedSet({ duration: 120, endTempo: 84 });
+      selector.loadPlan(plan);
+
+      for (const entry of plan.timeline) {
+        const result = await selector.selectTrack();
+        expect(result.track.tempo).toBe(entry.tempo);
+        expect(result.track.type).toBe(entry.type);
+      }
+    });
+
+    test('a timed set can end on a key', async () => {
+      const plan = await selector.planTimedSet({ duration: 5 * 60, endKey: 9 });
+
+      expect(plan.tracks[plan.tracks.length - 1]!.key.key).toBe(9);
+      expect(plan.tracks.map((track) => track.key.key)).not.toContain(undefined);
+    });
+  });
+
+  describe('song requests', () => {
+    const createRequester = (): SongSelector =>
+      new SongSelector(new SongLibrary(createTestSongs()), new KeyManager(1), new SeededRandom('ask'), {
+        magicPolicy: null,
+      });
+
+    test('plays a compatible request on the next track', async () => {
+      const requester = createRequester();
+      requester.addRequest(802);
+
+      const result = await requester.selectTrack();
+
+      expect(result.track.song.id).toBe(802);
+      expect(result.explanation.source).toBe('request');
+      expect(result.request).toEqual({ songId: 802, priority: 0, deadline: 5 });
+      expect(requester.getRequests()).toEqual([]);
+    });
+
+    test('waits for a compatible key within the deadline', async () => {
+      const requester = createRequester();
+      const keys = new KeyManager(1);
+      requester.addRequest(602, { deadlineTracks: 8 });
+
+      let result = await requester.selectTrack();
+      let key: Key = 1;
+      while (result.request === null) {
+        key = requester.getCurrentKey();
+        result = await requester.selectTrack();
+      }
+
+      expect(result.track.song.id).toBe(602);
+      expect(requester.getTrackCount()).toBeGreaterThan(1);
+      expect(requester.getTrackCount()).toBeLessThan(8);
+      expect(keys.scoreCompatibility(key, 6)).toBeGreaterThanOrEqual(5);
+    });
+
+    test('moves the key to the song on its deadline track', async () => {
+      const requester = createRequester();
+      requester.addRequest(702, { deadlineTracks: 1 });
+
+      const result = await requester.selectTrack();
+
+      expect(result.track.song.id).toBe(702);
+      expect(requester.getCurrentKey()).toBe(7);
+    });
+
+    test('plays higher priorities first', async () => {
+      const requester = createRequester();
+      requester.addRequest(802, { priority: 0 });
+      requester.addRequest(1202, { priority: 2 });
+
+      expect((await requester.selectTrack()).track.song.id).toBe(1202);
+      expect(requester.getRequests().map((request) => request.songId)).toEqual([802]);
+    });
+
+    test('drops requests that cannot play', async () => {
+      const requester = createRequester();
+      const { track } = await requester.selectTrack();
+
+      expect(requester.addRequest(9999).dropped).toBe('unknown-song');
+      expect(requester.addRequest(track.song.id).dropped).toBe('played');
+
+      // Two requests due on the same track: only one can play
+      requester.addRequest(602, { deadlineTracks: 1 });
+      requester.addRequest(702, { deadlineTracks: 1, priority: 1 });
+      const result = await requester.selectTrack();
+
+      expect(result.track.song.id).toBe(702);
+      expect(result.droppedRequests).toEqual([
+        { request: { songId: 602, priority: 0, deadline: 2 }, reason: 'deadline' },
+      ]);
+    });
+
+    test('rejects invalid options', () => {
+      const requester = createRequester();
+
+      expect(() => requester.addRequest(101, { deadlineTracks: 0 })).toThrow('positive integer');
+      expect(() => requester.addRequest(101, { priority: NaN })).toThrow('finite number');
+    });
+  });
+
+  describe('song attributes', () => {
+    let songs: SongLibrary;
+    let picker: SongSelector;
+
+    beforeEach(() => {
+      songs = new SongLibrary(createTestSongs());
+      picker = new SongSelector(songs, new KeyManager(1), new SeededRandom('prefs'), {
+        magicPolicy: null,
+      });
+    });
+
+    test('never picks banned songs and counts them', async () => {
+      songs.setAttributes(101, { banned: true });
+      songs.setAttributes(102, { bannedUntil: Date.now() + 60_000 });
+
+      const result = await picker.selectTrack();
+
+      expect(result.track.song.id).toBe(103);
+      expect(result.explanation.dropped.banned).toBe(2);
+    });
+
+    test('applies changes from the next selection', async () => {
+      await picker.selectTrack();
+      const played: number[] = [];
+
+      songs.setAttributes(201, { banned: true });
+      for (let i = 0; i < 20; i++) {
+        played.push((await picker.selectTrack()).track.song.id);
+      }
+      expect(played).not.toContain(201);
+
+      songs.setAttributes(201, { banned: undefined });
+      expect(songs.getUnplayed().map((song) => song.id)).toContain(201);
+    });
+
+    test('favorites get the preference bonus', async () => {
+      songs.setAttributes(102, { favorite: true });
+
+      const result = await picker.selectTrack();
+      const scored = [
+        { song: result.track.song, breakdown: result.explanation.breakdown },
+        ...result.explanation.runnersUp,
+      ];
+
+      expect(scored.find((item) => item.song.id === 102)?.breakdown.preference).toBe(50);
+      expect(scored.find((item) => item.song.id === 101)?.breakdown.preference).toBe(0);
+    });
+
+    test('weights scale the pick among top candidates', async () => {
+      songs.setAttributes(101, { weight: 1_000_000 }); // 84 BPM: scores below 102
+
+      for (const seed of ['a', 'b', 'c']) {
+        songs.reset();
+        const weighted = new SongSelector(songs, new KeyManager(1), new SeededRandom(seed), {
+          magicPolicy: null,
+          candidateWeighting: 'uniform',
+        });
+        expect((await weighted.selectTrack()).track.song.id).toBe(101);
+      }
+    });
+
+    test('weights lift a song into the top candidates', async () => {
+      const sameKey = new SongLibrary(
+        [1, 2, 3, 4].map((id) => ({ id, artist: `Artist ${id}`, title: 'T', key: 1, bpm: 94 }))
+      );
+      sameKey.setAttributes(4, { weight: 8 });
+      const weighted = new SongSelector(sameKey, new KeyManager(1), new SeededRandom('lift'), {
+        magicPolicy: null,
+        candidatePoolSize: 1,
+      });
+
+      const result = await weighted.selectTrack();
+
+      expect(result.track.song.id).toBe(4);
+      expect(result.explanation.breakdown.weight).toBe(120);
+    });
+
+    test('plans never fall back to a banned song', async () => {
+      const sameKey = new SongLibrary(
+        [1, 2, 3].map((id) => ({ id, artist: `Artist ${id}`, title: 'T', key: 1, bpm: 94 }))
+      );
+      sameKey.setAttributes(1, { banned: true });
+      const planner = new SongSelector(sameKey, new KeyManager(1), new SeededRandom('ban'), {
+        magicPolicy: null,
+        scoringPipeline: new ScoringPipeline().add({ name: 'none', score: () => REJECT }),
+      });
+
+      const plan = await planner.planSet(3, { keyProgression: false });
+
+      expect(plan.tracks).toHaveLength(3);
+      expect(plan.tracks.map((track) => track.song.id)).not.toContain(1);
+    });
+
+    test('drops requests for banned songs', async () => {
+      songs.setAttributes(102, { banned: true });
+      expect(picker.addRequest(102).dropped).toBe('banned');
+
+      picker.addRequest(202);
+      songs.setAttributes(202, { bannedUntil: Date.now() + 60_000 });
+      const result = await picker.selectTrack();
+
+      expect(result.track.song.id).not.toBe(202);
+      expect(result.droppedRequests).toEqual([
+        { request: { songId: 202, priority: 0, deadline: 5 }, reason: 'banned' },
+      ]);
+    });
+  });
+
+  describe('pair rules', () => {
+    test('keeps forbidden songs out of the same layered set', async () => {
+      const songs: Song[] = [
+        { id: 1, artist: 'Nas', title: 'A', key: 1, bpm: 94 },
+        { id: 2, artist: 'Outkast', title: 'B', key: 1, bpm: 94 },
+        { id: 3, artist: 'Mobb Deep', title: 'C', key: 1, bpm: 94 },
+      ];
+      const rules = new PairRules([{ type: 'never-pair-songs', songIds: [1, 2] }]);
+
+      for (const seed of ['a', 'b', 'c', 'd', 'e']) {
+        const small = new SongLibrary(songs);
+        const layered = new SongSelector(small, new KeyManager(1), new SeededRandom(seed), {
+          pairRules: rules,
+        });
+        const { set } = await layered.selectSet();
+        const ids = set.layers.map((layer) => layer.song.id);
+
+        expect(ids.includes(1) && ids.includes(2)).toBe(false);
+      }
+    });
+
+    test('widens the key search instead of pairing forbidden songs', async () => {
+      const songs: Song[] = [
+        { id: 1, artist: 'Nas', title: 'A', key: 1, bpm: 94 },
+        { id: 2, artist: 'Outkast', title: 'B', key: 1, bpm: 94 },
+        { id: 3, artist: 'Mobb Deep', title: 'C', key: 7, bpm: 94 },
+      ];
+      const rules = new PairRules([{ type: 'never-pair-songs', songIds: [1, 2] }]);
+
+      for (let seed = 0; seed < 20; seed++) {
+        const layered = new SongSelector(
+          new SongLibrary(songs),
+          new KeyManager(1),
+          new SeededRandom(seed),
+          { pairRules: rules }
+        );
+        const { set, explanations } = await layered.selectSet();
+        const ids = set.layers.map((layer) => layer.song.id);
+
+        expect(ids).toContain(3);
+        expect(explanations[1]!.source).not.toBe('current-key');
+      }
+    });
+
+    test('sets the rules aside only when every song breaks one', async () => {
+      const songs: Song[] = [
+        { id: 1, artist: 'Nas', title: 'A', key: 1, bpm: 94 },
+        { id: 2, artist: 'Outkast', title: 'B', key: 1, bpm: 94 },
+      ];
+      const layered = new SongSelector(
+        new SongLibrary(songs),
+        new KeyManager(1),
+        new SeededRandom('relaxed'),
+        { pairRules: new PairRules([{ type: 'never-pair-songs', songIds: [1, 2] }]) }
+      );
+
+      const { explanations } = await layered.selectSet();
+
+      expect(explanations[0]!.dropped.pairRules).toBe(0);
+      expect(explanations[1]!.source).toBe('rules-relaxed');
+      expect(explanations[1]!.dropped.pairRules).toBe(1);
+    });
+
+    test('keeps tempo block rules until the tempo changes', async () => {
+      const songs = new SongLibrary(createTestSongs());
+      songs.setAttributes(101, { banned: true });
+      songs.setAttributes(103, { banned: true });
+      const blocked = new SongSelector(songs, new KeyManager(1), new SeededRandom('block'), {
+        magicPolicy: null,
+        pairRules: new PairRules([{ type: 'never-same-tempo-block', songIds: [102, 202] }]),
+      });
+
+      const first = await blocked.selectTrack();
+      const second = await blocked.selectTrack();
+
+      expect(first.track.song.id).toBe(102);
+      expect(second.track.song.id).not.toBe(202);
+      expect(blocked.getState().tempoBlock).toEqual({
+        tempo: 94,
+        songIds: [102, second.track.song.id],
+      });
+
+      blocked.setTempo(84);
+      const third = await blocked.selectTrack();
+      expect(blocked.getState().tempoBlock).toEqual({ tempo: 84, songIds: [third.track.song.id] });
+    });
+
+    test('widens past the key before breaking a tempo block rule', async () => {
+      const songs: Song[] = [
+        { id: 1, artist: 'Nas', title: 'A', key: 1, bpm: 94 },
+        { id: 2, artist: 'Outkast', title: 'B', key: 1, bpm: 94 },
+        { id: 3, artist: 'Mobb Deep', title: 'C', key: 7, bpm: 94 },
+        { id: 4, artist: 'Ghostface Killah', title: 'D', key: 7, bpm: 94 },
+        { id: 5, artist: 'Pharcyde', title: 'E', key: 7, bpm: 94 },
+      ];
+      const rules = new PairRules([{ type: 'never-same-tempo-block', songIds: [1, 2] }]);
+      // Without the pair rule scorer, only the candidate filter keeps the rule
+      const pipelines = [undefined, new ScoringPipeline().add({ name: 'flat', score: () => 0 })];
+
+      for (const scoringPipeline of pipelines) {
+        for (let seed = 0; seed < 20; seed++) {
+          const blocked = new SongSelector(
+            new SongLibrary(songs),
+            new KeyManager(1),
+            new SeededRandom(seed),
+            { magicPolicy: null, pairRules: rules, scoringPipeline }
+          );
+
+          const first = await blocked.selectTrack();
+          const second = await blocked.selectTrack();
+
+          expect([3, 4, 5]).toContain(second.track.song.id);
+          expect(second.explanation.source).toBe('any-unplayed');
+          expect(second.explanation.dropped.pairRules).toBe(1);
+          expect(first.track.song.id).not.toBe(second.track.song.id);
+        }
+      }
+    });
+
+    test('drops a due request a tempo block rule keeps out', async () => {
+      const songs = new SongLibrary(createTestSongs());
+      const blocked = new SongSelector(songs, new KeyManager(1), new SeededRandom('request'), {
+        magicPolicy: null,
+        pairRules: new PairRules([{ type: 'never-same-tempo-block', songIds: [101, 102] }]),
+      });
+
+      blocked.addRequest(101, { deadlineTracks: 1 });
+      await blocked.selectTrack();
+      blocked.addRequest(102, { deadlineTracks: 1 });
+      const result = await blocked.selectTrack();
+
+      expect(result.track.song.id).not.toBe(102);
+      expect(result.droppedRequests).toEqual([
+        { request: { songId: 102, priority: 0, deadline: 2 }, reason: 'pair-rules' },
+      ]);
+    });
+
+    test('plans respect tempo block rules', async () => {
+      const songs = new SongLibrary(createTestSongs());
+      songs.setAttributes(101, { banned: true });
+      songs.setAttributes(103, { banned: true });
+      const planner = new SongSelector(songs, new KeyManager(1), new SeededRandom('plan'), {
+        magicPolicy: null,
+        pairRules: new PairRules([{ type: 'never-same-tempo-block', songIds: [102, 202] }]),
+      });
+
+      const plan = await planner.planSet(4);
+      const ids = plan.tracks.map((track) => track.song.id);
+
+      expect(ids.includes(102) && ids.includes(202)).toBe(false);
+    });
+
+    test('plan fallbacks respect tempo block rules', async () => {
+      const sameKey = new SongLibrary(
+        [1, 2, 3].map((id) => ({ id, artist: `Artist ${id}`, title: 'T', key: 1, bpm: 94 }))
+      );
+      const planner = new SongSelector(sameKey, new KeyManager(1), new SeededRandom('rules'), {
+        magicPolicy: null,
+        pairRules: new PairRules([{ type: 'never-same-tempo-block', songIds: [2, 3] }]),
+        scoringPipeline: new ScoringPipeline().add({ name: 'none', score: () => REJECT }),
+      });
+
+      const plan = await planner.planSet(3, { keyProgression: false });
+      const ids = plan.tracks.map((track) => track.song.id);
+
+      expect(ids).toHaveLength(3);
+      expect(ids.includes(2) && ids.includes(3)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,193 @@
+/**
+ * Tests for TempoManager
+ *
+ * Tests fair shares, each schedule type, manual overrides, reset and validation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { TempoManager, getFairShares } from '../../music/TempoManager.js';
+import { SongLibrary } from '../../music/SongLibrary.js';
+import type { Song, Key, Tempo, MusicalKey } from '../../music/types.js';
+
+/**
+ * Library with 6 songs at 84 BPM, 3 at 94 and 1 at 102, spread over keys 1-3.
+ */
+function createSongs(): Song[] {
+  const tempos: Tempo[] = [84, 84, 84, 84, 84, 84, 94, 94, 94, 102];
+  return tempos.map((bpm, i) => ({
+    id: i + 1,
+    artist: `Artist ${i + 1}`,
+    title: `Song ${i + 1}`,
+    key: ((i % 3) + 1) as Key,
+    bpm,
+  }));
+}
+
+const KEY_1: MusicalKey = { key: 1, mode: 'unknown' };
+
+/**
+ * Advance n tracks of 30 seconds and return the tempo after each.
+ */
+function play(tempos: TempoManager, n: number, key: MusicalKey = KEY_1): Tempo[] {
+  return Array.from({ length: n }, () => tempos.advance({ key, duration: 30 }));
+}
+
+describe('TempoManager', () => {
+  describe('getFairShares', () => {
+    test('splits a cycle in proportion to songs per tempo', () => {
+      const shares = getFairShares(createSongs(), 10);
+
+      expect([...shares]).toEqual([
+        [84, 6],
+        [94, 3],
+        [102, 1],
+      ]);
+    });
+
+    test('gives tempos without songs no tracks and others at least one', () => {
+      const songs = createSongs().filter((song) => song.bpm !== 94);
+      const shares = getFairShares(songs, 3);
+
+      expect(shares.get(94)).toBe(0);
+      expect(shares.get(102)).toBe(1);
+    });
+
+    test('rejects a non-positive cycle', () => {
+      expect(() => getFairShares(createSongs(), 0)).toThrow('cycleTracks');
+    });
+  });
+
+  describe('schedules', () => {
+    test('manual schedule never changes the tempo by itself', () => {
+      const tempos = new TempoManager(94);
+
+      expect(play(tempos, 5)).toEqual([94, 94, 94, 94, 94]);
+    });
+
+    test('fair-share plays a block per tempo sized by the library', () => {
+      const library = new SongLibrary(createSongs());
+      const tempos = new TempoManager(84, {
+        schedule: { type: 'fair-share', cycleTracks: 10 },
+        library,
+      });
+
+      // The tempo after each track: 6 at 84, 3 at 94, 1 at 102, then back to 84
+      expect(play(tempos, 10)).toEqual([84, 84, 84, 84, 84, 94, 94, 94, 102, 84]);
+    });
+
+    test('timed schedule moves on after the given seconds', () => {
+      const tempos = new TempoManager(84, {
+        schedule: { type: 'timed', secondsPerTempo: 60, order: [84, 102] },
+      });
+
+      expect(play(tempos, 5)).toEqual([84, 102, 102, 84, 84]);
+    });
+
+    test('scripted schedule follows its steps and loops', () => {
+      const tempos = new TempoManager(94, {
+        schedule: {
+          type: 'scripted',
+          steps: [
+            { tempo: 102, tracks: 1 },
+            { tempo: 84, tracks: 2 },
+          ],
+        },
+      });
+
+      expect(tempos.getCurrentTempo()).toBe(102);
+      expect(play(tempos, 4)).toEqual([84, 84, 102, 84]);
+    });
+
+    test('scripted schedule without loop stays on its last step', () => {
+      const tempos = new TempoManager(94, {
+        schedule: {
+          type: 'scripted',
+          steps: [
+            { tempo: 102, tracks: 1 },
+            { tempo: 84, tracks: 1 },
+          ],
+          loop: false,
+        },
+      });
+
+      expect(play(tempos, 3)).toEqual([84, 84, 84]);
+    });
+
+    test('until-key-dry stays while the next key has unplayed songs at the tempo', () => {
+      const library = new SongLibrary(createSongs());
+      const tempos = new TempoManager(84, { schedule: { type: 'until-key-dry' }, library });
+
+      expect(play(tempos, 1)).toEqual([84]);
+
+      // Play every key-1 song at 84 BPM (ids 1 and 4)
+      library.markPlayed(1);
+      library.markPlayed(4);
+
+      expect(play(tempos, 1)).toEqual([94]);
+    });
+
+    test('until-key-dry skips tempos that are dry too', () => {
+      const library = new SongLibrary(createSongs());
+      const tempos = new TempoManager(84, { schedule: { type: 'until-key-dry' }, library });
+      const key3: MusicalKey = { key: 3, mode: 'unknown' };
+
+      // Key 3: ids 3 and 6 at 84, id 9 at 94 - nothing at 102
+      [3, 6, 9].forEach((id) => library.markPlayed(id));
+
+      expect(play(tempos, 1, key3)).toEqual([94]);
+    });
+  });
+
+  describe('manual changes', () => {
+    test('setTempo starts a fresh block', () => {
+      const tempos = new TempoManager(84, {
+        schedule: {
+          type: 'scripted',
+          steps: [
+            { tempo: 84, tracks: 2 },
+            { tempo: 94, tracks: 2 },
+          ],
+        },
+      });
+      play(tempos, 1);
+
+      tempos.setTempo(102);
+
+      expect(tempos.getCurrentTempo()).toBe(102);
+      expect(play(tempos, 2)).toEqual([102, 94]);
+    });
+
+    test('reset returns to the start tempo and restarts the schedule', () => {
+      const tempos = new TempoManager(84, { schedule: { type: 'timed', secondsPerTempo: 30 } });
+      play(tempos, 2);
+
+      tempos.reset();
+
+      expect(tempos.getCurrentTempo()).toBe(84);
+      expect(play(tempos, 1)).toEqual([94]);
+    });
+  });
+
+  describe('validation', () => {
+    test('rejects invalid schedules', () => {
+      expect(() => new TempoManager(94, { schedule: { type: 'fair-share' } })).toThrow(
+        'needs a library'
+      );
+      expect(
+        () => new TempoManager(94, { schedule: { type: 'timed', secondsPerTempo: 0 } })
+      ).toThrow('secondsPerTempo');
+      expect(() => new TempoManager(94, { schedule: { type: 'scripted', steps: [] } })).toThrow(
+        'at least one step'
+      );
+      expect(
+        () =>
+          new TempoManager(94, {
+            schedule: { type: 'scripted', steps: [{ tempo: 84, tracks: 0 }] },
+          })
+      ).toThrow('whole track');
+      expect(
+        () => new TempoManager(94, { schedule: { type: 'timed', secondsPerTempo: 10, order: [] } })
+      ).toThrow('at least one tempo');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for TimedSet
+ *
+ * Tests track and bar durations, tempo ramps, track type layout and
+ * hitting the target duration within a bar.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildTimeline, getTrackDuration, getBarDuration } from '../../music/TimedSet.js';
+import type { TimelineEntry } from '../../music/TimedSet.js';
+import type { Tempo } from '../../music/types.js';
+
+function getLength(timeline: TimelineEntry[]): number {
+  const last = timeline[timeline.length - 1]!;
+  return last.start + last.duration;
+}
+
+describe('TimedSet', () => {
+  test('computes track and bar durations from beats and tempo', () => {
+    expect(getTrackDuration(84, 'lead')).toBeCloseTo(11.43, 2);
+    expect(getTrackDuration(102, 'body')).toBeCloseTo(37.65, 2);
+    expect(getTrackDuration(94, 'body', 32)).toBeCloseTo(20.43, 2);
+    expect(getBarDuration(84)).toBeCloseTo(2.86, 2);
+  });
+
+  describe('buildTimeline', () => {
+    test.each<[number, Tempo, Tempo]>([
+      [45 * 60, 84, 102],
+      [20 * 60, 94, 94],
+      [600, 102, 84],
+      [137, 94, 102],
+    ])('%ss from %s to %s ends within a bar of the target', (duration, start, end) => {
+      const timeline = buildTimeline(duration, start, end);
+
+      expect(Math.abs(getLength(timeline) - duration)).toBeLessThanOrEqual(getBarDuration(end));
+    });
+
+    test('ramps through the tempos in between with equal time', () => {
+      const timeline = buildTimeline(45 * 60, 84, 102);
+      const secondsAt = (tempo: number): number =>
+        timeline.filter((entry) => entry.tempo === tempo).reduce((sum, e) => sum + e.duration, 0);
+
+      expect(timeline[0]!.tempo).toBe(84);
+      expect(timeline[timeline.length - 1]!.tempo).toBe(102);
+      expect(secondsAt(84)).toBeLessThanOrEqual(900);
+      expect(secondsAt(94)).toBeGreaterThan(850);
+      expect(secondsAt(84) + secondsAt(94)).toBeLessThanOrEqual(1800);
+    });
+
+    test('each block opens with a lead and alternates', () => {
+      const timeline = buildTimeline(300, 94, 102);
+      const firstAt102 = timeline.findIndex((entry) => entry.tempo === 102);
+
+      expect(timeline.slice(0, 3).map((entry) => entry.type)).toEqual(['lead', 'body', 'lead']);
+      expect(timeline[firstAt102]!.type).toBe('lead');
+    });
+
+    test('entries follow each other without gaps', () => {
+      const timeline = buildTimeline(600, 94);
+
+      timeline.slice(1).forEach((entry, i) => {
+        const previous = timeline[i]!;
+        expect(entry.start).toBeCloseTo(previous.start + previous.duration, 6);
+      });
+    });
+
+    test('cuts the last track to whole bars', () => {
+      const timeline = buildTimeline(60, 94);
+      const last = timeline[timeline.length - 1]!;
+
+      expect(last.beats % 4).toBe(0);
+      expect(last.duration).toBeCloseTo(getTrackDuration(94, last.type, last.beats), 6);
+    });
+
+    test('rejects durations that are not positive or too short', () => {
+      expect(() => buildTimeline(0, 94)).toThrow('positive');
+      expect(() => buildTimeline(1, 94)).toThrow('too short');
+    });
+  });
+});
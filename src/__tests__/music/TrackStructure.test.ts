@@ -0,0 +1,48 @@
+/**
+ * Tests for TrackStructure
+ *
+ * Tests the bundled templates and template validation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_STRUCTURE_TEMPLATES,
+  validateStructureTemplates,
+  createBeatCounts,
+} from '../../music/TrackStructure.js';
+
+describe('TrackStructure', () => {
+  test('bundles lead-body, lead-body-body and body-run', () => {
+    expect(DEFAULT_STRUCTURE_TEMPLATES.map((template) => template.name)).toEqual([
+      'lead-body',
+      'lead-body-body',
+      'body-run',
+    ]);
+    expect(validateStructureTemplates(DEFAULT_STRUCTURE_TEMPLATES)).toEqual(
+      DEFAULT_STRUCTURE_TEMPLATES
+    );
+  });
+
+  test('rejects empty lists, duplicates, empty templates and bad weights', () => {
+    expect(() => validateStructureTemplates([])).toThrow('At least one');
+    expect(() =>
+      validateStructureTemplates([
+        { name: 'a', types: ['lead'], weight: 1 },
+        { name: 'a', types: ['body'], weight: 1 },
+      ])
+    ).toThrow('Duplicate');
+    expect(() => validateStructureTemplates([{ name: 'a', types: [], weight: 1 }])).toThrow(
+      'at least one track type'
+    );
+    expect(() => validateStructureTemplates([{ name: 'a', types: ['lead'], weight: -1 }])).toThrow(
+      'non-negative'
+    );
+    expect(() => validateStructureTemplates([{ name: 'a', types: ['lead'], weight: 0 }])).toThrow(
+      'positive weight'
+    );
+  });
+
+  test('beat counts start at zero', () => {
+    expect(createBeatCounts()).toEqual({ lead: 0, body: 0 });
+  });
+});
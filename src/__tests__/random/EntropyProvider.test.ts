@@ -0,0 +1,193 @@
+/**
+ * Tests for entropy providers and the provider chain
+ *
+ * Tests each provider with mocked or real sources, failover between
+ * providers, and rejection of batches that fail health tests.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  HttpQuantumProvider,
+  WebCryptoProvider,
+  NodeCryptoProvider,
+  FixedEntropyProvider,
+  bytesToHex,
+  hexToBytes,
+} from '@/random/EntropyProvider';
+import { EntropyProviderChain } from '@/random/EntropyProviderChain';
+import type { EntropyProvider } from '@/random/EntropyProvider';
+
+let mockFetch: jest.MockedFunction<typeof fetch>;
+let originalFetch: typeof fetch;
+
+beforeEach(() => {
+  originalFetch = global.fetch;
+  mockFetch = jest.fn();
+  global.fetch = mockFetch;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+/**
+ * Bytes 0-255 in order, repeated: passes the health tests.
+ */
+function counting(length: number): number[] {
+  return Array.from({ length }, (_, i) => i % 256);
+}
+
+/**
+ * Provider that always throws.
+ */
+const brokenProvider: EntropyProvider = {
+  name: 'broken',
+  getBytes: () => Promise.reject(new Error('offline')),
+};
+
+describe('EntropyProvider', () => {
+  describe('hex helpers', () => {
+    test('round trip bytes through hex', () => {
+      const bytes = new Uint8Array([0, 15, 16, 255]);
+
+      expect(bytesToHex(bytes)).toBe('000f10ff');
+      expect(hexToBytes('000f10ff')).toEqual(bytes);
+      expect(() => hexToBytes('zz')).toThrow('Invalid hex');
+    });
+  });
+
+  describe('HttpQuantumProvider', () => {
+    test('converts hex16 values to bytes', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: ['abcd', '0123'] }),
+      } as Response);
+
+      const bytes = await new HttpQuantumProvider().getBytes(4);
+
+      expect(Array.from(bytes)).toEqual([0xab, 0xcd, 0x01, 0x23]);
+      expect(mockFetch.mock.calls[0]![0]).toContain('data_type=hex16&size=2');
+    });
+
+    test('throws on bad responses', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response);
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ data: 'test' }) } as Response);
+
+      const provider = new HttpQuantumProvider();
+
+      await expect(provider.getBytes(4)).rejects.toThrow('API returned 503');
+      await expect(provider.getBytes(4)).rejects.toThrow('Invalid hex');
+    });
+  });
+
+  describe('crypto providers', () => {
+    test('WebCryptoProvider returns the requested number of bytes', async () => {
+      const provider = new WebCryptoProvider();
+
+      expect(provider.getBytesSync(100_000)).toHaveLength(100_000);
+      expect(await provider.getBytes(16)).toHaveLength(16);
+    });
+
+    test('NodeCryptoProvider returns the requested number of bytes', async () => {
+      expect(await new NodeCryptoProvider().getBytes(16)).toHaveLength(16);
+    });
+  });
+
+  describe('FixedEntropyProvider', () => {
+    test('hands out the vector in order and runs out', () => {
+      const provider = new FixedEntropyProvider([1, 2, 3]);
+
+      expect(Array.from(provider.getBytesSync(2))).toEqual([1, 2]);
+      expect(provider.getRemaining()).toBe(1);
+      expect(() => provider.getBytesSync(2)).toThrow('exhausted');
+
+      provider.reset();
+      expect(Array.from(provider.getBytesSync(3))).toEqual([1, 2, 3]);
+    });
+
+    test('can cycle', () => {
+      const provider = new FixedEntropyProvider([1, 2, 3], { cycle: true });
+
+      expect(Array.from(provider.getBytesSync(5))).toEqual([1, 2, 3, 1, 2]);
+      expect(Array.from(provider.getBytesSync(2))).toEqual([3, 1]);
+    });
+
+    test('validates the vector', () => {
+      expect(() => new FixedEntropyProvider([])).toThrow('must not be empty');
+      expect(() => new FixedEntropyProvider([256])).toThrow('0-255');
+    });
+  });
+});
+
+describe('EntropyProviderChain', () => {
+  test('uses the first provider that works', async () => {
+    const chain = new EntropyProviderChain([
+      brokenProvider,
+      new FixedEntropyProvider(counting(8), { name: 'vector' }),
+    ]);
+
+    const { bytes, provider } = await chain.getBytes(4);
+
+    expect(provider).toBe('vector');
+    expect(Array.from(bytes)).toEqual([0, 1, 2, 3]);
+  });
+
+  test('skips providers whose bytes fail health tests', async () => {
+    const chain = new EntropyProviderChain([
+      new FixedEntropyProvider([0], { cycle: true, name: 'stuck' }),
+      new FixedEntropyProvider(counting(64), { name: 'healthy' }),
+    ]);
+
+    const { provider } = await chain.getBytes(32);
+
+    expect(provider).toBe('healthy');
+    expect(chain.getHealthFailures()).toEqual([
+      expect.objectContaining({ test: 'repetition-count', provider: 'stuck', value: 0 }),
+    ]);
+  });
+
+  test('reports every error when all providers fail', async () => {
+    const chain = new EntropyProviderChain([
+      brokenProvider,
+      new FixedEntropyProvider([7], { cycle: true, name: 'stuck' }),
+    ]);
+
+    await expect(chain.getBytes(16)).rejects.toThrow(
+      'No entropy provider could supply 16 bytes (broken: offline; stuck: repetition-count test failed)'
+    );
+  });
+
+  test('getBytesSync skips async-only providers', () => {
+    const chain = new EntropyProviderChain([brokenProvider, new WebCryptoProvider()]);
+
+    expect(chain.getBytesSync(8).provider).toBe('web-crypto');
+    expect(() => new EntropyProviderChain([brokenProvider]).getBytesSync(8)).toThrow(
+      'No synchronous entropy provider'
+    );
+  });
+
+  test('health tests can be turned off', async () => {
+    const chain = new EntropyProviderChain([new FixedEntropyProvider([0], { cycle: true })], {
+      healthTests: false,
+    });
+
+    expect(Array.from((await chain.getBytes(6)).bytes)).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  test('keeps only the most recent failures', () => {
+    const chain = new EntropyProviderChain(
+      [new FixedEntropyProvider([0], { cycle: true }), new WebCryptoProvider()],
+      { maxFailures: 2 }
+    );
+
+    for (let i = 0; i < 5; i++) {
+      chain.getBytesSync(8);
+    }
+
+    expect(chain.getHealthFailures()).toHaveLength(2);
+  });
+
+  test('requires a provider', () => {
+    expect(() => new EntropyProviderChain([])).toThrow('At least one entropy provider');
+  });
+});
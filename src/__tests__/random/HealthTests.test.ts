@@ -0,0 +1,87 @@
+/**
+ * Tests for the entropy health tests
+ *
+ * Tests cutoff derivation, stuck and biased sources,
+ * state carried across batches, and option validation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  HealthMonitor,
+  RepetitionCountTest,
+  AdaptiveProportionTest,
+} from '@/random/HealthTests';
+
+/**
+ * Bytes 0-255 in order, repeated: no runs and no value over-represented.
+ */
+function counting(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => i % 256);
+}
+
+describe('HealthTests', () => {
+  describe('cutoffs', () => {
+    test('derive from the claimed entropy and false alarm rate', () => {
+      expect(new RepetitionCountTest(8, 30).cutoff).toBe(5);
+      expect(new RepetitionCountTest(1, 20).cutoff).toBe(21);
+
+      // SP 800-90B table: H = 1, W = 1024, α = 2^-20 gives 589
+      expect(new AdaptiveProportionTest(1, 20, 1024).cutoff).toBe(589);
+    });
+  });
+
+  describe('HealthMonitor', () => {
+    test('passes well-spread bytes', () => {
+      const monitor = new HealthMonitor();
+
+      expect(monitor.test(counting(4096))).toBeNull();
+    });
+
+    test('catches a stuck source', () => {
+      const monitor = new HealthMonitor();
+
+      const failure = monitor.test(new Uint8Array([1, 2, 7, 7, 7, 7, 7, 3]), 'stuck');
+
+      expect(failure).toEqual({
+        test: 'repetition-count',
+        provider: 'stuck',
+        value: 7,
+        count: 5,
+        cutoff: 5,
+        timestamp: expect.any(Number),
+      });
+    });
+
+    test('catches a biased source', () => {
+      const monitor = new HealthMonitor();
+      // 0x00 on every other byte: no long runs, but far too common
+      const bytes = Uint8Array.from({ length: 512 }, (_, i) => (i % 2 === 0 ? 0 : i % 256));
+
+      expect(monitor.test(bytes)?.test).toBe('adaptive-proportion');
+    });
+
+    test('carries state across batches', () => {
+      const monitor = new HealthMonitor();
+
+      expect(monitor.test(new Uint8Array([9, 9, 9]))).toBeNull();
+      expect(monitor.test(new Uint8Array([9, 9]))?.test).toBe('repetition-count');
+    });
+
+    test('restarts after a failure and on reset', () => {
+      const monitor = new HealthMonitor();
+
+      monitor.test(new Uint8Array([9, 9, 9, 9, 9]));
+      expect(monitor.test(new Uint8Array([9, 9, 9, 9]))).toBeNull();
+
+      monitor.reset();
+      expect(monitor.test(new Uint8Array([9, 9, 9, 9]))).toBeNull();
+    });
+
+    test('validates options', () => {
+      expect(() => new HealthMonitor({ minEntropy: 0 })).toThrow('minEntropy');
+      expect(() => new HealthMonitor({ minEntropy: 9 })).toThrow('minEntropy');
+      expect(() => new HealthMonitor({ alphaExponent: 10 })).toThrow('alphaExponent');
+      expect(() => new HealthMonitor({ windowSize: 1 })).toThrow('windowSize');
+    });
+  });
+});
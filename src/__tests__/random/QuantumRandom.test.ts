@@ -7,6 +7,7 @@
 
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { QuantumRandom } from '@/random/QuantumRandom';
+import { FixedEntropyProvider, WebCryptoProvider } from '@/random/EntropyProvider';
 
 /**
  * Mock storage for testing (replaces localStorage).
@@ -96,6 +97,22 @@ describe('QuantumRandom', () => {
       const qrng = new QuantumRandom({ useLocalStorage: false });
       await expect(qrng.getInteger(1.5, 10)).rejects.toThrow();
     });
+
+    test('throws on ranges wider than 2^48', async () => {
+      const qrng = new QuantumRandom({ useLocalStorage: false });
+      await expect(qrng.getInteger(0, 2 ** 48)).rejects.toThrow('2^48');
+    });
+
+    test('covers every value in a non-power-of-two range', async () => {
+      const qrng = new QuantumRandom({ useLocalStorage: false });
+      const counts = [0, 0, 0];
+
+      for (let i = 0; i < 300; i++) {
+        counts[(await qrng.getInteger(0, 2))]!++;
+      }
+
+      counts.forEach((count) => expect(count).toBeGreaterThan(50));
+    });
   });
 
   describe('getFloat', () => {
@@ -200,6 +217,57 @@ describe('QuantumRandom', () => {
     });
   });
 
+  describe('getWeightedChoice', () => {
+    test('never picks zero-weight elements', async () => {
+      const qrng = new QuantumRandom({ useLocalStorage: false });
+
+      for (let i = 0; i < 50; i++) {
+        const choice = await qrng.getWeightedChoice(['a', 'b', 'c'], [0, 1, 0]);
+        expect(choice).toBe('b');
+      }
+    });
+
+    test('picks heavier elements more often', async () => {
+      const qrng = new QuantumRandom({ useLocalStorage: false });
+      let heavy = 0;
+
+      for (let i = 0; i < 400; i++) {
+        if ((await qrng.getWeightedChoice(['light', 'heavy'], [1, 9])) === 'heavy') heavy++;
+      }
+
+      expect(heavy).toBeGreaterThan(300);
+    });
+
+    test('validates weights', async () => {
+      const qrng = new QuantumRandom({ useLocalStorage: false });
+
+      await expect(qrng.getWeightedChoice([], [])).rejects.toThrow();
+      await expect(qrng.getWeightedChoice([1, 2], [1])).rejects.toThrow();
+      await expect(qrng.getWeightedChoice([1, 2], [1, -1])).rejects.toThrow();
+      await expect(qrng.getWeightedChoice([1, 2], [0, 0])).rejects.toThrow();
+    });
+  });
+
+  describe('sample', () => {
+    test('returns distinct elements from the array', async () => {
+      const qrng = new QuantumRandom({ useLocalStorage: false });
+      const array = [1, 2, 3, 4, 5, 6, 7, 8];
+
+      const sampled = await qrng.sample(array, 5);
+
+      expect(sampled).toHaveLength(5);
+      expect(new Set(sampled).size).toBe(5);
+      sampled.forEach((value) => expect(array).toContain(value));
+    });
+
+    test('validates count', async () => {
+      const qrng = new QuantumRandom({ useLocalStorage: false });
+
+      await expect(qrng.sample([1, 2], 3)).rejects.toThrow('count must be <= array.length');
+      await expect(qrng.sample([1, 2], -1)).rejects.toThrow('count must be >= 0');
+    });
+  });
+
   describe('shuffle', () => {
     test('returns array of same length', async () => {
       const qrng = new QuantumRandom({ useLocalStorage: false });
@@ -303,6 +371,49 @@ describe('QuantumRandom', () => {
     });
   });
 
+  describe('entropy providers', () => {
+    test('fills the cache from custom providers', async () => {
+      const qrng = new QuantumRandom({
+        useLocalStorage: false,
+        cacheSize: 8,
+        providers: [new FixedEntropyProvider([0x12, 0x34, 0x56, 0x78], { name: 'vector' })],
+      });
+
+      // Let the initial refill finish
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(await qrng.getHexadecimal(8)).toBe('12345678');
+      expect(qrng.getCacheStats().provider).toBe('vector');
+    });
+
+    test('reports the provider and failed health checks', async () => {
+      const qrng = new QuantumRandom({
+        useLocalStorage: false,
+        cacheSize: 32,
+        providers: [
+          new FixedEntropyProvider([0xee], { cycle: true, name: 'stuck' }),
+          new WebCryptoProvider(),
+        ],
+      });
+
+      await new Promise((r) => setTimeout(r, 10));
+      const stats = qrng.getCacheStats();
+
+      expect(stats.provider).toBe('web-crypto');
+      expect(stats.healthFailures[0]).toMatchObject({ test: 'repetition-count', provider: 'stuck' });
+    });
+
+    test('throws when no synchronous provider can top up the cache', async () => {
+      const qrng = new QuantumRandom({
+        useLocalStorage: false,
+        cacheSize: 4,
+        providers: [new FixedEntropyProvider([1, 2])],
+      });
+
+      await expect(qrng.getHexadecimal(8)).rejects.toThrow('No synchronous entropy provider');
+    });
+  });
+
   describe('API integration', () => {
     test('handles API success', async () => {
       mockFetch.mockResolvedValueOnce({
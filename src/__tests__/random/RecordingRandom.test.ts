@@ -0,0 +1,139 @@
+/**
+ * Tests for RecordingRandom and ReplayRandom
+ *
+ * Tests recording draws, JSON round trips, faithful replay,
+ * and divergence detection.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { RecordingRandom } from '@/random/RecordingRandom';
+import { ReplayRandom, parseRandomLog } from '@/random/ReplayRandom';
+import { SeededRandom } from '@/random/SeededRandom';
+import { RandomReplayError } from '@/random/errors';
+
+describe('RecordingRandom', () => {
+  test('passes values through and records them with labels', async () => {
+    const recorder = new RecordingRandom(new SeededRandom(1));
+    const reference = new SeededRandom(1);
+
+    expect(await recorder.getFloat('first')).toBe(await reference.getFloat());
+    expect(await recorder.getInteger(1, 6, 'dice')).toBe(await reference.getInteger(1, 6));
+
+    expect(recorder.getLog().draws).toEqual([
+      { label: 'first', method: 'getFloat', value: expect.any(Number) },
+      { label: 'dice', method: 'getInteger', args: [1, 6], value: expect.any(Number) },
+    ]);
+  });
+
+  test('records choice indexes and shuffle orders', async () => {
+    const recorder = new RecordingRandom(new SeededRandom(2));
+    const items = [{ name: 'a' }, { name: 'b' }, { name: 'c' }];
+
+    const choice = await recorder.getChoice(items, 'pick');
+    const shuffled = await recorder.shuffle(items, 'order');
+    const [choiceDraw, shuffleDraw] = recorder.getLog().draws;
+
+    expect(items[choiceDraw!.value as number]).toBe(choice);
+    expect((shuffleDraw!.value as number[]).map((i) => items[i])).toEqual(shuffled);
+  });
+
+  test('serializes to JSON and clears', async () => {
+    const recorder = new RecordingRandom(new SeededRandom(3));
+    await recorder.getBoolean();
+
+    expect(JSON.parse(recorder.toJSON())).toEqual(recorder.getLog());
+    expect(recorder.getDrawCount()).toBe(1);
+
+    recorder.clear();
+    expect(recorder.getDrawCount()).toBe(0);
+  });
+});
+
+describe('ReplayRandom', () => {
+  /**
+   * Record a short session and return the log JSON and the values seen.
+   */
+  async function recordSession(): Promise<{ json: string; values: unknown[] }> {
+    const recorder = new RecordingRandom(new SeededRandom('live'));
+    const values: unknown[] = [
+      recorder.nextFloat('walk'),
+      await recorder.getFloat('type'),
+      await recorder.getInteger(0, 10, 'int'),
+      await recorder.getChoice(['x', 'y', 'z'], 'choice'),
+      await recorder.shuffle([1, 2, 3, 4], 'shuffle'),
+      await recorder.getWeightedChoice(['p', 'q'], [1, 2], 'weighted'),
+      await recorder.sample([5, 6, 7, 8], 2, 'sample'),
+      await recorder.getBoolean('coin'),
+    ];
+    return { json: recorder.toJSON(), values };
+  }
+
+  test('replays a recorded session exactly', async () => {
+    const { json, values } = await recordSession();
+    const replay = new ReplayRandom(json);
+
+    const replayed: unknown[] = [
+      replay.nextFloat('walk'),
+      await replay.getFloat('type'),
+      await replay.getInteger(0, 10, 'int'),
+      await replay.getChoice(['x', 'y', 'z'], 'choice'),
+      await replay.shuffle([1, 2, 3, 4], 'shuffle'),
+      await replay.getWeightedChoice(['p', 'q'], [1, 2], 'weighted'),
+      await replay.sample([5, 6, 7, 8], 2, 'sample'),
+      await replay.getBoolean('coin'),
+    ];
+
+    expect(replayed).toEqual(values);
+    expect(replay.isComplete()).toBe(true);
+  });
+
+  test('throws when the method differs', async () => {
+    const { json } = await recordSession();
+    const replay = new ReplayRandom(json);
+
+    expect(() => replay.nextFloat('walk')).not.toThrow();
+    await expect(replay.getBoolean('type')).rejects.toThrow(RandomReplayError);
+  });
+
+  test('throws when the label or shape differs', async () => {
+    const { json } = await recordSession();
+    const replay = new ReplayRandom(json);
+
+    expect(() => replay.nextFloat('elsewhere')).toThrow('Replay diverged at draw 0');
+
+    replay.nextFloat('walk');
+    await replay.getFloat('type');
+    await expect(replay.getInteger(0, 12, 'int')).rejects.toThrow(
+      'expected getInteger(0, 10) @ int, got getInteger(0, 12) @ int'
+    );
+  });
+
+  test('throws when the log runs out', async () => {
+    const replay = new ReplayRandom({ version: 1, draws: [] });
+
+    await expect(replay.getFloat()).rejects.toMatchObject({
+      name: 'RandomReplayError',
+      index: 0,
+      expected: null,
+    });
+  });
+
+  test('reset starts over', async () => {
+    const { json } = await recordSession();
+    const replay = new ReplayRandom(json);
+
+    const first = replay.nextFloat('walk');
+    replay.reset();
+
+    expect(replay.getRemaining()).toBe(8);
+    expect(replay.nextFloat('walk')).toBe(first);
+  });
+
+  test('rejects malformed logs', () => {
+    expect(() => parseRandomLog('null')).toThrow('must be an object');
+    expect(() => parseRandomLog({ version: 2 } as never)).toThrow('Unsupported random log version');
+    expect(() => parseRandomLog({ version: 1, draws: [{ method: 'roll' }] } as never)).toThrow(
+      'draw 0 is invalid'
+    );
+  });
+});
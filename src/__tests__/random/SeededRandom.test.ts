@@ -0,0 +1,146 @@
+/**
+ * Tests for SeededRandom
+ *
+ * Tests determinism, seed handling, ranges and the utility methods.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { SeededRandom } from '@/random/SeededRandom';
+
+describe('SeededRandom', () => {
+  describe('determinism', () => {
+    test('same seed produces the same sequence', async () => {
+      const a = new SeededRandom(42);
+      const b = new SeededRandom(42);
+
+      for (let i = 0; i < 100; i++) {
+        expect(await a.getInteger(0, 1000)).toBe(await b.getInteger(0, 1000));
+      }
+    });
+
+    test('different seeds produce different sequences', () => {
+      const a = new SeededRandom('friday');
+      const b = new SeededRandom('saturday');
+
+      const seqA = Array.from({ length: 10 }, () => a.nextFloat());
+      const seqB = Array.from({ length: 10 }, () => b.nextFloat());
+
+      expect(seqA).not.toEqual(seqB);
+    });
+
+    test('number and string seeds with the same text match', () => {
+      expect(new SeededRandom(7).nextFloat()).toBe(new SeededRandom('7').nextFloat());
+    });
+
+    test('reset restarts the sequence', () => {
+      const random = new SeededRandom('replay');
+      const first = [random.nextFloat(), random.nextFloat()];
+
+      random.reset();
+
+      expect([random.nextFloat(), random.nextFloat()]).toEqual(first);
+      expect(random.getSeed()).toBe('replay');
+    });
+
+    test('setState continues from a saved state', () => {
+      const random = new SeededRandom('resume');
+      random.nextFloat();
+      const state = random.getState();
+      const expected = [random.nextFloat(), random.nextFloat()];
+
+      const restored = new SeededRandom('other');
+      restored.setState(state);
+
+      expect([restored.nextFloat(), restored.nextFloat()]).toEqual(expected);
+      expect(() => restored.setState([1, 2, 3])).toThrow('four 32-bit unsigned integers');
+    });
+
+    test('rejects non-finite numeric seeds', () => {
+      expect(() => new SeededRandom(NaN)).toThrow('finite number');
+    });
+  });
+
+  describe('ranges', () => {
+    test('floats are in [0, 1)', async () => {
+      const random = new SeededRandom(1);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = await random.getFloat();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    test('integers cover the whole range', async () => {
+      const random = new SeededRandom(2);
+      const seen = new Set<number>();
+
+      for (let i = 0; i < 200; i++) {
+        seen.add(await random.getInteger(1, 6));
+      }
+
+      expect([...seen].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    test('validates integer bounds', async () => {
+      const random = new SeededRandom(3);
+
+      await expect(random.getInteger(5, 1)).rejects.toThrow('min must be <= max');
+      await expect(random.getInteger(0.5, 1)).rejects.toThrow('must be integers');
+    });
+  });
+
+  describe('utilities', () => {
+    test('getChoice picks from the array', async () => {
+      const random = new SeededRandom(4);
+
+      expect(['a', 'b', 'c']).toContain(await random.getChoice(['a', 'b', 'c']));
+      await expect(random.getChoice([])).rejects.toThrow('must not be empty');
+    });
+
+    test('shuffle keeps all elements and does not modify the input', async () => {
+      const random = new SeededRandom(5);
+      const input = [1, 2, 3, 4, 5, 6, 7, 8];
+
+      const shuffled = await random.shuffle(input);
+
+      expect(shuffled.slice().sort((a, b) => a - b)).toEqual(input);
+      expect(input).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    test('getWeightedChoice follows the weights', async () => {
+      const random = new SeededRandom(7);
+      let heavy = 0;
+
+      for (let i = 0; i < 400; i++) {
+        if ((await random.getWeightedChoice(['light', 'heavy', 'never'], [1, 3, 0])) === 'heavy') {
+          heavy++;
+        }
+      }
+
+      expect(heavy).toBeGreaterThan(250);
+      expect(heavy).toBeLessThan(350);
+      await expect(random.getWeightedChoice(['a'], [0])).rejects.toThrow('greater than 0');
+    });
+
+    test('sample returns distinct elements', async () => {
+      const random = new SeededRandom(8);
+
+      const sampled = await random.sample([1, 2, 3, 4, 5, 6], 4);
+
+      expect(new Set(sampled).size).toBe(4);
+      await expect(random.sample([1, 2], 3)).rejects.toThrow('count must be <= array.length');
+    });
+
+    test('getBoolean returns both values', async () => {
+      const random = new SeededRandom(6);
+      const seen = new Set<boolean>();
+
+      for (let i = 0; i < 50; i++) {
+        seen.add(await random.getBoolean());
+      }
+
+      expect(seen.size).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Quality Report
+ *
+ * Runs the random source analysis and the selection fairness simulation
+ * together and produces a JSON-serializable report with a pass/fail summary.
+ * Headless: no DOM or audio, so it runs in Node, CI or a worker.
+ *
+ * Example:
+ *   const report = await createQualityReport({
+ *     random: new SeededRandom('audit'),
+ *     songs: library,
+ *   });
+ *
+ *   fs.writeFileSync('quality.json', JSON.stringify(report, null, 2));
+ *   console.log(formatQualitySummary(report));
+ *   // PASS random source SeededRandom (4/4 tests)
+ *   // PASS selection fairness over 5000 tracks (songs, artists, keys)
+ *   // PASS overall
+ */
+
+import type { Song } from '../music/types.js';
+import type { RandomSource } from '../random/types.js';
+import { analyzeRandomSource } from './RandomQuality.js';
+import type { RandomQualityOptions, RandomQualityReport } from './RandomQuality.js';
+import { analyzeSelectionFairness } from './SelectionFairness.js';
+import type { SelectionFairnessOptions, SelectionFairnessReport } from './SelectionFairness.js';
+import { DEFAULT_SIGNIFICANCE } from './statistics.js';
+
+/**
+ * Options for createQualityReport.
+ */
+export interface QualityReportOptions {
+  /** Random source to analyze (also drives the selection simulation) */
+  random: RandomSource;
+
+  /** Library for the selection simulation. Omit to skip it. */
+  songs?: readonly Song[];
+
+  /** Significance level for every test. Default: 0.01 */
+  significance?: number;
+
+  /** Random source analysis options */
+  randomOptions?: Omit<RandomQualityOptions, 'significance'>;
+
+  /** Selection simulation options */
+  selectionOptions?: Omit<SelectionFairnessOptions, 'songs' | 'random' | 'significance'>;
+}
+
+/**
+ * Combined quality report.
+ */
+export interface QualityReport {
+  /** When the report was created (ISO 8601) */
+  generatedAt: string;
+
+  /** Significance level used */
+  significance: number;
+
+  /** Random source analysis */
+  random: RandomQualityReport;
+
+  /** Selection fairness simulation (null when no songs were given) */
+  selection: SelectionFairnessReport | null;
+
+  /** Whether every part passed */
+  passed: boolean;
+}
+
+/**
+ * Analyze a random source and, given a library, selection fairness.
+ *
+ * @param options - Source, library and test settings
+ * @returns Report (plain data, safe to JSON.stringify)
+ */
+export async function createQualityReport(options: QualityReportOptions): Promise<QualityReport> {
+  const significance = options.significance ?? DEFAULT_SIGNIFICANCE;
+
+  const random = await analyzeRandomSource(options.random, {
+    ...options.randomOptions,
+    significance,
+  });
+
+  const selection = options.songs
+    ? await analyzeSelectionFairness({
+        ...options.selectionOptions,
+        songs: options.songs,
+        random: options.random,
+        significance,
+      })
+    : null;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    significance,
+    random,
+    selection,
+    passed: random.passed && (selection?.passed ?? true),
+  };
+}
+
+/**
+ * Summarize a report as PASS/FAIL lines, naming each failed test.
+ */
+export function formatQualitySummary(report: QualityReport): string {
+  const status = (passed: boolean): string => (passed ? 'PASS' : 'FAIL');
+  const lines: string[] = [];
+
+  const { random, selection } = report;
+  const passedTests = random.tests.filter((test) => test.passed).length;
+  lines.push(
+    `${status(random.passed)} random source ${random.source} (${passedTests}/${random.tests.length} tests)`
+  );
+  for (const test of random.tests.filter((t) => !t.passed)) {
+    lines.push(`  ${test.name}: p = ${test.pValue.toPrecision(3)} < ${test.significance}`);
+  }
+
+  if (selection) {
+    lines.push(
+      `${status(selection.passed)} selection fairness over ${selection.tracks} tracks (songs, artists, keys)`
+    );
+    const tables = { songs: selection.songs, artists: selection.artists, keys: selection.keys };
+    for (const [group, table] of Object.entries(tables)) {
+      if (table.test && !table.test.passed) {
+        lines.push(`  ${group}: p = ${table.test.pValue.toPrecision(3)} < ${table.test.significance}`);
+      }
+    }
+  }
+
+  lines.push(`${status(report.passed)} overall`);
+  return lines.join('\n');
+}
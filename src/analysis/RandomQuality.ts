@@ -0,0 +1,112 @@
+/**
+ * Random Source Quality
+ *
+ * Draws a large sample from any RandomSource and checks it with the
+ * statistical tests: uniform floats, uniform integers, no clustering
+ * (runs) and no dependence between consecutive draws (serial correlation).
+ *
+ * Example:
+ *   const report = await analyzeRandomSource(new QuantumRandom(), { sampleSize: 20000 });
+ *   if (!report.passed) console.warn(report.tests.filter((t) => !t.passed));
+ */
+
+import type { RandomSource } from '../random/types.js';
+import {
+  chiSquareTest,
+  runsTest,
+  serialCorrelationTest,
+  DEFAULT_SIGNIFICANCE,
+} from './statistics.js';
+import type { StatisticalTestResult } from './statistics.js';
+
+/**
+ * Options for analyzeRandomSource.
+ */
+export interface RandomQualityOptions {
+  /** Draws per test. Default: 10000 */
+  sampleSize?: number;
+
+  /** Bins for the uniformity tests. Default: 16 */
+  bins?: number;
+
+  /** Significance level. Default: 0.01 */
+  significance?: number;
+
+  /** Name for the source in the report. Default: the source's class name */
+  name?: string;
+}
+
+/**
+ * Result of analyzing a random source.
+ */
+export interface RandomQualityReport {
+  /** Name of the analyzed source */
+  source: string;
+
+  /** Draws per test */
+  sampleSize: number;
+
+  /** Individual test results */
+  tests: StatisticalTestResult[];
+
+  /** Whether every test passed */
+  passed: boolean;
+}
+
+/**
+ * Analyze a random source.
+ *
+ * Draws `sampleSize` floats (getFloat) and `sampleSize` integers (getInteger)
+ * labelled 'analysis', so a recorded session shows where they came from.
+ *
+ * @param random - Source to analyze
+ * @param options - Sample size, bins and significance
+ * @returns Report with one result per test
+ * @throws Error if sampleSize or bins is too small
+ */
+export async function analyzeRandomSource(
+  random: RandomSource,
+  options: RandomQualityOptions = {}
+): Promise<RandomQualityReport> {
+  const sampleSize = options.sampleSize ?? 10000;
+  const bins = options.bins ?? 16;
+  const significance = options.significance ?? DEFAULT_SIGNIFICANCE;
+
+  if (!Number.isInteger(bins) || bins < 2) {
+    throw new Error(`bins must be an integer >= 2, got ${bins}`);
+  }
+  // Chi-square needs roughly 5 expected draws per bin to be reliable
+  if (!Number.isInteger(sampleSize) || sampleSize < bins * 5) {
+    throw new Error(`sampleSize must be an integer >= ${bins * 5} (5 per bin), got ${sampleSize}`);
+  }
+
+  const floats: number[] = [];
+  for (let i = 0; i < sampleSize; i++) {
+    floats.push(await random.getFloat('analysis'));
+  }
+
+  const integerCounts = new Array<number>(bins).fill(0);
+  for (let i = 0; i < sampleSize; i++) {
+    integerCounts[await random.getInteger(0, bins - 1, 'analysis')]!++;
+  }
+
+  const floatCounts = new Array<number>(bins).fill(0);
+  for (const value of floats) {
+    floatCounts[Math.min(bins - 1, Math.floor(value * bins))]!++;
+  }
+
+  const expected = new Array<number>(bins).fill(sampleSize / bins);
+  const tests = [
+    chiSquareTest(floatCounts, expected, significance, 'float-uniformity'),
+    chiSquareTest(integerCounts, expected, significance, 'integer-uniformity'),
+    runsTest(floats, significance),
+    serialCorrelationTest(floats, 1, significance),
+  ];
+
+  return {
+    source: options.name ?? random.constructor.name,
+    sampleSize,
+    tests,
+    passed: tests.every((test) => test.passed),
+  };
+}
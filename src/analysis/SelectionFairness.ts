@@ -0,0 +1,188 @@
+/**
+ * Selection Fairness
+ *
+ * Simulates a long session of SongSelector.selectTrack() calls and compares
+ * how often each song, artist and key was picked with how often it should be.
+ *
+ * Expected counts assume every song is equally likely over a long session:
+ * - Song: tracks / library size
+ * - Artist: tracks × (artist's songs / library size)
+ * - Key: tracks × (songs in that key / library size)
+ *
+ * Example:
+ *   const report = await analyzeSelectionFairness({
+ *     songs: library,
+ *     random: new SeededRandom('fairness'),
+ *     tracks: 5000,
+ *   });
+ *   report.artists.entries; // [{ name: 'Nas', observed: 212, expected: 200, deviation: 0.06 }, ...]
+ */
+
+import type { Song, Key } from '../music/types.js';
+import { SongLibrary } from '../music/SongLibrary.js';
+import { KeyManager } from '../music/KeyManager.js';
+import type { KeyManagerOptions } from '../music/KeyManager.js';
+import { SongSelector } from '../music/SongSelector.js';
+import type { SongSelectorOptions } from '../music/SongSelector.js';
+import type { RandomSource } from '../random/types.js';
+import { chiSquareTest, DEFAULT_SIGNIFICANCE } from './statistics.js';
+import type { StatisticalTestResult } from './statistics.js';
+
+/**
+ * Options for analyzeSelectionFairness.
+ */
+export interface SelectionFairnessOptions {
+  /** Library to select from */
+  songs: readonly Song[];
+
+  /** Random source for the selector and key walk */
+  random: RandomSource;
+
+  /** Number of selectTrack() calls. Default: 5000 */
+  tracks?: number;
+
+  /** Key to start in. Default: 1 */
+  startKey?: Key;
+
+  /** Selector options (candidate pool, magic number, ...) */
+  selectorOptions?: SongSelectorOptions;
+
+  /** Key manager options (progression mode, strategy, ...) */
+  keyManagerOptions?: KeyManagerOptions;
+
+  /** Significance level. Default: 0.01 */
+  significance?: number;
+}
+
+/**
+ * Observed vs expected count for one song, artist or key.
+ */
+export interface FrequencyEntry {
+  /** Song id, artist name or key number */
+  name: string;
+
+  /** Times selected */
+  observed: number;
+
+  /** Times expected */
+  expected: number;
+
+  /** Relative deviation: (observed - expected) / expected */
+  deviation: number;
+}
+
+/**
+ * Frequencies for one grouping, with a goodness-of-fit test.
+ */
+export interface FrequencyTable {
+  entries: FrequencyEntry[];
+
+  /** Chi-square test of observed vs expected (null with fewer than 2 entries) */
+  test: StatisticalTestResult | null;
+}
+
+/**
+ * Result of a selection fairness simulation.
+ */
+export interface SelectionFairnessReport {
+  /** Number of selectTrack() calls */
+  tracks: number;
+
+  /** Per-song frequencies (name = song id) */
+  songs: FrequencyTable;
+
+  /** Per-artist frequencies */
+  artists: FrequencyTable;
+
+  /** Per-key frequencies (name = key number) */
+  keys: FrequencyTable;
+
+  /** Whether every frequency test passed */
+  passed: boolean;
+}
+
+/**
+ * Simulate a session and report selection frequencies.
+ *
+ * @param options - Library, random source and session length
+ * @returns Per-song, per-artist and per-key frequencies with tests
+ * @throws Error if the library is empty or tracks is not a positive integer
+ */
+export async function analyzeSelectionFairness(
+  options: SelectionFairnessOptions
+): Promise<SelectionFairnessReport> {
+  const { songs, random } = options;
+  const tracks = options.tracks ?? 5000;
+  const significance = options.significance ?? DEFAULT_SIGNIFICANCE;
+
+  if (songs.length === 0) {
+    throw new Error('songs must not be empty');
+  }
+  if (!Number.isInteger(tracks) || tracks < 1) {
+    throw new Error(`tracks must be a positive integer, got ${tracks}`);
+  }
+
+  const keyManager = new KeyManager(options.startKey ?? 1, 'forward', {
+    random: (): number => random.nextFloat('key-walk'),
+    ...options.keyManagerOptions,
+  });
+  const selector = new SongSelector(new SongLibrary(songs), keyManager, random, options.selectorOptions);
+
+  const selected: Song[] = [];
+  for (let i = 0; i < tracks; i++) {
+    const result = await selector.selectTrack();
+    selected.push(result.track.song);
+  }
+
+  const byId = buildTable(songs, selected, (song) => String(song.id), tracks, significance);
+  const byArtist = buildTable(songs, selected, (song) => song.artist, tracks, significance);
+  const byKey = buildTable(songs, selected, (song) => String(song.key), tracks, significance);
+
+  return {
+    tracks,
+    songs: byId,
+    artists: byArtist,
+    keys: byKey,
+    passed: [byId, byArtist, byKey].every((table) => table.test?.passed ?? true),
+  };
+}
+
+/**
+ * Count selections per group and compare with the group's share of the library.
+ */
+function buildTable(
+  library: readonly Song[],
+  selected: readonly Song[],
+  groupOf: (song: Song) => string,
+  tracks: number,
+  significance: number
+): FrequencyTable {
+  const librarySizes = new Map<string, number>();
+  for (const song of library) {
+    const group = groupOf(song);
+    librarySizes.set(group, (librarySizes.get(group) ?? 0) + 1);
+  }
+
+  const observedCounts = new Map<string, number>();
+  for (const song of selected) {
+    const group = groupOf(song);
+    observedCounts.set(group, (observedCounts.get(group) ?? 0) + 1);
+  }
+
+  const entries: FrequencyEntry[] = [...librarySizes].map(([name, size]) => {
+    const expected = (tracks * size) / library.length;
+    const observed = observedCounts.get(name) ?? 0;
+    return { name, observed, expected, deviation: (observed - expected) / expected };
+  });
+
+  const test =
+    entries.length < 2
+      ? null
+      : chiSquareTest(
+          entries.map((e) => e.observed),
+          entries.map((e) => e.expected),
+          significance
+        );
+
+  return { entries, test };
+}
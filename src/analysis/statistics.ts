@@ -0,0 +1,280 @@
+/**
+ * Statistical Tests
+ *
+ * Small, dependency-free hypothesis tests for checking random streams
+ * and selection frequencies:
+ *
+ * - Chi-square goodness of fit: do observed counts match expected counts?
+ * - Runs test (Wald-Wolfowitz): are values above/below the median well mixed?
+ * - Serial correlation: does each value predict the next one?
+ *
+ * Every test returns a p-value. A test passes when p >= significance:
+ * the data gives no evidence against the null hypothesis (fair randomness).
+ *
+ * Example:
+ *   const result = chiSquareTest([48, 52], [50, 50]);
+ *   // { name: 'chi-square', statistic: 0.16, pValue: 0.689, passed: true, ... }
+ */
+
+/**
+ * Outcome of one statistical test.
+ */
+export interface StatisticalTestResult {
+  /** Test name */
+  name: string;
+
+  /** Test statistic (chi-square value, or z-score) */
+  statistic: number;
+
+  /** Probability of a result at least this extreme under the null hypothesis */
+  pValue: number;
+
+  /** Significance level the p-value was compared against */
+  significance: number;
+
+  /** Whether pValue >= significance */
+  passed: boolean;
+
+  /** Degrees of freedom, for chi-square tests */
+  degreesOfFreedom?: number;
+}
+
+/**
+ * Default significance level (1%).
+ */
+export const DEFAULT_SIGNIFICANCE = 0.01;
+
+/**
+ * Chi-square goodness-of-fit test.
+ * Bins with an expected count of 0 are skipped.
+ *
+ * @param observed - Observed count per bin
+ * @param expected - Expected count per bin
+ * @param significance - Significance level (default: 0.01)
+ * @param name - Name for the result (default: 'chi-square')
+ * @throws Error if the arrays differ in length or fewer than 2 bins have expected counts
+ *
+ * Example:
+ *   chiSquareTest([10, 30], [20, 20]).passed; // false (p ≈ 0.0016)
+ */
+export function chiSquareTest(
+  observed: readonly number[],
+  expected: readonly number[],
+  significance: number = DEFAULT_SIGNIFICANCE,
+  name: string = 'chi-square'
+): StatisticalTestResult {
+  if (observed.length !== expected.length) {
+    throw new Error(
+      `observed and expected must have the same length (${observed.length} vs ${expected.length})`
+    );
+  }
+
+  let statistic = 0;
+  let bins = 0;
+  for (let i = 0; i < observed.length; i++) {
+    const e = expected[i]!;
+    if (e <= 0) continue;
+
+    const diff = observed[i]! - e;
+    statistic += (diff * diff) / e;
+    bins++;
+  }
+
+  if (bins < 2) {
+    throw new Error('chi-square test needs at least 2 bins with expected counts');
+  }
+
+  const degreesOfFreedom = bins - 1;
+  const pValue = regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+  return { name, statistic, pValue, significance, passed: pValue >= significance, degreesOfFreedom };
+}
+
+/**
+ * Runs test (Wald-Wolfowitz) around the median.
+ * Too few runs means values cluster; too many means they alternate.
+ * Values equal to the median are ignored.
+ *
+ * @param values - Sample in draw order
+ * @param significance - Significance level (default: 0.01)
+ * @throws Error if fewer than 2 values fall on each side of the median
+ */
+export function runsTest(
+  values: readonly number[],
+  significance: number = DEFAULT_SIGNIFICANCE
+): StatisticalTestResult {
+  const median = getMedian(values);
+  const signs = values.filter((v) => v !== median).map((v) => v > median);
+
+  const above = signs.filter(Boolean).length;
+  const below = signs.length - above;
+  if (above < 2 || below < 2) {
+    throw new Error('runs test needs at least 2 values on each side of the median');
+  }
+
+  let runs = 1;
+  for (let i = 1; i < signs.length; i++) {
+    if (signs[i] !== signs[i - 1]) runs++;
+  }
+
+  const n = signs.length;
+  const mean = (2 * above * below) / n + 1;
+  const variance = ((mean - 1) * (mean - 2)) / (n - 1);
+  const statistic = (runs - mean) / Math.sqrt(variance);
+
+  return toZResult('runs', statistic, significance);
+}
+
+/**
+ * Serial correlation test: correlation between each value and the one `lag` draws later.
+ * For independent draws the coefficient is close to 0, with z = r·√n roughly normal.
+ *
+ * @param values - Sample in draw order
+ * @param lag - Distance between compared values (default: 1)
+ * @param significance - Significance level (default: 0.01)
+ * @throws Error if the sample is shorter than lag + 2 or has no variance
+ */
+export function serialCorrelationTest(
+  values: readonly number[],
+  lag: number = 1,
+  significance: number = DEFAULT_SIGNIFICANCE
+): StatisticalTestResult {
+  if (!Number.isInteger(lag) || lag < 1) {
+    throw new Error(`lag must be a positive integer, got ${lag}`);
+  }
+  if (values.length < lag + 2) {
+    throw new Error(`serial correlation needs at least ${lag + 2} values`);
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < values.length; i++) {
+    const d = values[i]! - mean;
+    denominator += d * d;
+    if (i + lag < values.length) {
+      numerator += d * (values[i + lag]! - mean);
+    }
+  }
+
+  if (denominator === 0) {
+    throw new Error('serial correlation needs values that vary');
+  }
+
+  const correlation = numerator / denominator;
+  return toZResult('serial-correlation', correlation * Math.sqrt(values.length), significance);
+}
+
+/**
+ * Standard normal cumulative distribution function.
+ */
+export function normalCdf(z: number): number {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+/**
+ * Build a two-sided result from a z-score.
+ */
+function toZResult(name: string, statistic: number, significance: number): StatisticalTestResult {
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(statistic))));
+  return { name, statistic, pValue, significance, passed: pValue >= significance };
+}
+
+/**
+ * Median of a sample.
+ */
+function getMedian(values: readonly number[]): number {
+  if (values.length === 0) {
+    throw new Error('values must not be empty');
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+/**
+ * Complementary error function (Numerical Recipes erfcc, |error| < 1.2e-7).
+ */
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t *
+                      (-0.18628806 +
+                        t *
+                          (0.27886807 +
+                            t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+    );
+  return x >= 0 ? r : 2 - r;
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation).
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155,
+    0.001208650973866179, -0.5395239384953e-5,
+  ];
+
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) {
+    y++;
+    series += c / y;
+  }
+
+  return -tmp + Math.log((2.5066282746310007 * series) / x);
+}
+
+/**
+ * Upper regularized incomplete gamma function Q(a, x) = 1 - P(a, x).
+ * Series expansion below a + 1, continued fraction above.
+ */
+function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Lentz's method for the continued fraction
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.exp(logPrefix) * h;
+}
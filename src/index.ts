@@ -27,7 +27,26 @@ export type {
   EngineState,
   EngineEvents,
   EngineStatistics,
+  AutoSaveOptions,
+  SongAttributeStorageOptions,
 } from './music/KwyjiboEngine.js';
+export {
+  parseEngineSnapshot,
+  SNAPSHOT_VERSION,
+  DEFAULT_SNAPSHOT_KEY,
+  DEFAULT_SONG_ATTRIBUTES_KEY,
+} from './music/EngineSnapshot.js';
+export type { EngineSnapshot } from './music/EngineSnapshot.js';
+export {
+  MemorySnapshotStorage,
+  LocalSnapshotStorage,
+  IndexedDBSnapshotStorage,
+  FileSnapshotStorage,
+} from './music/SnapshotStorage.js';
+export type {
+  SnapshotStorage,
+  IndexedDBSnapshotStorageOptions,
+} from './music/SnapshotStorage.js';
 
 // ============================================================================
 // AUDIO SYSTEM
@@ -61,20 +80,28 @@ export type { CacheOptions } from './audio/AudioBufferCache.js';
 export type {
   Song,
   Key,
+  Mode,
+  MusicalKey,
   Tempo,
   TrackType,
   Direction,
   TrackRequest,
+  LayerRole,
+  Layer,
+  LayeredSet,
   SongFilter,
+  SongAttributes,
   LibraryStats,
 } from './music/types.js';
 
 export {
   isValidKey,
+  isValidMode,
   isValidTempo,
   isValidTrackType,
   isValidDirection,
   ALL_KEYS,
+  ALL_MODES,
   ALL_TEMPOS,
   BEAT_COUNTS,
 } from './music/types.js';
@@ -98,21 +125,223 @@ export {
 
 export { SongLibrary } from './music/SongLibrary.js';
 export { KeyManager } from './music/KeyManager.js';
+export { TempoManager, getFairShares, DEFAULT_FAIR_SHARE_CYCLE } from './music/TempoManager.js';
+export {
+  ProgressionRunner,
+  parseProgressionScript,
+  validateProgressionScript,
+  getProgressionTemplate,
+  PROGRESSION_TEMPLATES,
+} from './music/ProgressionScript.js';
+export { ProgressionScriptError } from './music/errors.js';
+export {
+  buildTimeline,
+  getTrackDuration,
+  getBarDuration,
+  BEATS_PER_BAR,
+} from './music/TimedSet.js';
+export {
+  DEFAULT_STRUCTURE_TEMPLATES,
+  validateStructureTemplates,
+  createBeatCounts,
+} from './music/TrackStructure.js';
+export {
+  DEFAULT_MAGIC_POLICY,
+  validateMagicPolicy,
+  getMagicBehaviors,
+  isMagicTrack,
+} from './music/MagicPolicy.js';
 export { SongSelector } from './music/SongSelector.js';
+export {
+  ClassicHarmonicStrategy,
+  IntervalHarmonicStrategy,
+  MatrixHarmonicStrategy,
+  WeightedMixtureStrategy,
+  DEFAULT_HARMONIC_STRATEGY,
+  BUILT_IN_STRATEGY_NAMES,
+  getBuiltInStrategy,
+  createHarmonicStrategy,
+} from './music/HarmonicScoring.js';
+export {
+  musicalKey,
+  toMusicalKey,
+  getSongMusicalKey,
+  transposeKey,
+  relativeKey,
+  getCamelotNumber,
+  toCamelot,
+  fromCamelot,
+  toOpenKey,
+  fromOpenKey,
+  formatMusicalKey,
+  isSameMusicalKey,
+} from './music/MusicalKey.js';
+export {
+  ScoringPipeline,
+  HarmonicScorer,
+  TempoScorer,
+  ArtistDiversityScorer,
+  PartnerScorer,
+  PairRuleScorer,
+  RecencyScorer,
+  UnplayedScorer,
+  PreferenceScorer,
+  WeightScorer,
+  RandomVarianceScorer,
+  REJECT,
+  artistsMatch,
+  getPairId,
+  createDefaultScoringPipeline,
+} from './music/SongScoring.js';
+export { PairRules, PAIR_RULES_VERSION } from './music/PairRules.js';
+export type {
+  PairRule,
+  SongPairRule,
+  ArtistPairRule,
+  TempoBlockRule,
+  PairRulesJSON,
+  PairRuleIssue,
+} from './music/PairRules.js';
+export {
+  HamiltonianPlanner,
+  createTransitionScoringPipeline,
+  REJECTED_TRANSITION_SCORE,
+} from './music/HamiltonianPlanner.js';
+export { MixOptimizer, DEFAULT_MIX_WEIGHTS } from './music/MixOptimizer.js';
+export {
+  PAIR_LAYOUT,
+  PAIR_WITH_HIDDEN_LAYOUT,
+  getLayerKey,
+  getLayers,
+  getSetSongs,
+  validateLayout,
+} from './music/LayeredSet.js';
 
+export type { KeyManagerOptions, KeyManagerState, ProgressionMode } from './music/KeyManager.js';
+export type {
+  TempoManagerOptions,
+  TempoManagerState,
+  TempoSchedule,
+  TempoStep,
+  TempoAdvance,
+} from './music/TempoManager.js';
+export type {
+  ProgressionScript,
+  ProgressionTemplateName,
+  ProgressionRunnerState,
+  ScriptBlock,
+  ScriptKeys,
+  ScriptStep,
+} from './music/ProgressionScript.js';
+export type { ScriptIssue } from './music/errors.js';
+export type { StructureTemplate } from './music/TrackStructure.js';
+export type { TimedSetOptions, TimedSetPlan, TimelineEntry } from './music/TimedSet.js';
+export type {
+  MagicPolicy,
+  MagicInterval,
+  MagicBehavior,
+  MagicConstraints,
+  MagicSelection,
+} from './music/MagicPolicy.js';
+export type {
+  HarmonicScoringStrategy,
+  HarmonicStrategyConfig,
+  BuiltInStrategyName,
+} from './music/HarmonicScoring.js';
 export type {
   SongSelectorOptions,
   SelectionResult,
+  SelectionExplanation,
+  CandidateSource,
+  DroppedCounts,
+  SetSelectionResult,
+  SetConstraints,
+  SetConstraintName,
+  ConstraintViolation,
+  PlannedTrack,
+  SetPlan,
+  SongSelectorState,
+  SongRequest,
+  SongRequestOptions,
+  RequestDropReason,
+  DroppedRequest,
 } from './music/SongSelector.js';
+export type {
+  SongScorer,
+  WeightedScorer,
+  ScoredSong,
+  ScoringContext,
+  TempoBand,
+} from './music/SongScoring.js';
+export type {
+  HamiltonianPlannerOptions,
+  HamiltonianPlan,
+  PlannedTransition,
+  TempoBlock,
+} from './music/HamiltonianPlanner.js';
+export type {
+  MixTrack,
+  MixPair,
+  MixSlot,
+  MixObjectiveWeights,
+  MixObjective,
+  MixOptimizerOptions,
+  MixOptimizationResult,
+} from './music/MixOptimizer.js';
+export type { LayerSpec } from './music/LayeredSet.js';
 
 // ============================================================================
 // QUANTUM RANDOM (Advanced Usage)
 // ============================================================================
 
-export { QuantumRandom, getQuantumRandom, resetQuantumRandom } from './random/QuantumRandom.js';
+export {
+  QuantumRandom,
+  getQuantumRandom,
+  quantumFloat,
+  resetQuantumRandom,
+} from './random/QuantumRandom.js';
 export type { QuantumRandomOptions, RandomStorage } from './random/QuantumRandom.js';
+export {
+  HttpQuantumProvider,
+  WebCryptoProvider,
+  NodeCryptoProvider,
+  FixedEntropyProvider,
+} from './random/EntropyProvider.js';
+export type { EntropyProvider, HttpQuantumProviderOptions } from './random/EntropyProvider.js';
+export { EntropyProviderChain } from './random/EntropyProviderChain.js';
+export type { EntropyProviderChainOptions, EntropyBatch } from './random/EntropyProviderChain.js';
+export { HealthMonitor, RepetitionCountTest, AdaptiveProportionTest } from './random/HealthTests.js';
+export type { HealthTestOptions, HealthTestName, HealthTestFailure } from './random/HealthTests.js';
+export { SeededRandom } from './random/SeededRandom.js';
+export { RecordingRandom } from './random/RecordingRandom.js';
+export { ReplayRandom, parseRandomLog } from './random/ReplayRandom.js';
+export type { RandomSource, RandomDraw, RandomDrawMethod, RandomLog } from './random/types.js';
 export { EnhancedRandom, enhancedRandom } from './random/EnhancedRandom.js';
 
+// ============================================================================
+// ANALYSIS (Advanced Usage)
+// ============================================================================
+
+export { createQualityReport, formatQualitySummary } from './analysis/QualityReport.js';
+export type { QualityReport, QualityReportOptions } from './analysis/QualityReport.js';
+export { analyzeRandomSource } from './analysis/RandomQuality.js';
+export type { RandomQualityOptions, RandomQualityReport } from './analysis/RandomQuality.js';
+export { analyzeSelectionFairness } from './analysis/SelectionFairness.js';
+export type {
+  SelectionFairnessOptions,
+  SelectionFairnessReport,
+  FrequencyEntry,
+  FrequencyTable,
+} from './analysis/SelectionFairness.js';
+export {
+  chiSquareTest,
+  runsTest,
+  serialCorrelationTest,
+  normalCdf,
+  DEFAULT_SIGNIFICANCE,
+} from './analysis/statistics.js';
+export type { StatisticalTestResult } from './analysis/statistics.js';
+
 // ============================================================================
 // UTILITIES
 // ============================================================================
@@ -130,3 +359,4 @@ export {
   DecodeError,
   LoadError,
 } from './audio/errors.js';
+export { RandomReplayError } from './random/errors.js';
@@ -0,0 +1,101 @@
+/**
+ * Engine Snapshots
+ *
+ * A snapshot is everything a KwyjiboEngine needs to pick up a session where
+ * it left off: played songs, key and tempo state, the selector's history and
+ * plan, the script position, and the seeded random state. Songs are stored
+ * by ID, so a snapshot only restores against the same song list.
+ *
+ * Snapshots are plain JSON. The version field changes whenever the shape
+ * does; parseEngineSnapshot() rejects versions it does not know.
+ *
+ * Not saved: the audio loader, the harmonic strategy and selector options
+ * (pass them to restore() again), and the random source of an unseeded
+ * engine (a restored quantum engine draws fresh values).
+ *
+ * Example:
+ *   const json = JSON.stringify(engine.serialize());
+ *   // ... later ...
+ *   const restored = KwyjiboEngine.restore(json, { songs, audioLoader });
+ *   await restored.start(); // carries on without repeating played songs
+ */
+
+import type { Tempo, TrackType } from './types.js';
+import type { KeyManagerState } from './KeyManager.js';
+import type { SongSelectorState } from './SongSelector.js';
+import type { TempoManagerState } from './TempoManager.js';
+import type { ProgressionScript, ProgressionRunnerState } from './ProgressionScript.js';
+
+/**
+ * Snapshot format version.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Storage key for saveSession(), loadSession() and auto-save.
+ */
+export const DEFAULT_SNAPSHOT_KEY = 'kwyjibo-session';
+
+/**
+ * Storage key for song attributes (see KwyjiboEngine.setSongAttributes).
+ */
+export const DEFAULT_SONG_ATTRIBUTES_KEY = 'kwyjibo-song-attributes';
+
+/**
+ * Saved engine session.
+ */
+export interface EngineSnapshot {
+  /** Snapshot format version */
+  version: typeof SNAPSHOT_VERSION;
+
+  /** When the snapshot was taken (ms since the epoch) */
+  savedAt: number;
+
+  /** Session length when the snapshot was taken (ms) */
+  sessionDuration: number;
+
+  /** IDs of played songs, in play order */
+  playedIds: number[];
+
+  /** Last selected track (song ID, tempo and type), or null before the first */
+  currentTrack: { songId: number; tempo: Tempo; type: TrackType } | null;
+
+  keyManager: KeyManagerState;
+  selector: SongSelectorState;
+  tempo: TempoManagerState;
+
+  /** Progression script and the runner's position, or null without a script */
+  script: { script: ProgressionScript; runner: ProgressionRunnerState } | null;
+
+  /** Seed and generator state of a seeded engine, or null */
+  random: { seed: number | string; state: number[] } | null;
+}
+
+/**
+ * Parse and validate a snapshot.
+ *
+ * @param snapshot - Snapshot, or its JSON
+ * @throws Error if the snapshot is malformed or from an unknown version
+ */
+export function parseEngineSnapshot(snapshot: EngineSnapshot | string): EngineSnapshot {
+  const parsed: unknown = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Engine snapshot must be an object');
+  }
+
+  const value = parsed as Partial<EngineSnapshot>;
+  if (value.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported engine snapshot version: ${String(value.version)}`);
+  }
+  if (!Array.isArray(value.playedIds) || !value.playedIds.every(Number.isInteger)) {
+    throw new Error('Engine snapshot playedIds must be an array of song IDs');
+  }
+  for (const section of ['keyManager', 'selector', 'tempo'] as const) {
+    if (typeof value[section] !== 'object' || value[section] === null) {
+      throw new Error(`Engine snapshot is missing ${section} state`);
+    }
+  }
+
+  return value as EngineSnapshot;
+}
@@ -0,0 +1,446 @@
+/**
+ * Hamiltonian Planner
+ *
+ * Plans a path that plays every song exactly once with the best possible
+ * transitions. Songs are nodes of a complete weighted graph; an edge's weight
+ * is how well one song flows into the next (key compatibility, a different
+ * artist, matching tempo). Finding the best such path is a travelling salesman
+ * problem, so the planner uses the usual heuristics:
+ *
+ * 1. Nearest neighbour: from each start, always go to the best unvisited song
+ * 2. 2-opt: reverse a stretch of the path when that improves the total
+ * 3. Or-opt: move a run of 1-3 songs elsewhere when that improves the total
+ *
+ * Tempo blocks: songs are grouped by tempo and each group is played as one
+ * block (e.g. all 84 BPM songs, then all 94, then all 102). Each block starts
+ * from the song that best follows the previous block.
+ *
+ * Example:
+ *   const planner = new HamiltonianPlanner();
+ *   const plan = planner.plan(songs);
+ *   // plan.path = every song once, plan.totalScore = sum of transition scores
+ */
+
+import type { Song, Tempo } from './types.js';
+import { getSongMusicalKey } from './MusicalKey.js';
+import { DEFAULT_HARMONIC_STRATEGY } from './HarmonicScoring.js';
+import type { HarmonicScoringStrategy } from './HarmonicScoring.js';
+import {
+  ScoringPipeline,
+  HarmonicScorer,
+  TempoScorer,
+  ArtistDiversityScorer,
+} from './SongScoring.js';
+
+/**
+ * Score for a transition the scoring pipeline rejected.
+ * Finite so the path can still be completed when every option is bad.
+ */
+export const REJECTED_TRANSITION_SCORE = -1000;
+
+/**
+ * Options for the planner.
+ */
+export interface HamiltonianPlannerOptions {
+  /**
+   * Strategy for scoring key compatibility.
+   * Default: the classic kwyjibo table
+   */
+  harmonicStrategy?: HarmonicScoringStrategy;
+
+  /**
+   * Pipeline that scores a transition: the song being scored is the next song,
+   * the context key/tempo/artist come from the current song.
+   * Default: createTransitionScoringPipeline()
+   */
+  scoringPipeline?: ScoringPipeline;
+
+  /**
+   * Order of the tempo blocks. Must list every tempo in the library.
+   * Default: tempos in ascending order
+   */
+  tempoOrder?: readonly Tempo[];
+
+  /**
+   * Song to start the path with.
+   * Default: whichever start gives the best path
+   */
+  startSongId?: number;
+
+  /**
+   * Maximum improvement passes (2-opt + Or-opt) per block.
+   * Default: 50
+   */
+  maxPasses?: number;
+}
+
+/**
+ * One step of a planned path.
+ */
+export interface PlannedTransition {
+  from: Song;
+  to: Song;
+  score: number;
+}
+
+/**
+ * Songs of one tempo within a plan.
+ */
+export interface TempoBlock {
+  tempo: Tempo;
+  songs: Song[];
+
+  /** Sum of the transition scores inside the block */
+  score: number;
+}
+
+/**
+ * A planned path through the library.
+ */
+export interface HamiltonianPlan {
+  /** Every song exactly once, in play order */
+  path: Song[];
+
+  /** Transitions between consecutive songs (path.length - 1 entries) */
+  transitions: PlannedTransition[];
+
+  /** Sum of all transition scores (higher = smoother) */
+  totalScore: number;
+
+  /** The path split into tempo blocks, in play order */
+  blocks: TempoBlock[];
+}
+
+/**
+ * Transition scoring used by default: harmonic fit (×6), tempo distance
+ * and a penalty for the same artist twice in a row.
+ */
+export function createTransitionScoringPipeline(): ScoringPipeline {
+  return new ScoringPipeline([
+    { scorer: new HarmonicScorer(), weight: 6 },
+    { scorer: new TempoScorer(), weight: 1 },
+    { scorer: new ArtistDiversityScorer(), weight: 1 },
+  ]);
+}
+
+/**
+ * Plans song orders that visit every song once with the smoothest transitions.
+ */
+export class HamiltonianPlanner {
+  private readonly strategy: HarmonicScoringStrategy;
+  private readonly pipeline: ScoringPipeline;
+  private readonly tempoOrder: readonly Tempo[] | null;
+  private readonly startSongId: number | null;
+  private readonly maxPasses: number;
+
+  constructor(options: HamiltonianPlannerOptions = {}) {
+    this.strategy = options.harmonicStrategy ?? DEFAULT_HARMONIC_STRATEGY;
+    this.pipeline = options.scoringPipeline ?? createTransitionScoringPipeline();
+    this.tempoOrder = options.tempoOrder ?? null;
+    this.startSongId = options.startSongId ?? null;
+    this.maxPasses = options.maxPasses ?? 50;
+  }
+
+  /**
+   * Score the transition from one song to the next (higher = smoother).
+   *
+   * Example:
+   *   planner.scoreTransition(songInKey1, songInKey8); // 54 + 60 + 0 = 114
+   */
+  scoreTransition(from: Song, to: Song): number {
+    const result = this.pipeline.score(to, {
+      key: getSongMusicalKey(from),
+      tempo: from.bpm,
+      scoreKey: (a, b) => this.strategy.score(a, b),
+      avoidArtists: [from.artist],
+    });
+    return result ? result.score : REJECTED_TRANSITION_SCORE;
+  }
+
+  /**
+   * Plan a path through every song.
+   *
+   * @param songs - Songs to visit (ids must be unique)
+   * @returns The path, its transitions and total score, split into tempo blocks
+   * @throws Error if ids repeat, the start song is missing, or tempoOrder misses a tempo
+   */
+  plan(songs: readonly Song[]): HamiltonianPlan {
+    validateSongIds(songs);
+
+    const path: Song[] = [];
+    for (const tempo of this.getTempoOrder(songs)) {
+      const blockSongs = songs.filter((song) => song.bpm === tempo);
+      if (blockSongs.length === 0) continue;
+
+      const previous = path.length > 0 ? path[path.length - 1]! : null;
+      path.push(...this.planBlock(blockSongs, previous));
+    }
+
+    return this.scorePath(path);
+  }
+
+  /**
+   * Score an existing order (e.g. a shuffled or hand-made playlist).
+   *
+   * @param path - Songs in play order
+   */
+  scorePath(path: readonly Song[]): HamiltonianPlan {
+    const transitions: PlannedTransition[] = [];
+    for (let i = 1; i < path.length; i++) {
+      const from = path[i - 1]!;
+      const to = path[i]!;
+      transitions.push({ from, to, score: this.scoreTransition(from, to) });
+    }
+
+    const blocks: TempoBlock[] = [];
+    path.forEach((song, i) => {
+      const block = blocks[blocks.length - 1];
+      if (block && block.tempo === song.bpm) {
+        block.songs.push(song);
+        block.score += transitions[i - 1]!.score;
+      } else {
+        blocks.push({ tempo: song.bpm, songs: [song], score: 0 });
+      }
+    });
+
+    return {
+      path: [...path],
+      transitions,
+      totalScore: transitions.reduce((sum, t) => sum + t.score, 0),
+      blocks,
+    };
+  }
+
+  /**
+   * Block order: the configured tempo order, or ascending tempos.
+   */
+  private getTempoOrder(songs: readonly Song[]): readonly Tempo[] {
+    const present = [...new Set(songs.map((song) => song.bpm))].sort((a, b) => a - b);
+    if (!this.tempoOrder) return present;
+
+    const missing = present.filter((tempo) => !this.tempoOrder!.includes(tempo));
+    if (missing.length > 0) {
+      throw new Error(`tempoOrder is missing tempos: ${missing.join(', ')}`);
+    }
+    return this.tempoOrder;
+  }
+
+  /**
+   * Order one tempo block. When `previous` is given it is pinned in front,
+   * so the block starts with a song that follows it well.
+   */
+  private planBlock(songs: readonly Song[], previous: Song | null): Song[] {
+    const startSong =
+      previous === null && this.startSongId !== null
+        ? songs.find((song) => song.id === this.startSongId) ?? null
+        : null;
+    if (previous === null && this.startSongId !== null && !startSong) {
+      throw new Error(`Start song ${this.startSongId} is not in the first tempo block`);
+    }
+
+    // Node 0 is the pinned song (previous block's last song, or the start song)
+    const pinned = previous ?? startSong;
+    const nodes = pinned ? [pinned, ...songs.filter((song) => song !== pinned)] : [...songs];
+    const weights = nodes.map((from) => nodes.map((to) => (from === to ? 0 : this.scoreTransition(from, to))));
+
+    const order = solvePath(weights, pinned !== null, this.maxPasses);
+    const ordered = order.map((index) => nodes[index]!);
+    return previous ? ordered.slice(1) : ordered;
+  }
+}
+
+/**
+ * Find a high-scoring path through every node (nearest neighbour + 2-opt + Or-opt).
+ *
+ * @param weights - weights[a][b] = score of going from a to b
+ * @param pinFirst - Keep node 0 at the front
+ * @param maxPasses - Maximum improvement passes
+ * @returns Node indexes in path order
+ */
+function solvePath(weights: readonly (readonly number[])[], pinFirst: boolean, maxPasses: number): number[] {
+  const n = weights.length;
+  if (n <= 1) return n === 1 ? [0] : [];
+
+  // Nearest neighbour from every allowed start, keep the best
+  let best: number[] = [];
+  let bestScore = -Infinity;
+  const starts = pinFirst ? [0] : Array.from({ length: n }, (_, i) => i);
+  for (const start of starts) {
+    const path = nearestNeighbour(weights, start);
+    const score = pathScore(weights, path);
+    if (score > bestScore) {
+      best = path;
+      bestScore = score;
+    }
+  }
+
+  const first = pinFirst ? 1 : 0;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const improved = twoOpt(weights, best, first);
+    const moved = orOpt(weights, best, first);
+    if (!improved && !moved) break;
+  }
+
+  return best;
+}
+
+/**
+ * Build a path greedily: always take the best-scoring unvisited node.
+ */
+function nearestNeighbour(weights: readonly (readonly number[])[], start: number): number[] {
+  const visited = new Set([start]);
+  const path = [start];
+
+  while (path.length < weights.length) {
+    const current = path[path.length - 1]!;
+    let next = -1;
+    for (let candidate = 0; candidate < weights.length; candidate++) {
+      if (visited.has(candidate)) continue;
+      if (next === -1 || weights[current]![candidate]! > weights[current]![next]!) {
+        next = candidate;
+      }
+    }
+    visited.add(next);
+    path.push(next);
+  }
+
+  return path;
+}
+
+/**
+ * Sum of the edge scores along a path.
+ */
+function pathScore(weights: readonly (readonly number[])[], path: readonly number[]): number {
+  let score = 0;
+  for (let i = 1; i < path.length; i++) {
+    score += weights[path[i - 1]!]![path[i]!]!;
+  }
+  return score;
+}
+
+/**
+ * Smallest gain worth applying (guards against float noise looping forever).
+ */
+const MIN_GAIN = 1e-9;
+
+/**
+ * One 2-opt pass: reverse path[i..j] whenever that raises the score.
+ * Scores may be asymmetric, so the reversed stretch is re-scored in the
+ * other direction (prefix sums keep each check O(1)).
+ *
+ * @returns True if the path changed
+ */
+function twoOpt(weights: readonly (readonly number[])[], path: number[], first: number): boolean {
+  const n = path.length;
+  let changed = false;
+
+  let forward = prefixSums(weights, path, false);
+  let backward = prefixSums(weights, path, true);
+
+  for (let i = first; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const before = i > 0 ? path[i - 1]! : -1;
+      const after = j < n - 1 ? path[j + 1]! : -1;
+      const a = path[i]!;
+      const b = path[j]!;
+
+      let gain = backward[j]! - backward[i]! - (forward[j]! - forward[i]!);
+      if (before !== -1) gain += weights[before]![b]! - weights[before]![a]!;
+      if (after !== -1) gain += weights[a]![after]! - weights[b]![after]!;
+
+      if (gain > MIN_GAIN) {
+        reverse(path, i, j);
+        forward = prefixSums(weights, path, false);
+        backward = prefixSums(weights, path, true);
+        changed = true;
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * One Or-opt pass: move a run of 1-3 nodes to another position whenever
+ * that raises the score.
+ *
+ * @returns True if the path changed
+ */
+function orOpt(weights: readonly (readonly number[])[], path: number[], first: number): boolean {
+  const w = (from: number, to: number): number => (from === -1 || to === -1 ? 0 : weights[from]![to]!);
+  let changed = false;
+
+  for (let length = 1; length <= 3; length++) {
+    for (let start = first; start + length <= path.length; start++) {
+      const end = start + length - 1;
+      const before = start > 0 ? path[start - 1]! : -1;
+      const after = end < path.length - 1 ? path[end + 1]! : -1;
+      const head = path[start]!;
+      const tail = path[end]!;
+
+      // Score lost by cutting the run out and closing the gap
+      const removal = w(before, head) + w(tail, after) - w(before, after);
+
+      // Try inserting between positions p and p + 1 of the remaining path
+      const rest = [...path.slice(0, start), ...path.slice(end + 1)];
+      let bestGain = MIN_GAIN;
+      let bestPosition = -1;
+      for (let p = first - 1; p < rest.length; p++) {
+        if (p === start - 1) continue; // Same place
+        const left = p >= 0 ? rest[p]! : -1;
+        const right = p + 1 < rest.length ? rest[p + 1]! : -1;
+        const gain = w(left, head) + w(tail, right) - w(left, right) - removal;
+        if (gain > bestGain) {
+          bestGain = gain;
+          bestPosition = p;
+        }
+      }
+
+      if (bestPosition !== -1) {
+        const run = path.slice(start, end + 1);
+        rest.splice(bestPosition + 1, 0, ...run);
+        path.splice(0, path.length, ...rest);
+        changed = true;
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * sums[k] = score of the first k edges, read forwards or backwards.
+ */
+function prefixSums(weights: readonly (readonly number[])[], path: readonly number[], backward: boolean): number[] {
+  const sums = [0];
+  for (let k = 1; k < path.length; k++) {
+    const a = path[k - 1]!;
+    const b = path[k]!;
+    sums.push(sums[k - 1]! + (backward ? weights[b]![a]! : weights[a]![b]!));
+  }
+  return sums;
+}
+
+/**
+ * Reverse path[i..j] in place.
+ */
+function reverse(path: number[], i: number, j: number): void {
+  for (let lo = i, hi = j; lo < hi; lo++, hi--) {
+    const temp = path[lo]!;
+    path[lo] = path[hi]!;
+    path[hi] = temp;
+  }
+}
+
+/**
+ * Check that no song id appears twice.
+ */
+function validateSongIds(songs: readonly Song[]): void {
+  const seen = new Set<number>();
+  for (const song of songs) {
+    if (seen.has(song.id)) {
+      throw new Error(`Duplicate song id: ${song.id}`);
+    }
+    seen.add(song.id);
+  }
+}
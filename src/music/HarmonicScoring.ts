@@ -0,0 +1,343 @@
+/**
+ * Harmonic Scoring Strategies
+ *
+ * Pluggable rules for "how well does key B follow key A". KeyManager and
+ * SongSelector score keys through a strategy, so different harmonic styles
+ * can be A/B tested without forking the selection code.
+ *
+ * Built-in strategies:
+ * - classic: kwyjibo's original 12×12 table (Camelot wheel when modes are known)
+ * - circle-of-fifths, pentatonic, modal, tritone, extended, chromatic:
+ *   the six "harmonic approaches" from the Hamiltonian player
+ *
+ * Custom strategies:
+ * - MatrixHarmonicStrategy: any 12×12 score matrix (e.g. loaded from config)
+ * - WeightedMixtureStrategy: weighted average of other strategies
+ *
+ * All built-in strategies return scores from 1 (clash) to 10 (perfect match).
+ */
+
+import type { Key, MusicalKey } from './types.js';
+import { ALL_KEYS } from './types.js';
+import { getCamelotNumber } from './MusicalKey.js';
+
+/**
+ * Scores the harmonic compatibility of a key transition.
+ *
+ * Example:
+ *   const strategy: HarmonicScoringStrategy = {
+ *     name: 'same-key-only',
+ *     score: (from, to) => (from.key === to.key ? 10 : 1),
+ *   };
+ */
+export interface HarmonicScoringStrategy {
+  /** Strategy name (for logs and A/B reports) */
+  readonly name: string;
+
+  /**
+   * Score a transition between two keys.
+   * Keys with mode 'unknown' must still be scored.
+   *
+   * @returns Score, higher = more compatible
+   */
+  score(fromKey: MusicalKey, toKey: MusicalKey): number;
+}
+
+/**
+ * Names of the built-in strategies.
+ */
+export type BuiltInStrategyName =
+  | 'classic'
+  | 'circle-of-fifths'
+  | 'pentatonic'
+  | 'modal'
+  | 'tritone'
+  | 'extended'
+  | 'chromatic';
+
+/**
+ * Serializable strategy description (for config files).
+ *
+ * Example:
+ *   {
+ *     type: 'mixture',
+ *     components: [
+ *       { weight: 3, strategy: { type: 'builtin', name: 'classic' } },
+ *       { weight: 1, strategy: { type: 'builtin', name: 'tritone' } }
+ *     ]
+ *   }
+ */
+export type HarmonicStrategyConfig =
+  | { type: 'builtin'; name: BuiltInStrategyName }
+  | { type: 'matrix'; name?: string; matrix: number[][] }
+  | {
+      type: 'mixture';
+      name?: string;
+      components: Array<{ weight: number; strategy: HarmonicStrategyConfig }>;
+    };
+
+/**
+ * Harmonic compatibility scores between keys.
+ *
+ * Based on circle of fifths and music theory:
+ * - 10: Perfect match (same key)
+ * - 8-9: Very compatible (relative major/minor, adjacent in circle of fifths)
+ * - 5-7: Compatible (nearby keys)
+ * - 2-4: Less compatible (distant keys)
+ * - 1: Least compatible (tritone, opposite in circle)
+ *
+ * Example: Key 1 (C) is very compatible with Key 8 (Am, relative minor)
+ */
+const HARMONIC_SCORES: Record<Key, Record<Key, number>> = {
+  1: { 1: 10, 2: 7, 3: 5, 4: 3, 5: 2, 6: 1, 7: 2, 8: 9, 9: 6, 10: 4, 11: 3, 12: 8 },
+  2: { 1: 7, 2: 10, 3: 8, 4: 6, 5: 4, 6: 2, 7: 1, 8: 3, 9: 9, 10: 7, 11: 5, 12: 4 },
+  3: { 1: 5, 2: 8, 3: 10, 4: 9, 5: 7, 6: 4, 7: 2, 8: 1, 9: 4, 10: 9, 11: 8, 12: 6 },
+  4: { 1: 3, 2: 6, 3: 9, 4: 10, 5: 9, 6: 7, 7: 4, 8: 2, 9: 1, 10: 5, 11: 9, 12: 8 },
+  5: { 1: 2, 2: 4, 3: 7, 4: 9, 5: 10, 6: 9, 7: 7, 8: 4, 9: 2, 10: 1, 11: 6, 12: 9 },
+  6: { 1: 1, 2: 2, 3: 4, 4: 7, 5: 9, 6: 10, 7: 9, 8: 7, 9: 4, 10: 2, 11: 1, 12: 5 },
+  7: { 1: 2, 2: 1, 3: 2, 4: 4, 5: 7, 6: 9, 7: 10, 8: 9, 9: 7, 10: 4, 11: 2, 12: 1 },
+  8: { 1: 9, 2: 3, 3: 1, 4: 2, 5: 4, 6: 7, 7: 9, 8: 10, 9: 9, 10: 7, 11: 4, 12: 2 },
+  9: { 1: 6, 2: 9, 3: 4, 4: 1, 5: 2, 6: 4, 7: 7, 8: 9, 9: 10, 10: 9, 11: 7, 12: 4 },
+  10: { 1: 4, 2: 7, 3: 9, 4: 5, 5: 1, 6: 2, 7: 4, 8: 7, 9: 9, 10: 10, 11: 9, 12: 7 },
+  11: { 1: 3, 2: 5, 3: 8, 4: 9, 5: 6, 6: 1, 7: 2, 8: 4, 9: 7, 10: 9, 11: 10, 12: 9 },
+  12: { 1: 8, 2: 4, 3: 6, 4: 8, 5: 9, 6: 5, 7: 1, 8: 2, 9: 4, 10: 7, 11: 9, 12: 10 },
+};
+
+/**
+ * Camelot wheel scores, indexed by wheel distance (0-6).
+ *
+ * - Same letter: same mode, neighbours on the circle of fifths
+ * - Other letter: relative key (distance 0) and its neighbours
+ */
+const CAMELOT_SAME_MODE_SCORES = [10, 8, 6, 4, 3, 2, 1] as const;
+const CAMELOT_OTHER_MODE_SCORES = [9, 7, 5, 3, 2, 1, 1] as const;
+
+/**
+ * Interval tables for the six Hamiltonian player approaches,
+ * indexed by circular semitone distance (0-6).
+ */
+const INTERVAL_TABLES: Record<Exclude<BuiltInStrategyName, 'classic'>, readonly number[]> = {
+  // Perfect fifth/fourth best, then relative minor/major, then whole step
+  'circle-of-fifths': [10, 3, 6, 7, 7, 9, 1],
+  // Whole tone and fourth/fifth relationships
+  pentatonic: [10, 3, 9, 9, 2, 9, 1],
+  // Modal interchange: 2nds, 4ths and the tritone
+  modal: [10, 3, 8, 6, 8, 6, 8],
+  // Tritone substitution, minor third / major sixth
+  tritone: [10, 3, 2, 8, 2, 1, 9],
+  // 6ths, 9ths and 11ths
+  extended: [10, 8, 8, 9, 9, 2, 1],
+  // Stepwise motion, falling back to fifths
+  chromatic: [10, 9, 8, 2, 2, 6, 1],
+};
+
+/**
+ * kwyjibo's original scoring.
+ *
+ * Uses the chromatic table for plain keys and the Camelot wheel
+ * when both keys have a known mode.
+ */
+export class ClassicHarmonicStrategy implements HarmonicScoringStrategy {
+  readonly name = 'classic';
+
+  score(fromKey: MusicalKey, toKey: MusicalKey): number {
+    if (fromKey.mode === 'unknown' || toKey.mode === 'unknown') {
+      return HARMONIC_SCORES[fromKey.key][toKey.key];
+    }
+
+    const diff = Math.abs(getCamelotNumber(fromKey) - getCamelotNumber(toKey));
+    const distance = Math.min(diff, 12 - diff);
+    const scores =
+      fromKey.mode === toKey.mode ? CAMELOT_SAME_MODE_SCORES : CAMELOT_OTHER_MODE_SCORES;
+    return scores[distance]!;
+  }
+}
+
+/**
+ * Scores by circular semitone distance only (mode is ignored).
+ *
+ * Example:
+ *   // Same key 10, fifths 9, everything else 1
+ *   new IntervalHarmonicStrategy('fifths-only', [10, 1, 1, 1, 1, 9, 1]);
+ */
+export class IntervalHarmonicStrategy implements HarmonicScoringStrategy {
+  readonly name: string;
+  private readonly table: readonly number[];
+
+  /**
+   * @param name - Strategy name
+   * @param table - Scores for distances 0-6 (7 entries)
+   * @throws Error if the table does not have 7 finite entries
+   */
+  constructor(name: string, table: readonly number[]) {
+    if (table.length !== 7 || !table.every((v) => Number.isFinite(v))) {
+      throw new Error(`Interval table for "${name}" must have 7 finite scores`);
+    }
+    this.name = name;
+    this.table = [...table];
+  }
+
+  score(fromKey: MusicalKey, toKey: MusicalKey): number {
+    const diff = Math.abs(fromKey.key - toKey.key);
+    return this.table[Math.min(diff, 12 - diff)]!;
+  }
+}
+
+/**
+ * Scores from a custom 12×12 matrix (mode is ignored).
+ *
+ * matrix[from - 1][to - 1] is the score for key `from` → key `to`.
+ */
+export class MatrixHarmonicStrategy implements HarmonicScoringStrategy {
+  readonly name: string;
+  private readonly matrix: readonly (readonly number[])[];
+
+  /**
+   * @param matrix - 12 rows of 12 finite scores
+   * @param name - Strategy name (default: 'custom')
+   * @throws Error if the matrix is not 12×12 or contains non-finite values
+   */
+  constructor(matrix: readonly (readonly number[])[], name: string = 'custom') {
+    validateMatrix(matrix);
+    this.name = name;
+    this.matrix = matrix.map((row) => [...row]);
+  }
+
+  score(fromKey: MusicalKey, toKey: MusicalKey): number {
+    return this.matrix[fromKey.key - 1]![toKey.key - 1]!;
+  }
+}
+
+/**
+ * Weighted average of several strategies.
+ *
+ * Example:
+ *   // Mostly classic, with a taste of tritone substitutions
+ *   new WeightedMixtureStrategy([
+ *     { strategy: getBuiltInStrategy('classic'), weight: 3 },
+ *     { strategy: getBuiltInStrategy('tritone'), weight: 1 },
+ *   ]);
+ */
+export class WeightedMixtureStrategy implements HarmonicScoringStrategy {
+  readonly name: string;
+  private readonly components: ReadonlyArray<{ strategy: HarmonicScoringStrategy; weight: number }>;
+  private readonly totalWeight: number;
+
+  /**
+   * @param components - Strategies and their (non-negative) weights
+   * @param name - Strategy name (default: 'mixture')
+   * @throws Error if there are no components or the weights do not sum to > 0
+   */
+  constructor(
+    components: ReadonlyArray<{ strategy: HarmonicScoringStrategy; weight: number }>,
+    name: string = 'mixture'
+  ) {
+    if (components.length === 0) {
+      throw new Error('Mixture strategy needs at least one component');
+    }
+    if (components.some((c) => !Number.isFinite(c.weight) || c.weight < 0)) {
+      throw new Error('Mixture weights must be finite and non-negative');
+    }
+
+    this.totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+    if (this.totalWeight <= 0) {
+      throw new Error('Mixture weights must sum to more than 0');
+    }
+
+    this.name = name;
+    this.components = [...components];
+  }
+
+  score(fromKey: MusicalKey, toKey: MusicalKey): number {
+    let total = 0;
+    for (const { strategy, weight } of this.components) {
+      total += strategy.score(fromKey, toKey) * weight;
+    }
+    return total / this.totalWeight;
+  }
+}
+
+/**
+ * Names of all built-in strategies.
+ */
+export const BUILT_IN_STRATEGY_NAMES: readonly BuiltInStrategyName[] = [
+  'classic',
+  'circle-of-fifths',
+  'pentatonic',
+  'modal',
+  'tritone',
+  'extended',
+  'chromatic',
+] as const;
+
+/**
+ * The default strategy (kwyjibo's original scoring).
+ */
+export const DEFAULT_HARMONIC_STRATEGY: HarmonicScoringStrategy = new ClassicHarmonicStrategy();
+
+/**
+ * Get a built-in strategy by name.
+ *
+ * @throws Error if the name is unknown
+ */
+export function getBuiltInStrategy(name: BuiltInStrategyName): HarmonicScoringStrategy {
+  if (name === 'classic') {
+    return DEFAULT_HARMONIC_STRATEGY;
+  }
+
+  const table = INTERVAL_TABLES[name];
+  if (!table) {
+    throw new Error(`Unknown harmonic strategy: ${String(name)}`);
+  }
+  return new IntervalHarmonicStrategy(name, table);
+}
+
+/**
+ * Build a strategy from a config object (e.g. parsed JSON).
+ *
+ * @throws Error if the config is invalid
+ *
+ * Example:
+ *   const strategy = createHarmonicStrategy(JSON.parse(configText));
+ */
+export function createHarmonicStrategy(config: HarmonicStrategyConfig): HarmonicScoringStrategy {
+  switch (config.type) {
+    case 'builtin':
+      return getBuiltInStrategy(config.name);
+
+    case 'matrix':
+      return new MatrixHarmonicStrategy(config.matrix, config.name);
+
+    case 'mixture':
+      return new WeightedMixtureStrategy(
+        config.components.map((c) => ({
+          weight: c.weight,
+          strategy: createHarmonicStrategy(c.strategy),
+        })),
+        config.name
+      );
+
+    default:
+      throw new Error(`Unknown harmonic strategy config type: ${String((config as { type?: unknown }).type)}`);
+  }
+}
+
+/**
+ * Validate a 12×12 score matrix.
+ */
+function validateMatrix(matrix: readonly (readonly number[])[]): void {
+  if (!Array.isArray(matrix) || matrix.length !== ALL_KEYS.length) {
+    throw new Error('Harmonic matrix must have 12 rows');
+  }
+
+  matrix.forEach((row, i) => {
+    if (!Array.isArray(row) || row.length !== ALL_KEYS.length) {
+      throw new Error(`Harmonic matrix row ${i + 1} must have 12 scores`);
+    }
+    row.forEach((value, j) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Harmonic matrix entry [${i + 1}][${j + 1}] must be a finite number`);
+      }
+    });
+  });
+}
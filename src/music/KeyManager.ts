@@ -8,10 +8,14 @@
  * - Keys progress sequentially: 1→2→3...→12→1 (forward)
  * - Or reverse: 12→11→10...→1→12 (reverse)
  * - Direction can change dynamically
+ * - Alternative progression modes: circle-of-fifths walk, energy boost
+ *   (+2 semitones), relative-key hops, random compatible walk, custom steps
  *
  * Harmonic Compatibility:
  * - Each key has compatibility scores with other keys
- * - Based on music theory (circle of fifths, relative keys)
+ * - Scores come from a pluggable HarmonicScoringStrategy (see HarmonicScoring.ts)
+ * - The default strategy uses the circle of fifths / relative keys, and the
+ *   Camelot wheel when both keys have a known mode
  * - Higher score = more harmonically compatible
  *
  * Responsibilities:
@@ -21,34 +25,78 @@
  * - Change direction
  */
 
-import type { Key, Direction } from './types.js';
+import type { Key, Direction, Mode, MusicalKey } from './types.js';
+import { ALL_KEYS, ALL_MODES } from './types.js';
+import { DEFAULT_HARMONIC_STRATEGY } from './HarmonicScoring.js';
+import { toMusicalKey, transposeKey, relativeKey } from './MusicalKey.js';
+import type { HarmonicScoringStrategy } from './HarmonicScoring.js';
+import { quantumFloat } from '../random/QuantumRandom.js';
 
 /**
- * Harmonic compatibility scores between keys.
+ * How next() moves through keys.
  *
- * Based on circle of fifths and music theory:
- * - 10: Perfect match (same key)
- * - 8-9: Very compatible (relative major/minor, adjacent in circle of fifths)
- * - 5-7: Compatible (nearby keys)
- * - 2-4: Less compatible (distant keys)
- * - 1: Least compatible (tritone, opposite in circle)
+ * - chromatic: one semitone per step (the original kwyjibo walk)
+ * - fifths: circle of fifths, +7 semitones per step (-7 in reverse)
+ * - energy-boost: +2 semitones per step (-2 in reverse)
+ * - relative: hop to the relative major/minor, then step one semitone, and repeat
+ * - random-compatible: random key scoring at least `minScore` (default: 8)
+ * - sequence: user-supplied semitone steps, repeated (negated in reverse)
  *
- * Example: Key 1 (C) is very compatible with Key 8 (Am, relative minor)
+ * Example:
+ *   { type: 'sequence', steps: [7, 7, -3] }
  */
-const HARMONIC_SCORES: Record<Key, Record<Key, number>> = {
-  1: { 1: 10, 2: 7, 3: 5, 4: 3, 5: 2, 6: 1, 7: 2, 8: 9, 9: 6, 10: 4, 11: 3, 12: 8 },
-  2: { 1: 7, 2: 10, 3: 8, 4: 6, 5: 4, 6: 2, 7: 1, 8: 3, 9: 9, 10: 7, 11: 5, 12: 4 },
-  3: { 1: 5, 2: 8, 3: 10, 4: 9, 5: 7, 6: 4, 7: 2, 8: 1, 9: 4, 10: 9, 11: 8, 12: 6 },
-  4: { 1: 3, 2: 6, 3: 9, 4: 10, 5: 9, 6: 7, 7: 4, 8: 2, 9: 1, 10: 5, 11: 9, 12: 8 },
-  5: { 1: 2, 2: 4, 3: 7, 4: 9, 5: 10, 6: 9, 7: 7, 8: 4, 9: 2, 10: 1, 11: 6, 12: 9 },
-  6: { 1: 1, 2: 2, 3: 4, 4: 7, 5: 9, 6: 10, 7: 9, 8: 7, 9: 4, 10: 2, 11: 1, 12: 5 },
-  7: { 1: 2, 2: 1, 3: 2, 4: 4, 5: 7, 6: 9, 7: 10, 8: 9, 9: 7, 10: 4, 11: 2, 12: 1 },
-  8: { 1: 9, 2: 3, 3: 1, 4: 2, 5: 4, 6: 7, 7: 9, 8: 10, 9: 9, 10: 7, 11: 4, 12: 2 },
-  9: { 1: 6, 2: 9, 3: 4, 4: 1, 5: 2, 6: 4, 7: 7, 8: 9, 9: 10, 10: 9, 11: 7, 12: 4 },
-  10: { 1: 4, 2: 7, 3: 9, 4: 5, 5: 1, 6: 2, 7: 4, 8: 7, 9: 9, 10: 10, 11: 9, 12: 7 },
-  11: { 1: 3, 2: 5, 3: 8, 4: 9, 5: 6, 6: 1, 7: 2, 8: 4, 9: 7, 10: 9, 11: 10, 12: 9 },
-  12: { 1: 8, 2: 4, 3: 6, 4: 8, 5: 9, 6: 5, 7: 1, 8: 2, 9: 4, 10: 7, 11: 9, 12: 10 },
-};
+export type ProgressionMode =
+  | { type: 'chromatic' }
+  | { type: 'fifths' }
+  | { type: 'energy-boost' }
+  | { type: 'relative' }
+  | { type: 'random-compatible'; minScore?: number }
+  | { type: 'sequence'; steps: readonly number[] };
+
+/**
+ * Key manager state, as saved in a session snapshot.
+ */
+export interface KeyManagerState {
+  key: Key;
+  mode: Mode | 'unknown';
+  direction: Direction;
+  progression: ProgressionMode;
+
+  /** Steps taken in the current progression */
+  progressionStep: number;
+
+  /** Next key already drawn by the random walk */
+  pendingNext: MusicalKey | null;
+}
+
+/**
+ * Options for KeyManager.
+ */
+export interface KeyManagerOptions {
+  /**
+   * Mode of the current key.
+   * Default: unknown (mode-less scoring, same as a plain Key)
+   */
+  mode?: Mode;
+
+  /**
+   * Strategy used to score key compatibility.
+   * Default: the classic kwyjibo table
+   */
+  strategy?: HarmonicScoringStrategy;
+
+  /**
+   * How next() moves through keys.
+   * Default: { type: 'chromatic' }
+   */
+  progression?: ProgressionMode;
+
+  /**
+   * Random number source for the random-compatible walk, returning [0, 1).
+   * Default: quantumFloat (the shared QuantumRandom)
+   */
+  random?: () => number;
+}
 
 /**
  * Manages key progression and harmonic compatibility.
@@ -72,17 +120,75 @@ const HARMONIC_SCORES: Record<Key, Record<Key, number>> = {
  */
 export class KeyManager {
   private currentKey: Key;
+  private currentMode: Mode | 'unknown';
+  private readonly initialMode: Mode | 'unknown';
   private direction: Direction;
+  private strategy: HarmonicScoringStrategy;
+  private progression: ProgressionMode;
+  private readonly random: () => number;
+
+  /** Steps taken in the current progression (phase for relative/sequence modes) */
+  private progressionStep: number = 0;
+
+  /** Next key drawn by the random walk, so peekNext() and next() agree */
+  private pendingNext: MusicalKey | null = null;
 
   /**
    * Create a new key manager.
    *
    * @param startKey - Starting key (default: 1)
    * @param direction - Initial direction (default: 'forward')
+   * @param options - Additional options (mode, scoring strategy, progression mode)
    */
-  constructor(startKey: Key = 1, direction: Direction = 'forward') {
+  constructor(startKey: Key = 1, direction: Direction = 'forward', options: KeyManagerOptions = {}) {
     this.currentKey = startKey;
+    this.initialMode = options.mode ?? 'unknown';
+    this.currentMode = this.initialMode;
     this.direction = direction;
+    this.strategy = options.strategy ?? DEFAULT_HARMONIC_STRATEGY;
+    this.progression = validateProgressionMode(options.progression ?? { type: 'chromatic' });
+    this.random = options.random ?? quantumFloat;
+  }
+
+  /**
+   * Get the active progression mode.
+   */
+  getProgressionMode(): ProgressionMode {
+    return this.progression;
+  }
+
+  /**
+   * Change how next() moves through keys.
+   * Restarts the progression phase (relative hops, sequence position).
+   *
+   * @throws Error if the mode is invalid (e.g. empty sequence)
+   *
+   * Example:
+   *   keyManager.setProgressionMode({ type: 'fifths' });
+   *   keyManager.next(); // 1→8 (C → G)
+   */
+  setProgressionMode(mode: ProgressionMode): void {
+    this.progression = validateProgressionMode(mode);
+    this.progressionStep = 0;
+    this.pendingNext = null;
+  }
+
+  /**
+   * Get the harmonic scoring strategy.
+   */
+  getStrategy(): HarmonicScoringStrategy {
+    return this.strategy;
+  }
+
+  /**
+   * Replace the harmonic scoring strategy.
+   *
+   * Example:
+   *   keyManager.setStrategy(getBuiltInStrategy('tritone'));
+   */
+  setStrategy(strategy: HarmonicScoringStrategy): void {
+    this.strategy = strategy;
+    this.pendingNext = null;
   }
 
   /**
@@ -92,6 +198,28 @@ export class KeyManager {
     return this.currentKey;
   }
 
+  /**
+   * Get the current mode ('unknown' if not tagged).
+   */
+  getCurrentMode(): Mode | 'unknown' {
+    return this.currentMode;
+  }
+
+  /**
+   * Set the current mode.
+   */
+  setMode(mode: Mode | 'unknown'): void {
+    this.currentMode = mode;
+    this.pendingNext = null;
+  }
+
+  /**
+   * Get the current key together with its mode.
+   */
+  getCurrentMusicalKey(): MusicalKey {
+    return { key: this.currentKey, mode: this.currentMode };
+  }
+
   /**
    * Get the current direction.
    */
@@ -104,17 +232,18 @@ export class KeyManager {
    */
   setDirection(direction: Direction): void {
     this.direction = direction;
+    this.pendingNext = null;
   }
 
   /**
    * Toggle direction between forward and reverse.
    */
   toggleDirection(): void {
-    this.direction = this.direction === 'forward' ? 'reverse' : 'forward';
+    this.setDirection(this.direction === 'forward' ? 'reverse' : 'forward');
   }
 
   /**
-   * Move to the next key in the current direction.
+   * Move to the next key using the active progression mode.
    *
    * @returns The new current key
    *
@@ -125,11 +254,13 @@ export class KeyManager {
    *   keyManager.next(); // ...→12→1 (wraps around)
    */
   next(): Key {
-    if (this.direction === 'forward') {
-      this.currentKey = (this.currentKey === 12 ? 1 : (this.currentKey + 1)) as Key;
-    } else {
-      this.currentKey = (this.currentKey === 1 ? 12 : (this.currentKey - 1)) as Key;
-    }
+    const next = this.peekNextMusicalKey();
+
+    this.currentKey = next.key;
+    this.currentMode = next.mode;
+    this.progressionStep++;
+    this.pendingNext = null;
+
     return this.currentKey;
   }
 
@@ -137,46 +268,69 @@ export class KeyManager {
    * Jump directly to a specific key.
    *
    * @param key - Key to jump to
+   * @param mode - Mode to switch to (default: keep the current mode)
    *
    * Example:
    *   keyManager.setKey(5);
    *   keyManager.getCurrentKey(); // 5
    */
-  setKey(key: Key): void {
+  setKey(key: Key, mode?: Mode | 'unknown'): void {
     this.currentKey = key;
+    if (mode !== undefined) {
+      this.currentMode = mode;
+    }
+    this.pendingNext = null;
   }
 
   /**
    * Preview what the next key would be without changing state.
+   * The random walk draws once and keeps the result until next() is called.
    *
-   * @returns Next key in current direction
+   * @returns Next key in the active progression mode
    */
   peekNext(): Key {
-    if (this.direction === 'forward') {
-      return (this.currentKey === 12 ? 1 : (this.currentKey + 1)) as Key;
-    } else {
-      return (this.currentKey === 1 ? 12 : (this.currentKey - 1)) as Key;
+    return this.peekNextMusicalKey().key;
+  }
+
+  /**
+   * Preview the next key and mode without changing state.
+   */
+  peekNextMusicalKey(): MusicalKey {
+    if (this.progression.type === 'random-compatible') {
+      this.pendingNext ??= this.drawCompatibleKey(this.progression.minScore ?? 8);
+      return this.pendingNext;
     }
+
+    return this.stepFrom(this.getCurrentMusicalKey(), this.progressionStep, this.direction);
   }
 
   /**
    * Get harmonic compatibility score between two keys.
    *
+   * Delegates to the active strategy. With the default strategy, plain keys
+   * (or keys with an unknown mode) use the chromatic table, and keys with
+   * known modes use the Camelot wheel.
+   *
    * @param fromKey - Source key
    * @param toKey - Target key
-   * @returns Score from 1 (incompatible) to 10 (perfect match)
+   * @returns Score from the strategy (1-10 for built-in strategies)
    *
    * Example:
    *   keyManager.scoreCompatibility(1, 1); // 10 (same key)
    *   keyManager.scoreCompatibility(1, 8); // 9 (very compatible)
    *   keyManager.scoreCompatibility(1, 6); // 1 (tritone, incompatible)
+   *   keyManager.scoreCompatibility(
+   *     { key: 1, mode: 'major' },
+   *     { key: 10, mode: 'minor' }
+   *   ); // 9 (C → Am, relative minor)
    */
-  scoreCompatibility(fromKey: Key, toKey: Key): number {
-    return HARMONIC_SCORES[fromKey]![toKey]!;
+  scoreCompatibility(fromKey: Key | MusicalKey, toKey: Key | MusicalKey): number {
+    return this.strategy.score(toMusicalKey(fromKey), toMusicalKey(toKey));
   }
 
   /**
    * Score compatibility from current key to another key.
+   * Uses the current mode, if one is set.
    *
    * @param toKey - Target key to score
    * @returns Score from 1 to 10
@@ -185,8 +339,8 @@ export class KeyManager {
    *   keyManager.setKey(1);
    *   keyManager.scoreFromCurrent(8); // 9
    */
-  scoreFromCurrent(toKey: Key): number {
-    return this.scoreCompatibility(this.currentKey, toKey);
+  scoreFromCurrent(toKey: Key | MusicalKey): number {
+    return this.scoreCompatibility(this.getCurrentMusicalKey(), toKey);
   }
 
   /**
@@ -218,6 +372,32 @@ export class KeyManager {
     return this.getCompatibleKeys(this.currentKey);
   }
 
+  /**
+   * Get all musical keys sorted by compatibility with a given key.
+   *
+   * If the source mode is unknown, returns the 12 chromatic keys with unknown mode.
+   * Otherwise returns all 24 major/minor keys.
+   *
+   * @param fromKey - Key to compare against
+   * @returns Keys sorted by score (highest first)
+   *
+   * Example:
+   *   keyManager.getCompatibleMusicalKeys({ key: 1, mode: 'major' });
+   *   // [C, Am, G, F, ...]
+   */
+  getCompatibleMusicalKeys(fromKey: MusicalKey): MusicalKey[] {
+    const keys: MusicalKey[] =
+      fromKey.mode === 'unknown'
+        ? ALL_KEYS.map((key) => ({ key, mode: 'unknown' as const }))
+        : ALL_MODES.flatMap((mode) => ALL_KEYS.map((key) => ({ key, mode })));
+
+    return keys.sort((a, b) => {
+      const scoreA = this.scoreCompatibility(fromKey, a);
+      const scoreB = this.scoreCompatibility(fromKey, b);
+      return scoreB - scoreA; // Descending order
+    });
+  }
+
   /**
    * Check if two keys are highly compatible (score >= 8).
    *
@@ -225,7 +405,7 @@ export class KeyManager {
    * @param toKey - Target key
    * @returns True if highly compatible
    */
-  isHighlyCompatible(fromKey: Key, toKey: Key): boolean {
+  isHighlyCompatible(fromKey: Key | MusicalKey, toKey: Key | MusicalKey): boolean {
     return this.scoreCompatibility(fromKey, toKey) >= 8;
   }
 
@@ -234,33 +414,199 @@ export class KeyManager {
    *
    * @param startKey - Key to reset to (default: 1)
    * @param direction - Direction to reset to (default: 'forward')
+   * @param mode - Mode to reset to (default: the mode given at construction)
    */
-  reset(startKey: Key = 1, direction: Direction = 'forward'): void {
+  reset(
+    startKey: Key = 1,
+    direction: Direction = 'forward',
+    mode: Mode | 'unknown' = this.initialMode
+  ): void {
     this.currentKey = startKey;
+    this.currentMode = mode;
     this.direction = direction;
+    this.progressionStep = 0;
+    this.pendingNext = null;
+  }
+
+  /**
+   * Copy this key manager, including its progression phase.
+   * The copy shares the strategy and (unless given another) the random
+   * source, so a planner can walk ahead on the copy without moving the real key.
+   *
+   * @param random - Random number source for the copy's random-compatible walk
+   *                 (default: the same source as this key manager)
+   *
+   * Example:
+   *   const ahead = keyManager.clone();
+   *   ahead.next();
+   *   keyManager.getCurrentKey(); // unchanged
+   */
+  clone(random: () => number = this.random): KeyManager {
+    const copy = new KeyManager(this.currentKey, this.direction, {
+      mode: this.initialMode === 'unknown' ? undefined : this.initialMode,
+      strategy: this.strategy,
+      progression: this.progression,
+      random,
+    });
+    copy.currentMode = this.currentMode;
+    copy.progressionStep = this.progressionStep;
+    copy.pendingNext = this.pendingNext;
+    return copy;
+  }
+
+  /**
+   * Get the state needed to pick up where this key manager left off.
+   */
+  getState(): KeyManagerState {
+    return {
+      key: this.currentKey,
+      mode: this.currentMode,
+      direction: this.direction,
+      progression: this.progression,
+      progressionStep: this.progressionStep,
+      pendingNext: this.pendingNext,
+    };
+  }
+
+  /**
+   * Pick up from a saved state.
+   *
+   * @throws Error if the saved progression mode is invalid
+   */
+  restoreState(state: KeyManagerState): void {
+    this.progression = validateProgressionMode(state.progression);
+    this.currentKey = state.key;
+    this.currentMode = state.mode;
+    this.direction = state.direction;
+    this.progressionStep = state.progressionStep;
+    this.pendingNext = state.pendingNext;
   }
 
   /**
    * Get distance between two keys (number of steps).
    *
+   * Counts next() steps in the active progression mode, starting from the
+   * current progression phase. The random walk has no fixed path, so it is
+   * measured chromatically.
+   *
    * @param fromKey - Source key
    * @param toKey - Target key
    * @param direction - Direction to measure (default: current direction)
-   * @returns Number of steps
+   * @returns Number of steps, or -1 if the progression never reaches toKey
    *
    * Example:
    *   keyManager.getDistance(1, 3, 'forward'); // 2 (1→2→3)
    *   keyManager.getDistance(3, 1, 'forward'); // 10 (3→4→...→12→1)
    *   keyManager.getDistance(3, 1, 'reverse'); // 2 (3→2→1)
+   *
+   *   keyManager.setProgressionMode({ type: 'fifths' });
+   *   keyManager.getDistance(1, 3, 'forward'); // 2 (C→G→D)
    */
   getDistance(fromKey: Key, toKey: Key, direction?: Direction): number {
     const dir = direction ?? this.direction;
 
     if (fromKey === toKey) return 0;
 
-    if (dir === 'forward') {
-      return toKey > fromKey ? toKey - fromKey : 12 - fromKey + toKey;
+    const type = this.progression.type;
+    if (type === 'chromatic' || type === 'random-compatible') {
+      if (dir === 'forward') {
+        return toKey > fromKey ? toKey - fromKey : 12 - fromKey + toKey;
+      }
+      return fromKey > toKey ? fromKey - toKey : 12 - toKey + fromKey;
     }
-    return fromKey > toKey ? fromKey - toKey : 12 - toKey + fromKey;
+
+    // Walk the progression; it repeats within 2 × 12 × cycle-length steps
+    const cycleLength = type === 'sequence' ? this.progression.steps.length : 2;
+    const maxSteps = 24 * cycleLength;
+    let current: MusicalKey = { key: fromKey, mode: this.currentMode };
+
+    for (let steps = 1; steps <= maxSteps; steps++) {
+      current = this.stepFrom(current, this.progressionStep + steps - 1, dir);
+      if (current.key === toKey) {
+        return steps;
+      }
+    }
+
+    return -1;
   }
+
+  /**
+   * Compute one deterministic progression step.
+   *
+   * @param from - Key to step from
+   * @param step - Index of this step in the progression (phase)
+   * @param direction - Direction of travel
+   */
+  private stepFrom(from: MusicalKey, step: number, direction: Direction): MusicalKey {
+    const sign = direction === 'forward' ? 1 : -1;
+
+    switch (this.progression.type) {
+      case 'fifths':
+        return { key: transposeKey(from.key, 7 * sign), mode: from.mode };
+
+      case 'energy-boost':
+        return { key: transposeKey(from.key, 2 * sign), mode: from.mode };
+
+      case 'relative':
+        if (step % 2 === 0) {
+          // Untagged keys are treated as major, so the first hop goes to the relative minor
+          return relativeKey(from.mode === 'unknown' ? { key: from.key, mode: 'major' } : from);
+        }
+        return { key: transposeKey(from.key, sign), mode: from.mode };
+
+      case 'sequence': {
+        const steps = this.progression.steps;
+        const semitones = steps[step % steps.length]!;
+        return { key: transposeKey(from.key, semitones * sign), mode: from.mode };
+      }
+
+      case 'chromatic':
+      case 'random-compatible':
+      default:
+        return { key: transposeKey(from.key, sign), mode: from.mode };
+    }
+  }
+
+  /**
+   * Draw a random key (other than the current one) scoring at least minScore.
+   * Falls back to a chromatic step if no key qualifies.
+   */
+  private drawCompatibleKey(minScore: number): MusicalKey {
+    const current = this.getCurrentMusicalKey();
+    const candidates = this.getCompatibleMusicalKeys(current).filter(
+      (key) =>
+        !(key.key === current.key && key.mode === current.mode) &&
+        this.scoreCompatibility(current, key) >= minScore
+    );
+
+    if (candidates.length === 0) {
+      return this.stepFrom(current, this.progressionStep, this.direction);
+    }
+
+    const index = Math.min(Math.floor(this.random() * candidates.length), candidates.length - 1);
+    return candidates[index]!;
+  }
+}
+
+/**
+ * Validate a progression mode.
+ *
+ * @throws Error if the mode is invalid
+ */
+function validateProgressionMode(mode: ProgressionMode): ProgressionMode {
+  if (mode.type === 'sequence') {
+    if (mode.steps.length === 0) {
+      throw new Error('Sequence progression needs at least one step');
+    }
+    if (!mode.steps.every((step) => Number.isInteger(step))) {
+      throw new Error('Sequence progression steps must be whole semitones');
+    }
+    return { type: 'sequence', steps: [...mode.steps] };
+  }
+
+  if (mode.type === 'random-compatible' && mode.minScore !== undefined && !Number.isFinite(mode.minScore)) {
+    throw new Error('Random-compatible minScore must be a finite number');
+  }
+
+  return mode;
 }
@@ -20,12 +20,53 @@
 import { SongLibrary } from './SongLibrary.js';
 import { KeyManager } from './KeyManager.js';
 import { SongSelector } from './SongSelector.js';
+import { TempoManager } from './TempoManager.js';
+import { ProgressionRunner, parseProgressionScript } from './ProgressionScript.js';
 import { QuantumRandom, getQuantumRandom } from '../random/QuantumRandom.js';
+import { SeededRandom } from '../random/SeededRandom.js';
+import { RecordingRandom } from '../random/RecordingRandom.js';
+import { ReplayRandom } from '../random/ReplayRandom.js';
+import { createHarmonicStrategy } from './HarmonicScoring.js';
 import { EventEmitter } from '../core/EventEmitter.js';
-import type { Song, Key, Tempo, TrackRequest, Direction } from './types.js';
+import type {
+  Song,
+  SongAttributes,
+  Key,
+  Mode,
+  Tempo,
+  TrackRequest,
+  TrackType,
+  Direction,
+} from './types.js';
 import type { IAudioBufferLoader, LoadResult } from '../audio/types.js';
-import type { SongSelectorOptions, SelectionResult } from './SongSelector.js';
+import type {
+  SongSelectorOptions,
+  SelectionResult,
+  SetConstraints,
+  SetPlan,
+  PlannedTrack,
+  SongRequest,
+  SongRequestOptions,
+  RequestDropReason,
+} from './SongSelector.js';
+import type { ProgressionMode } from './KeyManager.js';
+import type { TempoSchedule } from './TempoManager.js';
+import type { ProgressionScript } from './ProgressionScript.js';
+import type { MagicPolicy } from './MagicPolicy.js';
+import { getTrackDuration } from './TimedSet.js';
+import {
+  parseEngineSnapshot,
+  SNAPSHOT_VERSION,
+  DEFAULT_SNAPSHOT_KEY,
+  DEFAULT_SONG_ATTRIBUTES_KEY,
+} from './EngineSnapshot.js';
+import type { EngineSnapshot } from './EngineSnapshot.js';
+import type { SnapshotStorage } from './SnapshotStorage.js';
+import type { PairRules, PairRuleIssue } from './PairRules.js';
+import type { TimedSetOptions, TimedSetPlan } from './TimedSet.js';
+import type { HarmonicScoringStrategy, HarmonicStrategyConfig } from './HarmonicScoring.js';
 import type { QuantumRandomOptions } from '../random/QuantumRandom.js';
+import type { RandomSource, RandomLog } from '../random/types.js';
 
 /**
  * Options for KwyjiboEngine initialization.
@@ -40,17 +81,119 @@ export interface KwyjiboEngineOptions {
   /** Starting key (1-12). Default: 1 */
   startKey?: Key;
 
+  /** Mode of the starting key. Default: unknown (plain chromatic keys) */
+  mode?: Mode;
+
   /** Key progression direction. Default: 'forward' */
   direction?: Direction;
 
+  /** How the key moves between tracks. Default: { type: 'chromatic' } */
+  progressionMode?: ProgressionMode;
+
   /** Starting tempo (84, 94, 102). Default: 94 */
   tempo?: Tempo;
 
+  /**
+   * How the tempo moves between tracks (emits tempoChange on each change).
+   * Default: { type: 'manual' } (only setTempo changes it)
+   */
+  tempoSchedule?: TempoSchedule;
+
+  /**
+   * Progression script (or its text) that sets the tempo, key and magic
+   * number of every track. Overrides the tempo schedule while it runs.
+   * Default: none
+   *
+   * Example: '84: keys 1..6 forward; 94: fifths x8; magic every 4'
+   */
+  script?: ProgressionScript | string;
+
+  /**
+   * Harmonic scoring strategy, or a config describing one.
+   * Default: classic kwyjibo scoring
+   */
+  harmonicStrategy?: HarmonicScoringStrategy | HarmonicStrategyConfig;
+
   /** Song selector options */
   selectorOptions?: SongSelectorOptions;
 
   /** Quantum random options */
   quantumOptions?: QuantumRandomOptions;
+
+  /**
+   * Seed for reproducible mixes. The same seed, songs and options
+   * produce the same track sequence. Ignored when `random` is given.
+   * Default: none (quantum randomness)
+   */
+  seed?: number | string;
+
+  /**
+   * Random source for every random decision.
+   * Default: SeededRandom when `seed` is set, otherwise QuantumRandom
+   */
+  random?: RandomSource;
+
+  /**
+   * Record every random draw so the session can be replayed (see getRandomLog).
+   * Default: false
+   */
+  record?: boolean;
+
+  /**
+   * Replay a recorded session instead of drawing new random values.
+   * Selection throws a RandomReplayError as soon as the session diverges
+   * (different songs, options or call order). Overrides `random` and `seed`.
+   */
+  replay?: RandomLog | string;
+
+  /**
+   * Save a snapshot to storage as the session changes, so it can be picked
+   * up with KwyjiboEngine.loadSession() after a reload or crash.
+   * Default: none
+   */
+  autoSave?: AutoSaveOptions;
+
+  /**
+   * Tracks kept for previous(), current track included.
+   * Default: 20
+   */
+  historyLimit?: number;
+
+  /**
+   * Where per-song attributes (weights, favorites, bans) are kept.
+   * setSongAttributes() saves them there; loadSongAttributes() reads them back.
+   * Default: none (attributes last as long as the engine)
+   */
+  songAttributes?: SongAttributeStorageOptions;
+}
+
+/**
+ * Storage for per-song attributes.
+ */
+export interface SongAttributeStorageOptions {
+  /** Where attributes go */
+  storage: SnapshotStorage;
+
+  /** Storage key. Default: 'kwyjibo-song-attributes' */
+  key?: string;
+}
+
+/**
+ * Auto-save settings.
+ */
+export interface AutoSaveOptions {
+  /** Where snapshots go */
+  storage: SnapshotStorage;
+
+  /** Storage key. Default: 'kwyjibo-session' */
+  key?: string;
+
+  /**
+   * Events that trigger a save. Saves run one at a time; events during a
+   * save are folded into one follow-up save of the latest state.
+   * Default: ['statsUpdate', 'stateChange']
+   */
+  events?: readonly Exclude<keyof EngineEvents, 'error'>[];
 }
 
 /**
@@ -65,7 +208,7 @@ export interface EngineEvents {
   /** Engine state changed */
   stateChange: { state: EngineState; previousState: EngineState };
 
-  /** New track selected */
+  /** New track selected (includes the explanation of why it was picked) */
   trackSelected: SelectionResult;
 
   /** Track is now playing */
@@ -83,6 +226,15 @@ export interface EngineEvents {
   /** Key changed */
   keyChange: { key: Key; previousKey: Key; direction: Direction };
 
+  /** Song request queued (see request) */
+  requestScheduled: { request: SongRequest };
+
+  /** Requested song selected */
+  requestPlayed: { request: SongRequest; selection: SelectionResult };
+
+  /** Song request dropped as impossible */
+  requestDropped: { request: SongRequest; reason: RequestDropReason };
+
   /** Error occurred */
   error: { error: Error; context: string };
 
@@ -117,6 +269,9 @@ export interface EngineStatistics {
 
   /** Last track type */
   lastTrackType: 'lead' | 'body';
+
+  /** Beats played so far, by track type */
+  beatsPlayed: Record<TrackType, number>;
 }
 
 /**
@@ -153,13 +308,31 @@ export class KwyjiboEngine {
   private readonly library: SongLibrary;
   private readonly keyManager: KeyManager;
   private readonly selector: SongSelector;
+  private readonly tempoManager: TempoManager;
+  private scriptRunner: ProgressionRunner | null = null;
   private readonly audioLoader: IAudioBufferLoader;
   private readonly events: EventEmitter<EngineEvents>;
+  private readonly random: RandomSource;
+  private readonly seededRandom: SeededRandom | null;
 
   private state: EngineState = 'idle';
   private sessionStartTime: number = 0;
   private currentTrack: TrackRequest | null = null;
 
+  /** Played tracks, oldest first, each with the state right after it was selected */
+  private history: { selection: SelectionResult; snapshot: EngineSnapshot }[] = [];
+  private readonly historyLimit: number;
+
+  /** Session length carried over from a snapshot (ms) */
+  private restoredDuration: number = 0;
+
+  /** Auto-save chain, and the snapshot waiting for the save in progress */
+  private autoSaving: Promise<void> = Promise.resolve();
+  private pendingSnapshot: string | null = null;
+
+  /** Where setSongAttributes() saves attributes, if anywhere */
+  private readonly attributeStorage: Required<SongAttributeStorageOptions> | null;
+
   /**
    * Create a new kwyjibo engine.
    *
@@ -173,23 +346,42 @@ export class KwyjiboEngine {
     if (!options.audioLoader) {
       throw new Error('audioLoader is required');
     }
+    this.historyLimit = options.historyLimit ?? 20;
+    if (!Number.isInteger(this.historyLimit) || this.historyLimit < 1) {
+      throw new Error(`historyLimit must be a positive integer, got ${this.historyLimit}`);
+    }
+
+    // Pick the random source: replay, explicit, seeded, or quantum
+    this.seededRandom =
+      options.replay === undefined && !options.random && options.seed !== undefined
+        ? new SeededRandom(options.seed)
+        : null;
+    const source: RandomSource =
+      options.replay !== undefined
+        ? new ReplayRandom(options.replay)
+        : options.random ??
+          this.seededRandom ??
+          (options.quantumOptions ? new QuantumRandom(options.quantumOptions) : getQuantumRandom());
+    this.random = options.record ? new RecordingRandom(source) : source;
+    const random = this.random;
 
     // Create components
     this.library = new SongLibrary(options.songs);
     this.keyManager = new KeyManager(
       options.startKey ?? 1,
-      options.direction ?? 'forward'
+      options.direction ?? 'forward',
+      {
+        mode: options.mode,
+        strategy: options.harmonicStrategy ? toStrategy(options.harmonicStrategy) : undefined,
+        progression: options.progressionMode,
+        random: (): number => random.nextFloat('key-walk'),
+      }
     );
 
-    // Get or create quantum random instance
-    const qrng = options.quantumOptions
-      ? new QuantumRandom(options.quantumOptions)
-      : getQuantumRandom();
-
     this.selector = new SongSelector(
       this.library,
       this.keyManager,
-      qrng,
+      this.random,
       options.selectorOptions
     );
 
@@ -197,8 +389,83 @@ export class KwyjiboEngine {
       this.selector.setTempo(options.tempo);
     }
 
+    this.tempoManager = new TempoManager(this.selector.getTempo(), {
+      schedule: options.tempoSchedule,
+      library: this.library,
+    });
+    this.selector.setTempo(this.tempoManager.getCurrentTempo());
+
+    if (options.script !== undefined) {
+      this.setScript(options.script);
+    }
+
     this.audioLoader = options.audioLoader;
     this.events = new EventEmitter();
+
+    this.attributeStorage = options.songAttributes
+      ? { key: DEFAULT_SONG_ATTRIBUTES_KEY, ...options.songAttributes }
+      : null;
+
+    if (options.autoSave) {
+      const { storage, key = DEFAULT_SNAPSHOT_KEY } = options.autoSave;
+      for (const event of options.autoSave.events ?? ['statsUpdate', 'stateChange']) {
+        this.events.on(event, () => this.queueAutoSave(storage, key));
+      }
+    }
+  }
+
+  /**
+   * Rebuild an engine from a snapshot (see serialize). The engine comes back
+   * idle; start() carries on the session without repeating played songs.
+   *
+   * A seeded snapshot continues its random sequence unless options bring
+   * their own seed or random source. Songs missing from `options.songs`
+   * are skipped.
+   *
+   * @param snapshot - Snapshot, or its JSON
+   * @param options - Engine options (songs and audio loader are required again)
+   * @throws Error if the snapshot is malformed or from an unknown version
+   *
+   * Example:
+   *   const engine = KwyjiboEngine.restore(json, { songs, audioLoader });
+   *   await engine.start();
+   */
+  static restore(
+    snapshot: EngineSnapshot | string,
+    options: KwyjiboEngineOptions
+  ): KwyjiboEngine {
+    const saved = parseEngineSnapshot(snapshot);
+    const ownRandom = options.replay !== undefined || options.random !== undefined;
+    const engine = new KwyjiboEngine({
+      ...options,
+      seed: options.seed ?? (ownRandom ? undefined : saved.random?.seed),
+    });
+    engine.restoreSnapshot(saved);
+    engine.restoredDuration = saved.sessionDuration;
+    return engine;
+  }
+
+  /**
+   * Load the snapshot saved under a key and rebuild an engine from it.
+   *
+   * @param storage - Storage to load from
+   * @param options - Engine options (see restore)
+   * @param key - Storage key (default: 'kwyjibo-session')
+   * @returns Restored engine, or null when nothing is saved under the key
+   * @throws Error if the saved snapshot is malformed or from an unknown version
+   *
+   * Example:
+   *   const storage = new LocalSnapshotStorage();
+   *   const engine =
+   *     (await KwyjiboEngine.loadSession(storage, options)) ?? new KwyjiboEngine(options);
+   */
+  static async loadSession(
+    storage: SnapshotStorage,
+    options: KwyjiboEngineOptions,
+    key: string = DEFAULT_SNAPSHOT_KEY
+  ): Promise<KwyjiboEngine | null> {
+    const snapshot = await storage.load(key);
+    return snapshot === null ? null : KwyjiboEngine.restore(snapshot, options);
   }
 
   /**
@@ -216,7 +483,7 @@ export class KwyjiboEngine {
     }
 
     this.setState('running');
-    this.sessionStartTime = Date.now();
+    this.sessionStartTime = Date.now() - this.restoredDuration;
 
     try {
       return await this.next();
@@ -241,12 +508,48 @@ export class KwyjiboEngine {
     }
 
     try {
+      // A script decides the tempo and key of the track up front
+      const step = this.scriptRunner?.next() ?? null;
+      if (step) {
+        this.applyTempo(step.tempo);
+        this.keyManager.setKey(step.key);
+      }
+
       // Select next track
+      const tempoBefore = this.selector.getTempo();
       const selection = await this.selector.selectTrack();
       this.currentTrack = selection.track;
 
+      // A magic tempo jump moves the whole session to the new tempo
+      if (selection.track.tempo !== tempoBefore) {
+        this.tempoManager.setTempo(selection.track.tempo);
+        this.events.emit('tempoChange', { tempo: selection.track.tempo, previousTempo: tempoBefore });
+      }
+
       // Emit selection event
       this.events.emit('trackSelected', selection);
+      if (selection.request) {
+        this.events.emit('requestPlayed', { request: selection.request, selection });
+      }
+      for (const dropped of selection.droppedRequests) {
+        this.events.emit('requestDropped', dropped);
+      }
+
+      // Otherwise let the tempo schedule pick the tempo for the following track
+      if (!step) {
+        const { tempo, type } = selection.track;
+        this.applyTempo(
+          this.tempoManager.advance({
+            key: this.keyManager.getCurrentMusicalKey(),
+            duration: getTrackDuration(tempo, type),
+          })
+        );
+      }
+
+      this.history.push({ selection, snapshot: this.serialize() });
+      if (this.history.length > this.historyLimit) {
+        this.history.shift();
+      }
 
       // Emit stats
       this.emitStats();
@@ -258,6 +561,215 @@ export class KwyjiboEngine {
     }
   }
 
+  /**
+   * Go back to the previous track. The key, tempo, played songs and selector
+   * state return to how they were right after that track was selected, so
+   * the next next() carries on from there (the random sequence is not
+   * rewound, so it may pick a different track than before).
+   *
+   * Emits trackSelected with the previous track's selection.
+   *
+   * @returns Selection result of the previous track
+   * @throws Error if not running or there is no earlier track in the history
+   *
+   * Example:
+   *   if (engine.canGoBack()) {
+   *     const { track } = engine.previous();
+   *     player.play(await engine.loadTrack(track));
+   *   }
+   */
+  previous(): SelectionResult {
+    if (this.state !== 'running') {
+      throw new Error(`Cannot go back in state: ${this.state}`);
+    }
+    if (!this.canGoBack()) {
+      throw new Error('No earlier track to go back to');
+    }
+
+    const previousKey = this.keyManager.getCurrentKey();
+    const previousTempo = this.selector.getTempo();
+
+    this.history.pop();
+    const { selection, snapshot } = this.history[this.history.length - 1]!;
+    this.restoreSnapshot(snapshot, false);
+    this.currentTrack = selection.track;
+
+    const tempo = this.selector.getTempo();
+    if (tempo !== previousTempo) {
+      this.events.emit('tempoChange', { tempo, previousTempo });
+    }
+    const key = this.keyManager.getCurrentKey();
+    if (key !== previousKey) {
+      this.events.emit('keyChange', { key, previousKey, direction: this.keyManager.getDirection() });
+    }
+
+    this.events.emit('trackSelected', selection);
+    this.emitStats();
+
+    return selection;
+  }
+
+  /**
+   * Whether previous() has an earlier track to go back to.
+   */
+  canGoBack(): boolean {
+    return this.history.length > 1;
+  }
+
+  /**
+   * Get the tracks previous() can go back through, oldest first,
+   * ending with the current track.
+   */
+  getHistory(): readonly SelectionResult[] {
+    return this.history.map((entry) => entry.selection);
+  }
+
+  /**
+   * Ask for a song to play soon (see SongSelector.addRequest). It plays as
+   * soon as it fits the key, and at the latest on its deadline track, where
+   * the key progression moves to the song's key.
+   *
+   * Emits requestScheduled, or requestDropped if the song is unknown, already
+   * played or banned; later requestPlayed when it is selected, or
+   * requestDropped if it misses its deadline or the song is banned first.
+   *
+   * @param songId - Song to play
+   * @param options - Priority (default: 0) and deadline in tracks (default: 5)
+   * @returns The queued request, or null if it was dropped
+   * @throws Error if the options are invalid
+   *
+   * Example:
+   *   engine.on('requestPlayed', ({ request }) => showToast(`Request ${request.songId} up next`));
+   *   engine.request(1203, { priority: 1, deadlineTracks: 3 });
+   */
+  request(songId: number, options?: SongRequestOptions): SongRequest | null {
+    const { request, dropped } = this.selector.addRequest(songId, options);
+
+    if (dropped !== null) {
+      this.events.emit('requestDropped', { request, reason: dropped });
+      return null;
+    }
+    this.events.emit('requestScheduled', { request });
+    return request;
+  }
+
+  /**
+   * Withdraw a song request.
+   *
+   * @returns Whether a request was removed
+   */
+  cancelRequest(songId: number): boolean {
+    return this.selector.cancelRequest(songId);
+  }
+
+  /**
+   * Get the queued song requests, in the order they were made.
+   */
+  getRequests(): readonly SongRequest[] {
+    return this.selector.getRequests();
+  }
+
+  /**
+   * Replace the pair rules (see PairRules). Rules added to or removed from
+   * the set later apply from the next selection.
+   *
+   * @param rules - New rules, or null for none
+   * @returns Rules that refer to songs not in the engine's library
+   *
+   * Example:
+   *   const rules = PairRules.fromJSON(json);
+   *   for (const issue of engine.setPairRules(rules)) {
+   *     console.warn(`Rule ${issue.index} names unknown songs`, issue.unknownSongIds);
+   *   }
+   */
+  setPairRules(rules: PairRules | null): PairRuleIssue[] {
+    this.selector.setPairRules(rules);
+    return rules ? rules.validate(this.library.getAllSongs()) : [];
+  }
+
+  /**
+   * Get the pair rules, or null when there are none.
+   */
+  getPairRules(): PairRules | null {
+    return this.selector.getPairRules();
+  }
+
+  /**
+   * Set some of a song's attributes (see SongLibrary.setAttributes). Weights,
+   * favorites and bans apply from the next selection, which also drops a
+   * queued request for a banned song. A loaded plan still plays as given.
+   *
+   * With songAttributes storage configured, every change is saved there.
+   * Failed saves are reported as 'error' events with context 'songAttributes'.
+   *
+   * @param songId - Song ID
+   * @param attributes - Attributes to change (undefined clears one)
+   * @returns The song's attributes after the change
+   * @throws Error if the song is unknown or an attribute is invalid
+   *
+   * Example:
+   *   engine.setSongAttributes(1203, { favorite: true, weight: 2 });
+   *   engine.setSongAttributes(88, { bannedUntil: Date.now() + 60 * 60 * 1000 });
+   */
+  setSongAttributes(songId: number, attributes: SongAttributes): SongAttributes {
+    const updated = this.library.setAttributes(songId, attributes);
+    this.queueAttributeSave();
+    return updated;
+  }
+
+  /**
+   * Get a song's attributes (empty when none are set).
+   */
+  getSongAttributes(songId: number): SongAttributes {
+    return this.library.getAttributes(songId);
+  }
+
+  /**
+   * Clear one song's attributes, or every song's. Saved like setSongAttributes().
+   */
+  clearSongAttributes(songId?: number): void {
+    this.library.clearAttributes(songId);
+    this.queueAttributeSave();
+  }
+
+  /**
+   * Replace the song attributes with the ones saved in storage.
+   * Songs missing from the library are skipped.
+   *
+   * @param storage - Storage to load from (default: the songAttributes storage)
+   * @param key - Storage key (default: the songAttributes key, or 'kwyjibo-song-attributes')
+   * @returns Whether anything was saved under the key
+   * @throws Error if no storage is given or configured, or the saved attributes are invalid
+   *
+   * Example:
+   *   const engine = new KwyjiboEngine({ songs, audioLoader, songAttributes: { storage } });
+   *   await engine.loadSongAttributes();
+   */
+  async loadSongAttributes(storage?: SnapshotStorage, key?: string): Promise<boolean> {
+    const target = this.getAttributeTarget(storage, key);
+    const saved = await target.storage.load(target.key);
+    if (saved === null) return false;
+
+    const parsed: unknown = JSON.parse(saved);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Saved song attributes must be an object keyed by song ID');
+    }
+    this.library.importAttributes(parsed as Record<number, SongAttributes>);
+    return true;
+  }
+
+  /**
+   * Save the song attributes to storage.
+   *
+   * @param storage - Storage to save to (default: the songAttributes storage)
+   * @param key - Storage key (default: the songAttributes key, or 'kwyjibo-song-attributes')
+   * @throws Error if no storage is given or configured
+   */
+  async saveSongAttributes(storage?: SnapshotStorage, key?: string): Promise<void> {
+    const target = this.getAttributeTarget(storage, key);
+    await target.storage.save(target.key, JSON.stringify(this.library.exportAttributes()));
+  }
+
   /**
    * Load audio for a track.
    *
@@ -319,7 +831,9 @@ export class KwyjiboEngine {
   stop(): void {
     this.setState('stopped');
     this.sessionStartTime = 0;
+    this.restoredDuration = 0;
     this.currentTrack = null;
+    this.history = [];
   }
 
   /**
@@ -330,9 +844,22 @@ export class KwyjiboEngine {
    */
   reset(resetLibrary: boolean = true, resetKeyManager: boolean = true): void {
     this.selector.reset(resetLibrary, resetKeyManager);
+
+    // Restart the tempo schedule from the selector's tempo
+    this.tempoManager.reset(this.selector.getTempo());
+    this.selector.setTempo(this.tempoManager.getCurrentTempo());
+    this.scriptRunner?.reset();
+
+    // A full reset restarts a seeded sequence from its seed
+    if (resetLibrary && resetKeyManager) {
+      this.seededRandom?.reset();
+    }
+
     this.state = 'idle';
     this.sessionStartTime = 0;
+    this.restoredDuration = 0;
     this.currentTrack = null;
+    this.history = [];
 
     this.emitStats();
   }
@@ -343,13 +870,201 @@ export class KwyjiboEngine {
    * @param tempo - New tempo (84, 94, or 102)
    */
   setTempo(tempo: Tempo): void {
-    const previousTempo = this.selector.getTempo();
+    this.tempoManager.setTempo(tempo);
+    this.applyTempo(tempo);
+  }
 
-    if (previousTempo === tempo) return;
+  /**
+   * Replace the tempo schedule. Scripted schedules jump to their first step.
+   *
+   * @param schedule - New schedule
+   * @throws Error if the schedule is invalid
+   *
+   * Example:
+   *   engine.setTempoSchedule({ type: 'timed', secondsPerTempo: 600 });
+   */
+  setTempoSchedule(schedule: TempoSchedule): void {
+    this.tempoManager.setSchedule(schedule);
+    this.applyTempo(this.tempoManager.getCurrentTempo());
+  }
 
-    this.selector.setTempo(tempo);
-    this.events.emit('tempoChange', { tempo, previousTempo });
-    this.emitStats();
+  /**
+   * Get the active tempo schedule.
+   */
+  getTempoSchedule(): TempoSchedule {
+    return this.tempoManager.getSchedule();
+  }
+
+  /**
+   * Run a progression script from its first block, or stop running one.
+   * The script's magic setting (if any) replaces the selector's; it stays
+   * after the script is cleared. Clearing hands the tempo back to the tempo
+   * schedule at the current tempo.
+   *
+   * @param script - Parsed script, script text, or null to stop scripting
+   * @throws ProgressionScriptError if script text does not parse
+   *
+   * Example:
+   *   engine.setScript(getProgressionTemplate('warm-up'));
+   */
+  setScript(script: ProgressionScript | string | null): void {
+    if (script === null) {
+      this.scriptRunner = null;
+      this.tempoManager.setTempo(this.selector.getTempo());
+      return;
+    }
+
+    const parsed = typeof script === 'string' ? parseProgressionScript(script) : script;
+    this.scriptRunner = this.createScriptRunner(parsed);
+
+    if (parsed.magicEvery === null) {
+      this.selector.setMagicPolicy(null);
+    } else if (parsed.magicEvery !== undefined) {
+      this.selector.setMagicPolicy({
+        ...this.selector.getMagicPolicy(),
+        interval: { type: 'fixed', every: parsed.magicEvery },
+      });
+    }
+  }
+
+  /**
+   * Get the running progression script, or null when none is running.
+   */
+  getScript(): ProgressionScript | null {
+    return this.scriptRunner?.getScript() ?? null;
+  }
+
+  /**
+   * Plan the next tracks ahead of time (see SongSelector.planSet).
+   * The plan is not played until it is passed to loadPlan().
+   *
+   * @param length - Number of tracks to plan
+   * @param constraints - Set constraints
+   *
+   * Example:
+   *   const plan = await engine.planSet(12, { artistSpacing: 3 });
+   *   if (plan.complete) engine.loadPlan(plan);
+   */
+  async planSet(length: number, constraints?: SetConstraints): Promise<SetPlan> {
+    return this.selector.planSet(length, constraints);
+  }
+
+  /**
+   * Plan a set to a time budget (see SongSelector.planTimedSet).
+   * The plan is not played until it is passed to loadPlan().
+   *
+   * @param options - Target duration, end tempo or key, constraints
+   * @throws Error if the duration is too short or a constraint value is invalid
+   *
+   * Example:
+   *   const plan = await engine.planTimedSet({ duration: 45 * 60, endTempo: 102 });
+   *   engine.loadPlan(plan); // tempoChange fires as the plan moves through the tempos
+   */
+  async planTimedSet(options: TimedSetOptions): Promise<TimedSetPlan> {
+    return this.selector.planTimedSet(options);
+  }
+
+  /**
+   * Play a set plan: next() returns its tracks in order, then live selection resumes.
+   *
+   * @param plan - Plan from planSet()
+   * @throws Error if a planned song is not in the library
+   */
+  loadPlan(plan: SetPlan | readonly PlannedTrack[]): void {
+    this.selector.loadPlan(plan);
+  }
+
+  /**
+   * Drop the rest of the loaded plan and go back to live selection.
+   */
+  clearPlan(): void {
+    this.selector.clearPlan();
+  }
+
+  /**
+   * Replace the harmonic scoring strategy (e.g. to A/B test harmonic styles).
+   *
+   * @param strategy - Strategy, or a config describing one
+   *
+   * Example:
+   *   engine.setHarmonicStrategy({ type: 'builtin', name: 'pentatonic' });
+   */
+  setHarmonicStrategy(strategy: HarmonicScoringStrategy | HarmonicStrategyConfig): void {
+    this.keyManager.setStrategy(toStrategy(strategy));
+  }
+
+  /**
+   * Pin a structure template to a tempo block, or unpin it
+   * (see SongSelector.setPinnedStructure).
+   *
+   * @param tempo - Tempo block to pin
+   * @param name - Template name, or null to go back to weighted draws
+   * @throws Error if no template has that name
+   *
+   * Example:
+   *   engine.setPinnedStructure(84, 'lead-body-body');
+   */
+  setPinnedStructure(tempo: Tempo, name: string | null): void {
+    this.selector.setPinnedStructure(tempo, name);
+  }
+
+  /**
+   * Replace the magic number policy (see SongSelector.setMagicPolicy).
+   *
+   * @param policy - New policy, or null to turn the magic number off
+   * @throws Error if the policy is invalid
+   *
+   * Example:
+   *   engine.setMagicPolicy({ interval: { type: 'probability', chance: 0.1 }, behavior: 'artist-spotlight' });
+   */
+  setMagicPolicy(policy: MagicPolicy | null): void {
+    this.selector.setMagicPolicy(policy);
+  }
+
+  /**
+   * Get the seed of a seeded engine, or null when randomness is not seeded.
+   */
+  getSeed(): number | string | null {
+    return this.seededRandom?.getSeed() ?? null;
+  }
+
+  /**
+   * Get the random draws recorded so far, or null when not recording.
+   *
+   * Example:
+   *   const engine = new KwyjiboEngine({ songs, audioLoader, record: true });
+   *   // ... play ...
+   *   const log = engine.getRandomLog();
+   *   const replay = new KwyjiboEngine({ songs, audioLoader, replay: log! });
+   */
+  getRandomLog(): RandomLog | null {
+    return this.random instanceof RecordingRandom ? this.random.getLog() : null;
+  }
+
+  /**
+   * Get the name of the active harmonic scoring strategy.
+   */
+  getHarmonicStrategyName(): string {
+    return this.keyManager.getStrategy().name;
+  }
+
+  /**
+   * Change how the key moves between tracks.
+   *
+   * @param mode - Progression mode
+   *
+   * Example:
+   *   engine.setProgressionMode({ type: 'energy-boost' });
+   */
+  setProgressionMode(mode: ProgressionMode): void {
+    this.keyManager.setProgressionMode(mode);
+  }
+
+  /**
+   * Get the active key progression mode.
+   */
+  getProgressionMode(): ProgressionMode {
+    return this.keyManager.getProgressionMode();
   }
 
   /**
@@ -374,13 +1089,15 @@ export class KwyjiboEngine {
    * Jump to a specific key.
    *
    * @param key - Key to jump to (1-12)
+   * @param mode - Mode to switch to (default: keep the current mode)
    */
-  setKey(key: Key): void {
+  setKey(key: Key, mode?: Mode): void {
     const previousKey = this.keyManager.getCurrentKey();
+    const previousMode = this.keyManager.getCurrentMode();
 
-    if (previousKey === key) return;
+    if (previousKey === key && (mode === undefined || previousMode === mode)) return;
 
-    this.keyManager.setKey(key);
+    this.keyManager.setKey(key, mode);
     this.events.emit('keyChange', {
       key,
       previousKey,
@@ -389,6 +1106,55 @@ export class KwyjiboEngine {
     this.emitStats();
   }
 
+  /**
+   * Take a snapshot of the session: everything restore() needs to carry on
+   * from here. Snapshots are plain JSON-safe objects.
+   *
+   * Example:
+   *   localStorage.setItem('mix', JSON.stringify(engine.serialize()));
+   */
+  serialize(): EngineSnapshot {
+    const track = this.currentTrack;
+
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      sessionDuration: this.getStatistics().sessionDuration,
+      playedIds: this.library.getPlayedIds(),
+      currentTrack: track && { songId: track.song.id, tempo: track.tempo, type: track.type },
+      keyManager: this.keyManager.getState(),
+      selector: this.selector.getState(),
+      tempo: this.tempoManager.getState(),
+      script: this.scriptRunner && {
+        script: this.scriptRunner.getScript(),
+        runner: this.scriptRunner.getState(),
+      },
+      random: this.seededRandom && {
+        seed: this.seededRandom.getSeed(),
+        state: this.seededRandom.getState(),
+      },
+    };
+  }
+
+  /**
+   * Save a snapshot of the session to storage.
+   *
+   * @param storage - Storage to save to
+   * @param key - Storage key (default: 'kwyjibo-session')
+   */
+  async saveSession(storage: SnapshotStorage, key: string = DEFAULT_SNAPSHOT_KEY): Promise<void> {
+    await storage.save(key, JSON.stringify(this.serialize()));
+  }
+
+  /**
+   * Wait for pending auto-saves (and song attribute saves) to finish, e.g.
+   * before the page unloads.
+   * Failed saves are reported as 'error' events with context 'autoSave'.
+   */
+  flushAutoSave(): Promise<void> {
+    return this.autoSaving;
+  }
+
   /**
    * Get current engine state.
    */
@@ -404,13 +1170,15 @@ export class KwyjiboEngine {
 
     return {
       tracksPlayed: selectorStats.trackCount,
-      sessionDuration: this.state === 'idle' ? 0 : Date.now() - this.sessionStartTime,
+      sessionDuration:
+        this.state === 'idle' ? this.restoredDuration : Date.now() - this.sessionStartTime,
       currentKey: selectorStats.currentKey,
       currentTempo: selectorStats.currentTempo,
       songsPlayed: selectorStats.songsPlayed,
       songsRemaining: selectorStats.songsRemaining,
       direction: this.keyManager.getDirection(),
       lastTrackType: selectorStats.lastTrackType,
+      beatsPlayed: selectorStats.beatsPlayed,
     };
   }
 
@@ -469,6 +1237,114 @@ export class KwyjiboEngine {
     return `/music/${track.tempo}/${id}-${track.type}.mp3`;
   }
 
+  /**
+   * Create a runner for a script, starting from the current key.
+   */
+  private createScriptRunner(script: ProgressionScript): ProgressionRunner {
+    const random = this.random;
+    return new ProgressionRunner(script, {
+      startKey: this.keyManager.getCurrentKey(),
+      random: (): number => random.nextFloat('script-walk'),
+    });
+  }
+
+  /**
+   * Load a parsed snapshot into this engine.
+   *
+   * @param restoreRandom - Whether to rewind a seeded random source to the snapshot
+   */
+  private restoreSnapshot(saved: EngineSnapshot, restoreRandom: boolean = true): void {
+    const songIds = new Set(this.library.getAllSongs().map((song) => song.id));
+    this.library.reset();
+    this.library.markManyPlayed(saved.playedIds.filter((id) => songIds.has(id)));
+
+    this.keyManager.restoreState(saved.keyManager);
+    this.tempoManager.restoreState(saved.tempo);
+
+    this.scriptRunner = null;
+    if (saved.script) {
+      this.scriptRunner = this.createScriptRunner(saved.script.script);
+      this.scriptRunner.restoreState(saved.script.runner);
+    }
+
+    // After the script, so the saved magic policy wins over the script's
+    this.selector.restoreState(saved.selector);
+
+    // A different seed starts its own sequence
+    if (restoreRandom && saved.random && this.seededRandom?.getSeed() === saved.random.seed) {
+      this.seededRandom.setState(saved.random.state);
+    }
+
+    const song = saved.currentTrack && this.library.getSongById(saved.currentTrack.songId);
+    this.currentTrack =
+      saved.currentTrack && song
+        ? { song, tempo: saved.currentTrack.tempo, type: saved.currentTrack.type }
+        : null;
+  }
+
+  /**
+   * Snapshot the session and queue it for saving. While a save is running,
+   * later snapshots replace each other, so only the latest is written next.
+   */
+  private queueAutoSave(storage: SnapshotStorage, key: string): void {
+    const queued = this.pendingSnapshot !== null;
+    this.pendingSnapshot = JSON.stringify(this.serialize());
+    if (queued) return;
+
+    this.autoSaving = this.autoSaving
+      .then(() => {
+        const snapshot = this.pendingSnapshot!;
+        this.pendingSnapshot = null;
+        return storage.save(key, snapshot);
+      })
+      .catch((error) => this.emitError(error as Error, 'autoSave'));
+  }
+
+  /**
+   * Queue a save of the song attributes, if attribute storage is configured.
+   * Attribute saves share the auto-save chain, so flushAutoSave() waits for them.
+   */
+  private queueAttributeSave(): void {
+    if (!this.attributeStorage) return;
+
+    const { storage, key } = this.attributeStorage;
+    const attributes = JSON.stringify(this.library.exportAttributes());
+    this.autoSaving = this.autoSaving
+      .then(() => storage.save(key, attributes))
+      .catch((error) => this.emitError(error as Error, 'songAttributes'));
+  }
+
+  /**
+   * Storage and key for loading or saving attributes: the ones given,
+   * falling back to the configured ones.
+   */
+  private getAttributeTarget(
+    storage: SnapshotStorage | undefined,
+    key: string | undefined
+  ): Required<SongAttributeStorageOptions> {
+    const resolved = storage ?? this.attributeStorage?.storage;
+    if (!resolved) {
+      throw new Error('No song attribute storage given or configured');
+    }
+    return {
+      storage: resolved,
+      key: key ?? this.attributeStorage?.key ?? DEFAULT_SONG_ATTRIBUTES_KEY,
+    };
+  }
+
+  /**
+   * Switch the selector to a tempo and emit tempoChange if it changed.
+   */
+  private applyTempo(tempo: Tempo): void {
+    const previousTempo = this.selector.getTempo();
+
+    if (previousTempo === tempo) return;
+
+    this.selector.setTempo(tempo);
+    this.events.emit('tempoChange', { tempo, previousTempo });
+    this.emitStats();
+  }
+
   /**
    * Set engine state and emit event.
    */
@@ -495,3 +1371,12 @@ export class KwyjiboEngine {
     this.events.emit('error', { error, context });
   }
 }
+
+/**
+ * Resolve a strategy option that may be a config object.
+ */
+function toStrategy(
+  value: HarmonicScoringStrategy | HarmonicStrategyConfig
+): HarmonicScoringStrategy {
+  return 'score' in value ? value : createHarmonicStrategy(value);
+}
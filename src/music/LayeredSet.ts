@@ -0,0 +1,88 @@
+/**
+ * Layered Sets
+ *
+ * Layouts describe which layers a set has: one entry per simultaneous song,
+ * with its role and its key relative to the set key. SongSelector.selectSet()
+ * fills a layout with songs.
+ *
+ * Example:
+ *   const result = await selector.selectSet(PAIR_WITH_HIDDEN_LAYOUT);
+ *   getLayers(result.set, 'hidden'); // the two hidden layers
+ */
+
+import type { Layer, LayeredSet, LayerRole, MusicalKey, Song } from './types.js';
+import { transposeKey } from './MusicalKey.js';
+
+/**
+ * One layer of a layout.
+ */
+export interface LayerSpec {
+  /** Role of the layer */
+  role: LayerRole;
+
+  /**
+   * Semitones between the set key and the layer key.
+   * Default: 0 (the set key)
+   */
+  keyOffset?: number;
+}
+
+/**
+ * Main and partner in the set key: the classic two-song pair.
+ */
+export const PAIR_LAYOUT: readonly LayerSpec[] = [{ role: 'main' }, { role: 'partner' }];
+
+/**
+ * The classic pair plus two hidden layers a fifth above and a fourth above.
+ */
+export const PAIR_WITH_HIDDEN_LAYOUT: readonly LayerSpec[] = [
+  { role: 'main' },
+  { role: 'partner' },
+  { role: 'hidden', keyOffset: 7 },
+  { role: 'hidden', keyOffset: 5 },
+];
+
+/**
+ * Get the key of a layer in a set.
+ *
+ * Example:
+ *   getLayerKey({ key: 1, mode: 'major' }, { role: 'hidden', keyOffset: 7 }); // { key: 8, mode: 'major' }
+ */
+export function getLayerKey(setKey: MusicalKey, spec: LayerSpec): MusicalKey {
+  const offset = spec.keyOffset ?? 0;
+  return offset === 0 ? setKey : { key: transposeKey(setKey.key, offset), mode: setKey.mode };
+}
+
+/**
+ * Get the layers of a set with a given role, in layout order.
+ */
+export function getLayers(set: LayeredSet, role: LayerRole): Layer[] {
+  return set.layers.filter((layer) => layer.role === role);
+}
+
+/**
+ * Get the songs of a set, in layout order.
+ */
+export function getSetSongs(set: LayeredSet): Song[] {
+  return set.layers.map((layer) => layer.song);
+}
+
+/**
+ * Check a layout before filling it.
+ *
+ * @throws Error if the layout is empty, has more than one main layer,
+ *         or has a non-integer key offset
+ */
+export function validateLayout(layout: readonly LayerSpec[]): void {
+  if (layout.length === 0) {
+    throw new Error('Layout must have at least one layer');
+  }
+  if (layout.filter((spec) => spec.role === 'main').length > 1) {
+    throw new Error('Layout must not have more than one main layer');
+  }
+  for (const spec of layout) {
+    if (spec.keyOffset !== undefined && !Number.isInteger(spec.keyOffset)) {
+      throw new Error(`Layer key offset must be an integer, got ${spec.keyOffset}`);
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Magic Number Policy
+ *
+ * The "magic number" track breaks the key progression now and then.
+ * A policy decides when it comes round, what it plays and which rules
+ * still hold on it.
+ *
+ * Intervals:
+ * - fixed: every Nth track (the classic magic number is every 5th)
+ * - range: a gap of min-max tracks since the last magic track, each length
+ *   equally likely
+ * - probability: each track is magic with a fixed chance
+ *
+ * Behaviors:
+ * - random-song: any unplayed song, key ignored (the classic magic number)
+ * - artist-spotlight: a random artist (every artist equally likely, however
+ *   many songs they have), then one of their unplayed songs
+ * - tempo-jump: move to another tempo and play any unplayed song there
+ * - sample-interlude: a short DJ sample from the policy's sample pool
+ *
+ * Example:
+ *   const selector = new SongSelector(library, keyManager, random, {
+ *     magicPolicy: {
+ *       interval: { type: 'range', min: 4, max: 8 },
+ *       behavior: ['random-song', 'artist-spotlight'],
+ *       constraints: { minCompatibilityScore: 3 },
+ *     },
+ *   });
+ */
+
+import type { Song, Tempo } from './types.js';
+import type { RandomSource } from '../random/types.js';
+
+/**
+ * When magic number tracks come round.
+ */
+export type MagicInterval =
+  | { type: 'fixed'; every: number }
+  | { type: 'range'; min: number; max: number }
+  | { type: 'probability'; chance: number };
+
+/**
+ * What a magic number track plays.
+ */
+export type MagicBehavior = 'random-song' | 'artist-spotlight' | 'tempo-jump' | 'sample-interlude';
+
+/**
+ * Rules that still apply to magic number tracks.
+ * By default none do: any unplayed song in any key.
+ */
+export interface MagicConstraints {
+  /**
+   * Minimum harmonic compatibility with the current key.
+   * Default: none (key ignored)
+   */
+  minCompatibilityScore?: number;
+
+  /**
+   * Steer away from the artists of the last few tracks (the selector's artistCooldown).
+   * Default: false
+   */
+  artistCooldown?: boolean;
+}
+
+/**
+ * Magic number policy.
+ */
+export interface MagicPolicy {
+  /**
+   * When magic number tracks come round.
+   * Default: { type: 'fixed', every: 5 }
+   */
+  interval?: MagicInterval;
+
+  /**
+   * What a magic number track plays. With a list, one is picked at random each time.
+   * Default: 'random-song'
+   */
+  behavior?: MagicBehavior | readonly MagicBehavior[];
+
+  /**
+   * Rules that still apply.
+   * Default: none
+   */
+  constraints?: MagicConstraints;
+
+  /**
+   * DJ samples for sample-interlude (played as short lead tracks, never marked played).
+   * Required when behavior includes sample-interlude.
+   */
+  samples?: readonly Song[];
+}
+
+/**
+ * What a magic number track did, as recorded in SelectionResult.
+ */
+export interface MagicSelection {
+  /** Behavior that was played */
+  behavior: MagicBehavior;
+
+  /** Tempo jumped to (tempo-jump only) */
+  tempo?: Tempo;
+
+  /** Artist in the spotlight (artist-spotlight only) */
+  artist?: string;
+
+  /** Whether the constraints (or the pair rules) left no songs and were dropped for this track */
+  relaxed: boolean;
+}
+
+/**
+ * The classic magic number: every 5th track, any unplayed song.
+ */
+export const DEFAULT_MAGIC_POLICY: Readonly<Required<Omit<MagicPolicy, 'samples'>>> = {
+  interval: { type: 'fixed', every: 5 },
+  behavior: 'random-song',
+  constraints: {},
+};
+
+/**
+ * Check a policy and fill in its defaults.
+ *
+ * @throws Error if the interval is invalid, the behavior list is empty, or
+ *         sample-interlude has no samples
+ */
+export function validateMagicPolicy(policy: MagicPolicy): MagicPolicy {
+  const interval = policy.interval ?? DEFAULT_MAGIC_POLICY.interval;
+  const behaviors = getMagicBehaviors(policy);
+
+  switch (interval.type) {
+    case 'fixed':
+      if (!Number.isInteger(interval.every) || interval.every < 1) {
+        throw new Error(`Magic interval must be a positive integer, got ${interval.every}`);
+      }
+      break;
+    case 'range':
+      if (!Number.isInteger(interval.min) || !Number.isInteger(interval.max) || interval.min < 1) {
+        throw new Error(
+          `Magic range must be positive integers, got ${interval.min}-${interval.max}`
+        );
+      }
+      if (interval.max < interval.min) {
+        throw new Error(
+          `Magic range max must be at least min, got ${interval.min}-${interval.max}`
+        );
+      }
+      break;
+    case 'probability':
+      if (!(interval.chance >= 0 && interval.chance <= 1)) {
+        throw new Error(`Magic chance must be between 0 and 1, got ${interval.chance}`);
+      }
+      break;
+  }
+
+  if (behaviors.length === 0) {
+    throw new Error('Magic policy needs at least one behavior');
+  }
+  if (behaviors.includes('sample-interlude') && (policy.samples?.length ?? 0) === 0) {
+    throw new Error('The sample-interlude magic behavior needs samples');
+  }
+
+  return {
+    ...policy,
+    interval: { ...interval },
+    behavior: Array.isArray(policy.behavior) ? [...behaviors] : behaviors[0]!,
+    constraints: { ...policy.constraints },
+  };
+}
+
+/**
+ * Get the behaviors a policy picks from.
+ */
+export function getMagicBehaviors(policy: MagicPolicy): readonly MagicBehavior[] {
+  const behavior = policy.behavior ?? DEFAULT_MAGIC_POLICY.behavior;
+  return typeof behavior === 'string' ? [behavior] : behavior;
+}
+
+/**
+ * Decide whether a track is a magic number track.
+ * Fixed intervals draw nothing; range and probability intervals draw one float.
+ *
+ * @param interval - Policy interval
+ * @param trackNumber - Track number (1-based)
+ * @param lastMagicTrack - Track number of the last magic track (0 for none)
+ * @param random - Random source
+ *
+ * Example:
+ *   await isMagicTrack({ type: 'fixed', every: 5 }, 10, 5, random); // true
+ */
+export async function isMagicTrack(
+  interval: MagicInterval,
+  trackNumber: number,
+  lastMagicTrack: number,
+  random: RandomSource
+): Promise<boolean> {
+  switch (interval.type) {
+    case 'fixed':
+      return trackNumber % interval.every === 0;
+
+    case 'probability':
+      return (await random.getFloat('magic-interval')) < interval.chance;
+
+    case 'range': {
+      // The chance rises as the gap grows, so every gap from min to max is equally likely
+      const gap = trackNumber - lastMagicTrack;
+      if (gap < interval.min) return false;
+      if (gap >= interval.max) return true;
+      return (await random.getFloat('magic-interval')) < 1 / (interval.max - gap + 1);
+    }
+  }
+}
@@ -0,0 +1,577 @@
+/**
+ * Mix Optimizer
+ *
+ * Improves a complete mix (a list of track pairs, as built by the player's
+ * generateCompleteMix()) with simulated annealing. A greedy pass picks each
+ * pair once and never looks back; annealing keeps proposing small changes and
+ * accepts the ones that help, plus, early on, some that hurt, so the search
+ * can climb out of local optima.
+ *
+ * The objective is a weighted average of four components, each from 0 to 1:
+ * - harmonic: how well each pair's key follows the previous pair's key,
+ *   and how well each track's song (in its own key) fits its pair's key
+ * - artistSpacing: share of tracks whose artist was not heard in the last few tracks
+ * - coverage: share of the library (or of the mix) played as unique songs
+ * - tempoBalance: how close each tempo block is to the target block length
+ *
+ * Moves: swap two pairs, reverse a run of pairs, and (when replaceSong is
+ * given) put an unused library song into a track or swap two tracks' songs.
+ * Songs play at their own tempo and key, so a song only moves into a pair
+ * whose tempo matches its BPM and whose key it fits. With pair rules, no move
+ * may put a never-pair song or artist into a pair, or songs kept apart into
+ * one tempo block.
+ *
+ * Example:
+ *   const optimizer = new MixOptimizer({ library: songs, random: new SeededRandom('mix') });
+ *   const result = await optimizer.optimize(mix);
+ *   console.log(result.before.total, '→', result.after.total);
+ */
+
+import type { Song, Key, Tempo, MusicalKey } from './types.js';
+import { musicalKey, getSongMusicalKey } from './MusicalKey.js';
+import { DEFAULT_HARMONIC_STRATEGY } from './HarmonicScoring.js';
+import type { HarmonicScoringStrategy } from './HarmonicScoring.js';
+import { artistsMatch } from './SongScoring.js';
+import type { PairRules } from './PairRules.js';
+import { getQuantumRandom } from '../random/QuantumRandom.js';
+import type { RandomSource } from '../random/types.js';
+
+/**
+ * A track of a mix: a song played in a key at a tempo.
+ */
+export interface MixTrack {
+  song: Song;
+  key: Key;
+  tempo: Tempo;
+}
+
+/**
+ * A pair of a mix. Tracks 3 and 4 are optional hidden tracks.
+ */
+export interface MixPair {
+  track1: MixTrack;
+  track2: MixTrack;
+  track3?: MixTrack;
+  track4?: MixTrack;
+  key: Key;
+  tempo: Tempo;
+}
+
+/**
+ * Name of a track slot in a pair.
+ */
+export type MixSlot = 'track1' | 'track2' | 'track3' | 'track4';
+
+/**
+ * Weights of the objective components. Only the ratios matter.
+ */
+export interface MixObjectiveWeights {
+  harmonic: number;
+  artistSpacing: number;
+  coverage: number;
+  tempoBalance: number;
+}
+
+/**
+ * Objective value of a mix, per component and in total (all 0-1, higher = better).
+ */
+export interface MixObjective {
+  harmonic: number;
+  artistSpacing: number;
+  coverage: number;
+  tempoBalance: number;
+
+  /** Weighted average of the components */
+  total: number;
+}
+
+/**
+ * Options for the optimizer.
+ */
+export interface MixOptimizerOptions<P extends MixPair = MixPair> {
+  /**
+   * Component weights (missing weights default to 1).
+   */
+  weights?: Partial<MixObjectiveWeights>;
+
+  /**
+   * Strategy for scoring key compatibility (scores on the usual 0-10 scale).
+   * Default: the classic kwyjibo table
+   */
+  harmonicStrategy?: HarmonicScoringStrategy;
+
+  /**
+   * Minimum compatibility score between a pair's key and a song moved into it.
+   * Default: 5 (out of 10)
+   */
+  minCompatibilityScore?: number;
+
+  /**
+   * Full library. Coverage is measured against it, and replacement moves draw from it.
+   * Default: coverage is measured against the number of tracks in the mix
+   */
+  library?: readonly Song[];
+
+  /**
+   * Build a copy of a pair with a different song in one slot.
+   * Without it the optimizer only reorders pairs.
+   *
+   * Example:
+   *   replaceSong: (pair, slot, song) => ({ ...pair, [slot]: createTrack(song, pair[slot]!.key, pair.tempo) })
+   */
+  replaceSong?: (pair: P, slot: MixSlot, song: Song) => P;
+
+  /**
+   * Never-pair rules. Moves that break a rule (within a pair, or within a run
+   * of pairs at one tempo) are rejected.
+   * Default: no rules
+   */
+  pairRules?: PairRules;
+
+  /**
+   * Tracks that must pass before an artist plays again.
+   * Default: 8
+   */
+  artistSpacing?: number;
+
+  /**
+   * Ideal number of consecutive pairs at one tempo.
+   * Default: one block per tempo in the mix
+   */
+  tempoBlockLength?: number;
+
+  /**
+   * Number of proposed moves.
+   * Default: 5000
+   */
+  iterations?: number;
+
+  /**
+   * Starting temperature, in objective units.
+   * Default: 0.05
+   */
+  initialTemperature?: number;
+
+  /**
+   * Final temperature; cooling is geometric between the two.
+   * Default: 0.0005
+   */
+  finalTemperature?: number;
+
+  /**
+   * Random source for moves and acceptance.
+   * Default: the shared quantum random instance
+   */
+  random?: RandomSource;
+}
+
+/**
+ * Result of an optimization run.
+ */
+export interface MixOptimizationResult<P extends MixPair = MixPair> {
+  /** Best mix found (the input is not modified) */
+  mix: P[];
+
+  /** Objective of the input mix */
+  before: MixObjective;
+
+  /** Objective of the returned mix */
+  after: MixObjective;
+
+  /** Moves proposed */
+  iterations: number;
+
+  /** Moves accepted */
+  accepted: number;
+}
+
+/**
+ * Default component weights.
+ */
+export const DEFAULT_MIX_WEIGHTS: Readonly<MixObjectiveWeights> = {
+  harmonic: 1,
+  artistSpacing: 1,
+  coverage: 1,
+  tempoBalance: 1,
+};
+
+/**
+ * Highest score of the built-in harmonic strategies (same key).
+ */
+const MAX_HARMONIC_SCORE = 10;
+
+const SLOTS: readonly MixSlot[] = ['track1', 'track2', 'track3', 'track4'];
+
+/**
+ * Optimizes complete mixes with simulated annealing.
+ */
+export class MixOptimizer<P extends MixPair = MixPair> {
+  private readonly weights: MixObjectiveWeights;
+  private readonly strategy: HarmonicScoringStrategy;
+  private readonly minCompatibilityScore: number;
+  private readonly library: readonly Song[] | null;
+  private readonly replaceSong: ((pair: P, slot: MixSlot, song: Song) => P) | null;
+  private readonly pairRules: PairRules | null;
+  private readonly artistSpacing: number;
+  private readonly tempoBlockLength: number | null;
+  private readonly iterations: number;
+  private readonly initialTemperature: number;
+  private readonly finalTemperature: number;
+  private readonly random: RandomSource;
+
+  /**
+   * @throws Error if a weight is negative, all weights are 0, or a numeric option is out of range
+   */
+  constructor(options: MixOptimizerOptions<P> = {}) {
+    this.weights = { ...DEFAULT_MIX_WEIGHTS, ...options.weights };
+    this.strategy = options.harmonicStrategy ?? DEFAULT_HARMONIC_STRATEGY;
+    this.minCompatibilityScore = options.minCompatibilityScore ?? 5;
+    this.library = options.library ?? null;
+    this.replaceSong = options.replaceSong ?? null;
+    this.pairRules = options.pairRules ?? null;
+    this.artistSpacing = options.artistSpacing ?? 8;
+    this.tempoBlockLength = options.tempoBlockLength ?? null;
+    this.iterations = options.iterations ?? 5000;
+    this.initialTemperature = options.initialTemperature ?? 0.05;
+    this.finalTemperature = options.finalTemperature ?? 0.0005;
+    this.random = options.random ?? getQuantumRandom();
+
+    const weightValues = Object.values(this.weights);
+    if (weightValues.some((w) => !(w >= 0))) {
+      throw new Error('Mix objective weights must be non-negative numbers');
+    }
+    if (weightValues.every((w) => w === 0)) {
+      throw new Error('At least one mix objective weight must be positive');
+    }
+    if (!(this.minCompatibilityScore >= 0)) {
+      throw new Error(
+        `minCompatibilityScore must be a non-negative number, got ${this.minCompatibilityScore}`
+      );
+    }
+    if (!Number.isInteger(this.artistSpacing) || this.artistSpacing < 0) {
+      throw new Error(`artistSpacing must be a non-negative integer, got ${this.artistSpacing}`);
+    }
+    if (
+      this.tempoBlockLength !== null &&
+      (!Number.isInteger(this.tempoBlockLength) || this.tempoBlockLength < 1)
+    ) {
+      throw new Error(`tempoBlockLength must be a positive integer, got ${this.tempoBlockLength}`);
+    }
+    if (!Number.isInteger(this.iterations) || this.iterations < 0) {
+      throw new Error(`iterations must be a non-negative integer, got ${this.iterations}`);
+    }
+    if (!(this.initialTemperature > 0) || !(this.finalTemperature > 0)) {
+      throw new Error('Temperatures must be positive');
+    }
+    if (this.finalTemperature > this.initialTemperature) {
+      throw new Error('finalTemperature must not exceed initialTemperature');
+    }
+  }
+
+  /**
+   * Score a mix.
+   *
+   * @param mix - Pairs in play order
+   * @returns Per-component and total objective
+   */
+  evaluate(mix: readonly P[]): MixObjective {
+    const harmonic = this.scoreHarmonic(mix);
+    const artistSpacing = this.scoreArtistSpacing(mix);
+    const coverage = this.scoreCoverage(mix);
+    const tempoBalance = this.scoreTempoBalance(mix);
+
+    const { weights } = this;
+    const weightSum =
+      weights.harmonic + weights.artistSpacing + weights.coverage + weights.tempoBalance;
+    const total =
+      (weights.harmonic * harmonic +
+        weights.artistSpacing * artistSpacing +
+        weights.coverage * coverage +
+        weights.tempoBalance * tempoBalance) /
+      weightSum;
+
+    return { harmonic, artistSpacing, coverage, tempoBalance, total };
+  }
+
+  /**
+   * Improve a mix with simulated annealing.
+   *
+   * @param mix - Pairs in play order (not modified)
+   * @returns Best mix found, with the objective before and after
+   *
+   * Example:
+   *   const { mix: better, before, after } = await optimizer.optimize(mix);
+   *   // before.total = 0.71, after.total = 0.86
+   */
+  async optimize(mix: readonly P[]): Promise<MixOptimizationResult<P>> {
+    const before = this.evaluate(mix);
+
+    let current = [...mix];
+    let currentScore = before.total;
+    let currentViolations = this.countRuleViolations(current);
+    let best = current;
+    let bestScore = currentScore;
+    let accepted = 0;
+
+    const canMove = mix.length >= 2 || (this.replaceSong !== null && mix.length >= 1);
+    const iterations = canMove ? this.iterations : 0;
+    const cooling = Math.pow(
+      this.finalTemperature / this.initialTemperature,
+      1 / Math.max(1, iterations)
+    );
+    let temperature = this.initialTemperature;
+
+    for (let i = 0; i < iterations; i++) {
+      const candidate = await this.propose(current);
+      temperature *= cooling;
+      if (!candidate) continue;
+
+      // Never accept a move that breaks a pair rule (a mix that already breaks
+      // some only ever loses violations)
+      const violations = this.countRuleViolations(candidate);
+      if (violations > currentViolations) continue;
+
+      const candidateScore = this.evaluate(candidate).total;
+      const delta = candidateScore - currentScore;
+      if (
+        delta >= 0 ||
+        (await this.random.getFloat('mix-accept')) < Math.exp(delta / temperature)
+      ) {
+        current = candidate;
+        currentScore = candidateScore;
+        currentViolations = violations;
+        accepted++;
+
+        if (currentScore > bestScore) {
+          best = current;
+          bestScore = currentScore;
+        }
+      }
+    }
+
+    return { mix: best, before, after: this.evaluate(best), iterations, accepted };
+  }
+
+  /**
+   * Propose a neighbouring mix, or null when the drawn move does not apply.
+   */
+  private async propose(mix: readonly P[]): Promise<P[] | null> {
+    const moves = mix.length >= 2 ? ['swap', 'reverse'] : [];
+    if (this.replaceSong) moves.push('replace-song');
+
+    const move = await this.random.getChoice(moves, 'mix-move');
+    switch (move) {
+      case 'swap':
+        return this.swapPairs(mix);
+      case 'reverse':
+        return this.reverseRun(mix);
+      default:
+        return this.changeSong(mix);
+    }
+  }
+
+  /**
+   * Swap two pairs.
+   */
+  private async swapPairs(mix: readonly P[]): Promise<P[]> {
+    const [i, j] = await this.random.sample(
+      mix.map((_, index) => index),
+      2,
+      'mix-swap'
+    );
+    const next = [...mix];
+    next[i!] = mix[j!]!;
+    next[j!] = mix[i!]!;
+    return next;
+  }
+
+  /**
+   * Reverse a run of pairs.
+   */
+  private async reverseRun(mix: readonly P[]): Promise<P[]> {
+    const [a, b] = await this.random.sample(
+      mix.map((_, index) => index),
+      2,
+      'mix-reverse'
+    );
+    const start = Math.min(a!, b!);
+    const end = Math.max(a!, b!);
+    return [...mix.slice(0, start), ...mix.slice(start, end + 1).reverse(), ...mix.slice(end + 1)];
+  }
+
+  /**
+   * Put an unused library song into a track, or swap two tracks' songs
+   * when every library song is already in the mix. Only songs that fit the
+   * pair they move into (see fitsPair) are used.
+   */
+  private async changeSong(mix: readonly P[]): Promise<P[] | null> {
+    const replaceSong = this.replaceSong;
+    if (!replaceSong) return null;
+
+    const slots = getFilledSlots(mix);
+    const target = await this.random.getChoice(slots, 'mix-slot');
+    const targetPair = mix[target.index]!;
+
+    const used = new Set(slots.map(({ index, slot }) => mix[index]![slot]!.song.id));
+    const unused = (this.library ?? []).filter((song) => !used.has(song.id));
+
+    const next = [...mix];
+    if (unused.length > 0) {
+      const fitting = unused.filter((song) => this.fitsPair(song, targetPair));
+      if (fitting.length === 0) return null;
+
+      const song = await this.random.getChoice(fitting, 'mix-song');
+      next[target.index] = replaceSong(targetPair, target.slot, song);
+      return next;
+    }
+
+    const targetSong = targetPair[target.slot]!.song;
+    const swappable = slots.filter(
+      (s) =>
+        s !== target &&
+        this.fitsPair(mix[s.index]![s.slot]!.song, targetPair) &&
+        this.fitsPair(targetSong, mix[s.index]!)
+    );
+    if (swappable.length === 0) return null;
+
+    const other = await this.random.getChoice(swappable, 'mix-slot');
+    const otherSong = mix[other.index]![other.slot]!.song;
+
+    next[target.index] = replaceSong(next[target.index]!, target.slot, otherSong);
+    next[other.index] = replaceSong(next[other.index]!, other.slot, targetSong);
+    return next;
+  }
+
+  /**
+   * Count pair rule violations: song pairs within a pair that may not play
+   * together, and song pairs within a tempo block that may not share it.
+   */
+  private countRuleViolations(mix: readonly P[]): number {
+    const rules = this.pairRules;
+    if (!rules) return 0;
+
+    let violations = 0;
+    let block: Song[] = [];
+    mix.forEach((pair, index) => {
+      if (index > 0 && pair.tempo !== mix[index - 1]!.tempo) block = [];
+
+      const songs = getTracks(pair).map((track) => track.song);
+      songs.forEach((song, i) => {
+        violations += songs.slice(0, i).filter((other) => !rules.canPair(song, other)).length;
+        violations += block.filter((other) => !rules.canShareTempoBlock(song, other)).length;
+      });
+      block.push(...songs);
+    });
+
+    return violations;
+  }
+
+  /**
+   * Average harmonic fit of pair-to-pair key changes and of tracks within pairs.
+   */
+  private scoreHarmonic(mix: readonly P[]): number {
+    const scores: number[] = [];
+
+    mix.forEach((pair, index) => {
+      const previous = index > 0 ? mix[index - 1]! : null;
+      if (previous) {
+        scores.push(this.scoreKeys(musicalKey(previous.key), musicalKey(pair.key)));
+      }
+      for (const track of getTracks(pair)) {
+        scores.push(this.scoreKeys(musicalKey(pair.key), getSongMusicalKey(track.song)));
+      }
+    });
+
+    if (scores.length === 0) return 1;
+    return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  }
+
+  /**
+   * Share of tracks whose artist was not heard within the spacing window.
+   */
+  private scoreArtistSpacing(mix: readonly P[]): number {
+    const tracks = mix.flatMap(getTracks);
+    if (tracks.length === 0) return 1;
+
+    let clashes = 0;
+    tracks.forEach((track, index) => {
+      const window = tracks.slice(Math.max(0, index - this.artistSpacing), index);
+      if (window.some((other) => artistsMatch(track.song.artist, other.song.artist))) {
+        clashes++;
+      }
+    });
+
+    return 1 - clashes / tracks.length;
+  }
+
+  /**
+   * Unique songs over the most unique songs the mix could hold.
+   */
+  private scoreCoverage(mix: readonly P[]): number {
+    const tracks = mix.flatMap(getTracks);
+    if (tracks.length === 0) return 1;
+
+    const unique = new Set(tracks.map((track) => track.song.id)).size;
+    const possible = this.library ? Math.min(this.library.length, tracks.length) : tracks.length;
+    return possible === 0 ? 1 : Math.min(1, unique / possible);
+  }
+
+  /**
+   * How close tempo blocks (runs of pairs at one tempo) are to the target length,
+   * weighted by block length.
+   */
+  private scoreTempoBalance(mix: readonly P[]): number {
+    if (mix.length === 0) return 1;
+
+    const tempos = new Set(mix.map((pair) => pair.tempo)).size;
+    const target = this.tempoBlockLength ?? Math.ceil(mix.length / tempos);
+
+    let score = 0;
+    let runStart = 0;
+    for (let i = 1; i <= mix.length; i++) {
+      if (i === mix.length || mix[i]!.tempo !== mix[runStart]!.tempo) {
+        const length = i - runStart;
+        score += (length * Math.min(length, target)) / Math.max(length, target);
+        runStart = i;
+      }
+    }
+
+    return score / mix.length;
+  }
+
+  /**
+   * Whether a song can play in a pair: its BPM is the pair's tempo and its
+   * key scores at least minCompatibilityScore against the pair's key.
+   */
+  private fitsPair(song: Song, pair: P): boolean {
+    return (
+      song.bpm === pair.tempo &&
+      this.strategy.score(musicalKey(pair.key), getSongMusicalKey(song)) >=
+        this.minCompatibilityScore
+    );
+  }
+
+  /**
+   * Harmonic score of a key change, scaled to 0-1.
+   */
+  private scoreKeys(from: MusicalKey, to: MusicalKey): number {
+    const score = this.strategy.score(from, to);
+    return Math.max(0, Math.min(1, score / MAX_HARMONIC_SCORE));
+  }
+}
+
+/**
+ * Tracks of a pair that are present, in slot order.
+ */
+function getTracks(pair: MixPair): MixTrack[] {
+  return SLOTS.map((slot) => pair[slot]).filter((track): track is MixTrack => track !== undefined);
+}
+
+/**
+ * Every filled slot of a mix.
+ */
+function getFilledSlots(mix: readonly MixPair[]): { index: number; slot: MixSlot }[] {
+  return mix.flatMap((pair, index) =>
+    SLOTS.filter((slot) => pair[slot] !== undefined).map((slot) => ({ index, slot }))
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Musical Key Utilities
+ *
+ * Conversions between kwyjibo's chromatic keys (1-12) and the notations
+ * DJs actually use: Camelot (8A, 8B) and Open Key (1m, 1d).
+ *
+ * Key concepts:
+ * - A MusicalKey is a chromatic key plus a mode (major, minor or unknown)
+ * - Camelot numbers walk the circle of fifths: 8B → 9B is C → G
+ * - Same Camelot number, other letter = relative key: 8B (C) ↔ 8A (Am)
+ *
+ * Chromatic key numbering: 1 = C, 2 = C#, 3 = D, ..., 10 = A, 11 = A#, 12 = B
+ */
+
+import type { Key, Mode, MusicalKey, Song } from './types.js';
+import { isValidKey } from './types.js';
+
+/**
+ * Note names for each chromatic key (index 0 = key 1).
+ */
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
+
+/**
+ * Camelot letter for each mode.
+ */
+const CAMELOT_LETTERS: Record<Mode, 'A' | 'B'> = { minor: 'A', major: 'B' };
+
+/**
+ * Open Key letter for each mode.
+ */
+const OPEN_KEY_LETTERS: Record<Mode, 'm' | 'd'> = { minor: 'm', major: 'd' };
+
+/**
+ * Create a MusicalKey.
+ *
+ * @param key - Root note (1-12)
+ * @param mode - Mode (default: 'unknown')
+ *
+ * Example:
+ *   musicalKey(10, 'minor'); // { key: 10, mode: 'minor' } (A minor)
+ */
+export function musicalKey(key: Key, mode: Mode | 'unknown' = 'unknown'): MusicalKey {
+  return { key, mode };
+}
+
+/**
+ * Normalize a plain Key into a MusicalKey with unknown mode.
+ * MusicalKeys are returned unchanged.
+ */
+export function toMusicalKey(value: Key | MusicalKey): MusicalKey {
+  return typeof value === 'number' ? { key: value, mode: 'unknown' } : value;
+}
+
+/**
+ * Get the MusicalKey of a song.
+ * Songs without a mode get mode 'unknown'.
+ */
+export function getSongMusicalKey(song: Song): MusicalKey {
+  return { key: song.key, mode: song.mode ?? 'unknown' };
+}
+
+/**
+ * Move a key by a number of semitones (wraps around the octave).
+ *
+ * Example:
+ *   transposeKey(1, 7);   // 8 (C → G)
+ *   transposeKey(1, -3);  // 10 (C → A)
+ */
+export function transposeKey(key: Key, semitones: number): Key {
+  const index = (((key - 1 + semitones) % 12) + 12) % 12;
+  return (index + 1) as Key;
+}
+
+/**
+ * Get the relative key (same notes, other mode).
+ *
+ * Example:
+ *   relativeKey({ key: 1, mode: 'major' });  // { key: 10, mode: 'minor' } (C → Am)
+ *   relativeKey({ key: 10, mode: 'minor' }); // { key: 1, mode: 'major' }  (Am → C)
+ *
+ * @throws Error if the mode is unknown
+ */
+export function relativeKey(value: MusicalKey): MusicalKey {
+  if (value.mode === 'major') {
+    return { key: transposeKey(value.key, -3), mode: 'minor' };
+  }
+  if (value.mode === 'minor') {
+    return { key: transposeKey(value.key, 3), mode: 'major' };
+  }
+  throw new Error(`Cannot get relative key of ${formatMusicalKey(value)}: mode is unknown`);
+}
+
+/**
+ * Get the Camelot wheel number (1-12) of a key.
+ *
+ * @throws Error if the mode is unknown
+ */
+export function getCamelotNumber(value: MusicalKey): number {
+  if (value.mode === 'unknown') {
+    throw new Error(`Cannot convert ${formatMusicalKey(value)} to Camelot: mode is unknown`);
+  }
+
+  // Minor keys share the number of their relative major
+  const majorKey = value.mode === 'major' ? value.key : transposeKey(value.key, 3);
+  const pitchClass = majorKey - 1;
+  return ((pitchClass * 7 + 7) % 12) + 1;
+}
+
+/**
+ * Convert a key to Camelot notation.
+ *
+ * Example:
+ *   toCamelot({ key: 1, mode: 'major' });  // '8B'
+ *   toCamelot({ key: 10, mode: 'minor' }); // '8A'
+ *
+ * @throws Error if the mode is unknown
+ */
+export function toCamelot(value: MusicalKey): string {
+  const number = getCamelotNumber(value);
+  return `${number}${CAMELOT_LETTERS[value.mode as Mode]}`;
+}
+
+/**
+ * Parse Camelot notation into a key.
+ *
+ * Example:
+ *   fromCamelot('8B');  // { key: 1, mode: 'major' }
+ *   fromCamelot('11a'); // { key: 7, mode: 'minor' } (F# minor)
+ *
+ * @throws Error if the code is not valid Camelot notation
+ */
+export function fromCamelot(code: string): MusicalKey {
+  const match = /^\s*(1[0-2]|[1-9])\s*([ABab])\s*$/.exec(code);
+  if (!match) {
+    throw new Error(`Invalid Camelot code: ${code}`);
+  }
+
+  const number = parseInt(match[1]!, 10);
+  const mode: Mode = match[2]!.toUpperCase() === 'B' ? 'major' : 'minor';
+  return fromWheelPosition(number, mode);
+}
+
+/**
+ * Convert a key to Open Key notation.
+ *
+ * Example:
+ *   toOpenKey({ key: 1, mode: 'major' });  // '1d'
+ *   toOpenKey({ key: 10, mode: 'minor' }); // '1m'
+ *
+ * @throws Error if the mode is unknown
+ */
+export function toOpenKey(value: MusicalKey): string {
+  const number = ((getCamelotNumber(value) + 4) % 12) + 1;
+  return `${number}${OPEN_KEY_LETTERS[value.mode as Mode]}`;
+}
+
+/**
+ * Parse Open Key notation into a key.
+ *
+ * Example:
+ *   fromOpenKey('1d'); // { key: 1, mode: 'major' }
+ *   fromOpenKey('1m'); // { key: 10, mode: 'minor' }
+ *
+ * @throws Error if the code is not valid Open Key notation
+ */
+export function fromOpenKey(code: string): MusicalKey {
+  const match = /^\s*(1[0-2]|[1-9])\s*([dmDM])\s*$/.exec(code);
+  if (!match) {
+    throw new Error(`Invalid Open Key code: ${code}`);
+  }
+
+  const openNumber = parseInt(match[1]!, 10);
+  const mode: Mode = match[2]!.toLowerCase() === 'd' ? 'major' : 'minor';
+  const camelotNumber = ((openNumber + 6) % 12) + 1;
+  return fromWheelPosition(camelotNumber, mode);
+}
+
+/**
+ * Human-readable key name.
+ *
+ * Example:
+ *   formatMusicalKey({ key: 1, mode: 'major' });   // 'C'
+ *   formatMusicalKey({ key: 10, mode: 'minor' });  // 'Am'
+ *   formatMusicalKey({ key: 2, mode: 'unknown' }); // 'C#'
+ */
+export function formatMusicalKey(value: MusicalKey): string {
+  const name = NOTE_NAMES[value.key - 1] ?? '?';
+  return value.mode === 'minor' ? `${name}m` : name;
+}
+
+/**
+ * Check whether two keys are the same, treating unknown modes as matching either mode.
+ */
+export function isSameMusicalKey(a: MusicalKey, b: MusicalKey): boolean {
+  if (a.key !== b.key) return false;
+  return a.mode === 'unknown' || b.mode === 'unknown' || a.mode === b.mode;
+}
+
+/**
+ * Convert a Camelot wheel position back to a chromatic key.
+ */
+function fromWheelPosition(camelotNumber: number, mode: Mode): MusicalKey {
+  // Invert camelot = (pitchClass * 7 + 7) % 12 + 1; 7 is its own inverse mod 12
+  const pitchClass = (((camelotNumber - 1 - 7) * 7) % 12 + 12) % 12;
+  const majorKey = pitchClass + 1;
+
+  if (!isValidKey(majorKey)) {
+    throw new Error(`Invalid Camelot position: ${camelotNumber}`);
+  }
+
+  return mode === 'major'
+    ? { key: majorKey, mode }
+    : { key: transposeKey(majorKey, -3), mode };
+}
@@ -0,0 +1,339 @@
+/**
+ * Pair Rules
+ *
+ * Explicit "never together" rules for beats that clash no matter what the
+ * key table says. Three kinds of rule:
+ * - never-pair-songs: two songs never play at the same time (layered sets, pairs)
+ * - never-pair-artists: no song by one artist plays at the same time as one by the other
+ * - never-same-tempo-block: two songs never play in the same run of tracks at
+ *   one tempo (and so never at the same time either)
+ *
+ * Artists are compared like everywhere else (see artistsMatch), so a rule for
+ * "Outkast" also covers "Outkast feat. Killer Mike".
+ *
+ * Rules are plain JSON; toJSON() and PairRules.fromJSON() round-trip them.
+ *
+ * Example:
+ *   const rules = new PairRules()
+ *     .add({ type: 'never-pair-songs', songIds: [101, 702] })
+ *     .add({ type: 'never-pair-artists', artists: ['Nas', 'Mobb Deep'] });
+ *
+ *   rules.canPair(songA, songB); // false if a rule forbids it
+ *   rules.validate(songs); // [{ index: 0, rule, unknownSongIds: [702] }]
+ */
+
+import type { Song } from './types.js';
+import { artistsMatch } from './SongScoring.js';
+
+/**
+ * Pair rules format version.
+ */
+export const PAIR_RULES_VERSION = 1;
+
+/**
+ * Two songs that never play at the same time.
+ */
+export interface SongPairRule {
+  type: 'never-pair-songs';
+  songIds: [number, number];
+
+  /** Why the rule exists (for people, not the selector) */
+  note?: string;
+}
+
+/**
+ * Two artists whose songs never play at the same time.
+ */
+export interface ArtistPairRule {
+  type: 'never-pair-artists';
+  artists: [string, string];
+
+  /** Why the rule exists (for people, not the selector) */
+  note?: string;
+}
+
+/**
+ * Two songs that never play in the same tempo block.
+ */
+export interface TempoBlockRule {
+  type: 'never-same-tempo-block';
+  songIds: [number, number];
+
+  /** Why the rule exists (for people, not the selector) */
+  note?: string;
+}
+
+/**
+ * Any pair rule.
+ */
+export type PairRule = SongPairRule | ArtistPairRule | TempoBlockRule;
+
+/**
+ * Exported pair rules.
+ */
+export interface PairRulesJSON {
+  version: typeof PAIR_RULES_VERSION;
+  rules: PairRule[];
+}
+
+/**
+ * A rule that refers to songs the library does not have.
+ */
+export interface PairRuleIssue {
+  /** Position of the rule in getRules() */
+  index: number;
+
+  rule: PairRule;
+
+  /** Song IDs the rule uses that are not in the library */
+  unknownSongIds: number[];
+}
+
+/**
+ * A set of never-pair rules.
+ *
+ * Example:
+ *   const saved = localStorage.getItem('pair-rules');
+ *   const rules = saved ? PairRules.fromJSON(saved) : new PairRules();
+ *   rules.add({ type: 'never-same-tempo-block', songIds: [305, 912], note: 'same sample' });
+ *   localStorage.setItem('pair-rules', JSON.stringify(rules.toJSON()));
+ */
+export class PairRules {
+  private rules: PairRule[] = [];
+
+  /** Pair IDs (see getPairId) of songs that never pair, and of those kept out of one block */
+  private readonly songPairs = new Set<string>();
+  private readonly blockPairs = new Set<string>();
+
+  /**
+   * Create a rule set.
+   *
+   * @param rules - Initial rules
+   * @throws Error if a rule is malformed
+   */
+  constructor(rules: readonly PairRule[] = []) {
+    rules.forEach((rule, index) => validateRule(rule, index));
+    rules.forEach((rule) => this.add(rule));
+  }
+
+  /**
+   * Parse exported rules.
+   *
+   * @param json - Exported rules, or their JSON
+   * @throws Error if the JSON is malformed, from an unknown version, or has a malformed rule
+   */
+  static fromJSON(json: PairRulesJSON | string): PairRules {
+    const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new Error('Pair rules must be an object');
+    }
+
+    const value = parsed as Partial<PairRulesJSON>;
+    if (value.version !== PAIR_RULES_VERSION) {
+      throw new Error(`Unsupported pair rules version: ${String(value.version)}`);
+    }
+    if (!Array.isArray(value.rules)) {
+      throw new Error('Pair rules must have a rules array');
+    }
+
+    return new PairRules(value.rules);
+  }
+
+  /**
+   * Add a rule. Adding a rule that is already in the set does nothing.
+   *
+   * @throws Error if the rule is malformed
+   */
+  add(rule: PairRule): this {
+    validateRule(rule, this.rules.length);
+    if (this.rules.some((existing) => isSameRule(existing, rule))) return this;
+
+    this.rules.push(copyRule(rule));
+    this.index(rule);
+    return this;
+  }
+
+  /**
+   * Remove a rule (the pair may be given in either order).
+   *
+   * @returns Whether a rule was removed
+   */
+  remove(rule: PairRule): boolean {
+    const remaining = this.rules.filter((existing) => !isSameRule(existing, rule));
+    if (remaining.length === this.rules.length) return false;
+
+    this.rules = remaining;
+    this.reindex();
+    return true;
+  }
+
+  /**
+   * Remove every rule.
+   */
+  clear(): void {
+    this.rules = [];
+    this.reindex();
+  }
+
+  /**
+   * Get the rules, in the order they were added.
+   */
+  getRules(): readonly PairRule[] {
+    return this.rules.map(copyRule);
+  }
+
+  /**
+   * Check whether two songs may play at the same time.
+   */
+  canPair(a: Song, b: Song): boolean {
+    const pairId = getSongPairId(a.id, b.id);
+    if (this.songPairs.has(pairId) || this.blockPairs.has(pairId)) return false;
+
+    return !this.rules.some(
+      (rule) =>
+        rule.type === 'never-pair-artists' &&
+        ((artistsMatch(a.artist, rule.artists[0]) && artistsMatch(b.artist, rule.artists[1])) ||
+          (artistsMatch(a.artist, rule.artists[1]) && artistsMatch(b.artist, rule.artists[0])))
+    );
+  }
+
+  /**
+   * Check whether two songs may play in the same tempo block.
+   */
+  canShareTempoBlock(a: Song, b: Song): boolean {
+    return !this.blockPairs.has(getSongPairId(a.id, b.id));
+  }
+
+  /**
+   * Find rules that refer to songs missing from a song list.
+   * Such rules are harmless (they never match) but usually mean a typo or
+   * a changed library.
+   *
+   * @param songs - Songs the rules are used with
+   * @returns One issue per rule with unknown song IDs, in rule order
+   */
+  validate(songs: readonly Song[]): PairRuleIssue[] {
+    const songIds = new Set(songs.map((song) => song.id));
+    const issues: PairRuleIssue[] = [];
+
+    this.rules.forEach((rule, index) => {
+      if (rule.type === 'never-pair-artists') return;
+
+      const unknownSongIds = rule.songIds.filter((id) => !songIds.has(id));
+      if (unknownSongIds.length > 0) {
+        issues.push({ index, rule: copyRule(rule), unknownSongIds });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Export the rules as plain JSON.
+   */
+  toJSON(): PairRulesJSON {
+    return { version: PAIR_RULES_VERSION, rules: this.rules.map(copyRule) };
+  }
+
+  /**
+   * Add a rule's song pair to the lookup sets.
+   */
+  private index(rule: PairRule): void {
+    if (rule.type === 'never-pair-songs') {
+      this.songPairs.add(getSongPairId(...rule.songIds));
+    } else if (rule.type === 'never-same-tempo-block') {
+      this.blockPairs.add(getSongPairId(...rule.songIds));
+    }
+  }
+
+  /**
+   * Rebuild the lookup sets after removing rules.
+   */
+  private reindex(): void {
+    this.songPairs.clear();
+    this.blockPairs.clear();
+    this.rules.forEach((rule) => this.index(rule));
+  }
+}
+
+/**
+ * Order-independent id for a pair of song IDs (same format as getPairId).
+ */
+function getSongPairId(id1: number, id2: number): string {
+  return id1 < id2 ? `${id1}-${id2}` : `${id2}-${id1}`;
+}
+
+/**
+ * Whether two rules are the same kind of rule for the same pair.
+ */
+function isSameRule(a: PairRule, b: PairRule): boolean {
+  return getRuleId(a) === getRuleId(b);
+}
+
+/**
+ * Order-independent id for a rule: its type and its pair.
+ */
+function getRuleId(rule: PairRule): string {
+  const pair =
+    rule.type === 'never-pair-artists'
+      ? rule.artists
+          .map((artist) => artist.toLowerCase())
+          .sort()
+          .join('\n')
+      : getSongPairId(...rule.songIds);
+  return `${rule.type}:${pair}`;
+}
+
+/**
+ * Copy a rule, so callers cannot change the indexed pairs.
+ */
+function copyRule(rule: PairRule): PairRule {
+  return rule.type === 'never-pair-artists'
+    ? { ...rule, artists: [...rule.artists] }
+    : { ...rule, songIds: [...rule.songIds] };
+}
+
+/**
+ * Validate the shape of a rule.
+ */
+function validateRule(rule: PairRule, index: number): void {
+  const value = rule as unknown as Partial<Record<string, unknown>> | null;
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Pair rule ${index} must be an object`);
+  }
+  if (value.note !== undefined && typeof value.note !== 'string') {
+    throw new Error(`Pair rule ${index} note must be a string`);
+  }
+
+  switch (value.type) {
+    case 'never-pair-songs':
+    case 'never-same-tempo-block': {
+      const ids = value.songIds;
+      if (
+        !Array.isArray(ids) ||
+        ids.length !== 2 ||
+        !ids.every((id) => Number.isInteger(id) && (id as number) > 0)
+      ) {
+        throw new Error(`Pair rule ${index} songIds must be two song IDs`);
+      }
+      if (ids[0] === ids[1]) {
+        throw new Error(`Pair rule ${index} pairs song ${String(ids[0])} with itself`);
+      }
+      return;
+    }
+    case 'never-pair-artists': {
+      const artists = value.artists;
+      if (
+        !Array.isArray(artists) ||
+        artists.length !== 2 ||
+        !artists.every((artist) => typeof artist === 'string' && artist.length > 0)
+      ) {
+        throw new Error(`Pair rule ${index} artists must be two artist names`);
+      }
+      return;
+    }
+    default:
+      throw new Error(`Pair rule ${index} has unknown type: ${String(value.type)}`);
+  }
+}
@@ -0,0 +1,603 @@
+/**
+ * Progression Scripts
+ *
+ * A small text language for set structure: which tempo, which keys, for how
+ * many tracks, and how often the magic number comes around.
+ *
+ * Syntax (statements end with ";" or a new line, "#" starts a comment):
+ *
+ *   <tempo>: keys <a>..<b> [forward|reverse] [x<tracks>]
+ *   <tempo>: keys <a>, <b>, <c> [x<tracks>]
+ *   <tempo>: <walk> x<tracks> [forward|reverse] [from <key>] [min <score>]
+ *   magic every <n>
+ *   magic off
+ *
+ * - tempo: 84, 94 or 102; keys: 1-12
+ * - keys a..b walks a → b one semitone at a time, wrapping round the octave
+ *   (reverse walks downwards). A key list plays once per key unless x<tracks>
+ *   is given, in which case it cycles.
+ * - walk: chromatic, fifths, energy-boost, relative or random-compatible (see
+ *   ProgressionMode). It starts from `from`, or one step on from the last key.
+ * - The script loops when it reaches the end.
+ *
+ * Example:
+ *   const script = parseProgressionScript('84: keys 1..6 forward; 94: fifths x8; magic every 4');
+ *   const runner = new ProgressionRunner(script);
+ *   runner.next(); // { tempo: 84, key: 1, block: 0 }
+ */
+
+import type { Key, Tempo, Direction } from './types.js';
+import { isValidKey, isValidTempo } from './types.js';
+import { KeyManager } from './KeyManager.js';
+import type { KeyManagerState, ProgressionMode } from './KeyManager.js';
+import { transposeKey } from './MusicalKey.js';
+import { ProgressionScriptError } from './errors.js';
+import { quantumFloat } from '../random/QuantumRandom.js';
+import type { ScriptIssue } from './errors.js';
+
+/**
+ * Keys of a script block: an explicit list, or a walk in a progression mode.
+ */
+export type ScriptKeys =
+  | { type: 'list'; keys: Key[] }
+  | { type: 'walk'; progression: ProgressionMode; direction: Direction; from: Key | null };
+
+/**
+ * One tempo block of a script.
+ */
+export interface ScriptBlock {
+  tempo: Tempo;
+  keys: ScriptKeys;
+
+  /** Tracks in the block */
+  tracks: number;
+
+  /** Where the block starts in the source (1-based) */
+  line: number;
+  column: number;
+}
+
+/**
+ * A parsed progression script.
+ */
+export interface ProgressionScript {
+  /** Tempo blocks in play order */
+  blocks: ScriptBlock[];
+
+  /**
+   * Magic number interval: every Nth track, null for off.
+   * Omitted when the script does not say (the selector keeps its setting).
+   */
+  magicEvery?: number | null;
+}
+
+/**
+ * Tempo and key of one scripted track.
+ */
+export interface ScriptStep {
+  tempo: Tempo;
+  key: Key;
+
+  /** Index of the block the track belongs to */
+  block: number;
+}
+
+/**
+ * Names of the bundled script templates.
+ */
+export type ProgressionTemplateName = 'warm-up' | 'peak-time' | 'cool-down';
+
+/**
+ * Bundled script templates.
+ * - warm-up: slow, close keys, rare magic numbers
+ * - peak-time: energy-boost and fifths walks at the faster tempos, frequent magic numbers
+ * - cool-down: down through the tempos with gentle, descending key moves
+ */
+export const PROGRESSION_TEMPLATES: Readonly<Record<ProgressionTemplateName, string>> = {
+  'warm-up': ['84: keys 1..6 forward', '94: chromatic x6', 'magic every 6'].join('\n'),
+  'peak-time': [
+    '94: energy-boost x4',
+    '102: fifths x8',
+    '102: random-compatible x4 min 8',
+    'magic every 4',
+  ].join('\n'),
+  'cool-down': [
+    '102: relative x4',
+    '94: keys 8..3 reverse',
+    '84: chromatic x6 reverse',
+    'magic off',
+  ].join('\n'),
+};
+
+const WALKS: Readonly<Record<string, ProgressionMode['type']>> = {
+  chromatic: 'chromatic',
+  fifths: 'fifths',
+  'energy-boost': 'energy-boost',
+  relative: 'relative',
+  'random-compatible': 'random-compatible',
+};
+
+interface Token {
+  kind: 'number' | 'word' | 'colon' | 'comma' | 'range' | 'end';
+  text: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Parse a progression script.
+ *
+ * @param source - Script text
+ * @returns The parsed script
+ * @throws ProgressionScriptError listing every problem, with line and column
+ */
+export function parseProgressionScript(source: string): ProgressionScript {
+  const { script, issues } = parseWithIssues(source);
+  if (issues.length > 0) {
+    throw new ProgressionScriptError(issues);
+  }
+  return script;
+}
+
+/**
+ * Check a progression script without throwing.
+ *
+ * @returns Every problem found (empty when the script is valid)
+ *
+ * Example:
+ *   validateProgressionScript('85: chromatic x4');
+ *   // [{ message: 'Tempo must be 84, 94 or 102, got 85', line: 1, column: 1 }]
+ */
+export function validateProgressionScript(source: string): ScriptIssue[] {
+  return parseWithIssues(source).issues;
+}
+
+/**
+ * Parse a bundled template.
+ *
+ * Example:
+ *   engine.setScript(getProgressionTemplate('peak-time'));
+ */
+export function getProgressionTemplate(name: ProgressionTemplateName): ProgressionScript {
+  return parseProgressionScript(PROGRESSION_TEMPLATES[name]);
+}
+
+/**
+ * Runner position, as saved in a session snapshot.
+ */
+export interface ProgressionRunnerState {
+  blockIndex: number;
+  trackInBlock: number;
+  lastKey: Key | null;
+
+  /** Key walk in progress (walk blocks only) */
+  walker: KeyManagerState | null;
+}
+
+/**
+ * Plays a script track by track, looping at the end.
+ *
+ * Example:
+ *   const runner = new ProgressionRunner(parseProgressionScript('94: keys 1, 8 x3'));
+ *   [runner.next(), runner.next(), runner.next()].map((s) => s.key); // [1, 8, 1]
+ */
+export class ProgressionRunner {
+  private readonly script: ProgressionScript;
+  private readonly startKey: Key;
+  private readonly random: () => number;
+
+  private blockIndex: number = 0;
+  private trackInBlock: number = 0;
+  private lastKey: Key | null = null;
+  private walker: KeyManager | null = null;
+
+  /**
+   * @param script - Parsed script (or script text)
+   * @param options - Key for a first walk without `from` (default: 1),
+   *                  random source for random-compatible walks (default: quantumFloat)
+   * @throws ProgressionScriptError if script text does not parse
+   */
+  constructor(
+    script: ProgressionScript | string,
+    options: { startKey?: Key; random?: () => number } = {}
+  ) {
+    this.script = typeof script === 'string' ? parseProgressionScript(script) : script;
+    if (this.script.blocks.length === 0) {
+      throw new Error('Progression script needs at least one tempo block');
+    }
+    this.startKey = options.startKey ?? 1;
+    this.random = options.random ?? quantumFloat;
+  }
+
+  /**
+   * Get the script being played.
+   */
+  getScript(): ProgressionScript {
+    return this.script;
+  }
+
+  /**
+   * Get the tempo and key of the next track.
+   */
+  next(): ScriptStep {
+    if (this.trackInBlock >= this.currentBlock().tracks) {
+      this.blockIndex = (this.blockIndex + 1) % this.script.blocks.length;
+      this.trackInBlock = 0;
+      this.walker = null;
+    }
+
+    const block = this.currentBlock();
+    const key = this.getKey(block);
+    this.trackInBlock++;
+    this.lastKey = key;
+
+    return { tempo: block.tempo, key, block: this.blockIndex };
+  }
+
+  /**
+   * Expand the next `count` tracks.
+   */
+  take(count: number): ScriptStep[] {
+    return Array.from({ length: count }, () => this.next());
+  }
+
+  /**
+   * Go back to the start of the script.
+   */
+  reset(): void {
+    this.blockIndex = 0;
+    this.trackInBlock = 0;
+    this.lastKey = null;
+    this.walker = null;
+  }
+
+  /**
+   * Get the runner's position in the script.
+   */
+  getState(): ProgressionRunnerState {
+    return {
+      blockIndex: this.blockIndex,
+      trackInBlock: this.trackInBlock,
+      lastKey: this.lastKey,
+      walker: this.walker?.getState() ?? null,
+    };
+  }
+
+  /**
+   * Pick up from a saved position.
+   *
+   * @throws Error if the position is outside the script
+   */
+  restoreState(state: ProgressionRunnerState): void {
+    if (!Number.isInteger(state.blockIndex) || !this.script.blocks[state.blockIndex]) {
+      throw new Error(`Script has no block ${state.blockIndex}`);
+    }
+
+    this.blockIndex = state.blockIndex;
+    this.trackInBlock = state.trackInBlock;
+    this.lastKey = state.lastKey;
+    this.walker = null;
+
+    if (state.walker) {
+      this.walker = new KeyManager(state.walker.key, state.walker.direction, {
+        random: this.random,
+      });
+      this.walker.restoreState(state.walker);
+    }
+  }
+
+  private currentBlock(): ScriptBlock {
+    return this.script.blocks[this.blockIndex]!;
+  }
+
+  /**
+   * Key of the next track in a block.
+   */
+  private getKey(block: ScriptBlock): Key {
+    const { keys } = block;
+    if (keys.type === 'list') {
+      return keys.keys[this.trackInBlock % keys.keys.length]!;
+    }
+
+    if (!this.walker) {
+      const start = keys.from ?? this.lastKey ?? this.startKey;
+      this.walker = new KeyManager(start, keys.direction, {
+        progression: keys.progression,
+        random: this.random,
+      });
+      // Without `from`, carry on one step past the previous block's last key
+      if (keys.from === null && this.lastKey !== null) {
+        this.walker.next();
+      }
+      return this.walker.getCurrentKey();
+    }
+
+    return this.walker.next();
+  }
+}
+
+/**
+ * Parse a script, collecting problems instead of throwing.
+ */
+function parseWithIssues(source: string): { script: ProgressionScript; issues: ScriptIssue[] } {
+  const issues: ScriptIssue[] = [];
+  const script: ProgressionScript = { blocks: [] };
+  let magicToken: Token | null = null;
+
+  for (const statement of splitStatements(tokenize(source, issues))) {
+    const head = statement[0]!;
+    try {
+      if (head.kind === 'word' && head.text === 'magic') {
+        if (magicToken) {
+          fail(head, `Magic number is already set on line ${magicToken.line}`);
+        }
+        magicToken = head;
+        script.magicEvery = parseMagic(new Cursor(statement.slice(1), head));
+      } else if (head.kind === 'number') {
+        script.blocks.push(parseBlock(new Cursor(statement, head)));
+      } else {
+        fail(head, `Expected a tempo (84, 94 or 102) or 'magic', got '${head.text}'`);
+      }
+    } catch (error) {
+      if (!(error instanceof ProgressionScriptError)) throw error;
+      issues.push(...error.issues);
+    }
+  }
+
+  if (script.blocks.length === 0 && issues.length === 0) {
+    issues.push({ message: 'Script needs at least one tempo block', line: 1, column: 1 });
+  }
+
+  return { script, issues };
+}
+
+/**
+ * Parse "magic every <n>" / "magic off" (after the "magic" word).
+ */
+function parseMagic(cursor: Cursor): number | null {
+  const word = cursor.expectWord("'every' or 'off'");
+  let result: number | null;
+  if (word.text === 'off') {
+    result = null;
+  } else if (word.text === 'every') {
+    const count = cursor.expectNumber('a track count');
+    if (count.value < 1) fail(count.token, `Magic interval must be at least 1, got ${count.value}`);
+    result = count.value;
+  } else {
+    fail(word, `Expected 'every' or 'off', got '${word.text}'`);
+  }
+  cursor.expectEnd();
+  return result;
+}
+
+/**
+ * Parse "<tempo>: <keys> <modifiers>".
+ */
+function parseBlock(cursor: Cursor): ScriptBlock {
+  const tempoToken = cursor.expectNumber('a tempo');
+  if (!isValidTempo(tempoToken.value)) {
+    fail(tempoToken.token, `Tempo must be 84, 94 or 102, got ${tempoToken.value}`);
+  }
+  const tempo = tempoToken.value;
+  cursor.expect('colon', "':' after the tempo");
+
+  const head = cursor.expectWord(
+    "'keys' or a walk (chromatic, fifths, energy-boost, relative, random-compatible)"
+  );
+  let keyList: { from: Key; to: Key | null; list: Key[] } | null = null;
+  let walk: ProgressionMode['type'] | null = null;
+
+  if (head.text === 'keys') {
+    keyList = parseKeyList(cursor);
+  } else if (WALKS[head.text]) {
+    walk = WALKS[head.text]!;
+  } else {
+    fail(head, `Unknown key pattern '${head.text}'`);
+  }
+
+  let direction: Direction | null = null;
+  let tracks: number | null = null;
+  let from: Key | null = null;
+  let minScore: number | null = null;
+
+  while (!cursor.atEnd()) {
+    const modifier = cursor.expectWord('a modifier (forward, reverse, x<tracks>, from, min)');
+    const repeat = /^x(\d+)$/.exec(modifier.text);
+
+    if (modifier.text === 'forward' || modifier.text === 'reverse') {
+      if (direction) fail(modifier, 'Direction is given twice');
+      direction = modifier.text;
+    } else if (repeat) {
+      if (tracks !== null) fail(modifier, 'Track count is given twice');
+      tracks = Number(repeat[1]);
+      if (tracks < 1) fail(modifier, 'Track count must be at least 1');
+    } else if (modifier.text === 'from' && walk) {
+      from = parseKey(cursor);
+    } else if (modifier.text === 'min' && walk === 'random-compatible') {
+      minScore = cursor.expectNumber('a minimum score').value;
+    } else {
+      fail(modifier, `Unexpected '${modifier.text}'`);
+    }
+  }
+
+  const position = { line: tempoToken.token.line, column: tempoToken.token.column };
+
+  if (keyList) {
+    const keys =
+      keyList.to === null
+        ? keyList.list
+        : expandRange(keyList.from, keyList.to, direction ?? 'forward');
+    return { tempo, keys: { type: 'list', keys }, tracks: tracks ?? keys.length, ...position };
+  }
+
+  if (tracks === null) {
+    fail(head, `'${head.text}' needs a track count, e.g. '${head.text} x8'`);
+  }
+  const progression: ProgressionMode =
+    walk === 'random-compatible' && minScore !== null
+      ? { type: 'random-compatible', minScore }
+      : ({ type: walk } as ProgressionMode);
+
+  return {
+    tempo,
+    keys: { type: 'walk', progression, direction: direction ?? 'forward', from },
+    tracks,
+    ...position,
+  };
+}
+
+/**
+ * Parse "<a>..<b>" or "<a>, <b>, ..." (after "keys").
+ */
+function parseKeyList(cursor: Cursor): { from: Key; to: Key | null; list: Key[] } {
+  const first = parseKey(cursor);
+
+  if (cursor.accept('range')) {
+    return { from: first, to: parseKey(cursor), list: [] };
+  }
+
+  const list = [first];
+  while (cursor.accept('comma')) {
+    list.push(parseKey(cursor));
+  }
+  return { from: first, to: null, list };
+}
+
+function parseKey(cursor: Cursor): Key {
+  const { value, token } = cursor.expectNumber('a key (1-12)');
+  if (!isValidKey(value)) {
+    fail(token, `Key must be 1-12, got ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Keys from `from` to `to`, one semitone at a time, wrapping round the octave.
+ */
+function expandRange(from: Key, to: Key, direction: Direction): Key[] {
+  const step = direction === 'forward' ? 1 : -1;
+  const keys: Key[] = [from];
+  while (keys[keys.length - 1] !== to) {
+    keys.push(transposeKey(keys[keys.length - 1]!, step));
+  }
+  return keys;
+}
+
+/**
+ * Split source text into tokens. Unknown characters are reported and skipped.
+ */
+function tokenize(source: string, issues: ScriptIssue[]): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i]!;
+    const column = i - lineStart + 1;
+
+    if (char === '\n' || char === ';') {
+      tokens.push({ kind: 'end', text: char, line, column });
+      if (char === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (char === ':' || char === ',') {
+      tokens.push({ kind: char === ':' ? 'colon' : 'comma', text: char, line, column });
+      i++;
+    } else if (source.startsWith('..', i)) {
+      tokens.push({ kind: 'range', text: '..', line, column });
+      i += 2;
+    } else {
+      const match = /^(\d+|[A-Za-z][A-Za-z0-9-]*)/.exec(source.slice(i));
+      if (match) {
+        const text = match[1]!;
+        tokens.push({ kind: /^\d/.test(text) ? 'number' : 'word', text, line, column });
+        i += text.length;
+      } else {
+        issues.push({ message: `Unexpected character '${char}'`, line, column });
+        i++;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Group tokens into statements (dropping empty ones).
+ */
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.kind === 'end') {
+      statements.push([]);
+    } else {
+      statements[statements.length - 1]!.push(token);
+    }
+  }
+  return statements.filter((statement) => statement.length > 0);
+}
+
+/**
+ * Throw an issue at a token.
+ */
+function fail(token: Token, message: string): never {
+  throw new ProgressionScriptError([{ message, line: token.line, column: token.column }]);
+}
+
+/**
+ * Reads the tokens of one statement.
+ */
+class Cursor {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly start: Token
+  ) {}
+
+  atEnd(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  accept(kind: Token['kind']): Token | null {
+    const token = this.tokens[this.index];
+    if (token?.kind !== kind) return null;
+    this.index++;
+    return token;
+  }
+
+  expect(kind: Token['kind'], description: string): Token {
+    const token = this.accept(kind);
+    if (!token) this.failExpected(description);
+    return token;
+  }
+
+  expectWord(description: string): Token {
+    return this.expect('word', description);
+  }
+
+  expectNumber(description: string): { value: number; token: Token } {
+    const token = this.expect('number', description);
+    return { value: Number(token.text), token };
+  }
+
+  expectEnd(): void {
+    const token = this.tokens[this.index];
+    if (token) fail(token, `Unexpected '${token.text}'`);
+  }
+
+  private failExpected(description: string): never {
+    const token = this.tokens[this.index];
+    if (token) fail(token, `Expected ${description}, got '${token.text}'`);
+
+    const last = this.tokens[this.tokens.length - 1] ?? this.start;
+    fail({ ...last, column: last.column + last.text.length }, `Expected ${description}`);
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Snapshot Storage
+ *
+ * Where engine snapshots are kept between sessions. Every adapter stores
+ * snapshot JSON under a string key and reports failures by rejecting, so
+ * auto-save can surface them as engine errors.
+ *
+ * Adapters:
+ * - MemorySnapshotStorage: a Map (tests, or handing a session between engines)
+ * - LocalSnapshotStorage: window.localStorage (small libraries, simplest setup)
+ * - IndexedDBSnapshotStorage: IndexedDB (browsers, no 5 MB localStorage cap)
+ * - FileSnapshotStorage: one JSON file per key (Node)
+ *
+ * Example:
+ *   const engine = new KwyjiboEngine({
+ *     songs,
+ *     audioLoader,
+ *     autoSave: { storage: new IndexedDBSnapshotStorage() },
+ *   });
+ */
+
+/**
+ * Key-value store for snapshot JSON.
+ */
+export interface SnapshotStorage {
+  /** Get the snapshot saved under a key, or null if there is none */
+  load(key: string): Promise<string | null>;
+
+  /** Save a snapshot, replacing any under the same key */
+  save(key: string, snapshot: string): Promise<void>;
+
+  /** Delete the snapshot under a key (no-op if there is none) */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Options for IndexedDBSnapshotStorage.
+ */
+export interface IndexedDBSnapshotStorageOptions {
+  /** Database name. Default: 'kwyjibo' */
+  databaseName?: string;
+
+  /** Object store name. Default: 'sessions' */
+  storeName?: string;
+
+  /** IndexedDB implementation. Default: the global indexedDB */
+  factory?: IDBFactory;
+}
+
+/**
+ * Snapshots kept in memory.
+ *
+ * Example:
+ *   const storage = new MemorySnapshotStorage();
+ *   await storage.save('session', JSON.stringify(engine.serialize()));
+ */
+export class MemorySnapshotStorage implements SnapshotStorage {
+  private readonly snapshots = new Map<string, string>();
+
+  load(key: string): Promise<string | null> {
+    return Promise.resolve(this.snapshots.get(key) ?? null);
+  }
+
+  save(key: string, snapshot: string): Promise<void> {
+    this.snapshots.set(key, snapshot);
+    return Promise.resolve();
+  }
+
+  remove(key: string): Promise<void> {
+    this.snapshots.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Snapshots kept in localStorage (or any object with the same methods).
+ * A full store rejects the save instead of failing silently.
+ */
+export class LocalSnapshotStorage implements SnapshotStorage {
+  private readonly storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+  /**
+   * @param storage - Storage to use (default: the global localStorage)
+   * @throws Error if no storage is given and localStorage is not available
+   */
+  constructor(storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>) {
+    const resolved = storage ?? (typeof localStorage !== 'undefined' ? localStorage : null);
+    if (!resolved) {
+      throw new Error('localStorage is not available');
+    }
+    this.storage = resolved;
+  }
+
+  load(key: string): Promise<string | null> {
+    return attempt(() => this.storage.getItem(key));
+  }
+
+  save(key: string, snapshot: string): Promise<void> {
+    return attempt(() => this.storage.setItem(key, snapshot));
+  }
+
+  remove(key: string): Promise<void> {
+    return attempt(() => this.storage.removeItem(key));
+  }
+}
+
+/**
+ * Snapshots kept in an IndexedDB object store, keyed by snapshot key.
+ * The database is opened on first use.
+ */
+export class IndexedDBSnapshotStorage implements SnapshotStorage {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param options - Database and store names, IndexedDB implementation
+   * @throws Error if no factory is given and IndexedDB is not available
+   */
+  constructor(options: IndexedDBSnapshotStorageOptions = {}) {
+    const factory = options.factory ?? (typeof indexedDB !== 'undefined' ? indexedDB : null);
+    if (!factory) {
+      throw new Error('IndexedDB is not available');
+    }
+    this.factory = factory;
+    this.databaseName = options.databaseName ?? 'kwyjibo';
+    this.storeName = options.storeName ?? 'sessions';
+  }
+
+  async load(key: string): Promise<string | null> {
+    const value: unknown = await this.request('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async save(key: string, snapshot: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(snapshot, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  /**
+   * Open the database, creating the store on first run.
+   * A failed open is retried on the next call.
+   */
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = this.factory.open(this.databaseName, 1);
+      request.onupgradeneeded = (): void => {
+        request.result.createObjectStore(this.storeName);
+      };
+      request.onsuccess = (): void => resolve(request.result);
+      request.onerror = (): void => {
+        this.database = null;
+        reject(request.error ?? new Error(`Could not open IndexedDB ${this.databaseName}`));
+      };
+    });
+    return this.database;
+  }
+
+  /**
+   * Run one request in its own transaction.
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = (): void => resolve(request.result);
+      request.onerror = (): void => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  }
+}
+
+/**
+ * Snapshots kept as files in a directory (Node only), one `<key>.json` per key.
+ * Saves write a temporary file and rename it, so a crash mid-save keeps the
+ * previous snapshot.
+ */
+export class FileSnapshotStorage implements SnapshotStorage {
+  private readonly directory: string;
+
+  /**
+   * @param directory - Directory for snapshot files (created on first save)
+   */
+  constructor(directory: string) {
+    this.directory = directory.replace(/[\\/]+$/, '');
+  }
+
+  /**
+   * @throws Error if node:fs cannot be loaded (e.g. in a browser) or the file cannot be read
+   */
+  async load(key: string): Promise<string | null> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return await readFile(this.getPath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(key: string, snapshot: string): Promise<void> {
+    const { mkdir, writeFile, rename } = await import('node:fs/promises');
+    const path = this.getPath(key);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, snapshot, 'utf8');
+    await rename(`${path}.tmp`, path);
+  }
+
+  async remove(key: string): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(this.getPath(key), { force: true });
+  }
+
+  /**
+   * File path for a key (keys are URI-encoded, so any string is a safe name).
+   */
+  private getPath(key: string): string {
+    return `${this.directory}/${encodeURIComponent(key)}.json`;
+  }
+}
+
+/**
+ * Run a synchronous storage call, turning a throw into a rejection.
+ */
+function attempt<T>(call: () => T): Promise<T> {
+  return new Promise<T>((resolve) => resolve(call()));
+}
@@ -8,11 +8,20 @@
  * - Load and validate song data
  * - Filter by tempo, key, artist
  * - Track played songs (avoid repeats)
+ * - Keep per-song weights, favorites and bans
  * - Reset for new sessions
  * - Provide statistics
  */
 
-import type { Song, Tempo, Key, SongFilter, LibraryStats } from './types.js';
+import type {
+  Song,
+  Tempo,
+  Key,
+  MusicalKey,
+  SongFilter,
+  SongAttributes,
+  LibraryStats,
+} from './types.js';
 
 /**
  * Manages the song library with filtering and state.
@@ -32,6 +41,7 @@ import type { Song, Tempo, Key, SongFilter, LibraryStats } from './types.js';
 export class SongLibrary {
   private readonly allSongs: readonly Song[];
   private playedIds = new Set<number>();
+  private readonly attributes = new Map<number, SongAttributes>();
 
   /**
    * Create a new song library.
@@ -76,6 +86,13 @@ export class SongLibrary {
     return this.allSongs.length - this.playedIds.size;
   }
 
+  /**
+   * Get the IDs of played songs, in the order they were played.
+   */
+  getPlayedIds(): number[] {
+    return [...this.playedIds];
+  }
+
   /**
    * Check if a song has been played.
    */
@@ -97,6 +114,102 @@ export class SongLibrary {
     songIds.forEach((id) => this.playedIds.add(id));
   }
 
+  /**
+   * Get a song's attributes (empty when none are set).
+   */
+  getAttributes(songId: number): SongAttributes {
+    return { ...this.attributes.get(songId) };
+  }
+
+  /**
+   * Set some of a song's attributes, keeping the others.
+   * An attribute set to undefined is cleared.
+   *
+   * @param songId - Song ID
+   * @param attributes - Attributes to change
+   * @returns The song's attributes after the change
+   * @throws Error if the song is unknown or an attribute is invalid
+   *
+   * Example:
+   *   library.setAttributes(42, { favorite: true, weight: 2 });
+   *   library.setAttributes(42, { weight: undefined }); // back to weight 1
+   */
+  setAttributes(songId: number, attributes: SongAttributes): SongAttributes {
+    if (!this.getSongById(songId)) {
+      throw new Error(`Unknown song: ${songId}`);
+    }
+    validateAttributes(songId, attributes);
+
+    const merged: SongAttributes = { ...this.attributes.get(songId), ...attributes };
+    for (const name of Object.keys(merged) as (keyof SongAttributes)[]) {
+      if (merged[name] === undefined) delete merged[name];
+    }
+
+    if (Object.keys(merged).length === 0) {
+      this.attributes.delete(songId);
+    } else {
+      this.attributes.set(songId, merged);
+    }
+    return { ...merged };
+  }
+
+  /**
+   * Clear one song's attributes, or every song's.
+   */
+  clearAttributes(songId?: number): void {
+    if (songId === undefined) {
+      this.attributes.clear();
+    } else {
+      this.attributes.delete(songId);
+    }
+  }
+
+  /**
+   * Get the attributes of every song that has some, keyed by song ID.
+   * The result is JSON-safe (see importAttributes).
+   */
+  exportAttributes(): Record<number, SongAttributes> {
+    const exported: Record<number, SongAttributes> = {};
+    for (const [songId, attributes] of this.attributes) {
+      exported[songId] = { ...attributes };
+    }
+    return exported;
+  }
+
+  /**
+   * Replace all attributes with exported ones. Songs not in the library are skipped.
+   *
+   * @throws Error if an attribute is invalid (nothing is replaced)
+   */
+  importAttributes(attributes: Record<number, SongAttributes>): void {
+    const entries = Object.entries(attributes)
+      .map(([id, value]) => [Number(id), value] as const)
+      .filter(([songId]) => this.getSongById(songId) !== undefined);
+    entries.forEach(([songId, value]) => validateAttributes(songId, value));
+
+    this.attributes.clear();
+    entries.forEach(([songId, value]) => this.setAttributes(songId, value));
+  }
+
+  /**
+   * Check if a song is banned, permanently or until a time after `now`.
+   *
+   * @param songId - Song ID
+   * @param now - Current time in ms since the epoch (default: Date.now())
+   */
+  isBanned(songId: number, now: number = Date.now()): boolean {
+    const attributes = this.attributes.get(songId);
+    if (!attributes) return false;
+    return attributes.banned === true || (attributes.bannedUntil ?? 0) > now;
+  }
+
+  /**
+   * Get a song's pick weight (1 when not set).
+   */
+  getWeight(songId: number): number {
+    return this.attributes.get(songId)?.weight ?? 1;
+  }
+
   /**
    * Reset played songs (start fresh).
    */
@@ -141,6 +254,11 @@ export class SongLibrary {
       results = results.filter((s) => s.key === filter.key);
     }
 
+    // Filter by mode (songs with unknown mode match either)
+    if (filter.mode !== undefined) {
+      results = results.filter((s) => s.mode === undefined || s.mode === filter.mode);
+    }
+
     // Filter by artist
     if (filter.artist !== undefined) {
       results = results.filter((s) => s.artist === filter.artist);
@@ -152,17 +270,25 @@ export class SongLibrary {
       results = results.filter((s) => !excludeSet.has(s.id));
     }
 
+    // Exclude banned songs
+    if (filter.excludeBanned && this.attributes.size > 0) {
+      const now = Date.now();
+      results = results.filter((s) => !this.isBanned(s.id, now));
+    }
+
     return results;
   }
 
   /**
-   * Get songs, excluding already played ones.
+   * Get songs, excluding already played ones and (unless the filter says
+   * otherwise) banned ones.
    *
    * @param filter - Optional additional filter criteria
    * @returns Unplayed songs matching criteria
    */
   getUnplayed(filter?: Omit<SongFilter, 'excludeIds'>): Song[] {
     return this.filter({
+      excludeBanned: true,
       ...filter,
       excludeIds: Array.from(this.playedIds),
     });
@@ -189,6 +315,20 @@ export class SongLibrary {
     return this.filter({ key });
   }
 
+  /**
+   * Get all songs in a specific key and mode.
+   * An unknown mode matches songs of any mode.
+   *
+   * Example:
+   *   library.getSongsByMusicalKey({ key: 10, mode: 'minor' }); // A minor + untagged A songs
+   */
+  getSongsByMusicalKey(musicalKey: MusicalKey): Song[] {
+    return this.filter({
+      key: musicalKey.key,
+      mode: musicalKey.mode === 'unknown' ? undefined : musicalKey.mode,
+    });
+  }
+
   /**
    * Get all unique artists.
    */
@@ -290,6 +430,11 @@ export class SongLibrary {
         throw new Error(`Song ${song.id} has invalid key: ${song.key}`);
       }
 
+      // Check mode (optional)
+      if (song.mode !== undefined && song.mode !== 'major' && song.mode !== 'minor') {
+        throw new Error(`Song ${song.id} has invalid mode: ${String(song.mode)}`);
+      }
+
       // Check BPM (84, 94, or 102)
       if (![84, 94, 102].includes(song.bpm)) {
         throw new Error(`Song ${song.id} has invalid BPM: ${song.bpm}`);
@@ -297,3 +442,23 @@ export class SongLibrary {
     }
   }
 }
+
+/**
+ * Validate song attributes (undefined values are allowed: they clear the attribute).
+ */
+function validateAttributes(songId: number, attributes: SongAttributes): void {
+  const { weight, favorite, banned, bannedUntil } = attributes;
+
+  if (weight !== undefined && (!Number.isFinite(weight) || weight <= 0)) {
+    throw new Error(`Song ${songId} weight must be a positive number, got ${weight}`);
+  }
+  if (favorite !== undefined && typeof favorite !== 'boolean') {
+    throw new Error(`Song ${songId} favorite must be true or false`);
+  }
+  if (banned !== undefined && typeof banned !== 'boolean') {
+    throw new Error(`Song ${songId} banned must be true or false`);
+  }
+  if (bannedUntil !== undefined && !Number.isFinite(bannedUntil)) {
+    throw new Error(`Song ${songId} bannedUntil must be a time in ms, got ${bannedUntil}`);
+  }
+}
@@ -0,0 +1,509 @@
+/**
+ * Song Scoring Pipeline
+ *
+ * Ranks candidate songs by combining independent, named scoring factors.
+ * Each factor (scorer) looks at one thing — key, tempo, artist, recency —
+ * and the pipeline adds up their weighted points.
+ *
+ * Key concepts:
+ * - A scorer returns points for a song in a context (higher = better)
+ * - A scorer can veto a song by returning REJECT
+ * - The pipeline multiplies each scorer's points by its weight and sums them
+ * - Every result carries a per-scorer breakdown, so rankings can be explained
+ *
+ * Example:
+ *   const pipeline = createDefaultScoringPipeline();
+ *   pipeline.setWeight('tempo', 2);
+ *
+ *   const ranked = pipeline.rank(candidates, {
+ *     key: musicalKey(1),
+ *     tempo: 94,
+ *     scoreKey: (from, to) => keyManager.scoreCompatibility(from, to),
+ *   });
+ *   // ranked[0].song is the best match, ranked[0].breakdown explains why
+ */
+
+import type { Song, Tempo, MusicalKey, SongAttributes } from './types.js';
+import { getSongMusicalKey } from './MusicalKey.js';
+import type { HarmonicScoringStrategy } from './HarmonicScoring.js';
+import type { PairRules } from './PairRules.js';
+import { quantumFloat } from '../random/QuantumRandom.js';
+
+/**
+ * Score that removes a song from consideration.
+ */
+export const REJECT = Number.NEGATIVE_INFINITY;
+
+/**
+ * Everything a scorer may look at besides the song itself.
+ */
+export interface ScoringContext {
+  /** Key the song should fit */
+  key: MusicalKey;
+
+  /** Tempo the song will play at */
+  tempo: Tempo;
+
+  /** Scores a key transition (1-10) */
+  scoreKey: (from: MusicalKey, to: MusicalKey) => number;
+
+  /** Song that will play alongside this one, if any */
+  partner?: Song | null;
+
+  /** Other songs that will play at the same time (e.g. the rest of a layered set) */
+  layeredWith?: readonly Song[];
+
+  /** Songs already played in the current tempo block */
+  tempoBlock?: readonly Song[];
+
+  /** Songs and artists that must never play together */
+  pairRules?: PairRules;
+
+  /** Artists to steer away from (e.g. the ones that just played) */
+  avoidArtists?: readonly string[];
+
+  /** Recently played songs, most recent first */
+  recentSongs?: readonly Song[];
+
+  /** Whether a song has been played this session */
+  isPlayed?: (songId: number) => boolean;
+
+  /** Whether two songs have already been played together */
+  isPairPlayed?: (a: Song, b: Song) => boolean;
+
+  /** The user's attributes for a song (favorite, banned, ...) */
+  getAttributes?: (songId: number) => SongAttributes;
+}
+
+/**
+ * A single scoring factor.
+ */
+export interface SongScorer {
+  /** Unique name, used for weights and breakdowns */
+  readonly name: string;
+
+  /**
+   * Score a song.
+   *
+   * @returns Points (higher = better), or REJECT to exclude the song
+   */
+  score(song: Song, context: ScoringContext): number;
+}
+
+/**
+ * A scorer together with its weight in the pipeline.
+ */
+export interface WeightedScorer {
+  scorer: SongScorer;
+  weight: number;
+}
+
+/**
+ * A ranked song.
+ */
+export interface ScoredSong {
+  song: Song;
+
+  /** Total weighted score */
+  score: number;
+
+  /** Weighted points per scorer name */
+  breakdown: Record<string, number>;
+}
+
+/**
+ * Check whether two artist credits refer to the same artist.
+ * Case-insensitive; one credit containing the other counts as a match
+ * (e.g. "Outkast" and "Outkast feat. Killer Mike").
+ */
+export function artistsMatch(artist1: string, artist2: string): boolean {
+  const a1 = artist1.toLowerCase();
+  const a2 = artist2.toLowerCase();
+  return a1.includes(a2) || a2.includes(a1);
+}
+
+/**
+ * Order-independent id for a pair of songs.
+ *
+ * Example:
+ *   getPairId(songA, songB) === getPairId(songB, songA); // true
+ */
+export function getPairId(song1: Song, song2: Song): string {
+  const [id1, id2] = [song1.id, song2.id].sort((a, b) => a - b);
+  return `${id1}-${id2}`;
+}
+
+/**
+ * Harmonic compatibility with the target key (1-10).
+ * Uses the context's key scoring unless a strategy is given.
+ */
+export class HarmonicScorer implements SongScorer {
+  readonly name = 'harmonic';
+  private readonly strategy: HarmonicScoringStrategy | null;
+
+  constructor(strategy: HarmonicScoringStrategy | null = null) {
+    this.strategy = strategy;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    const songKey = getSongMusicalKey(song);
+    return this.strategy
+      ? this.strategy.score(context.key, songKey)
+      : context.scoreKey(context.key, songKey);
+  }
+}
+
+/**
+ * Points for a tempo difference of at most `maxDiff` BPM.
+ */
+export interface TempoBand {
+  maxDiff: number;
+  points: number;
+}
+
+/**
+ * Tempo distance: exact matches score highest, bigger stretches score lower.
+ * Differences beyond the last band get `farPoints`.
+ */
+export class TempoScorer implements SongScorer {
+  readonly name = 'tempo';
+  private readonly bands: readonly TempoBand[];
+  private readonly farPoints: number;
+
+  /**
+   * @param bands - Bands in any order (default: exact +60, ≤6 +20, ≤12 -10, ≤18 -30)
+   * @param farPoints - Points beyond the widest band (default: -50)
+   */
+  constructor(
+    bands: readonly TempoBand[] = [
+      { maxDiff: 0, points: 60 },
+      { maxDiff: 6, points: 20 },
+      { maxDiff: 12, points: -10 },
+      { maxDiff: 18, points: -30 },
+    ],
+    farPoints: number = -50
+  ) {
+    this.bands = [...bands].sort((a, b) => a.maxDiff - b.maxDiff);
+    this.farPoints = farPoints;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    const diff = Math.abs(song.bpm - context.tempo);
+    const band = this.bands.find((b) => diff <= b.maxDiff);
+    return band ? band.points : this.farPoints;
+  }
+}
+
+/**
+ * Penalty for each avoided artist the song matches.
+ */
+export class ArtistDiversityScorer implements SongScorer {
+  readonly name = 'artist-diversity';
+  private readonly penalty: number;
+
+  constructor(penalty: number = 80) {
+    this.penalty = penalty;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    const avoidArtists = context.avoidArtists ?? [];
+    const matches = avoidArtists.filter((artist) => artistsMatch(song.artist, artist)).length;
+    return matches > 0 ? -matches * this.penalty : 0;
+  }
+}
+
+/**
+ * Partner rules: never pair an artist with itself, never repeat a pair.
+ * Valid partners get a bonus; without a partner this scorer is neutral.
+ */
+export class PartnerScorer implements SongScorer {
+  readonly name = 'partner';
+  private readonly bonus: number;
+
+  constructor(bonus: number = 30) {
+    this.bonus = bonus;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    const partner = context.partner;
+    if (!partner) return 0;
+
+    if (artistsMatch(song.artist, partner.artist)) return REJECT;
+    if (context.isPairPlayed?.(song, partner)) return REJECT;
+
+    return this.bonus;
+  }
+}
+
+/**
+ * Explicit pair rules: rejects a song that may not play alongside the
+ * partner or the other layers, or may not share the current tempo block.
+ * Neutral without rules.
+ */
+export class PairRuleScorer implements SongScorer {
+  readonly name = 'pair-rules';
+
+  score(song: Song, context: ScoringContext): number {
+    const rules = context.pairRules;
+    if (!rules) return 0;
+
+    const together = [context.partner, ...(context.layeredWith ?? [])];
+    if (together.some((other) => other && !rules.canPair(song, other))) {
+      return REJECT;
+    }
+    if ((context.tempoBlock ?? []).some((other) => !rules.canShareTempoBlock(song, other))) {
+      return REJECT;
+    }
+    return 0;
+  }
+}
+
+/**
+ * Penalty for recently played songs; the more recent, the bigger the penalty.
+ */
+export class RecencyScorer implements SongScorer {
+  readonly name = 'recency';
+  private readonly maxPenalty: number;
+  private readonly decay: number;
+
+  /**
+   * @param maxPenalty - Penalty for the most recent song (default: 50)
+   * @param decay - Penalty reduction per position back in history (default: 2)
+   */
+  constructor(maxPenalty: number = 50, decay: number = 2) {
+    this.maxPenalty = maxPenalty;
+    this.decay = decay;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    const recentIndex = (context.recentSongs ?? []).findIndex((s) => s.id === song.id);
+    if (recentIndex === -1) return 0;
+    return -Math.max(0, this.maxPenalty - recentIndex * this.decay);
+  }
+}
+
+/**
+ * Bonus for songs not yet played this session.
+ * Large by default so unplayed songs win over key/tempo mismatches,
+ * which walks the whole library before repeating.
+ */
+export class UnplayedScorer implements SongScorer {
+  readonly name = 'unplayed';
+  private readonly bonus: number;
+
+  constructor(bonus: number = 200) {
+    this.bonus = bonus;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    if (!context.isPlayed) return 0;
+    return context.isPlayed(song.id) ? 0 : this.bonus;
+  }
+}
+
+/**
+ * User preferences: bonus for favorites, and banned songs are rejected.
+ * Neutral when the context has no attributes.
+ */
+export class PreferenceScorer implements SongScorer {
+  readonly name = 'preference';
+  private readonly bonus: number;
+  private readonly now: () => number;
+
+  /**
+   * @param bonus - Points for a favorite song (default: 50)
+   * @param now - Clock for timed bans (default: Date.now)
+   */
+  constructor(bonus: number = 50, now: () => number = Date.now) {
+    this.bonus = bonus;
+    this.now = now;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    const attributes = context.getAttributes?.(song.id);
+    if (!attributes) return 0;
+
+    if (attributes.banned === true || (attributes.bannedUntil ?? 0) > this.now()) return REJECT;
+    return attributes.favorite === true ? this.bonus : 0;
+  }
+}
+
+/**
+ * Points for a song's library weight, so heavier songs make the top
+ * candidates: `points` per doubling (weight 2 earns +points, weight 0.5
+ * costs points). Neutral when the context has no attributes.
+ */
+export class WeightScorer implements SongScorer {
+  readonly name = 'weight';
+  private readonly points: number;
+
+  /**
+   * @param points - Points per doubling of the weight (default: 40)
+   */
+  constructor(points: number = 40) {
+    this.points = points;
+  }
+
+  score(song: Song, context: ScoringContext): number {
+    const weight = context.getAttributes?.(song.id).weight ?? 1;
+    return this.points * Math.log2(weight);
+  }
+}
+
+/**
+ * Random points in [0, range), to break ties and add variety.
+ */
+export class RandomVarianceScorer implements SongScorer {
+  readonly name = 'random-variance';
+  private readonly range: number;
+  private readonly random: () => number;
+
+  constructor(range: number = 80, random: () => number = quantumFloat) {
+    this.range = range;
+    this.random = random;
+  }
+
+  score(): number {
+    return this.random() * this.range;
+  }
+}
+
+/**
+ * Weighted sum of named scorers.
+ *
+ * Example:
+ *   const pipeline = new ScoringPipeline()
+ *     .add(new HarmonicScorer(), 6)
+ *     .add(new TempoScorer());
+ */
+export class ScoringPipeline {
+  private readonly scorers: WeightedScorer[] = [];
+
+  /**
+   * Create a pipeline.
+   *
+   * @param scorers - Initial scorers with weights
+   * @throws Error if names repeat or weights are invalid
+   */
+  constructor(scorers: readonly WeightedScorer[] = []) {
+    for (const { scorer, weight } of scorers) {
+      this.add(scorer, weight);
+    }
+  }
+
+  /**
+   * Add a scorer.
+   *
+   * @param scorer - Scorer to add
+   * @param weight - Multiplier for its points (default: 1)
+   * @throws Error if a scorer with the same name exists or the weight is invalid
+   */
+  add(scorer: SongScorer, weight: number = 1): this {
+    if (this.scorers.some((entry) => entry.scorer.name === scorer.name)) {
+      throw new Error(`Scorer already in pipeline: ${scorer.name}`);
+    }
+    validateWeight(weight);
+
+    this.scorers.push({ scorer, weight });
+    return this;
+  }
+
+  /**
+   * Remove a scorer by name.
+   *
+   * @returns True if a scorer was removed
+   */
+  remove(name: string): boolean {
+    const index = this.scorers.findIndex((entry) => entry.scorer.name === name);
+    if (index === -1) return false;
+
+    this.scorers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Change a scorer's weight.
+   *
+   * @throws Error if no scorer has that name or the weight is invalid
+   */
+  setWeight(name: string, weight: number): void {
+    const entry = this.scorers.find((e) => e.scorer.name === name);
+    if (!entry) {
+      throw new Error(`Unknown scorer: ${name}`);
+    }
+    validateWeight(weight);
+
+    entry.weight = weight;
+  }
+
+  /**
+   * Get the scorers in evaluation order.
+   */
+  getScorers(): readonly WeightedScorer[] {
+    return this.scorers.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Score one song.
+   *
+   * @returns The scored song, or null if a scorer rejected it
+   */
+  score(song: Song, context: ScoringContext): ScoredSong | null {
+    const breakdown: Record<string, number> = {};
+    let total = 0;
+
+    for (const { scorer, weight } of this.scorers) {
+      const points = scorer.score(song, context);
+      if (points === REJECT) return null;
+
+      const weighted = points * weight;
+      breakdown[scorer.name] = weighted;
+      total += weighted;
+    }
+
+    return { song, score: total, breakdown };
+  }
+
+  /**
+   * Score songs and sort them best first. Rejected songs are dropped.
+   */
+  rank(songs: readonly Song[], context: ScoringContext): ScoredSong[] {
+    const scored: ScoredSong[] = [];
+
+    for (const song of songs) {
+      const result = this.score(song, context);
+      if (result) scored.push(result);
+    }
+
+    return scored.sort((a, b) => b.score - a.score);
+  }
+}
+
+/**
+ * The standard kwyjibo scoring factors: harmonic fit, tempo distance,
+ * artist diversity, partner rules, explicit pair rules, recency, the
+ * unplayed bonus, user preferences and song weights.
+ * Harmonic scores (1-10) are weighted ×6 to sit alongside the other point scales.
+ */
+export function createDefaultScoringPipeline(): ScoringPipeline {
+  return new ScoringPipeline([
+    { scorer: new HarmonicScorer(), weight: 6 },
+    { scorer: new TempoScorer(), weight: 1 },
+    { scorer: new ArtistDiversityScorer(), weight: 1 },
+    { scorer: new PartnerScorer(), weight: 1 },
+    { scorer: new PairRuleScorer(), weight: 1 },
+    { scorer: new RecencyScorer(), weight: 1 },
+    { scorer: new UnplayedScorer(), weight: 1 },
+    { scorer: new PreferenceScorer(), weight: 1 },
+    { scorer: new WeightScorer(), weight: 1 },
+  ]);
+}
+
+/**
+ * Validate a scorer weight.
+ */
+function validateWeight(weight: number): void {
+  if (!Number.isFinite(weight)) {
+    throw new Error(`Scorer weight must be a finite number, got ${weight}`);
+  }
+}
@@ -2,15 +2,31 @@
  * Song Selector
  *
  * The heart of the kwyjibo mixing algorithm. Combines SongLibrary,
- * KeyManager, and QuantumRandom to select songs that flow harmonically
- * while maintaining unpredictability.
+ * KeyManager, and a RandomSource (QuantumRandom by default) to select songs
+ * that flow harmonically while maintaining unpredictability.
  *
  * Algorithm:
- * 1. Filter songs by current key and tempo
- * 2. Score each song by harmonic compatibility
- * 3. Remove already-played songs
- * 4. Select randomly from top-scored candidates
- * 5. Handle "magic number" (every 5th track special selection)
+ * 1. Filter songs by current key (and mode, when known) and tempo
+ * 2. Drop songs below the minimum harmonic compatibility
+ * 3. Rank the rest with the scoring pipeline (key, tempo, artist, recency)
+ * 4. Select randomly from top-ranked candidates, weighted by score
+ * 5. Handle "magic number" tracks (every 5th track by default, see MagicPolicy)
+ *
+ * Layered sets: selectSet() fills several simultaneous layers (main, partner,
+ * hidden) at once, each in its own key, with no artist twice in a set.
+ *
+ * Set planning: planSet() searches ahead with backtracking for a whole
+ * sequence that never repeats a song, follows the key progression and
+ * spaces out artists. A loaded plan is played before live selection resumes.
+ * planTimedSet() plans to a time budget, with tempos and track types fixed
+ * per track (see TimedSet).
+ *
+ * Track types: lead/body runs follow structure templates (see TrackStructure),
+ * drawn by weight or pinned per tempo.
+ *
+ * Pair rules (see PairRules) keep clashing songs out of the same layered set
+ * and, for tempo-block rules, out of the same run of tracks at one tempo.
+ * Loaded plans and requests play as given.
  *
  * Responsibilities:
  * - Implement selection algorithm
@@ -19,10 +35,45 @@
  * - Manage "lead" vs "body" track types
  */
 
-import type { Song, Tempo, TrackRequest, Key } from './types.js';
+import type {
+  Song,
+  Tempo,
+  TrackRequest,
+  Key,
+  Mode,
+  MusicalKey,
+  Layer,
+  LayeredSet,
+  SongFilter,
+  TrackType,
+} from './types.js';
+import { ALL_KEYS, ALL_TEMPOS, BEAT_COUNTS } from './types.js';
+import { getSongMusicalKey } from './MusicalKey.js';
+import { PAIR_LAYOUT, getLayerKey, validateLayout } from './LayeredSet.js';
+import type { LayerSpec } from './LayeredSet.js';
+import {
+  DEFAULT_MAGIC_POLICY,
+  getMagicBehaviors,
+  isMagicTrack,
+  validateMagicPolicy,
+} from './MagicPolicy.js';
+import type { MagicPolicy, MagicSelection } from './MagicPolicy.js';
+import {
+  DEFAULT_STRUCTURE_TEMPLATES,
+  validateStructureTemplates,
+  createBeatCounts,
+} from './TrackStructure.js';
+import type { StructureTemplate } from './TrackStructure.js';
+import { buildTimeline, getBarDuration } from './TimedSet.js';
+import type { TimedSetOptions, TimedSetPlan } from './TimedSet.js';
 import type { SongLibrary } from './SongLibrary.js';
 import type { KeyManager } from './KeyManager.js';
-import type { QuantumRandom } from '../random/QuantumRandom.js';
+import type { HarmonicScoringStrategy } from './HarmonicScoring.js';
+import { createDefaultScoringPipeline, artistsMatch } from './SongScoring.js';
+import type { ScoringPipeline, ScoringContext, ScoredSong } from './SongScoring.js';
+import type { PairRules } from './PairRules.js';
+import { SeededRandom } from '../random/SeededRandom.js';
+import type { RandomSource } from '../random/types.js';
 
 /**
  * Options for song selection.
@@ -37,230 +88,1589 @@ export interface SongSelectorOptions {
   candidatePoolSize?: number;
 
   /**
-   * Whether to use "magic number" special selection.
-   * Every 5th track uses different selection logic.
-   * Default: true
+   * Whether to use "magic number" special selection.
+   * Default: true
+   *
+   * @deprecated Use magicPolicy (null turns the magic number off)
+   */
+  useMagicNumber?: boolean;
+
+  /**
+   * When magic number tracks come round, what they play and which rules
+   * still apply. null turns the magic number off.
+   * Default: DEFAULT_MAGIC_POLICY (every 5th track, any unplayed song)
+   */
+  magicPolicy?: MagicPolicy | null;
+
+  /**
+   * Minimum compatibility score to consider a song.
+   * Songs below this score are excluded.
+   * Default: 5 (out of 10)
+   */
+  minCompatibilityScore?: number;
+
+  /**
+   * Default tempo for new sessions.
+   * Default: 94
+   */
+  defaultTempo?: Tempo;
+
+  /**
+   * Strategy for scoring key compatibility.
+   * Default: the key manager's strategy
+   *
+   * Example: getBuiltInStrategy('circle-of-fifths')
+   */
+  harmonicStrategy?: HarmonicScoringStrategy;
+
+  /**
+   * Pipeline that ranks candidates.
+   * Default: createDefaultScoringPipeline()
+   */
+  scoringPipeline?: ScoringPipeline;
+
+  /**
+   * How many recent tracks' artists to steer away from.
+   * Default: 2
+   */
+  artistCooldown?: number;
+
+  /**
+   * How many runner-up candidates to include in each selection explanation.
+   * Default: 3
+   */
+  runnerUpCount?: number;
+
+  /**
+   * How to pick among the top candidates.
+   * - score: probability grows with score (the lowest in the pool gets weight 1,
+   *   each point above it adds 1)
+   * - uniform: every top candidate is equally likely
+   * Default: 'score'
+   */
+  candidateWeighting?: 'score' | 'uniform';
+
+  /**
+   * Lead/body runs to draw track types from, by weight.
+   * Default: DEFAULT_STRUCTURE_TEMPLATES (lead-body, lead-body-body, body-run)
+   */
+  structureTemplates?: readonly StructureTemplate[];
+
+  /**
+   * Template names pinned to tempos: at a pinned tempo only that template plays.
+   * Default: none
+   *
+   * Example: { 102: 'body-run' }
+   */
+  pinnedStructures?: Partial<Record<Tempo, string>>;
+
+  /**
+   * Songs and artists that must never play together.
+   * Default: none
+   */
+  pairRules?: PairRules | null;
+
+  /**
+   * Random source for set planning (planSet, planTimedSet), kept apart from
+   * the selector's own so planning never changes the live draws.
+   * Default: for a SeededRandom, a SeededRandom seeded from its seed and
+   * 'planning'; any other source is shared (its draws cannot be replayed
+   * from a seed anyway)
+   */
+  planningRandom?: RandomSource;
+}
+
+/**
+ * How many recently selected songs the selector remembers for scoring.
+ */
+const RECENT_SONG_LIMIT = 50;
+
+/**
+ * Where the candidates for a selection came from.
+ *
+ * - current-key: unplayed songs in the current key
+ * - compatible-keys: current key exhausted, unplayed songs from compatible keys
+ * - library-reset: everything played, library reset, songs in the current key
+ * - any-unplayed: unplayed songs in any key
+ * - full-reset: library reset, every song
+ * - rules-relaxed: library reset, every song, pair rules set aside (every song broke one)
+ * - magic-number: every unplayed song (magic number track)
+ * - planned: the next track of a loaded set plan
+ * - request: a queued song request (see addRequest)
+ */
+export type CandidateSource =
+  | 'current-key'
+  | 'compatible-keys'
+  | 'library-reset'
+  | 'any-unplayed'
+  | 'full-reset'
+  | 'rules-relaxed'
+  | 'magic-number'
+  | 'planned'
+  | 'request';
+
+/**
+ * Counts of songs left out of a selection, by reason.
+ */
+export interface DroppedCounts {
+  /** Songs skipped because they were already played */
+  played: number;
+
+  /** Candidates below the minimum compatibility score */
+  minScore: number;
+
+  /** Unplayed songs in other keys the compatible-key fallback left out */
+  keyFallback: number;
+
+  /** Played-history entries cleared by a library reset */
+  libraryReset: number;
+
+  /** Songs skipped because they are banned */
+  banned: number;
+
+  /** Songs skipped because a pair rule keeps them out of the set or tempo block */
+  pairRules: number;
+}
+
+/**
+ * Why a track was selected.
+ *
+ * Example:
+ *   engine.on('trackSelected', ({ explanation }) => {
+ *     console.log(explanation.source, explanation.breakdown);
+ *     // 'current-key' { harmonic: 60, tempo: 60, recency: 0, ... }
+ *   });
+ */
+export interface SelectionExplanation {
+  /** Where the candidates came from */
+  source: CandidateSource;
+
+  /** Pipeline score of the chosen song (null when not scored, e.g. magic number) */
+  score: number | null;
+
+  /** Per-factor score contributions for the chosen song */
+  breakdown: Record<string, number>;
+
+  /** Best-scored candidates that were not chosen, best first */
+  runnersUp: ScoredSong[];
+
+  /** Songs left out, by reason */
+  dropped: DroppedCounts;
+}
+
+/**
+ * Options for a song request.
+ */
+export interface SongRequestOptions {
+  /**
+   * When several requests could play, higher priority goes first.
+   * Default: 0
+   */
+  priority?: number;
+
+  /**
+   * Number of tracks within which the song must play. On the last of them
+   * the key jumps to the song's key if it still has not fitted.
+   * Default: 5
+   */
+  deadlineTracks?: number;
+}
+
+/**
+ * A queued song request.
+ */
+export interface SongRequest {
+  songId: number;
+  priority: number;
+
+  /** Track number the song must play by */
+  deadline: number;
+}
+
+/**
+ * Why a request was dropped.
+ * - unknown-song: no song with that ID in the library
+ * - played: the song was already played
+ * - banned: the song is banned (see SongLibrary.setAttributes)
+ * - deadline: the deadline passed (e.g. during a set plan, or another
+ *   request was due on the same track)
+ * - pair-rules: on its deadline track a pair rule kept the song out of the tempo block
+ */
+export type RequestDropReason =
+  | 'unknown-song'
+  | 'played'
+  | 'banned'
+  | 'deadline'
+  | 'pair-rules';
+
+/**
+ * A request dropped as impossible.
+ */
+export interface DroppedRequest {
+  request: SongRequest;
+  reason: RequestDropReason;
+}
+
+/**
+ * Selection result with chosen song and metadata.
+ */
+export interface SelectionResult {
+  /** The selected track request */
+  track: TrackRequest;
+
+  /** Whether this was a "magic number" selection */
+  wasMagicNumber: boolean;
+
+  /**
+   * What the magic number track played, or null for other tracks.
+   * Planned magic slots play as random-song (the plan picked the song).
+   */
+  magic: MagicSelection | null;
+
+  /** Number of candidates considered */
+  candidatesConsidered: number;
+
+  /** Compatibility score of selected song */
+  compatibilityScore: number;
+
+  /** Why this song was selected */
+  explanation: SelectionExplanation;
+
+  /** Request this track fulfilled, or null */
+  request: SongRequest | null;
+
+  /** Requests dropped while selecting this track */
+  droppedRequests: DroppedRequest[];
+}
+
+/**
+ * Result of selectSet().
+ */
+export interface SetSelectionResult {
+  /** The selected layers */
+  set: LayeredSet;
+
+  /** Why each layer's song was selected, in layer order */
+  explanations: SelectionExplanation[];
+}
+
+/**
+ * Constraints for planSet().
+ */
+export interface SetConstraints {
+  /**
+   * No song twice in the set, and none already played this session.
+   * Default: true
+   */
+  noRepeats?: boolean;
+
+  /**
+   * Every song must fit the key of its slot (score >= minCompatibilityScore).
+   * Magic number slots are exempt, as in live selection.
+   * Default: true
+   */
+  keyProgression?: boolean;
+
+  /**
+   * How many tracks must pass before an artist plays again (0 = no limit).
+   * Default: the artistCooldown option
+   */
+  artistSpacing?: number;
+
+  /**
+   * Stop searching after this many backtracks and return the best partial plan.
+   * Default: 1000
+   */
+  maxBacktracks?: number;
+}
+
+/**
+ * Name of a set constraint. 'pair-rules' (tempo-block rules, see PairRules)
+ * always applies when the selector has pair rules.
+ */
+export type SetConstraintName = 'no-repeat' | 'key-progression' | 'artist-spacing' | 'pair-rules';
+
+/**
+ * A constraint a planned track breaks.
+ */
+export interface ConstraintViolation {
+  /** Position in the plan (0-based) */
+  position: number;
+
+  /** Constraint that is broken */
+  constraint: SetConstraintName;
+
+  /** Song at that position */
+  songId: number;
+}
+
+/**
+ * One track of a set plan.
+ */
+export interface PlannedTrack {
+  song: Song;
+
+  /** Key of the slot the song was planned for */
+  key: MusicalKey;
+
+  /** Whether the slot is a magic number track */
+  magic: boolean;
+
+  /** Pipeline score of the song in its slot */
+  score: number;
+
+  /** Per-factor score contributions */
+  breakdown: Record<string, number>;
+
+  /** Songs that could have filled the slot */
+  candidatesConsidered: number;
+
+  /** Tempo to play the track at (default: the tempo when it plays) */
+  tempo?: Tempo;
+
+  /** Track type to play (default: the next type of the structure run) */
+  type?: TrackType;
+}
+
+/**
+ * Result of planSet().
+ *
+ * Example:
+ *   const plan = await selector.planSet(20);
+ *   if (!plan.complete) {
+ *     console.warn(plan.violations); // [{ position: 17, constraint: 'artist-spacing', songId: 42 }]
+ *   }
+ */
+export interface SetPlan {
+  /** Planned tracks in play order */
+  tracks: PlannedTrack[];
+
+  /** Whether every track satisfies every constraint */
+  complete: boolean;
+
+  /** Constraints broken by tracks after the best valid prefix */
+  violations: ConstraintViolation[];
+
+  /** Backtracks the search needed */
+  backtracks: number;
+}
+
+/**
+ * Selector state, as saved in a session snapshot. Songs are stored by ID.
+ */
+export interface SongSelectorState {
+  trackCount: number;
+  tempo: Tempo;
+  lastTrackType: TrackType;
+  lastMagicTrack: number;
+  beatsPlayed: Record<TrackType, number>;
+
+  /** Recently selected songs, most recent first */
+  recentSongIds: number[];
+
+  /** Structure run in progress (template name, next position, starting tempo) */
+  structure: { name: string; position: number; tempo: Tempo } | null;
+
+  /** Loaded set plan, next track first */
+  plannedTracks: (Omit<PlannedTrack, 'song'> & { songId: number })[];
+
+  magicPolicy: MagicPolicy | null;
+  pinnedStructures: Partial<Record<Tempo, string>>;
+
+  /** Queued song requests */
+  requests: SongRequest[];
+
+  /** Tempo block in progress: its tempo and the songs played in it so far */
+  tempoBlock: { tempo: Tempo; songIds: number[] } | null;
+}
+
+/**
+ * Resolved constraints for one planning run.
+ */
+interface SetRules {
+  noRepeats: boolean;
+  keyProgression: boolean;
+  artistSpacing: number;
+}
+
+/**
+ * Key and magic-number flag of one planned position.
+ */
+interface PlanSlot {
+  key: MusicalKey;
+  magic: boolean;
+
+  /** Fixed tempo and track type (timed sets) */
+  timing?: { tempo: Tempo; type: TrackType };
+}
+
+/**
+ * Song picked by one of the selection paths.
+ */
+interface Pick {
+  song: Song;
+  candidatesConsidered: number;
+  explanation: SelectionExplanation;
+  magic?: MagicSelection;
+}
+
+/**
+ * Selects songs using quantum randomness and harmonic compatibility.
+ *
+ * Example:
+ *   const selector = new SongSelector(library, keyManager, quantumRandom);
+ *
+ *   // Select first track
+ *   const result = await selector.selectTrack();
+ *   console.log(`Playing: ${result.track.song.artist} - ${result.track.song.title}`);
+ *
+ *   // Select next track
+ *   const next = await selector.selectTrack();
+ */
+export class SongSelector {
+  private readonly library: SongLibrary;
+  private readonly keyManager: KeyManager;
+  private readonly random: RandomSource;
+  private readonly planningRandom: RandomSource;
+
+  /** Planning source derived from a seeded random source (restarted by a full reset) */
+  private readonly derivedPlanningRandom: SeededRandom | null;
+  private readonly options: Required<
+    Omit<
+      SongSelectorOptions,
+      | 'harmonicStrategy'
+      | 'scoringPipeline'
+      | 'useMagicNumber'
+      | 'magicPolicy'
+      | 'structureTemplates'
+      | 'pinnedStructures'
+      | 'pairRules'
+      | 'planningRandom'
+    >
+  >;
+  private readonly harmonicStrategy: HarmonicScoringStrategy | null;
+  private readonly scoringPipeline: ScoringPipeline;
+  private magicPolicy: MagicPolicy | null;
+  private readonly structureTemplates: readonly StructureTemplate[];
+  private readonly pinnedStructures = new Map<Tempo, string>();
+
+  /** Structure run in progress: template, next position, and the tempo it started at */
+  private structure: { template: StructureTemplate; position: number; tempo: Tempo } | null =
+    null;
+
+  /** Beats selected so far, by track type */
+  private beatsPlayed: Record<TrackType, number> = createBeatCounts();
+
+  /** Track number of the last magic number track (0 for none) */
+  private lastMagicTrack: number = 0;
+
+  /** Recently selected songs, most recent first */
+  private recentSongs: Song[] = [];
+
+  /** Loaded set plan, next track first */
+  private plannedTracks: PlannedTrack[] = [];
+
+  /** Queued song requests, in the order they were made */
+  private requests: SongRequest[] = [];
+
+  private pairRules: PairRules | null;
+
+  /** Songs played since the tempo last changed, in play order */
+  private tempoBlock: { tempo: Tempo; songs: Song[] } | null = null;
+
+  private currentTempo: Tempo;
+  private trackCount: number = 0;
+  private lastTrackType: TrackType = 'body';
+
+  /**
+   * Create a new song selector.
+   *
+   * @param library - Song library to select from
+   * @param keyManager - Key manager for harmonic progression
+   * @param random - Random source for every random decision (e.g. QuantumRandom, SeededRandom)
+   * @param options - Selection options
+   */
+  constructor(
+    library: SongLibrary,
+    keyManager: KeyManager,
+    random: RandomSource,
+    options: SongSelectorOptions = {}
+  ) {
+    this.library = library;
+    this.keyManager = keyManager;
+    this.random = random;
+    this.derivedPlanningRandom =
+      !options.planningRandom && random instanceof SeededRandom
+        ? new SeededRandom(`${random.getSeed()}:planning`)
+        : null;
+    this.planningRandom = options.planningRandom ?? this.derivedPlanningRandom ?? random;
+
+    this.options = {
+      candidatePoolSize: options.candidatePoolSize ?? 5,
+      minCompatibilityScore: options.minCompatibilityScore ?? 5,
+      defaultTempo: options.defaultTempo ?? 94,
+      artistCooldown: options.artistCooldown ?? 2,
+      runnerUpCount: options.runnerUpCount ?? 3,
+      candidateWeighting: options.candidateWeighting ?? 'score',
+    };
+    this.harmonicStrategy = options.harmonicStrategy ?? null;
+    this.scoringPipeline = options.scoringPipeline ?? createDefaultScoringPipeline();
+    this.pairRules = options.pairRules ?? null;
+    this.magicPolicy =
+      options.magicPolicy === null || options.useMagicNumber === false
+        ? null
+        : validateMagicPolicy(options.magicPolicy ?? DEFAULT_MAGIC_POLICY);
+    this.structureTemplates = validateStructureTemplates(
+      options.structureTemplates ?? DEFAULT_STRUCTURE_TEMPLATES
+    );
+    for (const [tempo, name] of Object.entries(options.pinnedStructures ?? {})) {
+      this.setPinnedStructure(Number(tempo) as Tempo, name);
+    }
+
+    this.currentTempo = this.options.defaultTempo;
+  }
+
+  /**
+   * Select the next track to play.
+   *
+   * @returns Selection result with track and metadata
+   *
+   * Example:
+   *   const result = await selector.selectTrack();
+   *   // result.track.song = { id, artist, title, key, bpm }
+   *   // result.track.tempo = 94 (adjusted BPM)
+   *   // result.track.type = 'lead' or 'body'
+   */
+  async selectTrack(): Promise<SelectionResult> {
+    this.trackCount++;
+
+    // A loaded plan takes precedence over live selection
+    const planned = this.plannedTracks.shift() ?? null;
+    if (planned?.tempo !== undefined) {
+      this.currentTempo = planned.tempo;
+    }
+
+    // Then a queued request that is due or fits the current key
+    const droppedRequests: DroppedRequest[] = [];
+    const requested = planned ? null : this.selectRequested(droppedRequests);
+
+    // Check if this is a "magic number" track
+    const isMagicNumber = planned
+      ? planned.magic
+      : !requested && (await this.isMagicTrack(this.trackCount, this.lastMagicTrack));
+    if (isMagicNumber) {
+      this.lastMagicTrack = this.trackCount;
+    }
+
+    // Planned: the next planned song, in the key it was planned for
+    // Requested: the requested song (the key moves to it when it is due)
+    // Magic number: whatever the magic policy plays (by default any unplayed song)
+    // Normal selection: filter by key, score by compatibility
+    const { song, candidatesConsidered, explanation, magic } = planned
+      ? this.selectPlanned(planned)
+      : requested
+        ? requested
+        : isMagicNumber
+          ? await this.selectMagicNumber()
+          : await this.selectNormal();
+
+    // Whichever path picked it, a requested song fulfils its request
+    const request = this.requests.find((candidate) => candidate.songId === song.id) ?? null;
+    this.requests = this.requests.filter((candidate) => candidate !== request);
+
+    // A sample interlude is a short lead outside the library; it leaves the
+    // played list and the lead/body rhythm alone
+    const isInterlude = magic?.behavior === 'sample-interlude';
+
+    // Determine track type (lead vs body)
+    let trackType: TrackType;
+    if (isInterlude) {
+      trackType = 'lead';
+    } else if (planned?.type !== undefined) {
+      trackType = planned.type;
+      this.lastTrackType = planned.type;
+    } else {
+      trackType = await this.determineTrackType();
+    }
+    this.beatsPlayed[trackType] += BEAT_COUNTS[trackType];
+
+    // Mark song as played
+    if (!isInterlude) {
+      this.library.markPlayed(song.id);
+      this.addToTempoBlock([song]);
+      this.recentSongs.unshift(song);
+      if (this.recentSongs.length > RECENT_SONG_LIMIT) {
+        this.recentSongs.length = RECENT_SONG_LIMIT;
+      }
+    }
+
+    // Move to next key (unless this was first track)
+    if (this.trackCount > 1) {
+      this.keyManager.next();
+    }
+
+    // Calculate compatibility score
+    const compatibilityScore = this.scoreKey(
+      this.keyManager.getCurrentMusicalKey(),
+      getSongMusicalKey(song)
+    );
+
+    return {
+      track: {
+        song,
+        tempo: this.currentTempo,
+        type: trackType,
+      },
+      wasMagicNumber: isMagicNumber,
+      magic: magic ?? null,
+      candidatesConsidered,
+      compatibilityScore,
+      explanation,
+      request,
+      droppedRequests,
+    };
+  }
+
+  /**
+   * Select a layered set: one song per layer, all playing at once.
+   *
+   * Counts as one track for the key walk. Layers are filled in layout order;
+   * each draws from unplayed songs in its own key (widening to compatible keys,
+   * then any unplayed song, then a library reset), never repeats a song or an
+   * artist already in the set, never breaks a pair rule, and is ranked by the
+   * scoring pipeline with the usual artist cooldown. A partner layer is scored
+   * against the main layer.
+   *
+   * @param layout - Layers to fill (default: main + partner)
+   * @returns The set and an explanation per layer
+   * @throws Error if the layout is invalid
+   *
+   * Example:
+   *   const { set } = await selector.selectSet(PAIR_WITH_HIDDEN_LAYOUT);
+   *   set.layers.map((layer) => `${layer.role}: ${layer.song.title}`);
+   */
+  async selectSet(layout: readonly LayerSpec[] = PAIR_LAYOUT): Promise<SetSelectionResult> {
+    validateLayout(layout);
+    this.trackCount++;
+
+    const setKey = this.keyManager.getCurrentMusicalKey();
+    const layers: Layer[] = [];
+    const explanations: SelectionExplanation[] = [];
+
+    for (const spec of layout) {
+      const key = getLayerKey(setKey, spec);
+      const main = layers.find((layer) => layer.role === 'main');
+      const chosen = layers.map((layer) => layer.song);
+
+      const { candidates, source, dropped } = this.getLayerCandidates(key, chosen);
+      const scored = this.scoringPipeline.rank(candidates, {
+        ...this.getScoringContext(),
+        key,
+        partner: spec.role === 'partner' ? main?.song : undefined,
+        layeredWith: chosen,
+        avoidArtists: [
+          ...chosen.map((song) => song.artist),
+          ...this.recentSongs.slice(0, this.options.artistCooldown).map((song) => song.artist),
+        ],
+      });
+      dropped.minScore = candidates.length - scored.length;
+
+      const selected = await this.selectFromTopCandidates(
+        scored.length > 0
+          ? scored
+          : this.scoringPipeline.rank(candidates, { ...this.getScoringContext(), key }),
+        candidates
+      );
+      this.library.markPlayed(selected.song.id);
+
+      layers.push({ song: selected.song, role: spec.role, key });
+      explanations.push({
+        source,
+        score: selected.score,
+        breakdown: selected.breakdown,
+        runnersUp: scored
+          .filter((item) => item.song.id !== selected.song.id)
+          .slice(0, this.options.runnerUpCount),
+        dropped,
+      });
+    }
+
+    this.addToTempoBlock(layers.map((layer) => layer.song));
+    for (const layer of layers) {
+      this.recentSongs.unshift(layer.song);
+    }
+    if (this.recentSongs.length > RECENT_SONG_LIMIT) {
+      this.recentSongs.length = RECENT_SONG_LIMIT;
+    }
+
+    // Move to next key (unless this was first track)
+    if (this.trackCount > 1) {
+      this.keyManager.next();
+    }
+
+    return { set: { layers, key: setKey, tempo: this.currentTempo }, explanations };
+  }
+
+  /**
+   * Plan the next `length` tracks ahead of time.
+   *
+   * Searches depth-first with backtracking for a sequence that satisfies
+   * every constraint, trying the best-scored songs first (the first choice
+   * at each step is drawn like a live selection, so plans vary). If no full
+   * solution turns up within the backtrack budget, the best valid prefix is
+   * completed with the songs that break the fewest constraints, and those
+   * violations are listed.
+   *
+   * Planning does not change the selector: its draws (first choices, random
+   * magic intervals, random key walks) come from the planning random source.
+   * Pass the plan to loadPlan() to play it.
+   *
+   * @param length - Number of tracks to plan
+   * @param constraints - Set constraints
+   * @returns The plan
+   * @throws Error if length is not a positive integer or a constraint value is invalid
+   *
+   * Example:
+   *   const plan = await selector.planSet(20, { artistSpacing: 4 });
+   *   selector.loadPlan(plan);
+   *   await selector.selectTrack(); // plan.tracks[0]
+   */
+  async planSet(length: number, constraints: SetConstraints = {}): Promise<SetPlan> {
+    if (!Number.isInteger(length) || length < 1) {
+      throw new Error(`length must be a positive integer, got ${length}`);
+    }
+
+    return this.fillPlan(await this.getPlanSlots(length), constraints);
+  }
+
+  /**
+   * Plan a set to a time budget (see buildTimeline for the layout).
+   *
+   * Tempos ramp to endTempo and every track has a fixed type, so the set
+   * lands within one bar of the target; the last track is cut to whole bars
+   * (its timeline entry has fewer beats). Songs are planned like planSet().
+   * Loading the plan plays each track at its planned tempo and type.
+   *
+   * @param options - Target duration, end tempo or key, constraints
+   * @returns The plan with its timeline
+   * @throws Error if the duration is too short or a constraint value is invalid
+   *
+   * Example:
+   *   const plan = await selector.planTimedSet({ duration: 45 * 60, endTempo: 102 });
+   *   plan.timeline.at(-1); // { start: 2663.5, duration: 37.6, beats: 64, tempo: 102, type: 'body' }
+   */
+  async planTimedSet(options: TimedSetOptions): Promise<TimedSetPlan> {
+    const endTempo = options.endTempo ?? this.currentTempo;
+    const timeline = buildTimeline(options.duration, this.currentTempo, endTempo);
+
+    const slots = await this.getPlanSlots(timeline.length, options.endKey);
+    slots.forEach((slot, position) => {
+      const { tempo, type } = timeline[position]!;
+      slot.timing = { tempo, type };
+    });
+    const plan = await this.fillPlan(slots, options.constraints ?? {});
+
+    const last = timeline[timeline.length - 1]!;
+    return {
+      ...plan,
+      timeline,
+      duration: last.start + last.duration,
+      tolerance: getBarDuration(endTempo),
+    };
+  }
+
+  /**
+   * Fill plan slots with songs: depth-first search with backtracking,
+   * then a least-bad completion (see planSet).
+   */
+  private async fillPlan(slots: PlanSlot[], constraints: SetConstraints): Promise<SetPlan> {
+    const length = slots.length;
+    const rules: SetRules = {
+      noRepeats: constraints.noRepeats ?? true,
+      keyProgression: constraints.keyProgression ?? true,
+      artistSpacing: constraints.artistSpacing ?? this.options.artistCooldown,
+    };
+    const maxBacktracks = constraints.maxBacktracks ?? 1000;
+    if (!Number.isInteger(rules.artistSpacing) || rules.artistSpacing < 0) {
+      throw new Error(`artistSpacing must be a non-negative integer, got ${rules.artistSpacing}`);
+    }
+    if (!Number.isInteger(maxBacktracks) || maxBacktracks < 0) {
+      throw new Error(`maxBacktracks must be a non-negative integer, got ${maxBacktracks}`);
+    }
+
+    const sequence: PlannedTrack[] = [];
+    let best: PlannedTrack[] = [];
+    let backtracks = 0;
+
+    const search = async (position: number): Promise<boolean> => {
+      if (position === length) return true;
+
+      const candidates = await this.getPlanCandidates(slots[position]!, sequence, rules);
+      for (const candidate of candidates) {
+        if (backtracks >= maxBacktracks) return false;
+
+        sequence.push(candidate);
+        if (sequence.length > best.length) {
+          best = [...sequence];
+        }
+        if (await search(position + 1)) return true;
+
+        sequence.pop();
+        backtracks++;
+      }
+
+      return false;
+    };
+
+    if (await search(0)) {
+      return { tracks: [...sequence], complete: true, violations: [], backtracks };
+    }
+
+    // No full solution: complete the best prefix with the least-bad songs
+    const tracks = [...best];
+    const violations: ConstraintViolation[] = [];
+    for (let position = tracks.length; position < length; position++) {
+      const slot = slots[position]!;
+      const ranked = this.scoringPipeline.rank(
+        this.library.getAllSongs(),
+        this.getPlanContext(slot, tracks)
+      );
+
+      let pick: ScoredSong | null = null;
+      let pickViolations: SetConstraintName[] = [];
+      for (const item of ranked) {
+        const broken = this.getViolations(item.song, slot, tracks, rules);
+        if (!pick || broken.length < pickViolations.length) {
+          pick = item;
+          pickViolations = broken;
+        }
+        if (broken.length === 0) break;
+      }
+
+      // Every song rejected by the pipeline: fall back to a playable song the
+      // pair rules allow in the slot's tempo block (any playable song if none is)
+      const playable = this.getPlayableSongs();
+      const block = this.getPlanTempoBlock(slot, tracks);
+      const allowed = playable.filter((song) =>
+        block.every((other) => this.pairRules?.canShareTempoBlock(song, other) ?? true)
+      );
+      const fallback = allowed.length > 0 ? allowed : playable;
+      const song = pick?.song ?? fallback[position % fallback.length]!;
+      if (!pick) {
+        pickViolations = this.getViolations(song, slot, tracks, rules);
+      }
+
+      tracks.push({
+        song,
+        key: slot.key,
+        magic: slot.magic,
+        score: pick?.score ?? 0,
+        breakdown: pick?.breakdown ?? {},
+        candidatesConsidered: ranked.length,
+        ...slot.timing,
+      });
+      for (const constraint of pickViolations) {
+        violations.push({ position, constraint, songId: song.id });
+      }
+    }
+
+    return { tracks, complete: violations.length === 0, violations, backtracks };
+  }
+
+  /**
+   * Play a set plan: the next selectTrack() calls return its tracks in order,
+   * then live selection resumes.
+   *
+   * @param plan - Plan from planSet() (or tracks built by hand)
+   * @throws Error if a planned song is not in the library
+   */
+  loadPlan(plan: SetPlan | readonly PlannedTrack[]): void {
+    const tracks = 'tracks' in plan ? plan.tracks : plan;
+    for (const track of tracks) {
+      if (!this.library.getSongById(track.song.id)) {
+        throw new Error(`Planned song ${track.song.id} is not in the library`);
+      }
+    }
+
+    this.plannedTracks = [...tracks];
+  }
+
+  /**
+   * Drop the rest of the loaded plan and go back to live selection.
+   */
+  clearPlan(): void {
+    this.plannedTracks = [];
+  }
+
+  /**
+   * Get the planned tracks that have not been played yet.
+   */
+  getPlannedTracks(): readonly PlannedTrack[] {
+    return [...this.plannedTracks];
+  }
+
+  /**
+   * Queue a song to play soon. It plays on the first live track (not planned)
+   * whose key it is compatible with, or on its last track before the
+   * deadline with the key moved to the song's key. A request track is never
+   * a magic number track. Requesting a queued song again replaces its request.
+   * Requests for banned songs are dropped, also when the ban comes later.
+   *
+   * @param songId - Song to play
+   * @param options - Priority and deadline
+   * @returns The request, and why it was dropped (null when it was queued)
+   * @throws Error if priority is not a finite number or deadlineTracks is not a positive integer
+   *
+   * Example:
+   *   selector.addRequest(42, { priority: 1, deadlineTracks: 3 });
+   */
+  addRequest(
+    songId: number,
+    options: SongRequestOptions = {}
+  ): { request: SongRequest; dropped: RequestDropReason | null } {
+    const priority = options.priority ?? 0;
+    const deadlineTracks = options.deadlineTracks ?? 5;
+    if (!Number.isFinite(priority)) {
+      throw new Error(`Request priority must be a finite number, got ${priority}`);
+    }
+    if (!Number.isInteger(deadlineTracks) || deadlineTracks < 1) {
+      throw new Error(`deadlineTracks must be a positive integer, got ${deadlineTracks}`);
+    }
+
+    const request: SongRequest = { songId, priority, deadline: this.trackCount + deadlineTracks };
+    const dropped = !this.library.getSongById(songId)
+      ? 'unknown-song'
+      : this.library.isPlayed(songId)
+        ? 'played'
+        : this.library.isBanned(songId)
+          ? 'banned'
+          : null;
+
+    if (dropped === null) {
+      this.requests = [...this.requests.filter((queued) => queued.songId !== songId), request];
+    }
+    return { request, dropped };
+  }
+
+  /**
+   * Remove a song's request from the queue.
+   *
+   * @returns Whether a request was removed
+   */
+  cancelRequest(songId: number): boolean {
+    const count = this.requests.length;
+    this.requests = this.requests.filter((request) => request.songId !== songId);
+    return this.requests.length < count;
+  }
+
+  /**
+   * Get the queued requests, in the order they were made.
+   */
+  getRequests(): readonly SongRequest[] {
+    return [...this.requests];
+  }
+
+  /**
+   * Whether a track (1-based) is a magic number track under the policy.
+   */
+  private async isMagicTrack(
+    trackNumber: number,
+    lastMagicTrack: number,
+    random: RandomSource = this.random
+  ): Promise<boolean> {
+    if (!this.magicPolicy) return false;
+
+    return isMagicTrack(
+      this.magicPolicy.interval ?? DEFAULT_MAGIC_POLICY.interval,
+      trackNumber,
+      lastMagicTrack,
+      random
+    );
+  }
+
+  /**
+   * Work out the key and magic-number flag of each upcoming track,
+   * stepping a copy of the key manager the way selectTrack() steps the real one.
+   * Random magic intervals are drawn now and fixed in the plan.
+   *
+   * With an end key, the walk starts from the key closest to the current one
+   * whose walk ends there; if none does, the last slot is moved to the end key.
+   */
+  private async getPlanSlots(length: number, endKey?: Key): Promise<PlanSlot[]> {
+    const keys = this.clonePlanKeys();
+    const startKey = endKey === undefined ? null : this.getPlanStartKey(length, endKey);
+    if (startKey !== null) {
+      keys.setKey(startKey);
+    }
+    const slots: PlanSlot[] = [];
+    let lastMagicTrack = this.lastMagicTrack;
+
+    for (let i = 0; i < length; i++) {
+      const trackNumber = this.trackCount + i + 1;
+      const magic = await this.isMagicTrack(trackNumber, lastMagicTrack, this.planningRandom);
+      if (magic) {
+        lastMagicTrack = trackNumber;
+      }
+      slots.push({ key: keys.getCurrentMusicalKey(), magic });
+      if (trackNumber > 1) {
+        keys.next();
+      }
+    }
+
+    if (endKey !== undefined && startKey === null) {
+      const last = slots[slots.length - 1]!;
+      last.key = { key: endKey, mode: last.key.mode };
+    }
+
+    return slots;
+  }
+
+  /**
+   * Key to start a plan of `length` tracks from so the key walk ends on endKey,
+   * preferring the current key, then the most compatible keys. Null if no
+   * start key gets there (e.g. a random walk).
+   */
+  private getPlanStartKey(length: number, endKey: Key): Key | null {
+    const current = this.keyManager.getCurrentMusicalKey();
+    const starts = ALL_KEYS.map((key) => ({
+      key,
+      score:
+        key === current.key ? Infinity : this.scoreKey(current, { key, mode: current.mode }),
+    })).sort((a, b) => b.score - a.score);
+
+    for (const { key } of starts) {
+      const keys = this.clonePlanKeys();
+      keys.setKey(key);
+      for (let i = 0; i < length - 1; i++) {
+        if (this.trackCount + i + 1 > 1) {
+          keys.next();
+        }
+      }
+      if (keys.getCurrentKey() === endKey) return key;
+    }
+
+    return null;
+  }
+
+  /**
+   * Copy of the key manager for planning, walking on the planning random source.
+   */
+  private clonePlanKeys(): KeyManager {
+    return this.keyManager.clone(() => this.planningRandom.nextFloat('key-walk'));
+  }
+
+  /**
+   * Songs that can fill a slot without breaking a constraint, best first.
+   * The first one is drawn from the top candidates like a live pick.
+   */
+  private async getPlanCandidates(
+    slot: PlanSlot,
+    sequence: readonly PlannedTrack[],
+    rules: SetRules
+  ): Promise<PlannedTrack[]> {
+    const valid = this.library
+      .getAllSongs()
+      .filter((song) => this.getViolations(song, slot, sequence, rules).length === 0);
+    const ranked = this.scoringPipeline.rank(valid, this.getPlanContext(slot, sequence));
+    if (ranked.length === 0) return [];
+
+    const first = await this.selectFromTopCandidates(ranked, valid, this.planningRandom);
+    const ordered = [first, ...ranked.filter((item) => item.song.id !== first.song.id)];
+
+    return ordered.map((item) => ({
+      song: item.song,
+      key: slot.key,
+      magic: slot.magic,
+      score: item.score ?? 0,
+      breakdown: item.breakdown,
+      candidatesConsidered: ranked.length,
+      ...slot.timing,
+    }));
+  }
+
+  /**
+   * List the constraints a song would break in a slot after a partial plan.
+   */
+  private getViolations(
+    song: Song,
+    slot: PlanSlot,
+    sequence: readonly PlannedTrack[],
+    rules: SetRules
+  ): SetConstraintName[] {
+    const violations: SetConstraintName[] = [];
+
+    if (
+      rules.noRepeats &&
+      (this.library.isPlayed(song.id) || sequence.some((track) => track.song.id === song.id))
+    ) {
+      violations.push('no-repeat');
+    }
+
+    if (
+      rules.keyProgression &&
+      !slot.magic &&
+      this.scoreKey(slot.key, getSongMusicalKey(song)) < this.options.minCompatibilityScore
+    ) {
+      violations.push('key-progression');
+    }
+
+    const recentArtists = this.getPlanHistory(sequence)
+      .slice(0, rules.artistSpacing)
+      .map((s) => s.artist);
+    if (recentArtists.some((artist) => artistsMatch(song.artist, artist))) {
+      violations.push('artist-spacing');
+    }
+
+    const pairRules = this.pairRules;
+    if (
+      pairRules &&
+      this.getPlanTempoBlock(slot, sequence).some(
+        (other) => !pairRules.canShareTempoBlock(song, other)
+      )
+    ) {
+      violations.push('pair-rules');
+    }
+
+    return violations;
+  }
+
+  /**
+   * Scoring context for a planned slot: the partial plan counts as played.
+   */
+  private getPlanContext(slot: PlanSlot, sequence: readonly PlannedTrack[]): ScoringContext {
+    const history = this.getPlanHistory(sequence);
+    const plannedIds = new Set(sequence.map((track) => track.song.id));
+
+    return {
+      ...this.getScoringContext(),
+      key: slot.key,
+      tempo: slot.timing?.tempo ?? this.currentTempo,
+      avoidArtists: history.slice(0, this.options.artistCooldown).map((s) => s.artist),
+      recentSongs: history,
+      tempoBlock: this.getPlanTempoBlock(slot, sequence),
+      isPlayed: (songId) => plannedIds.has(songId) || this.library.isPlayed(songId),
+    };
+  }
+
+  /**
+   * Songs in the tempo block a planned slot falls in: the plan's tracks back
+   * to the last tempo change, plus the live block when the plan continues it.
    */
-  useMagicNumber?: boolean;
+  private getPlanTempoBlock(slot: PlanSlot, sequence: readonly PlannedTrack[]): Song[] {
+    const tempo = slot.timing?.tempo ?? this.currentTempo;
+    const block: Song[] = [];
+
+    for (let i = sequence.length - 1; i >= 0; i--) {
+      if ((sequence[i]!.tempo ?? this.currentTempo) !== tempo) return block;
+      block.push(sequence[i]!.song);
+    }
+    return [...block, ...this.getTempoBlock(tempo)];
+  }
 
   /**
-   * Minimum compatibility score to consider a song.
-   * Songs below this score are excluded.
-   * Default: 5 (out of 10)
+   * Songs played so far in the live tempo block, if it is at this tempo.
    */
-  minCompatibilityScore?: number;
+  private getTempoBlock(tempo: Tempo = this.currentTempo): Song[] {
+    return this.tempoBlock?.tempo === tempo ? this.tempoBlock.songs : [];
+  }
 
   /**
-   * Default tempo for new sessions.
-   * Default: 94
+   * Whether the pair rules let a song play now: at the same time as
+   * `layeredWith`, and in the live tempo block.
    */
-  defaultTempo?: Tempo;
-}
-
-/**
- * Selection result with chosen song and metadata.
- */
-export interface SelectionResult {
-  /** The selected track request */
-  track: TrackRequest;
-
-  /** Whether this was a "magic number" selection */
-  wasMagicNumber: boolean;
-
-  /** Number of candidates considered */
-  candidatesConsidered: number;
+  private allowedByPairRules(song: Song, layeredWith: readonly Song[] = []): boolean {
+    const rules = this.pairRules;
+    if (!rules) return true;
 
-  /** Compatibility score of selected song */
-  compatibilityScore: number;
-}
+    return (
+      layeredWith.every((other) => rules.canPair(song, other)) &&
+      this.getTempoBlock().every((other) => rules.canShareTempoBlock(song, other))
+    );
+  }
 
-/**
- * Selects songs using quantum randomness and harmonic compatibility.
- *
- * Example:
- *   const selector = new SongSelector(library, keyManager, quantumRandom);
- *
- *   // Select first track
- *   const result = await selector.selectTrack();
- *   console.log(`Playing: ${result.track.song.artist} - ${result.track.song.title}`);
- *
- *   // Select next track
- *   const next = await selector.selectTrack();
- */
-export class SongSelector {
-  private readonly library: SongLibrary;
-  private readonly keyManager: KeyManager;
-  private readonly qrng: QuantumRandom;
-  private readonly options: Required<SongSelectorOptions>;
+  /**
+   * Add songs to the live tempo block, starting a new block if the tempo changed.
+   */
+  private addToTempoBlock(songs: Song[]): void {
+    if (this.tempoBlock?.tempo !== this.currentTempo) {
+      this.tempoBlock = { tempo: this.currentTempo, songs: [] };
+    }
+    this.tempoBlock.songs.push(...songs);
+  }
 
-  private currentTempo: Tempo;
-  private trackCount: number = 0;
-  private lastTrackType: 'lead' | 'body' = 'body';
+  /**
+   * Songs before a planned slot, most recent first: the partial plan, then real history.
+   */
+  private getPlanHistory(sequence: readonly PlannedTrack[]): Song[] {
+    return [...sequence.map((track) => track.song).reverse(), ...this.recentSongs];
+  }
 
   /**
-   * Create a new song selector.
-   *
-   * @param library - Song library to select from
-   * @param keyManager - Key manager for harmonic progression
-   * @param quantumRandom - Quantum random number generator
-   * @param options - Selection options
+   * Planned selection: play the planned song in the key it was planned for.
    */
-  constructor(
-    library: SongLibrary,
-    keyManager: KeyManager,
-    quantumRandom: QuantumRandom,
-    options: SongSelectorOptions = {}
-  ) {
-    this.library = library;
-    this.keyManager = keyManager;
-    this.qrng = quantumRandom;
+  private selectPlanned(planned: PlannedTrack): Pick {
+    this.keyManager.setKey(planned.key.key, planned.key.mode);
 
-    this.options = {
-      candidatePoolSize: options.candidatePoolSize ?? 5,
-      useMagicNumber: options.useMagicNumber ?? true,
-      minCompatibilityScore: options.minCompatibilityScore ?? 5,
-      defaultTempo: options.defaultTempo ?? 94,
+    return {
+      song: planned.song,
+      candidatesConsidered: planned.candidatesConsidered,
+      explanation: {
+        source: 'planned',
+        score: planned.score,
+        breakdown: planned.breakdown,
+        runnersUp: [],
+        dropped: createDroppedCounts(),
+      },
+      magic: planned.magic ? { behavior: 'random-song', relaxed: false } : undefined,
     };
-
-    this.currentTempo = this.options.defaultTempo;
   }
 
   /**
-   * Select the next track to play.
-   *
-   * @returns Selection result with track and metadata
-   *
-   * Example:
-   *   const result = await selector.selectTrack();
-   *   // result.track.song = { id, artist, title, key, bpm }
-   *   // result.track.tempo = 94 (adjusted BPM)
-   *   // result.track.type = 'lead' or 'body'
+   * Pick a queued request for this track, if any. A request due on this
+   * track wins (compatible ones first, then by priority) and moves the key to
+   * its song; otherwise the highest-priority request compatible with the
+   * current key plays. A request a pair rule keeps out of the tempo block
+   * waits. Requests that can no longer play are dropped.
    */
-  async selectTrack(): Promise<SelectionResult> {
-    this.trackCount++;
-
-    // Check if this is a "magic number" track
-    const isMagicNumber = this.options.useMagicNumber && this.trackCount % 5 === 0;
-
-    let song: Song;
-    let candidatesConsidered: number;
+  private selectRequested(dropped: DroppedRequest[]): Pick | null {
+    const drop = (request: SongRequest, reason: RequestDropReason): void => {
+      dropped.push({ request, reason });
+      this.requests = this.requests.filter((queued) => queued !== request);
+    };
 
-    if (isMagicNumber) {
-      // Magic number: select from all unplayed songs (no key constraint)
-      const result = await this.selectMagicNumber();
-      song = result.song;
-      candidatesConsidered = result.candidatesConsidered;
-    } else {
-      // Normal selection: filter by key, score by compatibility
-      const result = await this.selectNormal();
-      song = result.song;
-      candidatesConsidered = result.candidatesConsidered;
+    for (const request of this.requests) {
+      if (request.deadline < this.trackCount) drop(request, 'deadline');
+      else if (this.library.isPlayed(request.songId)) drop(request, 'played');
+      else if (this.library.isBanned(request.songId)) drop(request, 'banned');
     }
 
-    // Determine track type (lead vs body)
-    const trackType = this.determineTrackType(song);
+    const currentKey = this.keyManager.getCurrentMusicalKey();
+    const isCompatible = (request: SongRequest): boolean =>
+      this.scoreKey(currentKey, getSongMusicalKey(this.library.getSongById(request.songId)!)) >=
+      this.options.minCompatibilityScore;
+    const byPriority = [...this.requests].sort((a, b) => b.priority - a.priority);
+    const allowed = byPriority.filter((request) =>
+      this.allowedByPairRules(this.library.getSongById(request.songId)!)
+    );
+    const due = allowed.filter((request) => request.deadline === this.trackCount);
 
-    // Mark song as played
-    this.library.markPlayed(song.id);
+    const chosen = due.find(isCompatible) ?? due[0] ?? allowed.find(isCompatible);
 
-    // Move to next key (unless this was first track)
-    if (this.trackCount > 1) {
-      this.keyManager.next();
+    for (const request of byPriority) {
+      if (request.deadline === this.trackCount && request !== chosen) {
+        drop(request, allowed.includes(request) ? 'deadline' : 'pair-rules');
+      }
     }
+    if (!chosen) return null;
 
-    // Calculate compatibility score
-    const compatibilityScore = this.keyManager.scoreFromCurrent(song.key);
+    const song = this.library.getSongById(chosen.songId)!;
+    if (!isCompatible(chosen)) {
+      const songKey = getSongMusicalKey(song);
+      this.keyManager.setKey(songKey.key, songKey.mode);
+    }
 
     return {
-      track: {
-        song,
-        tempo: this.currentTempo,
-        type: trackType,
+      song,
+      candidatesConsidered: 1,
+      explanation: {
+        source: 'request',
+        score: null,
+        breakdown: {},
+        runnersUp: [],
+        dropped: createDroppedCounts(),
       },
-      wasMagicNumber: isMagicNumber,
-      candidatesConsidered,
-      compatibilityScore,
     };
   }
 
   /**
    * Normal selection: filter by key, score by compatibility.
+   * Songs a pair rule keeps out of the tempo block are left out at every step.
    */
-  private async selectNormal(): Promise<{ song: Song; candidatesConsidered: number }> {
-    const currentKey = this.keyManager.getCurrentKey();
+  private async selectNormal(): Promise<Pick> {
+    const currentKey = this.keyManager.getCurrentMusicalKey();
+    const keyFilter = toKeyFilter(currentKey);
+    const dropped = createDroppedCounts();
+    let source: CandidateSource = 'current-key';
+    const blocked = new Set<number>();
+    const allowed = (songs: Song[]): Song[] =>
+      songs.filter((song) => {
+        if (this.allowedByPairRules(song)) return true;
+        blocked.add(song.id);
+        return false;
+      });
 
     // Get unplayed songs in current key
-    let candidates = this.library.getUnplayed({
-      key: currentKey,
-    });
+    let candidates = this.library.getUnplayed(keyFilter);
+    countSkipped(this.library, keyFilter, candidates, dropped);
+    candidates = allowed(candidates);
 
     // If no candidates in current key, expand to compatible keys
     if (candidates.length === 0) {
-      candidates = this.getCompatibleCandidates();
+      source = 'compatible-keys';
+      candidates = allowed(this.getCompatibleCandidates());
+      dropped.keyFallback = this.library.getUnplayed().length - candidates.length;
+    }
+
+    // If a pair rule emptied the pool, any unplayed song comes before replays
+    if (candidates.length === 0 && blocked.size > 0) {
+      source = 'any-unplayed';
+      candidates = allowed(this.library.getUnplayed());
     }
 
     // If still no candidates, reset and try again
     if (candidates.length === 0) {
+      source = 'library-reset';
+      dropped.libraryReset += this.library.getPlayedCount();
       this.library.reset();
-      candidates = this.library.filter({ key: currentKey });
+      candidates = allowed(this.library.filter({ ...keyFilter, excludeBanned: true }));
     }
 
     // If STILL no candidates, get any unplayed song
     if (candidates.length === 0) {
-      candidates = this.library.getUnplayed();
+      source = 'any-unplayed';
+      candidates = allowed(this.library.getUnplayed());
     }
 
     // Last resort: reset everything
     if (candidates.length === 0) {
+      source = 'full-reset';
+      dropped.libraryReset += this.library.getPlayedCount();
       this.library.reset();
-      candidates = this.library.getAllSongs() as Song[];
+      candidates = allowed(this.getPlayableSongs());
     }
 
+    // Every song breaks a pair rule: set the rules aside rather than fail
+    if (candidates.length === 0) {
+      source = 'rules-relaxed';
+      candidates = this.getPlayableSongs();
+    }
+
+    dropped.pairRules = blocked.size;
     const candidatesConsidered = candidates.length;
 
     // Score and filter by compatibility
     const scored = this.scoreCandidates(candidates);
+    dropped.minScore = candidates.length - scored.length;
 
     // Select from top candidates
-    const song = await this.selectFromTopCandidates(scored);
+    const selected = await this.selectFromTopCandidates(scored, candidates);
+
+    return {
+      song: selected.song,
+      candidatesConsidered,
+      explanation: {
+        source,
+        score: selected.score,
+        breakdown: selected.breakdown,
+        runnersUp: scored
+          .filter((item) => item.song.id !== selected.song.id)
+          .slice(0, this.options.runnerUpCount),
+        dropped,
+      },
+    };
+  }
+
+  /**
+   * Candidates for one layer of a set, widening until something is left:
+   * the layer key, compatible keys, any unplayed song, then a library reset.
+   * Songs and artists already in the set are always left out, unless nothing
+   * else remains after the reset. So are songs a pair rule keeps out of the
+   * set or the tempo block; the rules are only set aside when every other
+   * song breaks one.
+   */
+  private getLayerCandidates(
+    key: MusicalKey,
+    chosen: readonly Song[]
+  ): { candidates: Song[]; source: CandidateSource; dropped: DroppedCounts } {
+    const dropped = createDroppedCounts();
+    const fitsSet = (song: Song): boolean =>
+      !chosen.some((other) => other.id === song.id || artistsMatch(song.artist, other.artist)) &&
+      this.allowedByPairRules(song, chosen);
+
+    const keyFilter = toKeyFilter(key);
+    const unplayedInKey = this.library.getUnplayed(keyFilter);
+    countSkipped(this.library, keyFilter, unplayedInKey, dropped);
+    dropped.pairRules = unplayedInKey.filter(
+      (song) => !this.allowedByPairRules(song, chosen)
+    ).length;
+    const inKey = unplayedInKey.filter(fitsSet);
+    if (inKey.length > 0) {
+      return { candidates: inKey, source: 'current-key', dropped };
+    }
+
+    const unplayed = this.library.getUnplayed().filter(fitsSet);
+    const compatible = unplayed.filter(
+      (song) => this.scoreKey(key, getSongMusicalKey(song)) >= this.options.minCompatibilityScore
+    );
+    if (compatible.length > 0) {
+      dropped.keyFallback = unplayed.length - compatible.length;
+      return { candidates: compatible, source: 'compatible-keys', dropped };
+    }
 
-    return { song, candidatesConsidered };
+    if (unplayed.length > 0) {
+      return { candidates: unplayed, source: 'any-unplayed', dropped };
+    }
+
+    // Reset, but keep this set's songs played
+    dropped.libraryReset = this.library.getPlayedCount() - chosen.length;
+    this.library.reset();
+    chosen.forEach((song) => this.library.markPlayed(song.id));
+
+    const afterReset = this.library.getUnplayed().filter(fitsSet);
+    if (afterReset.length > 0) {
+      return { candidates: afterReset, source: 'library-reset', dropped };
+    }
+
+    // Every other song shares an artist with the set: allow it rather than fail
+    const anyOther = this.library
+      .getAllSongs()
+      .filter((song) => !chosen.some((c) => c.id === song.id));
+    if (anyOther.length === 0) {
+      return { candidates: [...this.library.getAllSongs()], source: 'full-reset', dropped };
+    }
+    const allowed = anyOther.filter((song) => this.allowedByPairRules(song, chosen));
+    if (allowed.length > 0) {
+      return { candidates: allowed, source: 'full-reset', dropped };
+    }
+
+    // Every other song breaks a pair rule: set the rules aside rather than fail
+    return { candidates: anyOther, source: 'rules-relaxed', dropped };
   }
 
   /**
-   * Magic number selection: broader selection from all unplayed songs.
+   * Magic number selection: play one of the policy's behaviors,
+   * drawing from all unplayed songs (no key filter unless the policy asks for one).
    */
-  private async selectMagicNumber(): Promise<{ song: Song; candidatesConsidered: number }> {
+  private async selectMagicNumber(): Promise<Pick> {
+    const policy: MagicPolicy = this.magicPolicy ?? DEFAULT_MAGIC_POLICY;
+    const dropped = createDroppedCounts();
+
+    const behaviors = getMagicBehaviors(policy);
+    const behavior =
+      behaviors.length === 1 ? behaviors[0]! : await this.random.getChoice(behaviors, 'magic-behavior');
+
+    if (behavior === 'sample-interlude') {
+      const samples = policy.samples ?? [];
+      const song = await this.random.getChoice(samples, 'magic-sample');
+      return {
+        song,
+        candidatesConsidered: samples.length,
+        explanation: { source: 'magic-number', score: null, breakdown: {}, runnersUp: [], dropped },
+        magic: { behavior, relaxed: false },
+      };
+    }
+
+    let tempo: Tempo | undefined;
+    if (behavior === 'tempo-jump') {
+      tempo = await this.random.getChoice(
+        ALL_TEMPOS.filter((t) => t !== this.currentTempo),
+        'magic-tempo'
+      );
+      this.currentTempo = tempo;
+    }
+
     // Get all unplayed songs (no key filter)
     let candidates = this.library.getUnplayed();
+    dropped.played = this.library.getPlayedCount();
 
     // If no unplayed songs, reset
     if (candidates.length === 0) {
+      dropped.libraryReset = this.library.getPlayedCount();
       this.library.reset();
-      candidates = this.library.getAllSongs() as Song[];
+      candidates = this.getPlayableSongs();
     }
 
-    const candidatesConsidered = candidates.length;
+    // Keep to the pair rules, replaying songs before setting the rules aside
+    let allowed = candidates.filter((song) => this.allowedByPairRules(song));
+    if (allowed.length === 0) {
+      allowed = this.getPlayableSongs().filter((song) => this.allowedByPairRules(song));
+    }
+    const rulesRelaxed = allowed.length === 0;
+    if (!rulesRelaxed) {
+      candidates = allowed;
+    }
+
+    // Apply the policy's constraints, dropping them if nothing is left
+    const constrained = this.applyMagicConstraints(candidates, policy, dropped);
+    const relaxed = constrained.length === 0;
+    let pool = relaxed ? candidates : constrained;
+    const candidatesConsidered = pool.length;
+
+    let artist: string | undefined;
+    if (behavior === 'artist-spotlight') {
+      artist = await this.random.getChoice(
+        [...new Set(pool.map((song) => song.artist))],
+        'magic-artist'
+      );
+      pool = pool.filter((song) => song.artist === artist);
+    }
 
     // For magic number, select completely randomly (no scoring)
-    const song = await this.qrng.getChoice(candidates);
+    const song = await this.random.getChoice(pool, 'magic-number');
+
+    return {
+      song,
+      candidatesConsidered,
+      explanation: { source: 'magic-number', score: null, breakdown: {}, runnersUp: [], dropped },
+      magic: {
+        behavior,
+        relaxed: relaxed || rulesRelaxed,
+        ...(tempo !== undefined && { tempo }),
+        ...(artist !== undefined && { artist }),
+      },
+    };
+  }
+
+  /**
+   * Keep the magic number candidates that meet the policy's constraints.
+   */
+  private applyMagicConstraints(
+    candidates: Song[],
+    policy: MagicPolicy,
+    dropped: DroppedCounts
+  ): Song[] {
+    const { minCompatibilityScore, artistCooldown } = policy.constraints ?? {};
+    let kept = candidates;
+
+    if (minCompatibilityScore !== undefined) {
+      const currentKey = this.keyManager.getCurrentMusicalKey();
+      kept = kept.filter(
+        (song) => this.scoreKey(currentKey, getSongMusicalKey(song)) >= minCompatibilityScore
+      );
+      dropped.minScore = candidates.length - kept.length;
+    }
 
-    return { song, candidatesConsidered };
+    if (artistCooldown) {
+      const recentArtists = this.recentSongs
+        .slice(0, this.options.artistCooldown)
+        .map((s) => s.artist);
+      kept = kept.filter(
+        (song) => !recentArtists.some((artist) => artistsMatch(song.artist, artist))
+      );
+    }
+
+    return kept;
   }
 
   /**
    * Get candidates from compatible keys when current key has no songs.
    */
   private getCompatibleCandidates(): Song[] {
-    const currentKey = this.keyManager.getCurrentKey();
+    const currentKey = this.keyManager.getCurrentMusicalKey();
     const compatibleKeys = this.keyManager
-      .getCompatibleKeys(currentKey)
-      .filter((key) => this.keyManager.scoreCompatibility(currentKey, key) >= this.options.minCompatibilityScore);
+      .getCompatibleMusicalKeys(currentKey)
+      .map((key) => ({ key, score: this.scoreKey(currentKey, key) }))
+      .filter((item) => item.score >= this.options.minCompatibilityScore)
+      .sort((a, b) => b.score - a.score)
+      .map((item) => item.key);
 
     const candidates: Song[] = [];
+    const seenIds = new Set<number>();
 
     for (const key of compatibleKeys) {
-      const songs = this.library.getUnplayed({ key });
+      // Untagged songs match both modes, so skip ones already collected
+      const songs = this.library.getUnplayed(toKeyFilter(key)).filter((s) => !seenIds.has(s.id));
+      songs.forEach((s) => seenIds.add(s.id));
       candidates.push(...songs);
 
       // Stop once we have enough candidates
@@ -273,66 +1683,161 @@ export class SongSelector {
   }
 
   /**
-   * Score candidates by harmonic compatibility.
+   * Drop candidates below the minimum harmonic compatibility,
+   * then rank the rest with the scoring pipeline (highest first).
    */
-  private scoreCandidates(candidates: Song[]): Array<{ song: Song; score: number }> {
-    const currentKey = this.keyManager.getCurrentKey();
+  private scoreCandidates(candidates: Song[]): ScoredSong[] {
+    const currentKey = this.keyManager.getCurrentMusicalKey();
+    const compatible = candidates.filter(
+      (song) =>
+        this.scoreKey(currentKey, getSongMusicalKey(song)) >= this.options.minCompatibilityScore
+    );
 
-    return candidates
-      .map((song) => ({
-        song,
-        score: this.keyManager.scoreCompatibility(currentKey, song.key),
-      }))
-      .filter((item) => item.score >= this.options.minCompatibilityScore)
-      .sort((a, b) => b.score - a.score); // Highest score first
+    return this.scoringPipeline.rank(compatible, this.getScoringContext());
+  }
+
+  /**
+   * Build the scoring context for the current selection state.
+   */
+  private getScoringContext(): ScoringContext {
+    return {
+      key: this.keyManager.getCurrentMusicalKey(),
+      tempo: this.currentTempo,
+      scoreKey: (from, to) => this.scoreKey(from, to),
+      avoidArtists: this.recentSongs.slice(0, this.options.artistCooldown).map((s) => s.artist),
+      recentSongs: this.recentSongs,
+      isPlayed: (songId) => this.library.isPlayed(songId),
+      getAttributes: (songId) => this.library.getAttributes(songId),
+      pairRules: this.pairRules ?? undefined,
+      tempoBlock: this.getTempoBlock(),
+    };
+  }
+
+  /**
+   * Songs that are not banned, or every song when all of them are.
+   */
+  private getPlayableSongs(): Song[] {
+    const playable = this.library.filter({ excludeBanned: true });
+    return playable.length > 0 ? playable : [...this.library.getAllSongs()];
+  }
+
+  /**
+   * Score a key transition with the selector's strategy,
+   * falling back to the key manager's.
+   */
+  private scoreKey(fromKey: MusicalKey, toKey: MusicalKey): number {
+    return this.harmonicStrategy
+      ? this.harmonicStrategy.score(fromKey, toKey)
+      : this.keyManager.scoreCompatibility(fromKey, toKey);
   }
 
   /**
-   * Select randomly from top-scored candidates.
+   * Select randomly from top-scored candidates, each song's chance scaled
+   * by its library weight.
+   * The score is null when nothing passed the scoring and a song was picked
+   * from the unscored candidates instead.
    */
   private async selectFromTopCandidates(
-    scored: Array<{ song: Song; score: number }>
-  ): Promise<Song> {
-    // If no scored candidates, should never happen but fallback
+    scored: ScoredSong[],
+    candidates: readonly Song[],
+    random: RandomSource = this.random
+  ): Promise<{ song: Song; score: number | null; breakdown: Record<string, number> }> {
+    // Nothing passed the scoring: any of the candidates (they already met the filters)
     if (scored.length === 0) {
-      const allSongs = this.library.getAllSongs() as Song[];
-      return this.qrng.getChoice(allSongs);
+      const song = await random.getChoice(candidates, 'any-song');
+      return { song, score: null, breakdown: {} };
     }
 
     // Take top N candidates
     const topCandidates = scored.slice(0, this.options.candidatePoolSize);
+    const songWeights = topCandidates.map((item) => this.library.getWeight(item.song.id));
+
+    if (this.options.candidateWeighting === 'uniform') {
+      return songWeights.every((weight) => weight === 1)
+        ? random.getChoice(topCandidates, 'top-candidates')
+        : random.getWeightedChoice(topCandidates, songWeights, 'top-candidates');
+    }
 
-    // Select randomly from top candidates
-    const selected = await this.qrng.getChoice(topCandidates);
+    // Score-proportional pick: shift so the lowest candidate still has weight 1
+    const lowest = Math.min(...topCandidates.map((item) => item.score));
+    const weights = topCandidates.map((item, i) => (item.score - lowest + 1) * songWeights[i]!);
 
-    return selected.song;
+    return random.getWeightedChoice(topCandidates, weights, 'top-candidates');
   }
 
   /**
-   * Determine track type (lead or body) based on context.
+   * Determine track type (lead or body) from the structure run in progress.
    *
    * Lead tracks are 16-beat intros, body tracks are 64-beat loops.
-   * Strategy: Alternate between lead and body, with occasional double bodies.
+   * When a run ends (or the tempo changes), the next template is the one
+   * pinned to the tempo, or a weighted draw. The session opens with a
+   * template that starts with a lead, when there is one.
    */
-  private determineTrackType(_song: Song): 'lead' | 'body' {
-    // First track is always a lead (intro)
-    if (this.trackCount === 1) {
-      this.lastTrackType = 'lead';
-      return 'lead';
+  private async determineTrackType(): Promise<TrackType> {
+    const pinned = this.pinnedStructures.get(this.currentTempo);
+    const current = this.structure;
+
+    if (
+      !current ||
+      current.position >= current.template.types.length ||
+      current.tempo !== this.currentTempo ||
+      (pinned !== undefined && current.template.name !== pinned)
+    ) {
+      this.structure = {
+        template: await this.drawStructure(pinned),
+        position: 0,
+        tempo: this.currentTempo,
+      };
     }
 
-    // After a lead, always play a body
-    if (this.lastTrackType === 'lead') {
-      this.lastTrackType = 'body';
-      return 'body';
+    const structure = this.structure!;
+    this.lastTrackType = structure.template.types[structure.position]!;
+    structure.position++;
+    return this.lastTrackType;
+  }
+
+  /**
+   * Pick the next structure template: the pinned one, or a weighted draw.
+   */
+  private async drawStructure(pinned: string | undefined): Promise<StructureTemplate> {
+    if (pinned !== undefined) {
+      return this.structureTemplates.find((template) => template.name === pinned)!;
     }
 
-    // After a body, usually play a lead, but sometimes another body
-    // Use quantum randomness: 70% lead, 30% body
-    const useBody = Math.random() < 0.3; // Using Math.random for speed
+    let templates = this.structureTemplates.filter((template) => template.weight > 0);
+    if (this.trackCount === 1) {
+      const intros = templates.filter((template) => template.types[0] === 'lead');
+      templates = intros.length > 0 ? intros : templates;
+    }
 
-    this.lastTrackType = useBody ? 'body' : 'lead';
-    return this.lastTrackType;
+    if (templates.length === 1) return templates[0]!;
+    return this.random.getWeightedChoice(
+      templates,
+      templates.map((template) => template.weight),
+      'track-structure'
+    );
+  }
+
+  /**
+   * Pin a structure template to a tempo, or unpin it.
+   * The run in progress at that tempo ends with the next track.
+   *
+   * @param tempo - Tempo block to pin
+   * @param name - Template name, or null to go back to weighted draws
+   * @throws Error if no template has that name
+   *
+   * Example:
+   *   selector.setPinnedStructure(102, 'body-run');
+   */
+  setPinnedStructure(tempo: Tempo, name: string | null): void {
+    if (name === null) {
+      this.pinnedStructures.delete(tempo);
+      return;
+    }
+    if (!this.structureTemplates.some((template) => template.name === name)) {
+      throw new Error(`Unknown structure template: ${name}`);
+    }
+    this.pinnedStructures.set(tempo, name);
   }
 
   /**
@@ -344,6 +1849,44 @@ export class SongSelector {
     this.currentTempo = tempo;
   }
 
+  /**
+   * Replace the magic number policy. A random interval starts counting
+   * from the last magic track.
+   *
+   * @param policy - New policy, or null to turn the magic number off
+   * @throws Error if the policy is invalid
+   *
+   * Example:
+   *   selector.setMagicPolicy({ interval: { type: 'fixed', every: 4 }, behavior: 'tempo-jump' });
+   */
+  setMagicPolicy(policy: MagicPolicy | null): void {
+    this.magicPolicy = policy === null ? null : validateMagicPolicy(policy);
+  }
+
+  /**
+   * Get the magic number policy, or null when the magic number is off.
+   */
+  getMagicPolicy(): MagicPolicy | null {
+    return this.magicPolicy;
+  }
+
+  /**
+   * Replace the pair rules. Rules added to or removed from the set later
+   * apply from the next selection.
+   *
+   * @param rules - New rules, or null for none
+   */
+  setPairRules(rules: PairRules | null): void {
+    this.pairRules = rules;
+  }
+
+  /**
+   * Get the pair rules, or null when there are none.
+   */
+  getPairRules(): PairRules | null {
+    return this.pairRules;
+  }
+
   /**
    * Get the current tempo.
    */
@@ -366,7 +1909,85 @@ export class SongSelector {
   }
 
   /**
-   * Reset selector to initial state.
+   * Get the state needed to pick up where this selector left off.
+   * The library and key manager are saved separately.
+   */
+  getState(): SongSelectorState {
+    return {
+      trackCount: this.trackCount,
+      tempo: this.currentTempo,
+      lastTrackType: this.lastTrackType,
+      lastMagicTrack: this.lastMagicTrack,
+      beatsPlayed: { ...this.beatsPlayed },
+      recentSongIds: this.recentSongs.map((song) => song.id),
+      structure: this.structure && {
+        name: this.structure.template.name,
+        position: this.structure.position,
+        tempo: this.structure.tempo,
+      },
+      plannedTracks: this.plannedTracks.map(({ song, ...track }) => ({
+        ...track,
+        songId: song.id,
+      })),
+      magicPolicy: this.magicPolicy,
+      pinnedStructures: Object.fromEntries(this.pinnedStructures),
+      requests: this.requests.map((request) => ({ ...request })),
+      tempoBlock: this.tempoBlock && {
+        tempo: this.tempoBlock.tempo,
+        songIds: this.tempoBlock.songs.map((song) => song.id),
+      },
+    };
+  }
+
+  /**
+   * Pick up from a saved state. Songs missing from the library are dropped,
+   * and structure templates that no longer exist are ignored (a run in
+   * progress ends early).
+   *
+   * @throws Error if the saved magic policy is invalid
+   */
+  restoreState(state: SongSelectorState): void {
+    this.setMagicPolicy(state.magicPolicy);
+    this.pinnedStructures.clear();
+    for (const tempo of ALL_TEMPOS) {
+      const name = state.pinnedStructures[tempo];
+      if (this.structureTemplates.some((template) => template.name === name)) {
+        this.pinnedStructures.set(tempo, name!);
+      }
+    }
+
+    const template = this.structureTemplates.find(
+      (candidate) => candidate.name === state.structure?.name
+    );
+
+    this.trackCount = state.trackCount;
+    this.currentTempo = state.tempo;
+    this.lastTrackType = state.lastTrackType;
+    this.lastMagicTrack = state.lastMagicTrack;
+    this.beatsPlayed = { ...createBeatCounts(), ...state.beatsPlayed };
+    this.recentSongs = state.recentSongIds
+      .map((id) => this.library.getSongById(id))
+      .filter((song): song is Song => song !== undefined);
+    this.structure =
+      state.structure && template
+        ? { template, position: state.structure.position, tempo: state.structure.tempo }
+        : null;
+    this.requests = state.requests.filter((request) => this.library.getSongById(request.songId));
+    this.plannedTracks = state.plannedTracks.flatMap(({ songId, ...track }) => {
+      const song = this.library.getSongById(songId);
+      return song ? [{ ...track, song }] : [];
+    });
+    this.tempoBlock = state.tempoBlock && {
+      tempo: state.tempoBlock.tempo,
+      songs: state.tempoBlock.songIds
+        .map((id) => this.library.getSongById(id))
+        .filter((song): song is Song => song !== undefined),
+    };
+  }
+
+  /**
+   * Reset selector to initial state. A full reset also restarts the
+   * planning random source when the selector derived it from a seed.
    *
    * @param resetLibrary - Whether to reset played songs in library (default: true)
    * @param resetKeyManager - Whether to reset key manager (default: true)
@@ -380,8 +2001,19 @@ export class SongSelector {
       this.keyManager.reset();
     }
 
+    if (resetLibrary && resetKeyManager) {
+      this.derivedPlanningRandom?.reset();
+    }
+
     this.trackCount = 0;
+    this.lastMagicTrack = 0;
+    this.recentSongs = [];
+    this.plannedTracks = [];
+    this.requests = [];
+    this.tempoBlock = null;
     this.lastTrackType = 'body';
+    this.structure = null;
+    this.beatsPlayed = createBeatCounts();
     this.currentTempo = this.options.defaultTempo;
   }
 
@@ -394,7 +2026,8 @@ export class SongSelector {
     currentTempo: Tempo;
     songsPlayed: number;
     songsRemaining: number;
-    lastTrackType: 'lead' | 'body';
+    lastTrackType: TrackType;
+    beatsPlayed: Record<TrackType, number>;
   } {
     return {
       trackCount: this.trackCount,
@@ -403,6 +2036,39 @@ export class SongSelector {
       songsPlayed: this.library.getPlayedCount(),
       songsRemaining: this.library.getRemainingCount(),
       lastTrackType: this.lastTrackType,
+      beatsPlayed: { ...this.beatsPlayed },
     };
   }
 }
+
+/**
+ * Build a library filter for a musical key.
+ * Unknown modes filter by key only.
+ */
+function toKeyFilter(musicalKey: MusicalKey): { key: Key; mode?: Mode } {
+  return musicalKey.mode === 'unknown'
+    ? { key: musicalKey.key }
+    : { key: musicalKey.key, mode: musicalKey.mode };
+}
+
+/**
+ * Dropped counts with every reason at zero.
+ */
+function createDroppedCounts(): DroppedCounts {
+  return { played: 0, minScore: 0, keyFallback: 0, libraryReset: 0, banned: 0, pairRules: 0 };
+}
+
+/**
+ * Count the songs matching a filter that were left out of the candidates
+ * for being banned or played.
+ */
+function countSkipped(
+  library: SongLibrary,
+  filter: SongFilter,
+  candidates: readonly Song[],
+  dropped: DroppedCounts
+): void {
+  const allowed = library.filter({ ...filter, excludeBanned: true }).length;
+  dropped.banned = library.filter(filter).length - allowed;
+  dropped.played = allowed - candidates.length;
+}
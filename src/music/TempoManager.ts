@@ -0,0 +1,381 @@
+/**
+ * Tempo Manager
+ *
+ * Decides when the mix moves to another tempo. After each track, advance()
+ * checks the active schedule and returns the tempo for the next track.
+ *
+ * Schedules:
+ * - manual: the tempo only changes through setTempo() (the default)
+ * - fair-share: a block of tracks per tempo, sized by how many songs the
+ *   library has at that tempo, so every song gets an equal chance
+ * - timed: a fixed number of seconds per tempo
+ * - scripted: user-supplied blocks ({ tempo, tracks }), optionally looping
+ * - until-key-dry: stay at a tempo until the upcoming key has no unplayed
+ *   songs at that tempo, then move on
+ *
+ * Tempos rotate in `order` (default 84 → 94 → 102), starting from the
+ * current tempo.
+ *
+ * Example:
+ *   const tempos = new TempoManager(84, { schedule: { type: 'fair-share' }, library });
+ *   tempos.getShares(); // Map { 84 => 12, 94 => 10, 102 => 8 }
+ *   tempos.advance({ key, duration: 40 }); // 84 (until 12 tracks have played)
+ */
+
+import type { Song, Tempo, MusicalKey } from './types.js';
+import { ALL_TEMPOS } from './types.js';
+import type { SongLibrary } from './SongLibrary.js';
+
+/**
+ * One block of a scripted schedule.
+ */
+export interface TempoStep {
+  tempo: Tempo;
+
+  /** Tracks to play at this tempo */
+  tracks: number;
+}
+
+/**
+ * How the tempo moves over a session.
+ *
+ * Example:
+ *   { type: 'scripted', steps: [{ tempo: 84, tracks: 6 }, { tempo: 102, tracks: 4 }], loop: true }
+ */
+export type TempoSchedule =
+  | { type: 'manual' }
+  | { type: 'fair-share'; cycleTracks?: number; order?: readonly Tempo[] }
+  | { type: 'timed'; secondsPerTempo: number; order?: readonly Tempo[] }
+  | { type: 'scripted'; steps: readonly TempoStep[]; loop?: boolean }
+  | { type: 'until-key-dry'; order?: readonly Tempo[] };
+
+/**
+ * Options for TempoManager.
+ */
+export interface TempoManagerOptions {
+  /**
+   * How the tempo moves.
+   * Default: { type: 'manual' }
+   */
+  schedule?: TempoSchedule;
+
+  /**
+   * Library for fair-share block sizes and key-dry checks.
+   * Required by the fair-share and until-key-dry schedules.
+   */
+  library?: SongLibrary;
+}
+
+/**
+ * The track that was just selected, as seen by advance().
+ */
+export interface TempoAdvance {
+  /** Key of the next track */
+  key: MusicalKey;
+
+  /** Seconds the selected track plays for */
+  duration: number;
+}
+
+/**
+ * Default number of tracks in one fair-share cycle through every tempo.
+ */
+export const DEFAULT_FAIR_SHARE_CYCLE = 30;
+
+/**
+ * Split a cycle of tracks between tempos in proportion to the songs at each tempo.
+ * Tempos with songs get at least one track; tempos without songs get none.
+ *
+ * @param songs - Library songs
+ * @param cycleTracks - Tracks in one cycle (default: 30)
+ * @returns Tracks per tempo
+ * @throws Error if cycleTracks is not a positive integer
+ *
+ * Example:
+ *   getFairShares(songs, 30); // Map { 84 => 12, 94 => 10, 102 => 8 }
+ */
+export function getFairShares(
+  songs: readonly Song[],
+  cycleTracks: number = DEFAULT_FAIR_SHARE_CYCLE
+): Map<Tempo, number> {
+  if (!Number.isInteger(cycleTracks) || cycleTracks < 1) {
+    throw new Error(`cycleTracks must be a positive integer, got ${cycleTracks}`);
+  }
+
+  const shares = new Map<Tempo, number>();
+  for (const tempo of ALL_TEMPOS) {
+    const count = songs.filter((song) => song.bpm === tempo).length;
+    shares.set(
+      tempo,
+      count === 0 ? 0 : Math.max(1, Math.round((cycleTracks * count) / songs.length))
+    );
+  }
+  return shares;
+}
+
+/**
+ * Tempo manager state, as saved in a session snapshot.
+ */
+export interface TempoManagerState {
+  tempo: Tempo;
+  schedule: TempoSchedule;
+  tracksAtTempo: number;
+  secondsAtTempo: number;
+  stepIndex: number;
+}
+
+/**
+ * Manages tempo changes over a session.
+ */
+export class TempoManager {
+  private currentTempo: Tempo;
+  private readonly initialTempo: Tempo;
+  private readonly library: SongLibrary | null;
+  private schedule: TempoSchedule;
+
+  /** Tracks played at the current tempo since the last change */
+  private tracksAtTempo: number = 0;
+
+  /** Seconds played at the current tempo since the last change */
+  private secondsAtTempo: number = 0;
+
+  /** Position in a scripted schedule */
+  private stepIndex: number = 0;
+
+  /**
+   * @param startTempo - Tempo of the first track (default: 94)
+   * @param options - Schedule and library
+   * @throws Error if the schedule is invalid or needs a library that was not given
+   */
+  constructor(startTempo: Tempo = 94, options: TempoManagerOptions = {}) {
+    this.currentTempo = startTempo;
+    this.initialTempo = startTempo;
+    this.library = options.library ?? null;
+    this.schedule = this.validateSchedule(options.schedule ?? { type: 'manual' });
+    this.startSchedule();
+  }
+
+  /**
+   * Get the current tempo.
+   */
+  getCurrentTempo(): Tempo {
+    return this.currentTempo;
+  }
+
+  /**
+   * Jump to a tempo. The schedule carries on from there
+   * (a fresh block at the new tempo).
+   */
+  setTempo(tempo: Tempo): void {
+    this.currentTempo = tempo;
+    this.tracksAtTempo = 0;
+    this.secondsAtTempo = 0;
+  }
+
+  /**
+   * Get the active schedule.
+   */
+  getSchedule(): TempoSchedule {
+    return this.schedule;
+  }
+
+  /**
+   * Replace the schedule, starting a fresh block at the current tempo
+   * (scripted schedules restart at their first step).
+   *
+   * @throws Error if the schedule is invalid or needs a library that was not given
+   */
+  setSchedule(schedule: TempoSchedule): void {
+    this.schedule = this.validateSchedule(schedule);
+    this.startSchedule();
+  }
+
+  /**
+   * Get the fair-share block size of each tempo for this library.
+   *
+   * @throws Error if there is no library
+   */
+  getShares(): Map<Tempo, number> {
+    if (!this.library) {
+      throw new Error('Fair shares need a library');
+    }
+
+    const cycleTracks =
+      this.schedule.type === 'fair-share' ? this.schedule.cycleTracks : DEFAULT_FAIR_SHARE_CYCLE;
+    return getFairShares(this.library.getAllSongs(), cycleTracks);
+  }
+
+  /**
+   * Record a selected track and work out the tempo for the next one.
+   *
+   * @param track - Key of the next track and how long the selected track plays
+   * @returns Tempo for the next track
+   *
+   * Example:
+   *   const result = await selector.selectTrack();
+   *   const tempo = tempos.advance({ key: keyManager.getCurrentMusicalKey(), duration: 40 });
+   *   selector.setTempo(tempo);
+   */
+  advance(track: TempoAdvance): Tempo {
+    this.tracksAtTempo++;
+    this.secondsAtTempo += track.duration;
+
+    const next = this.getNextTempo(track.key);
+    if (next !== null && next !== this.currentTempo) {
+      this.setTempo(next);
+    } else if (next !== null) {
+      // The block ended but the schedule stays at this tempo (e.g. one-tempo library)
+      this.tracksAtTempo = 0;
+      this.secondsAtTempo = 0;
+    }
+
+    return this.currentTempo;
+  }
+
+  /**
+   * Get the state needed to pick up where this tempo manager left off.
+   */
+  getState(): TempoManagerState {
+    return {
+      tempo: this.currentTempo,
+      schedule: this.schedule,
+      tracksAtTempo: this.tracksAtTempo,
+      secondsAtTempo: this.secondsAtTempo,
+      stepIndex: this.stepIndex,
+    };
+  }
+
+  /**
+   * Pick up from a saved state, schedule included.
+   *
+   * @throws Error if the schedule is invalid or needs a library that was not given
+   */
+  restoreState(state: TempoManagerState): void {
+    this.schedule = this.validateSchedule(state.schedule);
+    this.currentTempo = state.tempo;
+    this.tracksAtTempo = state.tracksAtTempo;
+    this.secondsAtTempo = state.secondsAtTempo;
+    this.stepIndex = state.stepIndex;
+  }
+
+  /**
+   * Go back to a tempo (default: the start tempo) and restart the schedule.
+   */
+  reset(tempo: Tempo = this.initialTempo): void {
+    this.currentTempo = tempo;
+    this.startSchedule();
+  }
+
+  /**
+   * Tempo the schedule moves to after the latest track, or null to stay.
+   */
+  private getNextTempo(nextKey: MusicalKey): Tempo | null {
+    const schedule = this.schedule;
+
+    switch (schedule.type) {
+      case 'manual':
+        return null;
+
+      case 'fair-share': {
+        const share = this.getShares().get(this.currentTempo) ?? 0;
+        if (this.tracksAtTempo < share) return null;
+        return this.getNextInOrder(
+          schedule.order,
+          (tempo) => (this.getShares().get(tempo) ?? 0) > 0
+        );
+      }
+
+      case 'timed':
+        if (this.secondsAtTempo < schedule.secondsPerTempo) return null;
+        return this.getNextInOrder(schedule.order);
+
+      case 'scripted': {
+        const step = schedule.steps[this.stepIndex]!;
+        if (this.tracksAtTempo < step.tracks) return null;
+
+        const last = this.stepIndex === schedule.steps.length - 1;
+        if (last && schedule.loop === false) return null;
+
+        this.stepIndex = last ? 0 : this.stepIndex + 1;
+        return schedule.steps[this.stepIndex]!.tempo;
+      }
+
+      case 'until-key-dry': {
+        if (this.hasUnplayedSongs(this.currentTempo, nextKey)) return null;
+        return this.getNextInOrder(schedule.order, (tempo) =>
+          this.hasUnplayedSongs(tempo, nextKey)
+        );
+      }
+    }
+  }
+
+  /**
+   * Next tempo after the current one in the rotation order, skipping tempos
+   * that fail `usable`. Falls back to plain rotation when none is usable.
+   */
+  private getNextInOrder(
+    order: readonly Tempo[] = ALL_TEMPOS,
+    usable: (tempo: Tempo) => boolean = (): boolean => true
+  ): Tempo {
+    const start = order.indexOf(this.currentTempo);
+    const rotation = order.map((_, i) => order[(start + 1 + i) % order.length]!);
+    return rotation.find(usable) ?? rotation[0]!;
+  }
+
+  /**
+   * Whether the library still has unplayed songs at a tempo in a key.
+   */
+  private hasUnplayedSongs(tempo: Tempo, key: MusicalKey): boolean {
+    return (this.library?.getUnplayed({ tempo, key: key.key }).length ?? 0) > 0;
+  }
+
+  /**
+   * Restart block counters and, for scripted schedules, jump to the first step.
+   */
+  private startSchedule(): void {
+    this.tracksAtTempo = 0;
+    this.secondsAtTempo = 0;
+    this.stepIndex = 0;
+
+    if (this.schedule.type === 'scripted') {
+      this.currentTempo = this.schedule.steps[0]!.tempo;
+    }
+  }
+
+  /**
+   * Validate a schedule against this manager.
+   *
+   * @throws Error if the schedule is invalid
+   */
+  private validateSchedule(schedule: TempoSchedule): TempoSchedule {
+    if ((schedule.type === 'fair-share' || schedule.type === 'until-key-dry') && !this.library) {
+      throw new Error(`The ${schedule.type} tempo schedule needs a library`);
+    }
+
+    if ('order' in schedule && schedule.order !== undefined && schedule.order.length === 0) {
+      throw new Error('Tempo order must list at least one tempo');
+    }
+
+    if (schedule.type === 'fair-share' && schedule.cycleTracks !== undefined) {
+      if (!Number.isInteger(schedule.cycleTracks) || schedule.cycleTracks < 1) {
+        throw new Error(`cycleTracks must be a positive integer, got ${schedule.cycleTracks}`);
+      }
+    }
+
+    if (schedule.type === 'timed' && !(schedule.secondsPerTempo > 0)) {
+      throw new Error(`secondsPerTempo must be positive, got ${schedule.secondsPerTempo}`);
+    }
+
+    if (schedule.type === 'scripted') {
+      if (schedule.steps.length === 0) {
+        throw new Error('Scripted tempo schedule needs at least one step');
+      }
+      if (!schedule.steps.every((step) => Number.isInteger(step.tracks) && step.tracks >= 1)) {
+        throw new Error('Scripted tempo steps must last at least one whole track');
+      }
+      return { ...schedule, steps: schedule.steps.map((step) => ({ ...step })) };
+    }
+
+    return schedule;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Timed Sets
+ *
+ * Durations of tracks and the timeline of a set with a time budget.
+ * A track lasts BEAT_COUNTS[type] beats at its tempo; a bar is 4 beats.
+ *
+ * buildTimeline() lays out tempo blocks and track types for a target
+ * duration. SongSelector.planTimedSet() fills the timeline with songs.
+ *
+ * Example:
+ *   getTrackDuration(94, 'body'); // 40.85 (64 beats at 94 BPM)
+ *   buildTimeline(45 * 60, 84, 102); // 84 → 94 → 102, 15 minutes each
+ */
+
+import type { Key, Tempo, TrackType } from './types.js';
+import { ALL_TEMPOS, BEAT_COUNTS } from './types.js';
+import type { SetConstraints, SetPlan } from './SongSelector.js';
+
+/**
+ * Beats in one bar.
+ */
+export const BEATS_PER_BAR = 4;
+
+/**
+ * Options for a timed set.
+ */
+export interface TimedSetOptions {
+  /** Target length of the set in seconds */
+  duration: number;
+
+  /**
+   * Tempo of the last block. The set ramps through the tempos in between,
+   * with equal time at each.
+   * Default: the current tempo (one block)
+   */
+  endTempo?: Tempo;
+
+  /**
+   * Key of the last track. The set starts from the key closest to the
+   * current one whose progression ends there.
+   * Default: wherever the progression ends
+   */
+  endKey?: Key;
+
+  /** Set constraints (see planSet) */
+  constraints?: SetConstraints;
+}
+
+/**
+ * One track on a set timeline.
+ */
+export interface TimelineEntry {
+  /** Seconds from the start of the set */
+  start: number;
+
+  /** Seconds the track plays for */
+  duration: number;
+
+  /** Beats the track plays for (fewer than the full track when trimmed) */
+  beats: number;
+
+  tempo: Tempo;
+  type: TrackType;
+}
+
+/**
+ * Result of planTimedSet(): a set plan plus its timeline.
+ */
+export interface TimedSetPlan extends SetPlan {
+  /** Start time and length of each planned track, in play order */
+  timeline: TimelineEntry[];
+
+  /** Planned length in seconds */
+  duration: number;
+
+  /** Allowed distance from the target: one bar at the end tempo, in seconds */
+  tolerance: number;
+}
+
+/**
+ * Seconds a track plays for.
+ *
+ * @param tempo - Tempo (BPM)
+ * @param type - Track type
+ * @param beats - Beats played (default: the full track)
+ */
+export function getTrackDuration(
+  tempo: Tempo,
+  type: TrackType,
+  beats: number = BEAT_COUNTS[type]
+): number {
+  return (beats * 60) / tempo;
+}
+
+/**
+ * Seconds in one bar at a tempo.
+ */
+export function getBarDuration(tempo: Tempo): number {
+  return (BEATS_PER_BAR * 60) / tempo;
+}
+
+/**
+ * Lay out the tracks of a set with a time budget.
+ *
+ * Tempo blocks run from startTempo to endTempo through the tempos in
+ * between, each getting an equal share of the time. Each block opens with
+ * a lead and alternates lead and body. Full tracks fill every block; the
+ * last track is trimmed to whole bars, so the set ends within half a bar
+ * of the target.
+ *
+ * @param duration - Target length in seconds
+ * @param startTempo - Tempo of the first block
+ * @param endTempo - Tempo of the last block (default: startTempo)
+ * @returns Timeline entries in play order
+ * @throws Error if duration is not positive, or is under half a bar
+ *
+ * Example:
+ *   const timeline = buildTimeline(600, 94, 102);
+ *   timeline[timeline.length - 1]!.tempo; // 102
+ */
+export function buildTimeline(
+  duration: number,
+  startTempo: Tempo,
+  endTempo: Tempo = startTempo
+): TimelineEntry[] {
+  if (!(duration > 0) || !Number.isFinite(duration)) {
+    throw new Error(`duration must be a positive number of seconds, got ${duration}`);
+  }
+
+  const tempos = getTempoRamp(startTempo, endTempo);
+  const timeline: TimelineEntry[] = [];
+  let time = 0;
+
+  tempos.forEach((tempo, block) => {
+    const blockEnd = (duration * (block + 1)) / tempos.length;
+    let type: TrackType = 'lead';
+
+    while (time + getTrackDuration(tempo, type) <= blockEnd) {
+      timeline.push({
+        start: time,
+        duration: getTrackDuration(tempo, type),
+        beats: BEAT_COUNTS[type],
+        tempo,
+        type,
+      });
+      time += getTrackDuration(tempo, type);
+      type = type === 'lead' ? 'body' : 'lead';
+    }
+
+    // The last block finishes with the next track cut to whole bars
+    if (block === tempos.length - 1) {
+      const bars = Math.round((duration - time) / getBarDuration(tempo));
+      if (bars > 0) {
+        const beats = bars * BEATS_PER_BAR;
+        timeline.push({
+          start: time,
+          duration: getTrackDuration(tempo, type, beats),
+          beats,
+          tempo,
+          type,
+        });
+      }
+    }
+  });
+
+  if (timeline.length === 0) {
+    throw new Error(`duration is too short for a track: ${duration}s`);
+  }
+
+  return timeline;
+}
+
+/**
+ * Tempos from start to end in tempo order, inclusive.
+ *
+ * Example:
+ *   getTempoRamp(102, 84); // [102, 94, 84]
+ */
+function getTempoRamp(startTempo: Tempo, endTempo: Tempo): Tempo[] {
+  const from = ALL_TEMPOS.indexOf(startTempo);
+  const to = ALL_TEMPOS.indexOf(endTempo);
+  const step = to >= from ? 1 : -1;
+  const tempos: Tempo[] = [];
+  for (let i = from; i !== to + step; i += step) {
+    tempos.push(ALL_TEMPOS[i]!);
+  }
+  return tempos;
+}
@@ -0,0 +1,92 @@
+/**
+ * Track Structure Templates
+ *
+ * A structure template is a short run of track types (lead = 16-beat intro,
+ * body = 64-beat loop) that the selector plays in order. When one run ends,
+ * the next template is drawn by weight, so the mix gets a musical shape
+ * instead of a coin flip per track.
+ *
+ * A template can be pinned to a tempo: while the mix is at that tempo,
+ * only the pinned template plays. A tempo change starts a fresh run.
+ *
+ * Example:
+ *   const selector = new SongSelector(library, keyManager, random, {
+ *     structureTemplates: [
+ *       { name: 'lead-body', types: ['lead', 'body'], weight: 1 },
+ *       { name: 'body-run', types: ['body', 'body', 'body', 'body'], weight: 1 },
+ *     ],
+ *     pinnedStructures: { 102: 'body-run' },
+ *   });
+ */
+
+import type { TrackType } from './types.js';
+
+/**
+ * A run of track types, drawn with probability proportional to its weight.
+ */
+export interface StructureTemplate {
+  /** Template name (used to pin it) */
+  name: string;
+
+  /** Track types, played in order */
+  types: readonly TrackType[];
+
+  /** Relative draw weight (0 = only when pinned) */
+  weight: number;
+}
+
+/**
+ * Bundled templates:
+ * - lead-body: intro then one loop (the classic alternation)
+ * - lead-body-body: intro then a double loop
+ * - body-run: four loops in a row, no intros
+ */
+export const DEFAULT_STRUCTURE_TEMPLATES: readonly StructureTemplate[] = [
+  { name: 'lead-body', types: ['lead', 'body'], weight: 6 },
+  { name: 'lead-body-body', types: ['lead', 'body', 'body'], weight: 3 },
+  { name: 'body-run', types: ['body', 'body', 'body', 'body'], weight: 1 },
+];
+
+/**
+ * Check a template list.
+ *
+ * @throws Error if the list is empty, a name repeats, a template has no types,
+ *         a weight is negative, or every weight is zero
+ */
+export function validateStructureTemplates(
+  templates: readonly StructureTemplate[]
+): readonly StructureTemplate[] {
+  if (templates.length === 0) {
+    throw new Error('At least one structure template is required');
+  }
+
+  const names = new Set<string>();
+  for (const template of templates) {
+    if (names.has(template.name)) {
+      throw new Error(`Duplicate structure template: ${template.name}`);
+    }
+    names.add(template.name);
+
+    if (template.types.length === 0) {
+      throw new Error(`Structure template ${template.name} needs at least one track type`);
+    }
+    if (!(template.weight >= 0)) {
+      throw new Error(
+        `Structure template weight must be non-negative, got ${template.weight} for ${template.name}`
+      );
+    }
+  }
+
+  if (!templates.some((template) => template.weight > 0)) {
+    throw new Error('At least one structure template needs a positive weight');
+  }
+
+  return templates.map((template) => ({ ...template, types: [...template.types] }));
+}
+
+/**
+ * Beat counts with every track type at zero.
+ */
+export function createBeatCounts(): Record<TrackType, number> {
+  return { lead: 0, body: 0 };
+}
@@ -0,0 +1,46 @@
+/**
+ * Music Errors
+ *
+ * Errors raised when parsing progression scripts.
+ */
+
+/**
+ * One problem found in a progression script.
+ * Lines and columns are 1-based.
+ */
+export interface ScriptIssue {
+  message: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Thrown when a progression script does not parse or validate.
+ * Lists every problem found, each with its line and column.
+ *
+ * Example:
+ *   try {
+ *     parseProgressionScript('84: keys 1..13');
+ *   } catch (error) {
+ *     if (error instanceof ProgressionScriptError) {
+ *       console.log(error.issues); // [{ message: 'Key must be 1-12, got 13', line: 1, column: 13 }]
+ *     }
+ *   }
+ */
+export class ProgressionScriptError extends Error {
+  /** Every problem found, in source order */
+  public readonly issues: ScriptIssue[];
+
+  constructor(issues: ScriptIssue[]) {
+    super(
+      issues.map((issue) => `${issue.line}:${issue.column} ${issue.message}`).join('\n') ||
+        'Invalid progression script'
+    );
+    this.name = this.constructor.name;
+    this.issues = issues;
+    // Maintains proper stack trace in V8 engines (Chrome, Node)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
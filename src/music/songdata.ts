@@ -15,6 +15,7 @@
  */
 
 import type { Song } from './types.js';
+import { quantumFloat } from '../random/QuantumRandom.js';
 
 /**
  * The complete song library.
@@ -59,6 +60,10 @@ function validateSongs(songs: readonly unknown[]): void {
       throw new Error(`Song ${song.id as number} has invalid key: ${String(song.key)}`);
     }
 
+    if (song.mode !== undefined && song.mode !== 'major' && song.mode !== 'minor') {
+      throw new Error(`Song ${song.id} has invalid mode: ${String(song.mode)}`);
+    }
+
     if (typeof song.bpm !== 'number' || ![84, 94, 102].includes(song.bpm)) {
       throw new Error(`Song ${song.id as number} has invalid BPM: ${String(song.bpm)}`);
     }
@@ -99,9 +104,11 @@ export function getSongsByKey(key: number): readonly Song[] {
 
 /**
  * Get random song from the library.
+ *
+ * @param random - Random number source returning [0, 1) (default: quantumFloat)
  */
-export function getRandomSong(): Song {
-  const index = Math.floor(Math.random() * songs.length);
+export function getRandomSong(random: () => number = quantumFloat): Song {
+  const index = Math.floor(random() * songs.length);
   const song = songs[index];
   if (!song) {
     throw new Error('Failed to get random song');
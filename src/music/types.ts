@@ -6,6 +6,7 @@
  *
  * Key concepts:
  * - Songs have musical keys (1-12 representing chromatic scale)
+ * - Songs may also declare a mode (major/minor); songs without one are "unknown mode"
  * - Songs are available at multiple tempos (84, 94, 102 BPM)
  * - Each song has "lead" (intro) and "body" (main) versions
  */
@@ -22,6 +23,33 @@
  */
 export type Key = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
 
+/**
+ * Musical mode of a key.
+ *
+ * - major: e.g. C major (Camelot 8B)
+ * - minor: e.g. A minor (Camelot 8A)
+ */
+export type Mode = 'major' | 'minor';
+
+/**
+ * A key together with its mode.
+ *
+ * 'unknown' is used for songs that only carry a chromatic key, so they
+ * keep working everywhere a plain Key did.
+ *
+ * Example:
+ *   { key: 10, mode: 'minor' }   // A minor
+ *   { key: 1, mode: 'major' }    // C major
+ *   { key: 1, mode: 'unknown' }  // C, mode not tagged
+ */
+export interface MusicalKey {
+  /** Root note (1-12) */
+  key: Key;
+
+  /** Major, minor or unknown */
+  mode: Mode | 'unknown';
+}
+
 /**
  * Tempo in BPM (beats per minute).
  * Kwyjibo uses three fixed tempos.
@@ -76,6 +104,9 @@ export interface Song {
   /** Musical key (1-12) */
   key: Key;
 
+  /** Major or minor. Omitted when the mode is unknown. */
+  mode?: Mode;
+
   /** Native tempo before time-stretching */
   bpm: Tempo;
 }
@@ -104,6 +135,58 @@ export interface TrackRequest {
   type: TrackType;
 }
 
+// ============================================================================
+// LAYERED SETS
+// ============================================================================
+
+/**
+ * Role of a layer in a set.
+ * - main: the lead song of the set
+ * - partner: plays alongside the main song
+ * - hidden: extra layer, faded in on demand (e.g. Mannie Fresh mode)
+ */
+export type LayerRole = 'main' | 'partner' | 'hidden';
+
+/**
+ * One song playing in a set, in its own key.
+ */
+export interface Layer {
+  /** The song on this layer */
+  song: Song;
+
+  /** What the layer does in the set */
+  role: LayerRole;
+
+  /** Key the layer plays in */
+  key: MusicalKey;
+}
+
+/**
+ * Songs that play simultaneously: the real unit of playback.
+ * A classic kwyjibo pair is a main and a partner layer, plus two hidden layers.
+ *
+ * Example:
+ *   {
+ *     key: { key: 1, mode: 'unknown' },
+ *     tempo: 94,
+ *     layers: [
+ *       { song: nas, role: 'main', key: { key: 1, mode: 'unknown' } },
+ *       { song: outkast, role: 'partner', key: { key: 1, mode: 'unknown' } },
+ *       { song: mobbDeep, role: 'hidden', key: { key: 8, mode: 'unknown' } },
+ *     ],
+ *   }
+ */
+export interface LayeredSet {
+  /** Layers in layout order */
+  layers: Layer[];
+
+  /** Key of the set (the main layer's key) */
+  key: MusicalKey;
+
+  /** Tempo every layer plays at */
+  tempo: Tempo;
+}
+
 // ============================================================================
 // FILTERING & SELECTION
 // ============================================================================
@@ -122,11 +205,48 @@ export interface SongFilter {
   /** Filter by key */
   key?: Key;
 
+  /**
+   * Filter by mode.
+   * Songs with an unknown mode always match, since they could be either.
+   */
+  mode?: Mode;
+
   /** Filter by artist (exact match) */
   artist?: string;
 
   /** Exclude specific song IDs */
   excludeIds?: number[];
+
+  /** Exclude songs that are banned right now (see SongLibrary.isBanned) */
+  excludeBanned?: boolean;
+}
+
+/**
+ * Per-song preferences set by the user.
+ *
+ * Example:
+ *   { weight: 2, favorite: true }
+ *   → Picked twice as often as its score alone suggests, with a favorite bonus
+ *   { bannedUntil: Date.now() + 60 * 60 * 1000 }
+ *   → Not played for the next hour
+ */
+export interface SongAttributes {
+  /**
+   * Multiplier for the song's chance of being picked from the top candidates.
+   * It also moves the song up or down the ranking (see WeightScorer), so a
+   * heavy song can make the top candidates.
+   * Default: 1
+   */
+  weight?: number;
+
+  /** Favorite songs get a scoring bonus (see PreferenceScorer) */
+  favorite?: boolean;
+
+  /** Banned songs are never selected */
+  banned?: boolean;
+
+  /** Banned until this time (ms since the epoch) */
+  bannedUntil?: number;
 }
 
 /**
@@ -243,6 +363,13 @@ export function isValidTempo(value: number): value is Tempo {
   return value === 84 || value === 94 || value === 102;
 }
 
+/**
+ * Check if a string is a valid mode.
+ */
+export function isValidMode(value: string): value is Mode {
+  return value === 'major' || value === 'minor';
+}
+
 /**
  * Check if a string is a valid track type.
  */
@@ -266,6 +393,11 @@ export function isValidDirection(value: string): value is Direction {
  */
 export const ALL_KEYS: readonly Key[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] as const;
 
+/**
+ * All valid modes.
+ */
+export const ALL_MODES: readonly Mode[] = ['major', 'minor'] as const;
+
 /**
  * All valid tempos.
  */
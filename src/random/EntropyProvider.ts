@@ -0,0 +1,293 @@
+/**
+ * Entropy Providers
+ *
+ * Where QuantumRandom gets its raw bytes. Each provider wraps one source:
+ *
+ * - HttpQuantumProvider: quantum random API over HTTP (async only)
+ * - WebCryptoProvider: crypto.getRandomValues (browsers, Node 19+)
+ * - NodeCryptoProvider: node:crypto randomBytes (Node without global Web Crypto)
+ * - FixedEntropyProvider: fixed test vectors (deterministic tests)
+ *
+ * Providers are combined into an EntropyProviderChain, which fails over
+ * from one to the next and health-tests every byte.
+ */
+
+/**
+ * A source of raw random bytes.
+ *
+ * Example:
+ *   const provider: EntropyProvider = new WebCryptoProvider();
+ *   const bytes = await provider.getBytes(32);
+ */
+export interface EntropyProvider {
+  /** Name shown in cache stats and health failures */
+  readonly name: string;
+
+  /**
+   * Get exactly `count` random bytes.
+   *
+   * @throws Error if the source cannot supply them
+   */
+  getBytes(count: number): Promise<Uint8Array>;
+
+  /**
+   * Get exactly `count` random bytes synchronously.
+   * Optional: only sources that never wait (e.g. Web Crypto) implement it.
+   *
+   * @throws Error if the source cannot supply them
+   */
+  getBytesSync?(count: number): Uint8Array;
+}
+
+/**
+ * Options for HttpQuantumProvider.
+ */
+export interface HttpQuantumProviderOptions {
+  /** API endpoint. Default: 'https://api.shitchell.com/v1/quantum/random' */
+  apiUrl?: string;
+
+  /** Timeout per request (ms). Default: 5000 */
+  timeout?: number;
+}
+
+/**
+ * Quantum random bytes from the kwyjibo quantum API.
+ *
+ * The API returns hex16 values (2 bytes each), at most 1024 per request;
+ * larger requests are split.
+ */
+export class HttpQuantumProvider implements EntropyProvider {
+  readonly name = 'quantum-api';
+  private readonly apiUrl: string;
+  private readonly timeout: number;
+
+  constructor(options: HttpQuantumProviderOptions = {}) {
+    this.apiUrl = options.apiUrl ?? 'https://api.shitchell.com/v1/quantum/random';
+    this.timeout = options.timeout ?? 5000;
+  }
+
+  /**
+   * Fetch random bytes from the API.
+   *
+   * @throws Error on network errors, timeouts, bad status codes or malformed data
+   */
+  async getBytes(count: number): Promise<Uint8Array> {
+    validateByteCount(count);
+
+    const bytes = new Uint8Array(count);
+    let filled = 0;
+
+    while (filled < count) {
+      const hex = await this.fetchHex(Math.min(Math.ceil((count - filled) / 2), 1024));
+      const chunk = hexToBytes(hex).subarray(0, count - filled);
+      if (chunk.length === 0) {
+        throw new Error('Quantum API returned no data');
+      }
+
+      bytes.set(chunk, filled);
+      filled += chunk.length;
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Request `size` hex16 values and return them as one hex string.
+   */
+  private async fetchHex(size: number): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.apiUrl}?data_type=hex16&size=${size}`, {
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`API returned ${response.status}`);
+      }
+
+      const result = (await response.json()) as { data?: string[] | string };
+
+      // API returns a hex16 array; some deployments return one hex string
+      if (Array.isArray(result.data)) {
+        return result.data
+          .map((num) => {
+            const numVal = typeof num === 'string' ? parseInt(num, 16) : num;
+            return numVal.toString(16).padStart(4, '0');
+          })
+          .join('');
+      }
+      if (typeof result.data === 'string') {
+        return result.data;
+      }
+
+      throw new Error('Quantum API response has no data');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Cryptographically secure bytes from the Web Crypto API.
+ */
+export class WebCryptoProvider implements EntropyProvider {
+  readonly name = 'web-crypto';
+
+  getBytes(count: number): Promise<Uint8Array> {
+    try {
+      return Promise.resolve(this.getBytesSync(count));
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  /**
+   * @throws Error if Web Crypto is unavailable
+   */
+  getBytesSync(count: number): Uint8Array {
+    validateByteCount(count);
+    if (typeof crypto === 'undefined' || typeof crypto.getRandomValues !== 'function') {
+      throw new Error('Web Crypto is not available');
+    }
+
+    // getRandomValues fills at most 65536 bytes per call
+    const bytes = new Uint8Array(count);
+    for (let offset = 0; offset < count; offset += 65536) {
+      crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, count)));
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Cryptographically secure bytes from Node's crypto module.
+ * Loaded on first use, so browser bundles never touch it.
+ */
+export class NodeCryptoProvider implements EntropyProvider {
+  readonly name = 'node-crypto';
+
+  /**
+   * @throws Error if node:crypto cannot be loaded (e.g. in a browser)
+   */
+  async getBytes(count: number): Promise<Uint8Array> {
+    validateByteCount(count);
+
+    const { randomBytes } = await import('node:crypto');
+    return new Uint8Array(randomBytes(count));
+  }
+}
+
+/**
+ * Fixed bytes, handed out in order. For deterministic tests.
+ *
+ * Example:
+ *   const provider = new FixedEntropyProvider([0x12, 0x34, 0x56, 0x78]);
+ *   provider.getBytesSync(2); // Uint8Array [0x12, 0x34]
+ */
+export class FixedEntropyProvider implements EntropyProvider {
+  readonly name: string;
+  private readonly bytes: Uint8Array;
+  private readonly cycle: boolean;
+  private offset = 0;
+
+  /**
+   * @param bytes - Test vector
+   * @param options - `cycle` wraps around at the end instead of throwing; `name` overrides 'fixed'
+   * @throws Error if the vector is empty or holds values outside 0-255
+   */
+  constructor(bytes: ArrayLike<number>, options: { cycle?: boolean; name?: string } = {}) {
+    if (bytes.length === 0) {
+      throw new Error('Test vector must not be empty');
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      const value = bytes[i]!;
+      if (!Number.isInteger(value) || value < 0 || value > 255) {
+        throw new Error(`Test vector must hold bytes (0-255), got ${value} at ${i}`);
+      }
+    }
+
+    this.bytes = Uint8Array.from(bytes);
+    this.cycle = options.cycle ?? false;
+    this.name = options.name ?? 'fixed';
+  }
+
+  getBytes(count: number): Promise<Uint8Array> {
+    try {
+      return Promise.resolve(this.getBytesSync(count));
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  /**
+   * @throws Error if the vector runs out (and `cycle` is off)
+   */
+  getBytesSync(count: number): Uint8Array {
+    validateByteCount(count);
+    if (!this.cycle && this.offset + count > this.bytes.length) {
+      throw new Error(
+        `Test vector exhausted: ${this.bytes.length - this.offset} bytes left, ${count} requested`
+      );
+    }
+
+    const result = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      result[i] = this.bytes[(this.offset + i) % this.bytes.length]!;
+    }
+    this.offset = this.cycle ? (this.offset + count) % this.bytes.length : this.offset + count;
+    return result;
+  }
+
+  /**
+   * Get how many bytes are left (Infinity when cycling).
+   */
+  getRemaining(): number {
+    return this.cycle ? Infinity : this.bytes.length - this.offset;
+  }
+
+  /**
+   * Start the vector over.
+   */
+  reset(): void {
+    this.offset = 0;
+  }
+}
+
+/**
+ * Convert bytes to a lowercase hex string.
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Convert a hex string to bytes (a trailing odd digit is dropped).
+ *
+ * @throws Error if the string contains non-hex characters
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (!/^[0-9a-f]*$/i.test(hex)) {
+    throw new Error('Invalid hex data');
+  }
+
+  const bytes = new Uint8Array(Math.floor(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Validate a byte count.
+ */
+function validateByteCount(count: number): void {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`count must be a non-negative integer, got ${count}`);
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Entropy Provider Chain
+ *
+ * Tries entropy providers in order until one delivers healthy bytes.
+ * A provider is skipped for a request when it throws or when its bytes
+ * fail a health test; the failed batch is discarded, never used.
+ *
+ * Example:
+ *   const chain = new EntropyProviderChain([
+ *     new HttpQuantumProvider(),
+ *     new WebCryptoProvider(),
+ *   ]);
+ *
+ *   const { bytes, provider } = await chain.getBytes(64);
+ *   // provider = 'quantum-api', or 'web-crypto' if the API was down
+ */
+
+import type { EntropyProvider } from './EntropyProvider.js';
+import { HealthMonitor } from './HealthTests.js';
+import type { HealthTestOptions, HealthTestFailure } from './HealthTests.js';
+
+/**
+ * Options for EntropyProviderChain.
+ */
+export interface EntropyProviderChainOptions {
+  /** Health test settings, or false to accept bytes untested. Default: {} */
+  healthTests?: HealthTestOptions | false;
+
+  /** How many health failures to remember. Default: 20 */
+  maxFailures?: number;
+}
+
+/**
+ * Bytes together with the provider that supplied them.
+ */
+export interface EntropyBatch {
+  bytes: Uint8Array;
+  provider: string;
+}
+
+/**
+ * Ordered list of entropy providers with failover and health tests.
+ */
+export class EntropyProviderChain {
+  private readonly providers: readonly EntropyProvider[];
+  private readonly monitors: readonly (HealthMonitor | null)[];
+  private readonly maxFailures: number;
+  private readonly healthFailures: HealthTestFailure[] = [];
+
+  /**
+   * Create a chain.
+   *
+   * @param providers - Providers in order of preference
+   * @param options - Health test settings
+   * @throws Error if there are no providers or the health test options are invalid
+   */
+  constructor(providers: readonly EntropyProvider[], options: EntropyProviderChainOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('At least one entropy provider is required');
+    }
+
+    const healthTests = options.healthTests ?? {};
+    this.providers = [...providers];
+    // One monitor per provider: the tests run on each provider's own byte stream
+    this.monitors = providers.map(() => (healthTests === false ? null : new HealthMonitor(healthTests)));
+    this.maxFailures = options.maxFailures ?? 20;
+  }
+
+  /**
+   * Get the provider names in order of preference.
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Get the most recent health test failures, oldest first.
+   */
+  getHealthFailures(): HealthTestFailure[] {
+    return this.healthFailures.map((failure) => ({ ...failure }));
+  }
+
+  /**
+   * Get healthy bytes from the first provider that can supply them.
+   *
+   * @throws Error if every provider failed
+   */
+  async getBytes(count: number): Promise<EntropyBatch> {
+    const errors: string[] = [];
+
+    for (let i = 0; i < this.providers.length; i++) {
+      const provider = this.providers[i]!;
+      try {
+        const bytes = await provider.getBytes(count);
+        if (this.isHealthy(i, bytes, errors)) {
+          return { bytes, provider: provider.name };
+        }
+      } catch (error) {
+        errors.push(`${provider.name}: ${(error as Error).message}`);
+      }
+    }
+
+    throw new Error(`No entropy provider could supply ${count} bytes (${errors.join('; ')})`);
+  }
+
+  /**
+   * Get healthy bytes synchronously, skipping providers without getBytesSync.
+   *
+   * @throws Error if every synchronous provider failed (or there are none)
+   */
+  getBytesSync(count: number): EntropyBatch {
+    const errors: string[] = [];
+
+    for (let i = 0; i < this.providers.length; i++) {
+      const provider = this.providers[i]!;
+      if (!provider.getBytesSync) continue;
+
+      try {
+        const bytes = provider.getBytesSync(count);
+        if (this.isHealthy(i, bytes, errors)) {
+          return { bytes, provider: provider.name };
+        }
+      } catch (error) {
+        errors.push(`${provider.name}: ${(error as Error).message}`);
+      }
+    }
+
+    throw new Error(
+      `No synchronous entropy provider could supply ${count} bytes` +
+        (errors.length > 0 ? ` (${errors.join('; ')})` : '')
+    );
+  }
+
+  /**
+   * Run a provider's health tests over a batch, recording any failure.
+   */
+  private isHealthy(index: number, bytes: Uint8Array, errors: string[]): boolean {
+    const provider = this.providers[index]!;
+    const failure = this.monitors[index]?.test(bytes, provider.name) ?? null;
+    if (!failure) return true;
+
+    this.healthFailures.push(failure);
+    if (this.healthFailures.length > this.maxFailures) {
+      this.healthFailures.shift();
+    }
+
+    errors.push(`${provider.name}: ${failure.test} test failed`);
+    return false;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Entropy Health Tests
+ *
+ * Continuous checks on the raw bytes coming out of an entropy provider,
+ * modelled on the two approved tests in NIST SP 800-90B (section 4.4):
+ *
+ * - Repetition Count Test: catches a stuck source (the same byte over and over)
+ * - Adaptive Proportion Test: catches a source that favours one value
+ *   (a byte showing up far more often than its entropy allows within a window)
+ *
+ * Both cutoffs are derived from the claimed min-entropy per byte and a false
+ * alarm probability, so a healthy source fails roughly once every 2^30 samples
+ * by default.
+ *
+ * Example:
+ *   const monitor = new HealthMonitor();
+ *   const failure = monitor.test(bytes);
+ *   if (failure) console.warn(`${failure.test} failed on byte ${failure.value}`);
+ */
+
+/**
+ * Options for the health tests.
+ */
+export interface HealthTestOptions {
+  /** Claimed min-entropy per byte, in bits (0-8]. Default: 8 (full entropy) */
+  minEntropy?: number;
+
+  /** False alarm probability as a power of two (α = 2^-n). Default: 30 */
+  alphaExponent?: number;
+
+  /** Adaptive proportion window size in bytes. Default: 512 */
+  windowSize?: number;
+}
+
+/**
+ * Name of a health test.
+ */
+export type HealthTestName = 'repetition-count' | 'adaptive-proportion';
+
+/**
+ * A failed health check.
+ */
+export interface HealthTestFailure {
+  /** Test that failed */
+  test: HealthTestName;
+
+  /** Provider whose bytes failed (filled in by the provider chain) */
+  provider: string;
+
+  /** Byte value that repeated too often */
+  value: number;
+
+  /** How many times it was seen (in a row, or within the window) */
+  count: number;
+
+  /** Count at which the test fails */
+  cutoff: number;
+
+  /** When the failure happened (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Repetition Count Test (SP 800-90B 4.4.1).
+ * Fails when one byte value repeats `cutoff` times in a row.
+ */
+export class RepetitionCountTest {
+  readonly cutoff: number;
+  private last: number | null = null;
+  private count = 0;
+
+  /**
+   * @param minEntropy - Claimed min-entropy per byte, in bits
+   * @param alphaExponent - False alarm probability exponent (α = 2^-n)
+   */
+  constructor(minEntropy: number, alphaExponent: number) {
+    this.cutoff = 1 + Math.ceil(alphaExponent / minEntropy);
+  }
+
+  /**
+   * Feed one byte.
+   *
+   * @returns The repeat count if the test failed, otherwise null
+   */
+  feed(value: number): number | null {
+    if (value === this.last) {
+      this.count++;
+    } else {
+      this.last = value;
+      this.count = 1;
+    }
+
+    return this.count >= this.cutoff ? this.count : null;
+  }
+
+  /**
+   * Forget all previous bytes.
+   */
+  reset(): void {
+    this.last = null;
+    this.count = 0;
+  }
+}
+
+/**
+ * Adaptive Proportion Test (SP 800-90B 4.4.2).
+ * Takes the first byte of each window and fails when it appears `cutoff`
+ * or more times within that window.
+ */
+export class AdaptiveProportionTest {
+  readonly cutoff: number;
+  readonly windowSize: number;
+  private reference: number | null = null;
+  private seen = 0;
+  private matches = 0;
+
+  /**
+   * @param minEntropy - Claimed min-entropy per byte, in bits
+   * @param alphaExponent - False alarm probability exponent (α = 2^-n)
+   * @param windowSize - Bytes per window
+   */
+  constructor(minEntropy: number, alphaExponent: number, windowSize: number) {
+    this.windowSize = windowSize;
+    this.cutoff = 1 + criticalBinomial(windowSize, 2 ** -minEntropy, 2 ** -alphaExponent);
+  }
+
+  /**
+   * Feed one byte.
+   *
+   * @returns The match count if the test failed, otherwise null
+   */
+  feed(value: number): number | null {
+    if (this.reference === null) {
+      this.reference = value;
+      this.seen = 1;
+      this.matches = 1;
+      return null;
+    }
+
+    this.seen++;
+    if (value === this.reference) {
+      this.matches++;
+      if (this.matches >= this.cutoff) {
+        return this.matches;
+      }
+    }
+
+    if (this.seen >= this.windowSize) {
+      this.reference = null;
+    }
+    return null;
+  }
+
+  /**
+   * Start a fresh window.
+   */
+  reset(): void {
+    this.reference = null;
+    this.seen = 0;
+    this.matches = 0;
+  }
+}
+
+/**
+ * Runs both health tests over a continuous byte stream.
+ */
+export class HealthMonitor {
+  private readonly repetition: RepetitionCountTest;
+  private readonly proportion: AdaptiveProportionTest;
+
+  /**
+   * Create a monitor.
+   *
+   * @param options - Claimed entropy, false alarm rate and window size
+   * @throws Error if an option is out of range
+   */
+  constructor(options: HealthTestOptions = {}) {
+    const minEntropy = options.minEntropy ?? 8;
+    const alphaExponent = options.alphaExponent ?? 30;
+    const windowSize = options.windowSize ?? 512;
+
+    if (!(minEntropy > 0 && minEntropy <= 8)) {
+      throw new Error(`minEntropy must be in (0, 8], got ${minEntropy}`);
+    }
+    if (!(alphaExponent >= 20 && alphaExponent <= 40)) {
+      throw new Error(`alphaExponent must be between 20 and 40, got ${alphaExponent}`);
+    }
+    if (!Number.isInteger(windowSize) || windowSize < 2) {
+      throw new Error(`windowSize must be an integer >= 2, got ${windowSize}`);
+    }
+
+    this.repetition = new RepetitionCountTest(minEntropy, alphaExponent);
+    this.proportion = new AdaptiveProportionTest(minEntropy, alphaExponent, windowSize);
+  }
+
+  /**
+   * Get the cutoffs in use.
+   */
+  getCutoffs(): { repetitionCount: number; adaptiveProportion: number } {
+    return {
+      repetitionCount: this.repetition.cutoff,
+      adaptiveProportion: this.proportion.cutoff,
+    };
+  }
+
+  /**
+   * Run the tests over a batch of bytes. State carries over between batches.
+   * After a failure both tests restart, so the next batch is judged on its own.
+   *
+   * @returns The first failure, or null if every byte passed
+   */
+  test(bytes: Uint8Array, provider: string = ''): HealthTestFailure | null {
+    for (const value of bytes) {
+      const repeats = this.repetition.feed(value);
+      if (repeats !== null) {
+        return this.fail('repetition-count', provider, value, repeats, this.repetition.cutoff);
+      }
+
+      const matches = this.proportion.feed(value);
+      if (matches !== null) {
+        return this.fail('adaptive-proportion', provider, value, matches, this.proportion.cutoff);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Restart both tests.
+   */
+  reset(): void {
+    this.repetition.reset();
+    this.proportion.reset();
+  }
+
+  /**
+   * Build a failure record and restart the tests.
+   */
+  private fail(
+    test: HealthTestName,
+    provider: string,
+    value: number,
+    count: number,
+    cutoff: number
+  ): HealthTestFailure {
+    this.reset();
+    return { test, provider, value, count, cutoff, timestamp: Date.now() };
+  }
+}
+
+/**
+ * Smallest k with P(X <= k) >= 1 - alpha for X ~ Binomial(n, p)
+ * (the spreadsheet CRITBINOM function used by SP 800-90B).
+ */
+function criticalBinomial(n: number, p: number, alpha: number): number {
+  // Walk the CDF from 0 using the pmf recurrence, in log space to avoid underflow
+  let logPmf = n * Math.log1p(-p);
+  let cdf = Math.exp(logPmf);
+  const ratio = Math.log(p) - Math.log1p(-p);
+
+  for (let k = 0; k < n; k++) {
+    if (cdf >= 1 - alpha) {
+      return k;
+    }
+    logPmf += Math.log(n - k) - Math.log(k + 1) + ratio;
+    cdf += Math.exp(logPmf);
+  }
+
+  return n;
+}
@@ -6,17 +6,30 @@
  * for song selection, making each kwyjibo mix genuinely unique and unpredictable.
  *
  * Features:
- * - Quantum random API integration
+ * - Pluggable entropy providers (quantum API first, Web Crypto as failover)
+ * - Continuous health tests on incoming bytes (SP 800-90B style)
  * - Smart caching with localStorage
  * - Automatic refill when cache runs low
- * - Cryptographic fallback when API unavailable
- * - Multiple random methods (integer, float, choice, shuffle)
+ * - Multiple random methods (integer, float, choice, weighted choice, sample, shuffle)
+ * - Unbiased integers: rejection sampling on raw bits from the cache
  *
  * Why quantum?
  * "DJing is really fun but 'not DJing' is even more fun" - dmvjs
  * Quantum randomness creates unexpected, emotionally-resonant mixes.
  */
 
+import type { RandomSource } from './types.js';
+import { HttpQuantumProvider, WebCryptoProvider, bytesToHex } from './EntropyProvider.js';
+import type { EntropyProvider } from './EntropyProvider.js';
+import { EntropyProviderChain } from './EntropyProviderChain.js';
+import type { HealthTestOptions, HealthTestFailure } from './HealthTests.js';
+import {
+  validateIntegerRange,
+  validateWeights,
+  pickWeightedIndex,
+  validateSampleSize,
+} from './sampling.js';
+
 /**
  * Options for QuantumRandom initialization.
  */
@@ -35,6 +48,17 @@ export interface QuantumRandomOptions {
 
   /** Timeout for API requests (ms). Default: 5000 */
   apiTimeout?: number;
+
+  /**
+   * Entropy providers in order of preference.
+   * Default: the quantum API (apiUrl, apiTimeout), then Web Crypto.
+   * At least one provider should support getBytesSync, for reads that
+   * outrun the cache.
+   */
+  providers?: readonly EntropyProvider[];
+
+  /** Health test settings, or false to skip them. Default: {} */
+  healthTests?: HealthTestOptions | false;
 }
 
 /**
@@ -84,21 +108,24 @@ class LocalStorageAdapter implements RandomStorage {
  *   const random = await qrng.getInteger(1, 10); // 1-10
  *   const choice = await qrng.getChoice(['a', 'b', 'c']); // 'a', 'b', or 'c'
  */
-export class QuantumRandom {
-  private readonly apiUrl: string;
+export class QuantumRandom implements RandomSource {
+  private readonly entropy: EntropyProviderChain;
   private readonly cacheSize: number;
   private readonly refillThreshold: number;
-  private readonly apiTimeout: number;
   private readonly storage: RandomStorage | null;
 
   private cache: string = '';
+  private cacheProvider: string | null = null;
   private isRefilling: boolean = false;
 
   constructor(options: QuantumRandomOptions = {}) {
-    this.apiUrl = options.apiUrl ?? 'https://api.shitchell.com/v1/quantum/random';
+    const providers = options.providers ?? [
+      new HttpQuantumProvider({ apiUrl: options.apiUrl, timeout: options.apiTimeout }),
+      new WebCryptoProvider(),
+    ];
+    this.entropy = new EntropyProviderChain(providers, { healthTests: options.healthTests });
     this.cacheSize = options.cacheSize ?? 2048;
     this.refillThreshold = options.refillThreshold ?? 0.25;
-    this.apiTimeout = options.apiTimeout ?? 5000;
 
     // Set up storage (localStorage or null)
     if (options.useLocalStorage !== false && typeof localStorage !== 'undefined') {
@@ -114,25 +141,19 @@ export class QuantumRandom {
 
   /**
    * Get a random integer between min and max (inclusive).
+   * Every value is equally likely (rejection sampling, no modulo bias).
    *
    * @param min - Minimum value
    * @param max - Maximum value
    * @returns Random integer in range [min, max]
+   * @throws Error if the bounds are not integers, min > max, or the range exceeds 2^48
    *
    * Example:
    *   await qrng.getInteger(1, 6); // Dice roll: 1-6
    */
   async getInteger(min: number, max: number): Promise<number> {
-    if (!Number.isInteger(min) || !Number.isInteger(max)) {
-      throw new Error('min and max must be integers');
-    }
-    if (min > max) {
-      throw new Error('min must be <= max');
-    }
-
-    const range = max - min + 1;
-    const randomFloat = await this.getFloat();
-    const result = Math.floor(randomFloat * range) + min;
+    const range = validateIntegerRange(min, max);
+    const result = min + (await this.getBelow(range));
 
     // Validate result is in bounds
     if (result < min || result > max) {
@@ -150,9 +171,19 @@ export class QuantumRandom {
    * Example:
    *   await qrng.getFloat(); // 0.724891...
    */
-  async getFloat(): Promise<number> {
+  getFloat(): Promise<number> {
+    return Promise.resolve(this.nextFloat());
+  }
+
+  /**
+   * Get a random float in [0, 1) synchronously.
+   * Reads from the cache (crypto fallback when empty), so it never waits on the API.
+   *
+   * @returns Random float in range [0, 1)
+   */
+  nextFloat(): number {
     // Get 16 hex characters (64 bits) for high precision
-    const hex = await this.getHexadecimal(16);
+    const hex = this.takeHex(16);
 
     if (!hex || hex.length !== 16) {
       throw new Error(`Invalid hex data: expected 16 chars, got ${hex?.length ?? 0}`);
@@ -184,6 +215,34 @@ export class QuantumRandom {
    *   await qrng.getHexadecimal(8); // 'a4f8b2c1'
    */
   async getHexadecimal(length: number): Promise<string> {
+    return this.takeHex(length);
+  }
+
+  /**
+   * Get a uniform integer in [0, range) by rejection sampling.
+   *
+   * Reads just enough hex digits to cover the range, masks to the needed
+   * bits and retries values past the end. Each try succeeds with p > 1/2.
+   */
+  private getBelow(range: number): Promise<number> {
+    if (range <= 1) return Promise.resolve(0);
+
+    const bits = Math.ceil(Math.log2(range));
+    const hexDigits = Math.ceil(bits / 4);
+    const span = 2 ** bits;
+
+    for (;;) {
+      const value = parseInt(this.takeHex(hexDigits), 16) % span;
+      if (value < range) {
+        return Promise.resolve(value);
+      }
+    }
+  }
+
+  /**
+   * Take hex characters from the cache.
+   */
+  private takeHex(length: number): string {
     if (length <= 0) {
       throw new Error('length must be positive');
     }
@@ -197,7 +256,7 @@ export class QuantumRandom {
     // Validate hex before returning
     if (!/^[0-9a-f]*$/i.test(hex)) {
       // Cache is corrupted, clear it and regenerate
-      this.cache = this.getCryptoHex(this.cacheSize);
+      this.cache = this.getSyncHex(this.cacheSize);
       this.storage?.removeItem('qrng-cache');
       // Retry extraction
       return this.cache.slice(0, length);
@@ -234,6 +293,49 @@ export class QuantumRandom {
     return item;
   }
 
+  /**
+   * Get a random element, with probability proportional to its weight.
+   *
+   * @param array - Array to choose from
+   * @param weights - One non-negative weight per element
+   * @returns Random element (zero-weight elements are never chosen)
+   * @throws Error if the array is empty, the weights don't match, or all weights are 0
+   *
+   * Example:
+   *   await qrng.getWeightedChoice(['common', 'rare'], [9, 1]); // 'common' 90% of the time
+   */
+  async getWeightedChoice<T>(array: readonly T[], weights: readonly number[]): Promise<T> {
+    const total = validateWeights(array.length, weights);
+    const index = pickWeightedIndex(weights, total, await this.getFloat());
+    return array[index]!;
+  }
+
+  /**
+   * Get `count` distinct elements (sampling without replacement).
+   *
+   * @param array - Array to sample from
+   * @param count - Number of elements to take
+   * @returns Elements in random order
+   * @throws Error if count is negative or larger than the array
+   *
+   * Example:
+   *   await qrng.sample([1, 2, 3, 4, 5], 3); // [2, 5, 1]
+   */
+  async sample<T>(array: readonly T[], count: number): Promise<T[]> {
+    validateSampleSize(array.length, count);
+
+    // Partial Fisher-Yates: only the first `count` positions are shuffled
+    const result = [...array];
+    for (let i = 0; i < count; i++) {
+      const j = i + (await this.getBelow(result.length - i));
+      const temp = result[i]!;
+      result[i] = result[j]!;
+      result[j] = temp;
+    }
+
+    return result.slice(0, count);
+  }
+
   /**
    * Get multiple unique random elements from an array.
    *
@@ -245,19 +347,12 @@ export class QuantumRandom {
    *   await qrng.getUniqueChoices([1,2,3,4,5], 3); // [2, 5, 1]
    */
   async getUniqueChoices<T>(array: readonly T[], count: number): Promise<T[]> {
-    if (count > array.length) {
-      throw new Error('count must be <= array.length');
-    }
-    if (count < 0) {
-      throw new Error('count must be >= 0');
-    }
-
-    const shuffled = await this.shuffle([...array]);
-    return shuffled.slice(0, count);
+    return this.sample(array, count);
   }
 
   /**
    * Shuffle an array using quantum randomness (Fisher-Yates algorithm).
+   * Each swap reads only the hex digits it needs from the cache.
    *
    * @param array - Array to shuffle (creates a copy)
    * @returns Shuffled array
@@ -266,17 +361,7 @@ export class QuantumRandom {
    *   await qrng.shuffle([1, 2, 3, 4, 5]); // [3, 1, 5, 2, 4]
    */
   async shuffle<T>(array: readonly T[]): Promise<T[]> {
-    const result = [...array];
-
-    for (let i = result.length - 1; i > 0; i--) {
-      const j = await this.getInteger(0, i);
-      // Swap elements
-      const temp = result[i]!;
-      result[i] = result[j]!;
-      result[j] = temp;
-    }
-
-    return result;
+    return this.sample(array, array.length);
   }
 
   /**
@@ -294,18 +379,26 @@ export class QuantumRandom {
 
   /**
    * Get current cache statistics.
+   *
+   * `provider` is the entropy provider that last added to the cache
+   * ('storage' when restored from localStorage, null before the first fill).
+   * `healthFailures` lists recent failed health checks, oldest first.
    */
   getCacheStats(): {
     size: number;
     maxSize: number;
     percentage: number;
     isRefilling: boolean;
+    provider: string | null;
+    healthFailures: HealthTestFailure[];
   } {
     return {
       size: this.cache.length,
       maxSize: this.cacheSize,
       percentage: (this.cache.length / this.cacheSize) * 100,
       isRefilling: this.isRefilling,
+      provider: this.cacheProvider,
+      healthFailures: this.entropy.getHealthFailures(),
     };
   }
 
@@ -314,21 +407,22 @@ export class QuantumRandom {
    */
   clearCache(): void {
     this.cache = '';
+    this.cacheProvider = null;
     this.storage?.removeItem('qrng-cache');
   }
 
   /**
    * Ensure cache has at least the specified size.
-   * If not, use crypto fallback for immediate needs.
+   * If not, top it up from the first synchronous provider for immediate needs.
    */
   private ensureCacheSize(needed: number): void {
     if (this.cache.length >= needed) {
       return;
     }
 
-    // Not enough in cache - use crypto fallback
+    // Not enough in cache - can't wait for the API
     const additional = needed - this.cache.length;
-    this.cache += this.getCryptoHex(additional);
+    this.cache += this.getSyncHex(additional);
   }
 
   /**
@@ -345,7 +439,7 @@ export class QuantumRandom {
   }
 
   /**
-   * Refill the cache from quantum API.
+   * Refill the cache from the entropy providers.
    */
   private async refillCache(): Promise<void> {
     if (this.isRefilling) return;
@@ -357,43 +451,14 @@ export class QuantumRandom {
       const needed = this.cacheSize - this.cache.length;
       if (needed <= 0) return;
 
-      // Fetch from API with timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.apiTimeout);
-
       try {
-        // API expects hex16 data type and size parameter (max 1024)
-        const size = Math.min(Math.ceil(needed / 4), 1024); // Each hex16 gives 4 hex chars
-        const response = await fetch(`${this.apiUrl}?data_type=hex16&size=${size}`, {
-          signal: controller.signal,
-        });
-
-        if (!response.ok) {
-          throw new Error(`API returned ${response.status}`);
-        }
-
-        const result = (await response.json()) as { data?: string[] | string };
-
-        // API returns hex16 array, join and convert to hex string
-        if (Array.isArray(result.data)) {
-          const hexData = result.data.map(num => {
-            const numVal = typeof num === 'string' ? parseInt(num, 16) : num;
-            return numVal.toString(16).padStart(4, '0');
-          }).join('');
-          this.cache += hexData.slice(0, needed);
-          this.saveCacheToStorage();
-        } else if (typeof result.data === 'string') {
-          // Fallback if API returns string directly
-          this.cache += result.data.slice(0, needed);
-          this.saveCacheToStorage();
-        }
-      } finally {
-        clearTimeout(timeoutId);
+        const { bytes, provider } = await this.entropy.getBytes(Math.ceil(needed / 2));
+        this.cache += bytesToHex(bytes).slice(0, needed);
+        this.cacheProvider = provider;
+      } catch {
+        // Every async provider failed - fall back to the synchronous ones
+        this.cache += this.getSyncHex(this.cacheSize - this.cache.length);
       }
-    } catch (error) {
-      // Fallback to crypto if quantum API fails
-      const needed = this.cacheSize - this.cache.length;
-      this.cache += this.getCryptoHex(needed);
       this.saveCacheToStorage();
     } finally {
       this.isRefilling = false;
@@ -401,18 +466,14 @@ export class QuantumRandom {
   }
 
   /**
-   * Get cryptographic random hex (fallback).
+   * Get hex from the first synchronous provider that passes its health tests.
+   *
+   * @throws Error if no synchronous provider could supply the bytes
    */
-  private getCryptoHex(length: number): string {
-    const bytes = new Uint8Array(Math.ceil(length / 2));
-    crypto.getRandomValues(bytes);
-
-    let hex = '';
-    for (const byte of bytes) {
-      hex += byte.toString(16).padStart(2, '0');
-    }
-
-    return hex.slice(0, length);
+  private getSyncHex(length: number): string {
+    const { bytes, provider } = this.entropy.getBytesSync(Math.ceil(length / 2));
+    this.cacheProvider = provider;
+    return bytesToHex(bytes).slice(0, length);
   }
 
   /**
@@ -424,6 +485,7 @@ export class QuantumRandom {
       // Validate that the stored cache only contains valid hex characters
       if (/^[0-9a-f]*$/i.test(stored)) {
         this.cache = stored.slice(0, this.cacheSize);
+        this.cacheProvider = 'storage';
       } else {
         // Cache is corrupted, clear it
         this.storage?.removeItem('qrng-cache');
@@ -455,6 +517,14 @@ export function getQuantumRandom(options?: QuantumRandomOptions): QuantumRandom
   return defaultInstance;
 }
 
+/**
+ * Get a random float in [0, 1) from the default instance.
+ * The default for options that take a plain `() => number` random function.
+ */
+export function quantumFloat(): number {
+  return getQuantumRandom().nextFloat();
+}
+
 /**
  * Reset the default instance (useful for testing).
  */
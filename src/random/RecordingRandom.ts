@@ -0,0 +1,137 @@
+/**
+ * Recording Random Source
+ *
+ * Wraps any RandomSource and logs every draw with its call-site label.
+ * The log serializes to JSON and feeds a ReplayRandom to reproduce the
+ * session exactly — even one that ran on quantum randomness.
+ *
+ * Example:
+ *   const recorder = new RecordingRandom(new QuantumRandom());
+ *   const engine = new KwyjiboEngine({ songs, audioLoader, random: recorder });
+ *   // ... play a great mix ...
+ *   localStorage.setItem('great-mix', recorder.toJSON());
+ */
+
+import type { RandomSource, RandomDraw, RandomLog } from './types.js';
+
+/**
+ * Random source that records every draw of the source it wraps.
+ */
+export class RecordingRandom implements RandomSource {
+  private readonly source: RandomSource;
+  private draws: RandomDraw[] = [];
+
+  /**
+   * @param source - Source that produces the actual random values
+   */
+  constructor(source: RandomSource) {
+    this.source = source;
+  }
+
+  nextFloat(label: string = ''): number {
+    const value = this.source.nextFloat(label);
+    this.draws.push({ label, method: 'nextFloat', value });
+    return value;
+  }
+
+  async getFloat(label: string = ''): Promise<number> {
+    const value = await this.source.getFloat(label);
+    this.draws.push({ label, method: 'getFloat', value });
+    return value;
+  }
+
+  async getInteger(min: number, max: number, label: string = ''): Promise<number> {
+    const value = await this.source.getInteger(min, max, label);
+    this.draws.push({ label, method: 'getInteger', args: [min, max], value });
+    return value;
+  }
+
+  /**
+   * Records the chosen index, so items never need to be serializable.
+   */
+  async getChoice<T>(array: readonly T[], label: string = ''): Promise<T> {
+    if (array.length === 0) {
+      throw new Error('array must not be empty');
+    }
+
+    const index = await this.source.getInteger(0, array.length - 1, label);
+    this.draws.push({ label, method: 'getChoice', args: [array.length], value: index });
+    return array[index]!;
+  }
+
+  /**
+   * Records the chosen index (weights are not recorded).
+   */
+  async getWeightedChoice<T>(
+    array: readonly T[],
+    weights: readonly number[],
+    label: string = ''
+  ): Promise<T> {
+    const index = await this.source.getWeightedChoice(
+      array.map((_, i) => i),
+      weights,
+      label
+    );
+    this.draws.push({ label, method: 'getWeightedChoice', args: [array.length], value: index });
+    return array[index]!;
+  }
+
+  /**
+   * Records the chosen indexes.
+   */
+  async sample<T>(array: readonly T[], count: number, label: string = ''): Promise<T[]> {
+    const indexes = await this.source.sample(
+      array.map((_, i) => i),
+      count,
+      label
+    );
+    this.draws.push({ label, method: 'sample', args: [array.length, count], value: indexes });
+    return indexes.map((i) => array[i]!);
+  }
+
+  /**
+   * Records the index order, so items never need to be serializable.
+   */
+  async shuffle<T>(array: readonly T[], label: string = ''): Promise<T[]> {
+    const order = await this.source.shuffle(
+      array.map((_, i) => i),
+      label
+    );
+    this.draws.push({ label, method: 'shuffle', args: [array.length], value: order });
+    return order.map((i) => array[i]!);
+  }
+
+  async getBoolean(label: string = ''): Promise<boolean> {
+    const value = await this.source.getBoolean(label);
+    this.draws.push({ label, method: 'getBoolean', value });
+    return value;
+  }
+
+  /**
+   * Number of draws recorded so far.
+   */
+  getDrawCount(): number {
+    return this.draws.length;
+  }
+
+  /**
+   * Get the recorded session.
+   */
+  getLog(): RandomLog {
+    return { version: 1, draws: this.draws.map((draw) => ({ ...draw })) };
+  }
+
+  /**
+   * Serialize the recorded session to JSON.
+   */
+  toJSON(): string {
+    return JSON.stringify(this.getLog());
+  }
+
+  /**
+   * Forget all recorded draws.
+   */
+  clear(): void {
+    this.draws = [];
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Replay Random Source
+ *
+ * Plays back a session recorded by RecordingRandom. Each call must match
+ * the recorded call at the same position (method, label and shape); the
+ * first mismatch throws a RandomReplayError instead of quietly producing
+ * a different mix.
+ *
+ * Example:
+ *   const replay = new ReplayRandom(localStorage.getItem('great-mix')!);
+ *   const engine = new KwyjiboEngine({ songs, audioLoader, random: replay });
+ *   await engine.start(); // same first track as the recorded session
+ */
+
+import { RandomReplayError } from './errors.js';
+import type { RandomSource, RandomDraw, RandomDrawMethod, RandomLog } from './types.js';
+
+const DRAW_METHODS: readonly RandomDrawMethod[] = [
+  'nextFloat',
+  'getFloat',
+  'getInteger',
+  'getChoice',
+  'getWeightedChoice',
+  'sample',
+  'shuffle',
+  'getBoolean',
+];
+
+/**
+ * Random source that replays a recorded session.
+ */
+export class ReplayRandom implements RandomSource {
+  private readonly draws: readonly RandomDraw[];
+  private position: number = 0;
+
+  /**
+   * @param log - Recorded session, or its JSON
+   * @throws Error if the log is malformed
+   */
+  constructor(log: RandomLog | string) {
+    this.draws = parseRandomLog(log).draws;
+  }
+
+  nextFloat(label: string = ''): number {
+    return this.take(label, 'nextFloat') as number;
+  }
+
+  getFloat(label: string = ''): Promise<number> {
+    return this.replay(() => this.take(label, 'getFloat') as number);
+  }
+
+  getInteger(min: number, max: number, label: string = ''): Promise<number> {
+    return this.replay(() => this.take(label, 'getInteger', [min, max]) as number);
+  }
+
+  getChoice<T>(array: readonly T[], label: string = ''): Promise<T> {
+    return this.replay(() => {
+      const index = this.take(label, 'getChoice', [array.length]) as number;
+      return array[index]!;
+    });
+  }
+
+  getWeightedChoice<T>(
+    array: readonly T[],
+    _weights: readonly number[],
+    label: string = ''
+  ): Promise<T> {
+    return this.replay(() => {
+      const index = this.take(label, 'getWeightedChoice', [array.length]) as number;
+      return array[index]!;
+    });
+  }
+
+  sample<T>(array: readonly T[], count: number, label: string = ''): Promise<T[]> {
+    return this.replay(() => {
+      const indexes = this.take(label, 'sample', [array.length, count]) as number[];
+      return indexes.map((i) => array[i]!);
+    });
+  }
+
+  shuffle<T>(array: readonly T[], label: string = ''): Promise<T[]> {
+    return this.replay(() => {
+      const order = this.take(label, 'shuffle', [array.length]) as number[];
+      return order.map((i) => array[i]!);
+    });
+  }
+
+  getBoolean(label: string = ''): Promise<boolean> {
+    return this.replay(() => this.take(label, 'getBoolean') as boolean);
+  }
+
+  /**
+   * Number of draws not yet replayed.
+   */
+  getRemaining(): number {
+    return this.draws.length - this.position;
+  }
+
+  /**
+   * Whether every recorded draw has been replayed.
+   */
+  isComplete(): boolean {
+    return this.position >= this.draws.length;
+  }
+
+  /**
+   * Start the replay over from the first draw.
+   */
+  reset(): void {
+    this.position = 0;
+  }
+
+  /**
+   * Run a replay step, turning thrown errors into rejected promises.
+   */
+  private replay<T>(step: () => T): Promise<T> {
+    try {
+      return Promise.resolve(step());
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  /**
+   * Take the next recorded draw, checking it matches the call.
+   *
+   * @throws RandomReplayError if the call diverges from the recording
+   */
+  private take(
+    label: string,
+    method: RandomDrawMethod,
+    args?: number[]
+  ): RandomDraw['value'] {
+    const index = this.position;
+    const expected = this.draws[index] ?? null;
+    const actual = { label, method, args };
+
+    if (!expected) {
+      throw new RandomReplayError(
+        `Replay exhausted: ${describeCall(actual)} requested after all ${this.draws.length} recorded draws`,
+        index,
+        null,
+        actual
+      );
+    }
+
+    if (
+      expected.method !== method ||
+      expected.label !== label ||
+      (expected.args ?? []).join(',') !== (args ?? []).join(',')
+    ) {
+      throw new RandomReplayError(
+        `Replay diverged at draw ${index}: expected ${describeCall(expected)}, got ${describeCall(actual)}`,
+        index,
+        expected,
+        actual
+      );
+    }
+
+    this.position++;
+    return expected.value;
+  }
+}
+
+/**
+ * Parse and validate a recorded session.
+ *
+ * @param log - Recorded session, or its JSON
+ * @throws Error if the log is malformed
+ */
+export function parseRandomLog(log: RandomLog | string): RandomLog {
+  const parsed: unknown = typeof log === 'string' ? JSON.parse(log) : log;
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Random log must be an object');
+  }
+
+  const { version, draws } = parsed as Partial<RandomLog>;
+  if (version !== 1) {
+    throw new Error(`Unsupported random log version: ${String(version)}`);
+  }
+  if (!Array.isArray(draws)) {
+    throw new Error('Random log draws must be an array');
+  }
+
+  draws.forEach((draw: RandomDraw, i) => {
+    if (typeof draw.label !== 'string' || !DRAW_METHODS.includes(draw.method)) {
+      throw new Error(`Random log draw ${i} is invalid`);
+    }
+  });
+
+  return { version, draws };
+}
+
+/**
+ * Describe a call for error messages, e.g. getChoice(5) @ top-candidates.
+ */
+function describeCall(call: { label: string; method: RandomDrawMethod; args?: number[] }): string {
+  const args = (call.args ?? []).join(', ');
+  return `${call.method}(${args})${call.label ? ` @ ${call.label}` : ''}`;
+}
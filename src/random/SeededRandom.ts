@@ -0,0 +1,251 @@
+/**
+ * Seeded Random Number Generator
+ *
+ * Deterministic pseudo-random numbers from a seed. Two instances with the
+ * same seed produce the same sequence, so a mix can be replayed exactly
+ * for debugging or shared as a seed.
+ *
+ * Algorithm:
+ * - The seed (number or string) is hashed into 128 bits of state (cyrb128)
+ * - Numbers come from sfc32, a small, fast PRNG with a 128-bit state
+ *
+ * Not cryptographically secure. Use QuantumRandom for unpredictable mixes.
+ */
+
+import type { RandomSource } from './types.js';
+import {
+  validateIntegerRange,
+  validateWeights,
+  pickWeightedIndex,
+  validateSampleSize,
+} from './sampling.js';
+
+/**
+ * Seeded pseudo-random number generator.
+ *
+ * Example:
+ *   const a = new SeededRandom('friday-night');
+ *   const b = new SeededRandom('friday-night');
+ *   await a.getInteger(1, 100) === await b.getInteger(1, 100); // true
+ */
+export class SeededRandom implements RandomSource {
+  private readonly seed: number | string;
+  private state: [number, number, number, number];
+
+  /**
+   * Create a seeded generator.
+   *
+   * @param seed - Any number or string
+   * @throws Error if a numeric seed is not finite
+   */
+  constructor(seed: number | string) {
+    if (typeof seed === 'number' && !Number.isFinite(seed)) {
+      throw new Error(`Seed must be a finite number, got ${seed}`);
+    }
+
+    this.seed = seed;
+    this.state = hashSeed(String(seed));
+  }
+
+  /**
+   * Get the seed this generator was created with.
+   */
+  getSeed(): number | string {
+    return this.seed;
+  }
+
+  /**
+   * Restart the sequence from the seed.
+   */
+  reset(): void {
+    this.state = hashSeed(String(this.seed));
+  }
+
+  /**
+   * Get the generator state (to continue the sequence later with setState).
+   */
+  getState(): [number, number, number, number] {
+    const [a, b, c, d] = this.state;
+    return [a >>> 0, b >>> 0, c >>> 0, d >>> 0];
+  }
+
+  /**
+   * Continue the sequence from a saved state.
+   *
+   * @throws Error if the state is not four 32-bit unsigned integers
+   */
+  setState(state: readonly number[]): void {
+    if (
+      state.length !== 4 ||
+      !state.every((word) => Number.isInteger(word) && word >= 0 && word <= 0xffffffff)
+    ) {
+      throw new Error('Seeded random state must be four 32-bit unsigned integers');
+    }
+    this.state = [state[0]!, state[1]!, state[2]!, state[3]!];
+  }
+
+  /**
+   * Get the next float in [0, 1).
+   *
+   * Example:
+   *   new SeededRandom(42).nextFloat(); // same value every time
+   */
+  nextFloat(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  /**
+   * Advance sfc32 and return the next 32-bit output.
+   */
+  private nextUint32(): number {
+    let [a, b, c, d] = this.state;
+
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+
+    this.state = [a, b, c, d];
+    return t >>> 0;
+  }
+
+  /**
+   * Get a uniform integer in [0, range) by rejection sampling.
+   * Uses one 32-bit output for ranges up to 2^32, 48 bits beyond that.
+   */
+  private nextBelow(range: number): number {
+    const wide = range > 4294967296;
+    const span = wide ? 2 ** 48 : 4294967296;
+    const limit = span - (span % range);
+
+    for (;;) {
+      const value = wide
+        ? this.nextUint32() * 65536 + (this.nextUint32() >>> 16)
+        : this.nextUint32();
+      if (value < limit) {
+        return value % range;
+      }
+    }
+  }
+
+  /**
+   * Get a random float between 0 (inclusive) and 1 (exclusive).
+   */
+  getFloat(): Promise<number> {
+    return Promise.resolve(this.nextFloat());
+  }
+
+  /**
+   * Get a random integer between min and max (inclusive).
+   *
+   * @throws Error if the bounds are not integers, min > max, or the range exceeds 2^48
+   */
+  getInteger(min: number, max: number): Promise<number> {
+    return settle(() => min + this.nextBelow(validateIntegerRange(min, max)));
+  }
+
+  /**
+   * Get a random element from an array.
+   *
+   * @throws Error if the array is empty
+   */
+  async getChoice<T>(array: readonly T[]): Promise<T> {
+    if (array.length === 0) {
+      throw new Error('array must not be empty');
+    }
+
+    const index = await this.getInteger(0, array.length - 1);
+    return array[index]!;
+  }
+
+  /**
+   * Get a random element, with probability proportional to its weight.
+   *
+   * @throws Error if the array is empty, the weights don't match, or all weights are 0
+   */
+  getWeightedChoice<T>(array: readonly T[], weights: readonly number[]): Promise<T> {
+    return settle(() => {
+      const total = validateWeights(array.length, weights);
+      return array[pickWeightedIndex(weights, total, this.nextFloat())]!;
+    });
+  }
+
+  /**
+   * Get `count` distinct elements (partial Fisher-Yates).
+   *
+   * @throws Error if count is negative or larger than the array
+   */
+  sample<T>(array: readonly T[], count: number): Promise<T[]> {
+    return settle(() => {
+      validateSampleSize(array.length, count);
+
+      const result = [...array];
+      for (let i = 0; i < count; i++) {
+        const j = i + this.nextBelow(result.length - i);
+        const temp = result[i]!;
+        result[i] = result[j]!;
+        result[j] = temp;
+      }
+
+      return result.slice(0, count);
+    });
+  }
+
+  /**
+   * Shuffle an array (Fisher-Yates, creates a copy).
+   */
+  shuffle<T>(array: readonly T[]): Promise<T[]> {
+    return this.sample(array, array.length);
+  }
+
+  /**
+   * Get a random boolean.
+   */
+  async getBoolean(): Promise<boolean> {
+    const value = await this.getFloat();
+    return value < 0.5;
+  }
+}
+
+/**
+ * Run a synchronous draw as a promise, turning thrown errors into rejections.
+ */
+function settle<T>(draw: () => T): Promise<T> {
+  try {
+    return Promise.resolve(draw());
+  } catch (error) {
+    return Promise.reject(error as Error);
+  }
+}
+
+/**
+ * Hash a seed string into four 32-bit words (cyrb128).
+ */
+function hashSeed(seed: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
@@ -0,0 +1,49 @@
+/**
+ * Random Source Errors
+ *
+ * Errors raised when replaying a recorded random session.
+ */
+
+import type { RandomDraw, RandomDrawMethod } from './types.js';
+
+/**
+ * Thrown when a replay no longer matches the recorded session:
+ * the code asked for a different kind of draw, at a different call site,
+ * or more draws than were recorded.
+ *
+ * Example:
+ *   try {
+ *     await engine.next();
+ *   } catch (error) {
+ *     if (error instanceof RandomReplayError) {
+ *       console.log(`Diverged at draw ${error.index}: ${error.message}`);
+ *     }
+ *   }
+ */
+export class RandomReplayError extends Error {
+  /** Position of the draw in the log */
+  public readonly index: number;
+
+  /** Recorded draw (null when the log ran out) */
+  public readonly expected: RandomDraw | null;
+
+  /** Call that was made instead */
+  public readonly actual: { label: string; method: RandomDrawMethod; args?: number[] };
+
+  constructor(
+    message: string,
+    index: number,
+    expected: RandomDraw | null,
+    actual: { label: string; method: RandomDrawMethod; args?: number[] }
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    this.index = index;
+    this.expected = expected;
+    this.actual = actual;
+    // Maintains proper stack trace in V8 engines (Chrome, Node)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
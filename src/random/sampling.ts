@@ -0,0 +1,105 @@
+/**
+ * Sampling Helpers
+ *
+ * Argument checks and index math shared by the random sources, so every
+ * source rejects bad input the same way and picks weighted items identically.
+ */
+
+/**
+ * Largest integer range (max - min + 1) the sources can draw from without bias.
+ */
+export const MAX_INTEGER_RANGE = 2 ** 48;
+
+/**
+ * Validate integer bounds.
+ *
+ * @returns Size of the range (max - min + 1)
+ * @throws Error if min or max is not an integer, min > max, or the range is too large
+ */
+export function validateIntegerRange(min: number, max: number): number {
+  if (!Number.isInteger(min) || !Number.isInteger(max)) {
+    throw new Error('min and max must be integers');
+  }
+  if (min > max) {
+    throw new Error('min must be <= max');
+  }
+
+  const range = max - min + 1;
+  if (range > MAX_INTEGER_RANGE) {
+    throw new Error(`range must be <= 2^48, got ${range}`);
+  }
+  return range;
+}
+
+/**
+ * Validate weights for a weighted choice.
+ *
+ * @returns Sum of the weights
+ * @throws Error if the counts differ, a weight is negative or not finite, or all are zero
+ */
+export function validateWeights(itemCount: number, weights: readonly number[]): number {
+  if (itemCount === 0) {
+    throw new Error('array must not be empty');
+  }
+  if (weights.length !== itemCount) {
+    throw new Error(`weights must have one entry per item (${itemCount}), got ${weights.length}`);
+  }
+
+  let total = 0;
+  for (const weight of weights) {
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`weights must be finite and non-negative, got ${weight}`);
+    }
+    total += weight;
+  }
+
+  if (total <= 0) {
+    throw new Error('at least one weight must be greater than 0');
+  }
+  return total;
+}
+
+/**
+ * Find the index a uniform float lands on when weights are laid end to end.
+ * Zero-weight items are never picked.
+ *
+ * @param weights - Validated weights
+ * @param total - Sum of the weights
+ * @param float - Uniform float in [0, 1)
+ */
+export function pickWeightedIndex(weights: readonly number[], total: number, float: number): number {
+  const target = float * total;
+  let cumulative = 0;
+  let lastPositive = -1;
+
+  for (let i = 0; i < weights.length; i++) {
+    const weight = weights[i]!;
+    if (weight === 0) continue;
+
+    cumulative += weight;
+    lastPositive = i;
+    if (target < cumulative) {
+      return i;
+    }
+  }
+
+  // Rounding can leave target just past the final boundary
+  return lastPositive;
+}
+
+/**
+ * Validate a sample size.
+ *
+ * @throws Error if count is negative, not an integer, or larger than the population
+ */
+export function validateSampleSize(length: number, count: number): void {
+  if (!Number.isInteger(count)) {
+    throw new Error('count must be an integer');
+  }
+  if (count > length) {
+    throw new Error('count must be <= array.length');
+  }
+  if (count < 0) {
+    throw new Error('count must be >= 0');
+  }
+}
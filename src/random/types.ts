@@ -0,0 +1,101 @@
+/**
+ * Random Source - Type Definitions
+ *
+ * Every random decision in kwyjibo (which song, which track type, which key
+ * in a random walk) goes through a RandomSource. Swap the source to change
+ * where randomness comes from:
+ *
+ * - QuantumRandom: quantum API with crypto fallback (unpredictable mixes)
+ * - SeededRandom: seeded PRNG (same seed = same mix, for debugging and sharing)
+ * - RecordingRandom / ReplayRandom: log a live session's draws and play them back
+ *
+ * Every method takes an optional call-site label ('track-type', 'key-walk', ...).
+ * Plain sources ignore it; recording and replay use it to pin down divergence.
+ */
+
+/**
+ * A source of random numbers.
+ *
+ * Example:
+ *   function pickSong(songs: Song[], random: RandomSource): Promise<Song> {
+ *     return random.getChoice(songs);
+ *   }
+ */
+export interface RandomSource {
+  /**
+   * Get a random float in [0, 1) synchronously.
+   * For hot paths that cannot await (scoring, key walks).
+   */
+  nextFloat(label?: string): number;
+
+  /** Get a random float in [0, 1) */
+  getFloat(label?: string): Promise<number>;
+
+  /** Get a random integer between min and max (inclusive) */
+  getInteger(min: number, max: number, label?: string): Promise<number>;
+
+  /** Get a random element from a non-empty array */
+  getChoice<T>(array: readonly T[], label?: string): Promise<T>;
+
+  /** Get a random element with probability proportional to its weight */
+  getWeightedChoice<T>(array: readonly T[], weights: readonly number[], label?: string): Promise<T>;
+
+  /** Get `count` distinct elements (sampling without replacement) */
+  sample<T>(array: readonly T[], count: number, label?: string): Promise<T[]>;
+
+  /** Get a shuffled copy of an array */
+  shuffle<T>(array: readonly T[], label?: string): Promise<T[]>;
+
+  /** Get a random boolean */
+  getBoolean(label?: string): Promise<boolean>;
+}
+
+/**
+ * RandomSource method that produced a draw.
+ */
+export type RandomDrawMethod =
+  | 'nextFloat'
+  | 'getFloat'
+  | 'getInteger'
+  | 'getChoice'
+  | 'getWeightedChoice'
+  | 'sample'
+  | 'shuffle'
+  | 'getBoolean';
+
+/**
+ * One recorded random draw.
+ *
+ * Example:
+ *   { label: 'top-candidates', method: 'getChoice', args: [5], value: 3 }
+ */
+export interface RandomDraw {
+  /** Call-site label ('' when the caller gave none) */
+  label: string;
+
+  /** Method that was called */
+  method: RandomDrawMethod;
+
+  /**
+   * Shape of the request, checked on replay: [min, max] for getInteger,
+   * [length] for getChoice, getWeightedChoice and shuffle, [length, count] for sample
+   */
+  args?: number[];
+
+  /**
+   * Result: the float, integer or boolean; the chosen index for getChoice and
+   * getWeightedChoice; the chosen indexes, in order, for sample and shuffle
+   */
+  value: number | boolean | number[];
+}
+
+/**
+ * A recorded session of random draws (JSON-serializable).
+ */
+export interface RandomLog {
+  /** Log format version */
+  version: 1;
+
+  /** Draws in call order */
+  draws: RandomDraw[];
+}